@@ -6,16 +6,31 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/components/AuthProvider";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import RequireRole, { AccessDenied } from "@/components/RequireRole";
 import AdminLayout from "@/components/layout/AdminLayout";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Rikshaws from "./pages/Rikshaws";
 import Customers from "./pages/Customers";
+import CustomerProfile from "./pages/CustomerProfile";
+import CustomerStatement from "./pages/CustomerStatement";
+import Guarantors from "./pages/Guarantors";
+import GuarantorDetail from "./pages/GuarantorDetail";
+import Suppliers from "./pages/Suppliers";
+import SupplierDetail from "./pages/SupplierDetail";
 import Installments from "./pages/Installments";
+import Cheques from "./pages/Cheques";
 import SellRickshaw from "./pages/SellRickshaw"; // Add the new component
+import Reservations from "./pages/Reservations";
+import Registrations from "./pages/Registrations";
 import NotFound from "./pages/NotFound";
 import ReportPage from "./pages/ReportPage";
+import AuditLog from "./pages/AuditLog";
+import VoidedPaymentsReport from "./pages/VoidedPaymentsReport";
+import RepossessionsReport from "./pages/RepossessionsReport";
+import Settings from "./pages/Settings";
+import { ROLE_ACCESS } from "@/lib/roles";
 
 const queryClient = new QueryClient();
 
@@ -34,50 +49,210 @@ const App = () => (
                 <AdminLayout />
               </ProtectedRoute>
             }>
-              <Route index element={<Dashboard/>} />
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Dashboard/>
+                </RequireRole>
+              } />
             </Route>
             <Route path="/rikshaws" element={
               <ProtectedRoute>
                 <AdminLayout />
               </ProtectedRoute>
             }>
-              <Route index element={<Rikshaws />} />
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Rikshaws />
+                </RequireRole>
+              } />
             </Route>
             <Route path="/customers" element={
               <ProtectedRoute>
                 <AdminLayout />
               </ProtectedRoute>
             }>
-              <Route index element={<Customers />} />
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Customers />
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/customers/:id" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <CustomerProfile/>
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/customers/:id/statement" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <CustomerStatement/>
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/guarantors" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Guarantors />
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/guarantors/:id" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <GuarantorDetail />
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/reservations" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Reservations />
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/registrations" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Registrations />
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/suppliers" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.manageSuppliers} fallback={<AccessDenied />}>
+                  <Suppliers />
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/suppliers/:id" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.manageSuppliers} fallback={<AccessDenied />}>
+                  <SupplierDetail />
+                </RequireRole>
+              } />
             </Route>
             <Route path="/installments" element={
               <ProtectedRoute>
                 <AdminLayout />
               </ProtectedRoute>
             }>
-              <Route index element={<Installments/>} />
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Installments/>
+                </RequireRole>
+              } />
             </Route>
             {/* Add the new route */}
+            <Route path="/cheques" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <Cheques />
+                </RequireRole>
+              } />
+            </Route>
             <Route path="/sell-rickshaw" element={
               <ProtectedRoute>
                 <AdminLayout />
               </ProtectedRoute>
             }>
-              <Route index element={<SellRickshaw/>} />
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.sellRikshaw} fallback={<AccessDenied />}>
+                  <SellRickshaw/>
+                </RequireRole>
+              } />
             </Route>
             <Route path="/reports" element={
               <ProtectedRoute>
                 <AdminLayout />
               </ProtectedRoute>
             }>
-              <Route index element={<ReportPage/>} />
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <ReportPage/>
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/reports/voided-payments" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <VoidedPaymentsReport/>
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/reports/repossessions" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewApp} fallback={<AccessDenied />}>
+                  <RepossessionsReport/>
+                </RequireRole>
+              } />
+            </Route>
+            <Route path="/audit" element={
+              <ProtectedRoute>
+                <AdminLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.viewAuditLog} fallback={<AccessDenied />}>
+                  <AuditLog/>
+                </RequireRole>
+              } />
             </Route>
             <Route path="/settings" element={
               <ProtectedRoute>
                 <AdminLayout />
               </ProtectedRoute>
             }>
-              <Route index element={<div>Settings Page - Coming Soon</div>} />
+              <Route index element={
+                <RequireRole roles={ROLE_ACCESS.manageSettings} fallback={<AccessDenied />}>
+                  <Settings/>
+                </RequireRole>
+              } />
             </Route>
             <Route path="*" element={<NotFound />} />
           </Routes>
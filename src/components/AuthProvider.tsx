@@ -2,10 +2,13 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { AppRole, isAppRole } from '@/lib/roles';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  role: AppRole | null; // from profiles.role; null while loading or if the profile is missing
   loading: boolean;
   signOut: () => Promise<void>;
 }
@@ -23,7 +26,9 @@ export const useAuth = () => {
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [roleLoadedFor, setRoleLoadedFor] = useState<string | null>(null); // user id the role belongs to
+  const [authLoading, setAuthLoading] = useState(true);
 
   useEffect(() => {
     // Set up auth state listener
@@ -31,7 +36,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       async (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setAuthLoading(false);
       }
     );
 
@@ -39,12 +44,42 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setAuthLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  // Load the role whenever the signed-in user changes
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      setRoleLoadedFor(null);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          // Without a role every role-gated action stays hidden; tell the user why
+          toast({ title: 'Could not load your role', description: error.message, variant: 'destructive' });
+        }
+        setRole(isAppRole(data?.role) ? data.role : null);
+        setRoleLoadedFor(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   const signOut = async () => {
     await supabase.auth.signOut();
   };
@@ -52,7 +87,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const value = {
     user,
     session,
-    loading,
+    role,
+    loading: authLoading || (!!userId && roleLoadedFor !== userId),
     signOut,
   };
 
@@ -0,0 +1,30 @@
+import { ShieldAlert } from 'lucide-react';
+import { useRole } from '@/hooks/use-role';
+import type { AppRole } from '@/lib/roles';
+
+interface RequireRoleProps {
+  roles: readonly AppRole[];
+  children: React.ReactNode;
+  // Rendered when the user lacks the role. Defaults to nothing, which suits action buttons;
+  // route guards pass <AccessDenied />.
+  fallback?: React.ReactNode;
+}
+
+export const AccessDenied = () => (
+  <div className="flex flex-col items-center justify-center gap-2 py-24 text-center">
+    <ShieldAlert className="h-10 w-10 text-muted-foreground" />
+    <h2 className="text-xl font-semibold">Access denied</h2>
+    <p className="text-muted-foreground">Your role does not allow access to this page. Ask an admin if you need it.</p>
+  </div>
+);
+
+const RequireRole = ({ roles, children, fallback = null }: RequireRoleProps) => {
+  const { loading, hasRole } = useRole();
+
+  if (loading) return null;
+  if (!hasRole(roles)) return <>{fallback}</>;
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ROLE_ACCESS } from '@/lib/roles';
+import {
+  CHEQUE_STATUS_CLASSES,
+  CHEQUE_STATUS_LABELS,
+  NEXT_CHEQUE_STATUSES,
+  bounceCheque,
+  updateChequeStatus,
+} from '@/lib/cheques';
+import type { ChequeStatus, PlanCheque } from '@/types/domain';
+
+const ACTION_LABELS: Partial<Record<ChequeStatus, string>> = {
+  deposited: 'Deposit',
+  cleared: 'Cleared',
+  returned: 'Return',
+};
+
+export const ChequeStatusBadge = ({ status }: { status: ChequeStatus }) => (
+  <span className={cn('px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap', CHEQUE_STATUS_CLASSES[status])}>
+    {CHEQUE_STATUS_LABELS[status]}
+  </span>
+);
+
+// Queries that show cheques or the plan balance, refreshed after any cheque change
+const invalidateChequeQueries = (queryClient: ReturnType<typeof useQueryClient>, planId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['plan-cheques', planId] });
+  queryClient.invalidateQueries({ queryKey: ['cheque-register'] });
+  queryClient.invalidateQueries({ queryKey: ['installment-plan-details', planId] });
+  queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
+};
+
+// Status buttons for one cheque (deposit, clear, return) and the bounce dialog. Managers only.
+const ChequeActions = ({ cheque }: { cheque: PlanCheque }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isBounceOpen, setIsBounceOpen] = useState(false);
+  const [bounceCharges, setBounceCharges] = useState(0);
+  const [bounceReason, setBounceReason] = useState('');
+  const [bouncedOn, setBouncedOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const statusMutation = useMutation({
+    mutationFn: (status: ChequeStatus) => updateChequeStatus(cheque, status, format(new Date(), 'yyyy-MM-dd')),
+    onSuccess: (updated) => {
+      invalidateChequeQueries(queryClient, cheque.installment_plan_id);
+      toast({ title: "Cheque Updated", description: `Cheque ${updated.cheque_number} is now ${CHEQUE_STATUS_LABELS[updated.status].toLowerCase()}.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error updating cheque", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const bounceMutation = useMutation({
+    mutationFn: () => bounceCheque({ chequeId: cheque.id, charges: bounceCharges, reason: bounceReason, bouncedOn }),
+    onSuccess: () => {
+      invalidateChequeQueries(queryClient, cheque.installment_plan_id);
+      setIsBounceOpen(false);
+      setBounceCharges(0);
+      setBounceReason('');
+      toast({
+        title: "Cheque Bounced",
+        description: bounceCharges > 0
+          ? `Rs ${bounceCharges.toLocaleString()} charges added to the plan and the plan is flagged.`
+          : 'The plan is flagged.',
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Error recording bounce", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canBounce = cheque.status === 'held' || cheque.status === 'deposited';
+  const nextStatuses = NEXT_CHEQUE_STATUSES[cheque.status];
+  if (!canBounce && nextStatuses.length === 0) return null;
+
+  return (
+    <RequireRole roles={ROLE_ACCESS.manageCheques}>
+      <div className="flex flex-wrap justify-end gap-1">
+        {nextStatuses.map(status => (
+          <Button
+            key={status}
+            variant="outline"
+            size="sm"
+            disabled={statusMutation.isPending}
+            onClick={() => statusMutation.mutate(status)}
+          >
+            {ACTION_LABELS[status]}
+          </Button>
+        ))}
+        {canBounce && (
+          <Button variant="outline" size="sm" className="text-red-600" onClick={() => setIsBounceOpen(true)}>
+            Bounced
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isBounceOpen} onOpenChange={setIsBounceOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Bounced Cheque</DialogTitle>
+            <DialogDescription>
+              {cheque.bank_name} cheque {cheque.cheque_number}
+              {cheque.amount ? ` for Rs ${cheque.amount.toLocaleString()}` : ''}. The charges are added to the plan and collected like late fees.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bounced-on">Bounced On</Label>
+              <Input id="bounced-on" type="date" value={bouncedOn} onChange={(e) => setBouncedOn(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bounce-charges">Bounce Charges (Rs)</Label>
+              <Input
+                id="bounce-charges"
+                type="number"
+                min={0}
+                value={bounceCharges || ''}
+                onChange={(e) => setBounceCharges(Math.max(0, parseFloat(e.target.value) || 0))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bounce-reason">Reason</Label>
+              <Textarea
+                id="bounce-reason"
+                placeholder="e.g. Insufficient funds"
+                value={bounceReason}
+                onChange={(e) => setBounceReason(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsBounceOpen(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={() => bounceMutation.mutate()} disabled={bounceMutation.isPending || !bouncedOn}>
+              {bounceMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record Bounce
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </RequireRole>
+  );
+};
+
+export default ChequeActions;
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import RequireRole from '@/components/RequireRole';
+import ChequeActions, { ChequeStatusBadge } from '@/components/cheques/ChequeActions';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, Plus, Trash2 } from 'lucide-react';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { CHEQUE_KIND_LABELS } from '@/lib/cheques';
+import type { ChequeKind, InstallmentPlan, PlanCheque } from '@/types/domain';
+
+interface PlanChequesProps {
+  plan: Pick<InstallmentPlan, 'id' | 'cheque_bounced_at' | 'bounce_charges'>;
+}
+
+const EMPTY_CHEQUE = { kind: 'post_dated' as ChequeKind, bank_name: '', cheque_number: '', amount: 0, cheque_date: '' };
+
+// Cheque register of one plan, shown in the plan detail modal: list, add, status changes and
+// the bounced-cheque flag.
+const PlanCheques = ({ plan }: PlanChequesProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [newCheque, setNewCheque] = useState(EMPTY_CHEQUE);
+
+  const { data: cheques = [], isLoading } = useQuery<PlanCheque[]>({
+    queryKey: ['plan-cheques', plan.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('plan_cheques')
+        .select('*')
+        .eq('installment_plan_id', plan.id)
+        .order('cheque_date', { ascending: true, nullsFirst: true });
+      if (error) throw error;
+      return data as PlanCheque[];
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['plan-cheques', plan.id] });
+    queryClient.invalidateQueries({ queryKey: ['cheque-register'] });
+  };
+
+  const addChequeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('plan_cheques').insert({
+        installment_plan_id: plan.id,
+        kind: newCheque.kind,
+        bank_name: newCheque.bank_name.trim(),
+        cheque_number: newCheque.cheque_number.trim(),
+        amount: newCheque.amount > 0 ? newCheque.amount : null,
+        cheque_date: newCheque.cheque_date || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewCheque(EMPTY_CHEQUE);
+      setShowForm(false);
+      toast({ title: "Cheque Added" });
+    },
+    onError: (error) => {
+      toast({ title: "Error adding cheque", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteChequeMutation = useMutation({
+    mutationFn: async (chequeId: string) => {
+      const { error } = await supabase.from('plan_cheques').delete().eq('id', chequeId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Error deleting cheque", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearFlagMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('installment_plans').update({ cheque_bounced_at: null }).eq('id', plan.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['installment-plan-details', plan.id] });
+      queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
+    },
+    onError: (error) => {
+      toast({ title: "Error clearing flag", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!newCheque.bank_name.trim() || !newCheque.cheque_number.trim()) {
+      toast({ title: "Error", description: "Bank and cheque number are required.", variant: "destructive" });
+      return;
+    }
+    if (newCheque.kind === 'post_dated' && (!newCheque.cheque_date || newCheque.amount <= 0)) {
+      toast({ title: "Error", description: "A post-dated cheque needs an amount and a date.", variant: "destructive" });
+      return;
+    }
+    addChequeMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      {plan.cheque_bounced_at && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            A cheque on this plan bounced on {format(parseISO(plan.cheque_bounced_at), 'dd MMM yyyy')}.
+            {plan.bounce_charges > 0 && ` Bounce charges so far: Rs ${plan.bounce_charges.toLocaleString()}.`}
+          </span>
+          <RequireRole roles={ROLE_ACCESS.editPlans}>
+            <Button variant="outline" size="sm" onClick={() => clearFlagMutation.mutate()} disabled={clearFlagMutation.isPending}>
+              Clear Flag
+            </Button>
+          </RequireRole>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading cheques...</p>
+      ) : cheques.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No cheques recorded for this plan.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Bank</TableHead>
+                <TableHead>Cheque No.</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Amount (Rs)</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cheques.map(cheque => (
+                <TableRow key={cheque.id}>
+                  <TableCell>{CHEQUE_KIND_LABELS[cheque.kind]}</TableCell>
+                  <TableCell>{cheque.bank_name}</TableCell>
+                  <TableCell className="font-mono">{cheque.cheque_number}</TableCell>
+                  <TableCell>{cheque.cheque_date ? format(parseISO(cheque.cheque_date), 'dd MMM yyyy') : '-'}</TableCell>
+                  <TableCell className="text-right">{cheque.amount ? cheque.amount.toLocaleString() : '-'}</TableCell>
+                  <TableCell>
+                    <ChequeStatusBadge status={cheque.status} />
+                    {cheque.status === 'bounced' && (
+                      <span className="block text-xs text-muted-foreground mt-1">
+                        {cheque.bounced_on && format(parseISO(cheque.bounced_on), 'dd MMM yyyy')}
+                        {cheque.bounce_charges > 0 && ` · Rs ${cheque.bounce_charges.toLocaleString()} charges`}
+                        {cheque.bounce_reason && ` · ${cheque.bounce_reason}`}
+                      </span>
+                    )}
+                    {cheque.remarks && <span className="block text-xs text-muted-foreground mt-1">{cheque.remarks}</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <ChequeActions cheque={cheque} />
+                      {cheque.status === 'held' && (
+                        <RequireRole roles={ROLE_ACCESS.manageCheques}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label="Delete cheque"
+                            onClick={() => deleteChequeMutation.mutate(cheque.id)}
+                            disabled={deleteChequeMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </RequireRole>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <RequireRole roles={ROLE_ACCESS.manageCheques}>
+        {showForm ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 rounded-lg border p-3 bg-gray-50">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={newCheque.kind} onValueChange={(value) => setNewCheque(prev => ({ ...prev, kind: value as ChequeKind }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="post_dated">{CHEQUE_KIND_LABELS.post_dated}</SelectItem>
+                  <SelectItem value="security">{CHEQUE_KIND_LABELS.security}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cheque-bank">Bank *</Label>
+              <Input id="cheque-bank" value={newCheque.bank_name} onChange={(e) => setNewCheque(prev => ({ ...prev, bank_name: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cheque-number">Cheque No. *</Label>
+              <Input id="cheque-number" value={newCheque.cheque_number} onChange={(e) => setNewCheque(prev => ({ ...prev, cheque_number: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cheque-amount">Amount (Rs){newCheque.kind === 'post_dated' && ' *'}</Label>
+              <Input
+                id="cheque-amount"
+                type="number"
+                value={newCheque.amount || ''}
+                onChange={(e) => setNewCheque(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cheque-date">Cheque Date{newCheque.kind === 'post_dated' && ' *'}</Label>
+              <Input id="cheque-date" type="date" value={newCheque.cheque_date} onChange={(e) => setNewCheque(prev => ({ ...prev, cheque_date: e.target.value }))} />
+            </div>
+            <div className="flex items-end justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>Cancel</Button>
+              <Button size="sm" onClick={handleAdd} disabled={addChequeMutation.isPending}>
+                {addChequeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add Cheque
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-1" /> Add Cheque
+          </Button>
+        )}
+      </RequireRole>
+    </div>
+  );
+};
+
+export default PlanCheques;
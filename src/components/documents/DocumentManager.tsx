@@ -0,0 +1,228 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { Download, ExternalLink, FileText, Loader2, Paperclip, Trash2, Upload } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ROLE_ACCESS } from '@/lib/roles';
+import {
+  DOCUMENT_TYPE_LABELS,
+  DocumentOwner,
+  deleteDocument,
+  fetchDocumentUrls,
+  fetchDocuments,
+  isImageDocument,
+  uploadDocument,
+} from '@/lib/documents';
+import type { DocumentRecord, DocumentType } from '@/types/domain';
+
+interface DocumentManagerProps {
+  owner: DocumentOwner;
+  // Types offered in the upload picker, in order; the first is preselected
+  documentTypes?: DocumentType[];
+}
+
+const ALL_DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPE_LABELS) as DocumentType[];
+
+// Attached documents of a customer, plan or rikshaw: thumbnail grid, upload, delete and a viewer.
+const DocumentManager = ({ owner, documentTypes = ALL_DOCUMENT_TYPES }: DocumentManagerProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [documentType, setDocumentType] = useState<DocumentType>(documentTypes[0]);
+  const [viewing, setViewing] = useState<DocumentRecord | null>(null);
+  const [documentToDelete, setDocumentToDelete] = useState<DocumentRecord | null>(null);
+
+  const documentsKey = ['documents', owner.column, owner.id];
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: documentsKey,
+    queryFn: () => fetchDocuments(owner),
+  });
+
+  const paths = documents.map(document => document.file_path);
+  const { data: urls = {} } = useQuery({
+    queryKey: ['document-urls', paths],
+    queryFn: () => fetchDocumentUrls(paths),
+    enabled: paths.length > 0,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadDocument(owner, documentType, file),
+    onSuccess: (document) => {
+      queryClient.invalidateQueries({ queryKey: documentsKey });
+      toast({ title: "Document Uploaded", description: `${DOCUMENT_TYPE_LABELS[document.document_type]} attached.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error uploading document", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteDocument,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: documentsKey });
+      setDocumentToDelete(null);
+      setViewing(null);
+      toast({ title: "Document Deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Error deleting document", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChosen = (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+      toast({ title: "Error", description: "Only images and PDF files can be attached.", variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const viewingUrl = viewing ? urls[viewing.file_path] : undefined;
+
+  return (
+    <div className="space-y-3">
+      <RequireRole roles={ROLE_ACCESS.uploadDocuments}>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Document Type</Label>
+            <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentType)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {documentTypes.map(type => (
+                  <SelectItem key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            className="hidden"
+            onChange={(e) => handleFileChosen(e.target.files?.[0])}
+          />
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+            {uploadMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Upload
+          </Button>
+        </div>
+      </RequireRole>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading documents...</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Paperclip className="h-4 w-4" /> No documents attached.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+          {documents.map(document => {
+            const url = urls[document.file_path];
+            return (
+              <button
+                key={document.id}
+                type="button"
+                className="group rounded-lg border bg-white text-left overflow-hidden hover:border-blue-400 hover:shadow-sm"
+                onClick={() => setViewing(document)}
+              >
+                <div className="h-24 bg-gray-50 flex items-center justify-center overflow-hidden">
+                  {isImageDocument(document) && url ? (
+                    <img src={url} alt={document.file_name} className="h-full w-full object-cover" loading="lazy" />
+                  ) : (
+                    <FileText className="h-10 w-10 text-gray-400" />
+                  )}
+                </div>
+                <div className="p-2">
+                  <p className="text-xs font-semibold text-gray-800">{DOCUMENT_TYPE_LABELS[document.document_type]}</p>
+                  <p className="text-xs text-muted-foreground truncate">{document.file_name}</p>
+                  <p className="text-[11px] text-muted-foreground">{format(parseISO(document.created_at), 'dd MMM yyyy')}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{DOCUMENT_TYPE_LABELS[viewing.document_type]}</DialogTitle>
+                <DialogDescription>
+                  {viewing.file_name} · Uploaded {format(parseISO(viewing.created_at), 'dd MMM yyyy, hh:mm a')}
+                  {viewing.created_by_email && ` by ${viewing.created_by_email}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex justify-center bg-gray-50 rounded-md min-h-[300px]">
+                {!viewingUrl ? (
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground self-center" />
+                ) : isImageDocument(viewing) ? (
+                  <img src={viewingUrl} alt={viewing.file_name} className="max-h-[70vh] object-contain" />
+                ) : (
+                  <iframe src={viewingUrl} title={viewing.file_name} className="w-full h-[70vh] rounded-md" />
+                )}
+              </div>
+              <div className="flex justify-between gap-2">
+                <RequireRole roles={ROLE_ACCESS.deleteDocuments}>
+                  <Button variant="destructive" onClick={() => setDocumentToDelete(viewing)}>
+                    <Trash2 className="h-4 w-4 mr-2" /> Delete
+                  </Button>
+                </RequireRole>
+                {viewingUrl && (
+                  <div className="flex gap-2 ml-auto">
+                    <Button variant="outline" asChild>
+                      <a href={viewingUrl} target="_blank" rel="noreferrer"><ExternalLink className="h-4 w-4 mr-2" />Open</a>
+                    </Button>
+                    <Button variant="outline" asChild>
+                      <a href={viewingUrl} download={viewing.file_name}><Download className="h-4 w-4 mr-2" />Download</a>
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!documentToDelete} onOpenChange={(open) => !open && setDocumentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete document?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {documentToDelete && `${DOCUMENT_TYPE_LABELS[documentToDelete.document_type]} (${documentToDelete.file_name}) will be removed permanently.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={deleteMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (documentToDelete) deleteMutation.mutate(documentToDelete);
+              }}
+            >
+              {deleteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default DocumentManager;
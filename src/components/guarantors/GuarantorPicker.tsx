@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { AlertTriangle, Loader2, Plus, Search, ShieldCheck, X } from 'lucide-react';
+import { fetchGuarantorExposure } from '@/lib/guarantors';
+import type { Guarantor } from '@/types/domain';
+
+const CNIC_PATTERN = /^\d{5}-\d{7}-\d{1}$/;
+
+interface GuarantorPickerProps {
+  value: Guarantor[];
+  onChange: (guarantors: Guarantor[]) => void;
+  newExposure: number; // what this sale adds to each guarantor's exposure (amount financed)
+}
+
+// Guarantor selection on the sale form: search by CNIC or name, add a new guarantor, and show each
+// selected guarantor's current exposure with a warning above the limit set in Settings.
+const GuarantorPicker = ({ value, onChange, newExposure }: GuarantorPickerProps) => {
+  const { toast } = useToast();
+  const { settings, lateFeePolicy } = useSettings();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showNewForm, setShowNewForm] = useState(false);
+  const [newGuarantor, setNewGuarantor] = useState({ name: '', cnic: '', phone: '', address: '' });
+
+  const { data: matches = [], isFetching: searching } = useQuery<Guarantor[]>({
+    queryKey: ['guarantor-search', searchTerm],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('guarantors')
+        .select('*')
+        .or(`cnic.ilike.%${searchTerm}%,name.ilike.%${searchTerm}%`)
+        .order('name')
+        .limit(8);
+      if (error) throw error;
+      return data as Guarantor[];
+    },
+    enabled: searchTerm.trim().length >= 3,
+  });
+
+  const selectedIds = value.map(guarantor => guarantor.id);
+  const { data: exposure = {}, isLoading: loadingExposure } = useQuery({
+    queryKey: ['guarantor-exposure', selectedIds, lateFeePolicy],
+    queryFn: () => fetchGuarantorExposure(selectedIds, lateFeePolicy),
+    enabled: selectedIds.length > 0,
+  });
+
+  const createGuarantorMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from('guarantors')
+        .insert({
+          name: newGuarantor.name.trim(),
+          cnic: newGuarantor.cnic.trim(),
+          phone: newGuarantor.phone.trim() || null,
+          address: newGuarantor.address.trim() || null,
+        })
+        .select()
+        .single();
+      if (error) {
+        if (error.code === '23505') throw new Error('A guarantor with this CNIC already exists. Search for them instead.');
+        throw error;
+      }
+      return data as Guarantor;
+    },
+    onSuccess: (guarantor) => {
+      onChange([...value, guarantor]);
+      setNewGuarantor({ name: '', cnic: '', phone: '', address: '' });
+      setShowNewForm(false);
+    },
+    onError: (error) => {
+      toast({ title: "Error adding guarantor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSelect = (guarantor: Guarantor) => {
+    if (!selectedIds.includes(guarantor.id)) onChange([...value, guarantor]);
+    setSearchTerm('');
+  };
+
+  const handleCreate = () => {
+    if (!newGuarantor.name.trim()) {
+      toast({ title: "Error", description: "Guarantor name is required", variant: "destructive" });
+      return;
+    }
+    if (!CNIC_PATTERN.test(newGuarantor.cnic.trim())) {
+      toast({ title: "Error", description: "CNIC must be in format: xxxxx-xxxxxxx-x", variant: "destructive" });
+      return;
+    }
+    createGuarantorMutation.mutate();
+  };
+
+  const limit = settings.guarantor_exposure_limit;
+
+  return (
+    <div className="space-y-3">
+      <Label htmlFor="guarantor-search" className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4" /> Guarantors
+      </Label>
+      <p className="text-xs text-muted-foreground">
+        Leave empty to use the guarantor on the customer record. A plan can have more than one guarantor.
+      </p>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          id="guarantor-search"
+          placeholder="Search guarantor by CNIC or name..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-9"
+        />
+        {searchTerm.trim().length >= 3 && (
+          <div className="absolute z-20 w-full bg-white border border-gray-200 rounded-lg shadow-xl max-h-60 overflow-y-auto mt-1">
+            {searching ? (
+              <div className="p-3 text-sm text-muted-foreground">Searching...</div>
+            ) : matches.length === 0 ? (
+              <div className="p-3 text-sm text-muted-foreground">No matching guarantors. Add a new one below.</div>
+            ) : (
+              matches.map(guarantor => (
+                <div
+                  key={guarantor.id}
+                  className="p-3 cursor-pointer hover:bg-blue-50 border-b last:border-b-0"
+                  onClick={() => handleSelect(guarantor)}
+                >
+                  <span className="font-medium text-gray-900">{guarantor.name} ({guarantor.cnic})</span>
+                  <span className="block text-xs text-gray-500">Phone: {guarantor.phone || 'N/A'}</span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      {value.length > 0 && (
+        <div className="space-y-2">
+          {value.map(guarantor => {
+            const current = exposure[guarantor.id];
+            const projected = (current?.outstanding ?? 0) + newExposure;
+            const overLimit = limit > 0 && projected > limit;
+            return (
+              <div key={guarantor.id} className={`rounded-lg border p-3 text-sm ${overLimit ? 'border-red-300 bg-red-50' : 'bg-white'}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <Link to={`/guarantors/${guarantor.id}`} target="_blank" className="font-medium hover:underline">
+                      {guarantor.name}
+                    </Link>
+                    <span className="text-muted-foreground"> · {guarantor.cnic}</span>
+                    {loadingExposure || !current ? (
+                      <p className="text-xs text-muted-foreground">Checking exposure...</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Backs {current.plans.length} plan(s) · Outstanding Rs {current.outstanding.toLocaleString()}
+                        {current.overdue > 0 && <span className="text-red-600"> · Overdue Rs {current.overdue.toLocaleString()} on {current.overduePlans} plan(s)</span>}
+                      </p>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="sm" aria-label={`Remove ${guarantor.name}`} onClick={() => onChange(value.filter(g => g.id !== guarantor.id))}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {overLimit && current && (
+                  <p className="mt-2 flex items-center gap-2 text-red-700 font-medium">
+                    <AlertTriangle className="h-4 w-4" />
+                    With this sale the exposure becomes Rs {projected.toLocaleString()}, above the limit of Rs {limit.toLocaleString()}.
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showNewForm ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 rounded-lg border p-3 bg-gray-50">
+          <div className="space-y-1">
+            <Label htmlFor="new-guarantor-name">Name *</Label>
+            <Input id="new-guarantor-name" value={newGuarantor.name} onChange={(e) => setNewGuarantor(prev => ({ ...prev, name: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-guarantor-cnic">CNIC *</Label>
+            <Input id="new-guarantor-cnic" placeholder="xxxxx-xxxxxxx-x" value={newGuarantor.cnic} onChange={(e) => setNewGuarantor(prev => ({ ...prev, cnic: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-guarantor-phone">Phone</Label>
+            <Input id="new-guarantor-phone" value={newGuarantor.phone} onChange={(e) => setNewGuarantor(prev => ({ ...prev, phone: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-guarantor-address">Address</Label>
+            <Input id="new-guarantor-address" value={newGuarantor.address} onChange={(e) => setNewGuarantor(prev => ({ ...prev, address: e.target.value }))} />
+          </div>
+          <div className="md:col-span-2 flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowNewForm(false)}>Cancel</Button>
+            <Button size="sm" onClick={handleCreate} disabled={createGuarantorMutation.isPending}>
+              {createGuarantorMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Guarantor
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setShowNewForm(true)}>
+          <Plus className="h-4 w-4 mr-1" /> New Guarantor
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GuarantorPicker;
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { FileSignature, Loader2 } from 'lucide-react';
+import { agreementGuarantors, agreementValues } from '@/lib/agreement';
+import { fetchPlanGuarantors } from '@/lib/guarantors';
+import { buildAgreementPdf, printPdf, savePdf } from '@/lib/pdf';
+import type { InstallmentPlan } from '@/types/domain';
+
+interface AgreementActionsProps {
+  planId: string;
+  size?: 'sm' | 'default';
+}
+
+// Print / download the hire-purchase agreement of a plan. Everything is re-read at click time,
+// so a reprint always reflects the current template and guarantors.
+const AgreementActions = ({ planId, size = 'default' }: AgreementActionsProps) => {
+  const { toast } = useToast();
+  const { settings, lateFeePolicy, agreementTemplate } = useSettings();
+  const [busy, setBusy] = useState<'print' | 'save' | null>(null);
+
+  const handleAgreement = async (mode: 'print' | 'save') => {
+    setBusy(mode);
+    try {
+      const { data, error } = await supabase
+        .from('installment_plans')
+        .select('*, customers(*), rikshaws(*)')
+        .eq('id', planId)
+        .single();
+      if (error) throw error;
+      const plan = data as InstallmentPlan;
+
+      const guarantors = agreementGuarantors(plan, await fetchPlanGuarantors(planId));
+      const doc = await buildAgreementPdf({
+        settings,
+        template: agreementTemplate,
+        plan,
+        guarantors,
+        values: agreementValues(plan, guarantors, settings, lateFeePolicy),
+      });
+
+      if (mode === 'print') printPdf(doc);
+      else savePdf(doc, `agreement-${(plan.customers?.name ?? planId).replace(/\s+/g, '-').toLowerCase()}`);
+    } catch (error) {
+      toast({ title: "Error generating agreement", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size={size} onClick={() => handleAgreement('save')} disabled={!!busy}>
+        {busy === 'save' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSignature className="h-4 w-4 mr-2" />}
+        Agreement PDF
+      </Button>
+      <Button variant="outline" size={size} onClick={() => handleAgreement('print')} disabled={!!busy}>
+        {busy === 'print' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSignature className="h-4 w-4 mr-2" />}
+        Print Agreement
+      </Button>
+    </>
+  );
+};
+
+export default AgreementActions;
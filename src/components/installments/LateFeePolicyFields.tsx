@@ -0,0 +1,76 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { LateFeePolicy, LateFeeType } from '@/lib/lateFees';
+
+interface LateFeePolicyFieldsProps {
+  value: LateFeePolicy;
+  onChange: (policy: LateFeePolicy) => void;
+  idPrefix: string; // keeps input ids unique when the fields appear twice on a page
+}
+
+// Inputs for one late fee policy; used for the global policy in Settings and per-plan overrides
+const LateFeePolicyFields = ({ value, onChange, idPrefix }: LateFeePolicyFieldsProps) => {
+  const update = (changes: Partial<LateFeePolicy>) => onChange({ ...value, ...changes });
+  const toNumber = (raw: string) => Math.max(0, parseFloat(raw) || 0);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-grace-days`}>Grace Days</Label>
+        <Input
+          id={`${idPrefix}-grace-days`}
+          type="number"
+          min={0}
+          value={value.grace_days}
+          onChange={(e) => update({ grace_days: Math.floor(toNumber(e.target.value)) })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-penalty-type`}>Penalty Type</Label>
+        <Select value={value.penalty_type} onValueChange={(type: LateFeeType) => update({ penalty_type: type })}>
+          <SelectTrigger id={`${idPrefix}-penalty-type`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="flat">Flat (Rs)</SelectItem>
+            <SelectItem value="percentage">% of Installment</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-penalty-value`}>{value.penalty_type === 'percentage' ? 'Penalty (%)' : 'Penalty (Rs)'}</Label>
+        <Input
+          id={`${idPrefix}-penalty-value`}
+          type="number"
+          min={0}
+          value={value.penalty_value}
+          onChange={(e) => update({ penalty_value: toNumber(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-per-day`}>Per Day (Rs)</Label>
+        <Input
+          id={`${idPrefix}-per-day`}
+          type="number"
+          min={0}
+          value={value.per_day_amount}
+          onChange={(e) => update({ per_day_amount: toNumber(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-cap`}>Cap per Installment (Rs)</Label>
+        <Input
+          id={`${idPrefix}-cap`}
+          type="number"
+          min={0}
+          placeholder="No cap"
+          value={value.cap ?? ''}
+          onChange={(e) => update({ cap: e.target.value === '' ? null : toNumber(e.target.value) || null })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LateFeePolicyFields;
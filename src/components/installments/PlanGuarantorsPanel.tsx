@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { Loader2, Search, X } from 'lucide-react';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { fetchGuarantorExposure, fetchPlanGuarantors, linkPlanGuarantor, unlinkPlanGuarantor } from '@/lib/guarantors';
+import type { Guarantor } from '@/types/domain';
+
+// Guarantors linked to the plan (plan_guarantors), each with their exposure across every plan they
+// back. Admins and managers can link another guarantor or unlink one.
+const PlanGuarantorsPanel = ({ planId }: { planId: string }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { lateFeePolicy } = useSettings();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { data: guarantors = [], isLoading } = useQuery<Guarantor[]>({
+    queryKey: ['plan-guarantors', planId],
+    queryFn: () => fetchPlanGuarantors(planId),
+  });
+
+  const guarantorIds = guarantors.map(guarantor => guarantor.id);
+  const { data: exposure = {}, isLoading: loadingExposure } = useQuery({
+    queryKey: ['guarantor-exposure', guarantorIds, lateFeePolicy],
+    queryFn: () => fetchGuarantorExposure(guarantorIds, lateFeePolicy),
+    enabled: guarantorIds.length > 0,
+  });
+
+  const { data: matches = [], isFetching: searching } = useQuery<Guarantor[]>({
+    queryKey: ['guarantor-search', searchTerm],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('guarantors')
+        .select('*')
+        .or(`cnic.ilike.%${searchTerm}%,name.ilike.%${searchTerm}%`)
+        .order('name')
+        .limit(8);
+      if (error) throw error;
+      return data as Guarantor[];
+    },
+    enabled: searchTerm.trim().length >= 3,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['plan-guarantors', planId] });
+    queryClient.invalidateQueries({ queryKey: ['guarantor-exposure'] });
+    queryClient.invalidateQueries({ queryKey: ['guarantors'] });
+  };
+
+  const linkMutation = useMutation({
+    mutationFn: (guarantor: Guarantor) => linkPlanGuarantor(planId, guarantor.id),
+    onSuccess: (_, guarantor) => {
+      invalidate();
+      setSearchTerm('');
+      toast({ title: "Guarantor linked", description: `${guarantor.name} now backs this plan.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error linking guarantor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (guarantor: Guarantor) => unlinkPlanGuarantor(planId, guarantor.id),
+    onSuccess: (_, guarantor) => {
+      invalidate();
+      toast({ title: "Guarantor unlinked", description: `${guarantor.name} no longer backs this plan.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error unlinking guarantor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {guarantors.length === 0 ? (
+        <p className="text-muted-foreground">No guarantors linked to this plan.</p>
+      ) : (
+        guarantors.map(guarantor => {
+          const current = exposure[guarantor.id];
+          return (
+            <div key={guarantor.id} className="flex items-start justify-between gap-2 rounded-lg border p-3">
+              <div className="space-y-1">
+                <Link to={`/guarantors/${guarantor.id}`} target="_blank" className="font-medium hover:underline">
+                  {guarantor.name}
+                </Link>
+                <p className="text-muted-foreground">
+                  CNIC {guarantor.cnic} · {guarantor.phone || 'No phone'} · {guarantor.address || 'No address'}
+                </p>
+                {loadingExposure || !current ? (
+                  <p className="text-xs text-muted-foreground">Checking exposure...</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Backs {current.plans.length} plan(s) · Outstanding Rs {current.outstanding.toLocaleString()}
+                    {current.overdue > 0 && <span className="text-red-600"> · Overdue Rs {current.overdue.toLocaleString()} on {current.overduePlans} plan(s)</span>}
+                  </p>
+                )}
+              </div>
+              <RequireRole roles={ROLE_ACCESS.linkGuarantors}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Unlink ${guarantor.name}`}
+                  disabled={unlinkMutation.isPending}
+                  onClick={() => unlinkMutation.mutate(guarantor)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </RequireRole>
+            </div>
+          );
+        })
+      )}
+
+      <RequireRole roles={ROLE_ACCESS.linkGuarantors}>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            aria-label="Link a guarantor"
+            placeholder="Link a guarantor by CNIC or name..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9"
+          />
+          {searchTerm.trim().length >= 3 && (
+            <div className="absolute z-20 w-full bg-white border border-gray-200 rounded-lg shadow-xl max-h-60 overflow-y-auto mt-1">
+              {searching ? (
+                <div className="p-3 text-muted-foreground">Searching...</div>
+              ) : matches.length === 0 ? (
+                <div className="p-3 text-muted-foreground">No matching guarantors.</div>
+              ) : (
+                matches
+                  .filter(guarantor => !guarantorIds.includes(guarantor.id))
+                  .map(guarantor => (
+                    <div
+                      key={guarantor.id}
+                      className="p-3 cursor-pointer hover:bg-blue-50 border-b last:border-b-0"
+                      onClick={() => linkMutation.mutate(guarantor)}
+                    >
+                      <span className="font-medium text-gray-900">{guarantor.name} ({guarantor.cnic})</span>
+                      <span className="block text-xs text-gray-500">Phone: {guarantor.phone || 'N/A'}</span>
+                    </div>
+                  ))
+              )}
+            </div>
+          )}
+        </div>
+      </RequireRole>
+    </div>
+  );
+};
+
+export default PlanGuarantorsPanel;
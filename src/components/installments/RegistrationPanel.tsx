@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { FileCheck2, Loader2, Pencil, Printer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { buildNocLetterPdf, printPdf } from '@/lib/pdf';
+import {
+  issueNoc,
+  REGISTRATION_BOOK_LOCATION_LABELS,
+  REGISTRATION_FEE_PAID_BY_LABELS,
+  REGISTRATION_STATUS_CLASSES,
+  REGISTRATION_STATUS_LABELS,
+  REGISTRATION_STATUSES,
+  registrationPendingDays,
+  RegistrationChanges,
+  updateRegistration,
+} from '@/lib/registrations';
+import type {
+  InstallmentPlan,
+  Registration,
+  RegistrationBookLocation,
+  RegistrationFeePaidBy,
+  RegistrationStatus,
+} from '@/types/domain';
+
+interface RegistrationPanelProps {
+  plan: InstallmentPlan;
+  completed: boolean; // nothing left to pay on the plan
+}
+
+const displayDate = (date: string | null) => (date ? format(parseISO(date), 'dd MMM yyyy') : '-');
+
+// Select placeholder for optional columns
+const NONE = 'none';
+
+// Excise registration of the plan's unit, shown in the plan detail modal: progress of the file,
+// fee, where the registration book is, and the NOC once the plan is complete.
+const RegistrationPanel = ({ plan, completed }: RegistrationPanelProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { settings } = useSettings();
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [form, setForm] = useState<RegistrationChanges | null>(null);
+  const [showNocDialog, setShowNocDialog] = useState(false);
+  const [nocDate, setNocDate] = useState('');
+
+  const { data: registration = null, isLoading } = useQuery<Registration | null>({
+    queryKey: ['registration', plan.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('registrations')
+        .select('*')
+        .eq('installment_plan_id', plan.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as Registration | null;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['registration', plan.id] });
+    queryClient.invalidateQueries({ queryKey: ['registrations'] });
+    queryClient.invalidateQueries({ queryKey: ['rikshaws'] });
+    queryClient.invalidateQueries({ queryKey: ['rikshaw-events', plan.rikshaw_id] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (changes: RegistrationChanges) => updateRegistration(registration!.id, changes),
+    onSuccess: () => {
+      invalidate();
+      setShowEditDialog(false);
+      toast({ title: "Registration Updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Error updating registration", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const nocMutation = useMutation({
+    mutationFn: () => issueNoc(registration!.id, nocDate),
+    onSuccess: async (issued) => {
+      invalidate();
+      setShowNocDialog(false);
+      toast({ title: "NOC Issued", description: `${issued.noc_number} issued; the registration book is with the customer.` });
+      await printNoc(issued);
+    },
+    onError: (error) => {
+      toast({ title: "Error issuing NOC", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const printNoc = async (issued: Registration) => {
+    try {
+      printPdf(await buildNocLetterPdf({ settings, plan, registration: issued }));
+    } catch (error) {
+      toast({ title: "NOC Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const openEditDialog = () => {
+    if (!registration) return;
+    setForm({
+      status: registration.status,
+      applied_on: registration.applied_on,
+      received_on: registration.received_on,
+      plate_issued_on: registration.plate_issued_on,
+      registration_number: registration.registration_number,
+      fee_amount: registration.fee_amount,
+      fee_paid_by: registration.fee_paid_by,
+      fee_paid_on: registration.fee_paid_on,
+      book_location: registration.book_location,
+      notes: registration.notes,
+    });
+    setShowEditDialog(true);
+  };
+
+  const update = (changes: Partial<RegistrationChanges>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = () => {
+    if (!form) return;
+    const step = REGISTRATION_STATUSES.indexOf(form.status);
+    // Each step reached needs its date
+    const missing = [
+      step >= 1 && !form.applied_on && 'the date applied',
+      step >= 2 && !form.received_on && 'the date the book was received',
+      step >= 3 && !form.plate_issued_on && 'the date the plate was issued',
+      step >= 3 && !form.registration_number?.trim() && 'the registration number',
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      toast({ title: "Error", description: `Please enter ${missing.join(', ')}.`, variant: "destructive" });
+      return;
+    }
+    if (form.fee_amount > 0 && !form.fee_paid_by) {
+      toast({ title: "Error", description: "Please choose who paid the registration fee.", variant: "destructive" });
+      return;
+    }
+    if (form.book_location === 'customer' && !completed) {
+      toast({ title: "Error", description: "The registration book stays with the showroom until the plan is complete.", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({ ...form, registration_number: form.registration_number?.trim() || null, notes: form.notes?.trim() || null });
+  };
+
+  const openNocDialog = () => {
+    setNocDate(format(new Date(), 'yyyy-MM-dd'));
+    setShowNocDialog(true);
+  };
+
+  if (isLoading) return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+
+  if (!registration) {
+    return <p className="text-sm text-muted-foreground">No registration record for this plan.</p>;
+  }
+
+  const pendingDays = registrationPendingDays(registration, plan.agreement_date);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", REGISTRATION_STATUS_CLASSES[registration.status])}>
+            {REGISTRATION_STATUS_LABELS[registration.status]}
+          </span>
+          {pendingDays !== null && <span className="text-muted-foreground">{pendingDays} days since sale</span>}
+        </div>
+        <RequireRole roles={ROLE_ACCESS.manageRegistrations}>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={openEditDialog}>
+              <Pencil className="h-4 w-4 mr-1" /> Update
+            </Button>
+            {completed && !registration.noc_number && (
+              <Button size="sm" onClick={openNocDialog}>
+                <FileCheck2 className="h-4 w-4 mr-1" /> Issue NOC
+              </Button>
+            )}
+          </div>
+        </RequireRole>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+        <div><span className="text-muted-foreground">Registration No:</span> {registration.registration_number || '-'}</div>
+        <div><span className="text-muted-foreground">Applied On:</span> {displayDate(registration.applied_on)}</div>
+        <div><span className="text-muted-foreground">Book Received:</span> {displayDate(registration.received_on)}</div>
+        <div><span className="text-muted-foreground">Plate Issued:</span> {displayDate(registration.plate_issued_on)}</div>
+        <div>
+          <span className="text-muted-foreground">Fee:</span>{' '}
+          {registration.fee_amount > 0
+            ? `Rs ${registration.fee_amount.toLocaleString()}${registration.fee_paid_by ? ` paid by ${REGISTRATION_FEE_PAID_BY_LABELS[registration.fee_paid_by].toLowerCase()}` : ''}${registration.fee_paid_on ? ` on ${displayDate(registration.fee_paid_on)}` : ''}`
+            : '-'}
+        </div>
+        <div>
+          <span className="text-muted-foreground">Registration Book:</span>{' '}
+          {registration.book_location ? REGISTRATION_BOOK_LOCATION_LABELS[registration.book_location] : '-'}
+        </div>
+        {registration.noc_number && (
+          <div className="col-span-2 md:col-span-3 flex items-center gap-2">
+            <span className="text-muted-foreground">NOC:</span> {registration.noc_number} issued {displayDate(registration.noc_issued_on)}
+            <Button variant="ghost" size="sm" onClick={() => printNoc(registration)} aria-label="Print NOC">
+              <Printer className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {registration.notes && (
+          <div className="col-span-2 md:col-span-3 text-muted-foreground">{registration.notes}</div>
+        )}
+      </div>
+
+      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Update Registration</DialogTitle>
+            <DialogDescription>
+              The registration number entered with the plate is also saved on the rikshaw.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="registration-status">Status</Label>
+                  <Select value={form.status} onValueChange={(value) => update({ status: value as RegistrationStatus })}>
+                    <SelectTrigger id="registration-status"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {REGISTRATION_STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>{REGISTRATION_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registration-number">Registration No</Label>
+                  <Input
+                    id="registration-number"
+                    placeholder="e.g. LEA-1234"
+                    value={form.registration_number ?? ''}
+                    onChange={(e) => update({ registration_number: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="registration-applied">Applied On</Label>
+                  <Input id="registration-applied" type="date" value={form.applied_on ?? ''} onChange={(e) => update({ applied_on: e.target.value || null })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registration-received">Book Received</Label>
+                  <Input id="registration-received" type="date" value={form.received_on ?? ''} onChange={(e) => update({ received_on: e.target.value || null })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registration-plate">Plate Issued</Label>
+                  <Input id="registration-plate" type="date" value={form.plate_issued_on ?? ''} onChange={(e) => update({ plate_issued_on: e.target.value || null })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="registration-fee">Fee (Rs)</Label>
+                  <Input
+                    id="registration-fee"
+                    type="number"
+                    min={0}
+                    value={form.fee_amount || ''}
+                    onChange={(e) => update({ fee_amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registration-fee-paid-by">Paid By</Label>
+                  <Select
+                    value={form.fee_paid_by ?? NONE}
+                    onValueChange={(value) => update({ fee_paid_by: value === NONE ? null : value as RegistrationFeePaidBy })}
+                  >
+                    <SelectTrigger id="registration-fee-paid-by"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not paid</SelectItem>
+                      {(Object.keys(REGISTRATION_FEE_PAID_BY_LABELS) as RegistrationFeePaidBy[]).map(payer => (
+                        <SelectItem key={payer} value={payer}>{REGISTRATION_FEE_PAID_BY_LABELS[payer]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registration-fee-paid-on">Paid On</Label>
+                  <Input id="registration-fee-paid-on" type="date" value={form.fee_paid_on ?? ''} onChange={(e) => update({ fee_paid_on: e.target.value || null })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="registration-book">Registration Book Held At</Label>
+                <Select
+                  value={form.book_location ?? NONE}
+                  onValueChange={(value) => update({ book_location: value === NONE ? null : value as RegistrationBookLocation })}
+                >
+                  <SelectTrigger id="registration-book"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not issued yet</SelectItem>
+                    {(Object.keys(REGISTRATION_BOOK_LOCATION_LABELS) as RegistrationBookLocation[]).map(location => (
+                      <SelectItem key={location} value={location} disabled={location === 'customer' && !completed}>
+                        {REGISTRATION_BOOK_LOCATION_LABELS[location]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="registration-notes">Notes</Label>
+                <Textarea
+                  id="registration-notes"
+                  value={form.notes ?? ''}
+                  onChange={(e) => update({ notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEditDialog(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showNocDialog} onOpenChange={setShowNocDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Issue NOC</DialogTitle>
+            <DialogDescription>
+              The plan is fully paid. The NOC lets the customer transfer the rikshaw into their name; the
+              registration book is marked as handed over with it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="noc-date">Issued On</Label>
+            <Input id="noc-date" type="date" value={nocDate} onChange={(e) => setNocDate(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNocDialog(false)}>Cancel</Button>
+            <Button onClick={() => nocMutation.mutate()} disabled={!nocDate || nocMutation.isPending}>
+              {nocMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Issue & Print NOC
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RegistrationPanel;
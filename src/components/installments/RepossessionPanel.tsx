@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, Truck, Undo2 } from 'lucide-react';
+import { ROLE_ACCESS } from '@/lib/roles';
+import {
+  clearPlanDefault,
+  markPlanDefaulted,
+  REPOSSESSION_CONDITION_LABELS,
+  repossessionShortfall,
+  repossessPlan,
+} from '@/lib/repossession';
+import type { InstallmentLedger } from '@/lib/installmentLedger';
+import type { InstallmentPlan, Repossession, RepossessionCondition } from '@/types/domain';
+
+interface RepossessionPanelProps {
+  plan: InstallmentPlan;
+  ledger: InstallmentLedger;
+}
+
+const displayDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+const EMPTY_REPOSSESSION = { repossessedOn: '', condition: 'fair' as RepossessionCondition, conditionNotes: '', costs: 0 };
+
+// Default and repossession of a plan, shown in the plan detail modal: mark (or unmark) the plan
+// as defaulted, record the repossession of its unit, and the shortfall or surplus once resold.
+const RepossessionPanel = ({ plan, ledger }: RepossessionPanelProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showDefaultDialog, setShowDefaultDialog] = useState(false);
+  const [defaultedOn, setDefaultedOn] = useState('');
+  const [defaultReason, setDefaultReason] = useState('');
+  const [showRepossessDialog, setShowRepossessDialog] = useState(false);
+  const [form, setForm] = useState(EMPTY_REPOSSESSION);
+
+  const { data: repossession = null, isLoading } = useQuery<Repossession | null>({
+    queryKey: ['repossession', plan.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('repossessions')
+        .select('*')
+        .eq('installment_plan_id', plan.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as Repossession | null;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['installment-plan-details', plan.id] });
+    queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
+    queryClient.invalidateQueries({ queryKey: ['repossession', plan.id] });
+    queryClient.invalidateQueries({ queryKey: ['repossessions'] });
+  };
+
+  const defaultMutation = useMutation({
+    mutationFn: () => markPlanDefaulted(plan.id, defaultedOn, defaultReason.trim()),
+    onSuccess: () => {
+      invalidate();
+      setShowDefaultDialog(false);
+      toast({ title: "Plan Marked as Defaulted" });
+    },
+    onError: (error) => {
+      toast({ title: "Error marking plan as defaulted", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearDefaultMutation = useMutation({
+    mutationFn: () => clearPlanDefault(plan.id, 'Default withdrawn'),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Default Withdrawn" });
+    },
+    onError: (error) => {
+      toast({ title: "Error withdrawing default", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const repossessMutation = useMutation({
+    mutationFn: () => repossessPlan({
+      planId: plan.id,
+      repossessedOn: form.repossessedOn,
+      condition: form.condition,
+      conditionNotes: form.conditionNotes.trim(),
+      costs: form.costs,
+      penaltyOutstanding: ledger.outstandingPenalty,
+    }),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['rikshaws'] });
+      setShowRepossessDialog(false);
+      toast({ title: "Repossession Recorded", description: "The rikshaw is back in stock as a used unit." });
+    },
+    onError: (error) => {
+      toast({ title: "Error recording repossession", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDefaultDialog = () => {
+    setDefaultedOn(format(new Date(), 'yyyy-MM-dd'));
+    setDefaultReason('');
+    setShowDefaultDialog(true);
+  };
+
+  const openRepossessDialog = () => {
+    setForm({ ...EMPTY_REPOSSESSION, repossessedOn: format(new Date(), 'yyyy-MM-dd') });
+    setShowRepossessDialog(true);
+  };
+
+  const handleMarkDefaulted = () => {
+    if (!defaultedOn) {
+      toast({ title: "Error", description: "Please choose the default date.", variant: "destructive" });
+      return;
+    }
+    if (!defaultReason.trim()) {
+      toast({ title: "Error", description: "Please enter a reason.", variant: "destructive" });
+      return;
+    }
+    defaultMutation.mutate();
+  };
+
+  const handleRepossess = () => {
+    if (!form.repossessedOn) {
+      toast({ title: "Error", description: "Please choose the repossession date.", variant: "destructive" });
+      return;
+    }
+    repossessMutation.mutate();
+  };
+
+  if (isLoading) return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+
+  const shortfall = repossession ? repossessionShortfall(repossession) : null;
+
+  return (
+    <div className="space-y-4">
+      {!plan.defaulted_on ? (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Mark the plan as defaulted when the customer has stopped paying. It then leaves the dues lists and the unit can be repossessed.
+          </span>
+          <RequireRole roles={ROLE_ACCESS.editPlans}>
+            <Button variant="destructive" size="sm" onClick={openDefaultDialog}>
+              <AlertTriangle className="h-4 w-4 mr-1" /> Mark as Defaulted
+            </Button>
+          </RequireRole>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            Defaulted on {displayDate(plan.defaulted_on)}{plan.default_reason && `: ${plan.default_reason}`}
+          </span>
+          {!repossession && (
+            <RequireRole roles={ROLE_ACCESS.editPlans}>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => clearDefaultMutation.mutate()} disabled={clearDefaultMutation.isPending}>
+                  <Undo2 className="h-4 w-4 mr-1" /> Withdraw
+                </Button>
+                <Button size="sm" onClick={openRepossessDialog}>
+                  <Truck className="h-4 w-4 mr-1" /> Record Repossession
+                </Button>
+              </div>
+            </RequireRole>
+          )}
+        </div>
+      )}
+
+      {repossession && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+          <div><span className="text-muted-foreground">Repossessed On:</span> {displayDate(repossession.repossessed_on)}</div>
+          <div><span className="text-muted-foreground">Condition:</span> {REPOSSESSION_CONDITION_LABELS[repossession.condition]}</div>
+          <div><span className="text-muted-foreground">Costs:</span> Rs {repossession.repossession_costs.toLocaleString()}</div>
+          <div><span className="text-muted-foreground">Balance Owed:</span> Rs {repossession.outstanding_balance.toLocaleString()}</div>
+          <div>
+            <span className="text-muted-foreground">Resale:</span>{' '}
+            {repossession.resold_on
+              ? `Rs ${repossession.resale_price.toLocaleString()} on ${displayDate(repossession.resold_on)}${repossession.resale_on_installments ? ' (contracted price on installments)' : ''}`
+              : 'Awaiting resale'}
+          </div>
+          {shortfall !== null && (
+            <div className={shortfall > 0 ? 'font-semibold text-red-700' : 'font-semibold text-green-700'}>
+              {shortfall > 0 ? 'Shortfall' : 'Surplus'}: Rs {Math.abs(shortfall).toLocaleString()}
+            </div>
+          )}
+          {repossession.condition_notes && (
+            <div className="col-span-2 md:col-span-3 text-muted-foreground">{repossession.condition_notes}</div>
+          )}
+        </div>
+      )}
+
+      <Dialog open={showDefaultDialog} onOpenChange={setShowDefaultDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Mark Plan as Defaulted</DialogTitle>
+            <DialogDescription>
+              The plan shows as Defaulted instead of Overdue and no longer appears in the dues lists.
+              Payments can still be recorded against it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="default-date">Defaulted On</Label>
+              <Input id="default-date" type="date" value={defaultedOn} onChange={(e) => setDefaultedOn(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="default-reason">Reason *</Label>
+              <Textarea
+                id="default-reason"
+                placeholder="e.g. No payment for five months, customer not reachable"
+                value={defaultReason}
+                onChange={(e) => setDefaultReason(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDefaultDialog(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleMarkDefaulted} disabled={defaultMutation.isPending}>
+              {defaultMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Mark as Defaulted
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRepossessDialog} onOpenChange={setShowRepossessDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Repossession</DialogTitle>
+            <DialogDescription>
+              The rikshaw goes back into stock as an unsold used unit. The balance of
+              Rs {Math.max(0, ledger.customerDebt).toLocaleString()} still owed is recorded against its resale.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="repossessed-on">Repossessed On</Label>
+                <Input
+                  id="repossessed-on"
+                  type="date"
+                  value={form.repossessedOn}
+                  onChange={(e) => setForm(prev => ({ ...prev, repossessedOn: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="repossession-condition">Condition</Label>
+                <Select
+                  value={form.condition}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, condition: value as RepossessionCondition }))}
+                >
+                  <SelectTrigger id="repossession-condition"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPOSSESSION_CONDITION_LABELS) as RepossessionCondition[]).map(condition => (
+                      <SelectItem key={condition} value={condition}>{REPOSSESSION_CONDITION_LABELS[condition]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repossession-costs">Repossession Costs (Rs)</Label>
+              <Input
+                id="repossession-costs"
+                type="number"
+                min={0}
+                value={form.costs || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, costs: Math.max(0, parseFloat(e.target.value) || 0) }))}
+              />
+              <p className="text-xs text-muted-foreground">Recovery, transport and repairs before resale.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repossession-notes">Condition Notes</Label>
+              <Textarea
+                id="repossession-notes"
+                placeholder="e.g. Rear tyre worn, seat cover torn"
+                value={form.conditionNotes}
+                onChange={(e) => setForm(prev => ({ ...prev, conditionNotes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRepossessDialog(false)}>Cancel</Button>
+            <Button onClick={handleRepossess} disabled={repossessMutation.isPending}>
+              {repossessMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record Repossession
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RepossessionPanel;
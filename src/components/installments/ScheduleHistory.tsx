@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { lastInstallmentAmount, reschedulePlan } from '@/lib/reschedule';
+import type { InstallmentLedger } from '@/lib/installmentLedger';
+import type { InstallmentPlan } from '@/types/domain';
+
+interface ScheduleHistoryProps {
+  plan: InstallmentPlan;
+  ledger: InstallmentLedger;
+}
+
+const displayDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+// Schedule versions of a plan (oldest first) and the reschedule dialog, shown in the plan detail modal
+const ScheduleHistory = ({ plan, ledger }: ScheduleHistoryProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [monthlyInstallment, setMonthlyInstallment] = useState(0);
+  const [durationMonths, setDurationMonths] = useState(0);
+  const [startDate, setStartDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  // What the database carries into the new version (see reschedule_plan)
+  const carriedBalance = Math.max(0, ledger.customerDebt);
+  const closedVersions = new Map(plan.schedule_history.map(version => [version.version, version]));
+
+  const openDialog = () => {
+    setMonthlyInstallment(plan.monthly_installment);
+    setDurationMonths(plan.monthly_installment > 0 ? Math.max(1, Math.ceil(carriedBalance / plan.monthly_installment)) : 1);
+    setStartDate(format(new Date(), 'yyyy-MM-dd'));
+    setReason('');
+    setIsOpen(true);
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: () => reschedulePlan({ planId: plan.id, monthlyInstallment, durationMonths, startDate, reason: reason.trim() }),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['installment-plan-details', plan.id] });
+      queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
+      setIsOpen(false);
+      toast({
+        title: "Plan Rescheduled",
+        description: `Schedule v${updated.schedule_version}: ${updated.duration_months} months of Rs ${updated.monthly_installment.toLocaleString()}.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Error rescheduling plan", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleReschedule = () => {
+    if (monthlyInstallment <= 0 || durationMonths <= 0) {
+      toast({ title: "Error", description: "Monthly installment and duration must be greater than 0.", variant: "destructive" });
+      return;
+    }
+    if (!startDate) {
+      toast({ title: "Error", description: "Please choose a start date.", variant: "destructive" });
+      return;
+    }
+    if (!reason.trim()) {
+      toast({ title: "Error", description: "Please enter a reason for rescheduling.", variant: "destructive" });
+      return;
+    }
+    rescheduleMutation.mutate();
+  };
+
+  const lastInstallment = lastInstallmentAmount(carriedBalance, monthlyInstallment, durationMonths);
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Start Date</TableHead>
+              <TableHead className="text-right">Monthly (Rs)</TableHead>
+              <TableHead className="text-right">Months</TableHead>
+              <TableHead className="text-right">Scheduled (Rs)</TableHead>
+              <TableHead className="text-right">Paid (Rs)</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ledger.scheduleVersions.map(version => {
+              const closed = closedVersions.get(version.version);
+              return (
+                <TableRow key={version.version}>
+                  <TableCell className="font-medium">v{version.version}</TableCell>
+                  <TableCell>{displayDate(version.start_date)}</TableCell>
+                  <TableCell className="text-right">{version.monthly_installment.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{version.duration_months}</TableCell>
+                  <TableCell className="text-right">{Math.round(version.scheduled_amount).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{version.paid_amount.toLocaleString()}</TableCell>
+                  <TableCell>
+                    {version.closed_on ? (
+                      <>
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                          Closed {displayDate(version.closed_on)}
+                        </span>
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          Rs {(version.carried_balance ?? 0).toLocaleString()} carried forward
+                          {closed?.closed_by_email && ` by ${closed.closed_by_email}`}
+                        </span>
+                        {closed?.reason && <span className="block text-xs text-muted-foreground">{closed.reason}</span>}
+                      </>
+                    ) : (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">In Force</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {carriedBalance > 0 && (
+        <RequireRole roles={ROLE_ACCESS.editPlans}>
+          <Button variant="outline" size="sm" onClick={openDialog}>
+            <CalendarClock className="h-4 w-4 mr-1" /> Reschedule
+          </Button>
+        </RequireRole>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reschedule Plan</DialogTitle>
+            <DialogDescription>
+              Schedule v{ledger.scheduleVersion} is closed and its payments stay with it. The outstanding
+              balance of Rs {carriedBalance.toLocaleString()} is spread over the new schedule v{ledger.scheduleVersion + 1}.
+              Late fees already charged remain owed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="reschedule-monthly">Monthly Installment (Rs)</Label>
+                <Input
+                  id="reschedule-monthly"
+                  type="number"
+                  min={0}
+                  value={monthlyInstallment || ''}
+                  onChange={(e) => setMonthlyInstallment(Math.max(0, parseFloat(e.target.value) || 0))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reschedule-duration">Duration (months)</Label>
+                <Input
+                  id="reschedule-duration"
+                  type="number"
+                  min={1}
+                  value={durationMonths || ''}
+                  onChange={(e) => setDurationMonths(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reschedule-start">Start Date</Label>
+              <Input id="reschedule-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              <p className="text-xs text-muted-foreground">The first new installment falls due one month after this date.</p>
+            </div>
+            {monthlyInstallment > 0 && durationMonths > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {durationMonths > 1 && `${durationMonths - 1} × Rs ${monthlyInstallment.toLocaleString()}, then `}
+                last installment Rs {lastInstallment.toLocaleString()}.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reschedule-reason">Reason *</Label>
+              <Textarea
+                id="reschedule-reason"
+                placeholder="e.g. Customer lost work for three months"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+            <Button onClick={handleReschedule} disabled={rescheduleMutation.isPending}>
+              {rescheduleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reschedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ScheduleHistory;
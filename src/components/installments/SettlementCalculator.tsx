@@ -0,0 +1,311 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { BadgeCheck, Loader2, Printer, X } from 'lucide-react';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { buildBulkReceiptPdf, buildSettlementQuotationPdf, printPdf } from '@/lib/pdf';
+import {
+  acceptSettlement,
+  cancelQuotation,
+  computeSettlementQuote,
+  isQuotationExpired,
+  issueQuotation,
+  quotationNumber,
+  SETTLEMENT_STATUS_LABELS,
+} from '@/lib/settlement';
+import type { InstallmentPayment, InstallmentPlan, SettlementQuotation } from '@/types/domain';
+
+interface SettlementCalculatorProps {
+  plan: InstallmentPlan;
+  payments: InstallmentPayment[];
+}
+
+const displayDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+const STATUS_CLASSES: Record<SettlementQuotation['status'] | 'expired', string> = {
+  open: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+};
+
+// Early settlement of a plan, shown in the plan detail modal: payoff calculator for a chosen
+// date, quotations issued so far, and acceptance of a quotation as the final payment.
+const SettlementCalculator = ({ plan, payments }: SettlementCalculatorProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { settings, lateFeePolicy: globalLateFeePolicy, settlementPolicy } = useSettings();
+  const [settlementDate, setSettlementDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [quotationToAccept, setQuotationToAccept] = useState<SettlementQuotation | null>(null);
+  const [receivedBy, setReceivedBy] = useState('');
+
+  const { data: purchasePrice = null } = useQuery<number | null>({
+    queryKey: ['rikshaw-purchase-price', plan.rikshaw_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rikshaws')
+        .select('purchase_price')
+        .eq('id', plan.rikshaw_id)
+        .single();
+      if (error) throw error;
+      return data.purchase_price;
+    },
+    enabled: !!plan.rikshaw_id,
+  });
+
+  const { data: quotations = [], isLoading } = useQuery<SettlementQuotation[]>({
+    queryKey: ['settlement-quotations', plan.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('settlement_quotations')
+        .select('*')
+        .eq('installment_plan_id', plan.id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as SettlementQuotation[];
+    },
+  });
+
+  const quote = useMemo(
+    () => (settlementDate
+      ? computeSettlementQuote(plan, payments, settlementDate, purchasePrice, settlementPolicy, globalLateFeePolicy)
+      : null),
+    [plan, payments, settlementDate, purchasePrice, settlementPolicy, globalLateFeePolicy]
+  );
+
+  const printQuotation = async (quotation: SettlementQuotation) => {
+    try {
+      printPdf(await buildSettlementQuotationPdf({ settings, plan, quotation }));
+    } catch (error) {
+      toast({ title: "Quotation Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      if (!quote) throw new Error('Choose a settlement date.');
+      return issueQuotation(plan.id, quote);
+    },
+    onSuccess: (quotation) => {
+      queryClient.invalidateQueries({ queryKey: ['settlement-quotations', plan.id] });
+      toast({ title: "Quotation Issued", description: `Quotation ${quotationNumber(quotation)} valid until ${displayDate(quotation.valid_until)}.` });
+      printQuotation(quotation);
+    },
+    onError: (error) => {
+      toast({ title: "Error issuing quotation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (quotation: SettlementQuotation) => acceptSettlement(quotation.id, receivedBy.trim()),
+    onSuccess: async (posted) => {
+      queryClient.invalidateQueries({ queryKey: ['settlement-quotations', plan.id] });
+      queryClient.invalidateQueries({ queryKey: ['installment-payments', plan.id] });
+      queryClient.invalidateQueries({ queryKey: ['installment-plan-details', plan.id] });
+      queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['all-installment-payments'] });
+      setQuotationToAccept(null);
+      toast({ title: "Plan Settled", description: "The settlement payment was recorded and the plan is closed." });
+      if (posted.length > 0) {
+        try {
+          printPdf(await buildBulkReceiptPdf({ settings, plan, payments: posted, remainingBalance: 0 }));
+        } catch (error) {
+          toast({ title: "Receipt Error", description: (error as Error).message, variant: "destructive" });
+        }
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Error accepting settlement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelQuotation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settlement-quotations', plan.id] });
+    },
+    onError: (error) => {
+      toast({ title: "Error cancelling quotation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openAcceptDialog = (quotation: SettlementQuotation) => {
+    setReceivedBy('');
+    setQuotationToAccept(quotation);
+  };
+
+  const handleAccept = () => {
+    if (!quotationToAccept) return;
+    if (!receivedBy.trim()) {
+      toast({ title: "Error", description: "Please enter who received the payment.", variant: "destructive" });
+      return;
+    }
+    acceptMutation.mutate(quotationToAccept);
+  };
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const canIssue = !plan.settled_on && !!quote && quote.outstandingBalance > 0;
+
+  return (
+    <div className="space-y-4">
+      {plan.settled_on ? (
+        <p className="text-sm font-medium text-green-700">Settled early on {displayDate(plan.settled_on)}.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlement-date">Settlement Date</Label>
+              <Input id="settlement-date" type="date" value={settlementDate} onChange={(e) => setSettlementDate(e.target.value)} />
+            </div>
+            <RequireRole roles={ROLE_ACCESS.recordPayments}>
+              <Button onClick={() => issueMutation.mutate()} disabled={!canIssue || issueMutation.isPending}>
+                {issueMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Printer className="h-4 w-4 mr-2" />}
+                Issue & Print Quotation
+              </Button>
+            </RequireRole>
+          </div>
+
+          {quote && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+              <div><span className="text-muted-foreground">Outstanding Balance:</span> Rs {quote.outstandingBalance.toLocaleString()}</div>
+              <div><span className="text-muted-foreground">Late Fees Due:</span> Rs {quote.penaltyDue.toLocaleString()}</div>
+              <div><span className="text-muted-foreground">Commission Due:</span> Rs {quote.commissionDue.toLocaleString()}</div>
+              <div><span className="text-muted-foreground">Not Yet Due:</span> Rs {quote.notYetDue.toLocaleString()}</div>
+              <div>
+                <span className="text-muted-foreground">Unearned Markup:</span> Rs {quote.unearnedMarkup.toLocaleString()}
+                {purchasePrice === null && <span className="block text-xs text-muted-foreground">Purchase price unknown</span>}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Rebate ({quote.rebatePercent}%):</span> Rs {quote.rebateAmount.toLocaleString()}
+              </div>
+              <div className="col-span-2 md:col-span-3 text-base font-semibold">
+                Payoff: Rs {quote.payoffAmount.toLocaleString()}
+                <span className="ml-2 text-xs font-normal text-muted-foreground">valid until {displayDate(quote.validUntil)}</span>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : quotations.length > 0 && (
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quotation</TableHead>
+                <TableHead>Settlement Date</TableHead>
+                <TableHead>Valid Until</TableHead>
+                <TableHead className="text-right">Rebate (Rs)</TableHead>
+                <TableHead className="text-right">Payoff (Rs)</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotations.map(quotation => {
+                const expired = isQuotationExpired(quotation, today);
+                const status = expired ? 'expired' : quotation.status;
+                return (
+                  <TableRow key={quotation.id}>
+                    <TableCell className="font-medium">
+                      {quotationNumber(quotation)}
+                      {quotation.created_by_email && <span className="block text-xs text-muted-foreground">{quotation.created_by_email}</span>}
+                    </TableCell>
+                    <TableCell>{displayDate(quotation.settlement_date)}</TableCell>
+                    <TableCell>{displayDate(quotation.valid_until)}</TableCell>
+                    <TableCell className="text-right">{quotation.rebate_amount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{quotation.payoff_amount.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_CLASSES[status]}`}>
+                        {expired ? 'Expired' : SETTLEMENT_STATUS_LABELS[quotation.status]}
+                      </span>
+                      {quotation.accepted_at && (
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          {format(parseISO(quotation.accepted_at), 'dd MMM yyyy')}
+                          {quotation.accepted_by_email && ` by ${quotation.accepted_by_email}`}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => printQuotation(quotation)} title="Print quotation">
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                      {quotation.status === 'open' && !expired && (
+                        <RequireRole roles={ROLE_ACCESS.settlePlans}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openAcceptDialog(quotation)}
+                            disabled={quotation.settlement_date > today}
+                            title={quotation.settlement_date > today ? `Payable from ${displayDate(quotation.settlement_date)}` : undefined}
+                          >
+                            <BadgeCheck className="h-4 w-4 mr-1" /> Accept
+                          </Button>
+                        </RequireRole>
+                      )}
+                      {quotation.status === 'open' && (
+                        <RequireRole roles={ROLE_ACCESS.settlePlans}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => cancelMutation.mutate(quotation.id)}
+                            disabled={cancelMutation.isPending}
+                            title="Cancel quotation"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </RequireRole>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!quotationToAccept} onOpenChange={(open) => !open && setQuotationToAccept(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Accept Settlement</DialogTitle>
+            <DialogDescription>
+              {quotationToAccept && (
+                <>
+                  Records Rs {quotationToAccept.payoff_amount.toLocaleString()} received on{' '}
+                  {displayDate(quotationToAccept.settlement_date)}
+                  {quotationToAccept.rebate_amount > 0 && ` and a rebate of Rs ${quotationToAccept.rebate_amount.toLocaleString()}`},
+                  then closes the plan as settled. This cannot be undone from here.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="settlement-received-by">Received By *</Label>
+            <Input id="settlement-received-by" value={receivedBy} onChange={(e) => setReceivedBy(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setQuotationToAccept(null)}>Cancel</Button>
+            <Button onClick={handleAccept} disabled={acceptMutation.isPending}>
+              {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Accept & Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SettlementCalculator;
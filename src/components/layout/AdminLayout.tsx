@@ -15,18 +15,29 @@ import {
 } from '@/components/ui/sidebar';
 import { 
   ShoppingBag,
+  BookmarkCheck,
   LayoutDashboard, 
   Car, 
   Users, 
+  Factory,
   CreditCard, 
   BarChart3, 
   Settings,
-  Building2
+  Building2,
+  History,
+  ShieldCheck,
+  Landmark,
+  ClipboardList
 } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
+import { useRole } from '@/hooks/use-role';
+import { useSettings } from '@/hooks/use-settings';
+import { ROLE_ACCESS } from '@/lib/roles';
 
 const AdminLayout = () => {
   const location = useLocation();
+  const { role, hasRole } = useRole();
+  const { settings } = useSettings();
 
   const menuItems = [
    
@@ -34,48 +45,103 @@ const AdminLayout = () => {
       title: 'Dashboard',
       icon: LayoutDashboard,
       href: '/dashboard',
+      roles: ROLE_ACCESS.viewApp,
     },
       {
       title: 'Sell a Rikshaw',
       icon: ShoppingBag,
       href: '/sell-rickshaw',
+      roles: ROLE_ACCESS.sellRikshaw,
+    },
+    {
+      title: 'Reservations',
+      icon: BookmarkCheck,
+      href: '/reservations',
+      roles: ROLE_ACCESS.viewApp,
     },
     {
       title: 'Rikshaws Managment',
       icon: Car,
       href: '/rikshaws',
+      roles: ROLE_ACCESS.viewApp,
     },
     {
       title: 'Customers Mangement',
       icon: Users,
       href: '/customers',
+      roles: ROLE_ACCESS.viewApp,
+    },
+    {
+      title: 'Guarantors',
+      icon: ShieldCheck,
+      href: '/guarantors',
+      roles: ROLE_ACCESS.viewApp,
+    },
+    {
+      title: 'Suppliers',
+      icon: Factory,
+      href: '/suppliers',
+      roles: ROLE_ACCESS.manageSuppliers,
     },
     {
       title: 'Installments Plans',
       icon: CreditCard,
       href: '/installments',
+      roles: ROLE_ACCESS.viewApp,
+    },
+    {
+      title: 'Cheque Register',
+      icon: Landmark,
+      href: '/cheques',
+      roles: ROLE_ACCESS.viewApp,
+    },
+    {
+      title: 'Registrations',
+      icon: ClipboardList,
+      href: '/registrations',
+      roles: ROLE_ACCESS.viewApp,
     },
     {
       title: 'Reports',
       icon: BarChart3,
       href: '/reports',
+      roles: ROLE_ACCESS.viewApp,
+    },
+    {
+      title: 'Audit Log',
+      icon: History,
+      href: '/audit',
+      roles: ROLE_ACCESS.viewAuditLog,
+    },
+    {
+      title: 'Settings',
+      icon: Settings,
+      href: '/settings',
+      roles: ROLE_ACCESS.manageSettings,
     },
   ];
 
+  // Only show pages the current role can open
+  const visibleMenuItems = menuItems.filter((item) => hasRole(item.roles));
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full">
         <Sidebar>
           <SidebarHeader className="border-b px-6 py-4">
             <div className="flex items-center gap-2">
-              <Building2 className="h-6 w-6 text-primary" />
-              <span className="font-bold text-lg">Al-Hamad Traders</span>
+              {settings.logo_url ? (
+                <img src={settings.logo_url} alt="" className="h-6 w-6 object-contain" />
+              ) : (
+                <Building2 className="h-6 w-6 text-primary" />
+              )}
+              <span className="font-bold text-lg">{settings.business_name}</span>
             </div>
           </SidebarHeader>
           
           <SidebarContent className="px-4 py-6">
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {visibleMenuItems.map((item) => (
                 <SidebarMenuItem key={item.href}>
                   <SidebarMenuButton asChild isActive={location.pathname === item.href}>
                     <Link to={item.href} className="flex items-center gap-3 px-3 py-2 rounded-lg transition-colors">
@@ -92,6 +158,11 @@ const AdminLayout = () => {
         <SidebarInset className="flex-1">
           <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
             <SidebarTrigger className="-ml-1" />
+            {role && (
+              <span className="ml-auto rounded-full border px-3 py-1 text-xs font-medium capitalize text-muted-foreground">
+                {role}
+              </span>
+            )}
           </header>
           <main className="flex-1 p-6">
             <Outlet />
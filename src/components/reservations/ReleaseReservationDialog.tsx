@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { Loader2 } from 'lucide-react';
+import { releaseReservation } from '@/lib/reservations';
+import type { Reservation } from '@/types/domain';
+
+interface ReleaseReservationDialogProps {
+  reservation: Reservation | null; // open while set
+  onClose: () => void;
+}
+
+// Ends a hold before it expires, e.g. the customer withdrew; the forfeited share starts at the policy's
+const ReleaseReservationDialog = ({ reservation, onClose }: ReleaseReservationDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { reservationPolicy } = useSettings();
+  const [forfeitPercent, setForfeitPercent] = useState(0);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!reservation) return;
+    setForfeitPercent(reservationPolicy.forfeit_percent);
+    setReason('');
+  }, [reservation, reservationPolicy.forfeit_percent]);
+
+  const releaseMutation = useMutation({
+    mutationFn: () => releaseReservation(reservation!.id, forfeitPercent, reason.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['holding-reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['rikshaw-events', reservation!.rikshaw_id] });
+      onClose();
+      toast({ title: "Reservation Released", description: "The rikshaw is available for sale again." });
+    },
+    onError: (error) => {
+      toast({ title: "Error releasing reservation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleRelease = () => {
+    if (!reason.trim()) {
+      toast({ title: "Error", description: "Please enter the reason for releasing the reservation.", variant: "destructive" });
+      return;
+    }
+    releaseMutation.mutate();
+  };
+
+  const token = reservation?.token_amount ?? 0;
+  const forfeited = Math.round(token * forfeitPercent / 100);
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Release Reservation</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="release-forfeit">Token Forfeited (%)</Label>
+            <Input
+              id="release-forfeit"
+              type="number"
+              min={0}
+              max={100}
+              value={forfeitPercent}
+              onChange={(e) => setForfeitPercent(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+            />
+            <p className="text-sm text-muted-foreground">
+              Of the Rs {token.toLocaleString()} token, Rs {forfeited.toLocaleString()} is kept and
+              Rs {(token - forfeited).toLocaleString()} refunded.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="release-reason">Reason *</Label>
+            <Textarea
+              id="release-reason"
+              placeholder="e.g. Customer withdrew"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button variant="destructive" onClick={handleRelease} disabled={releaseMutation.isPending}>
+            {releaseMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Release
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReleaseReservationDialog;
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { Loader2 } from 'lucide-react';
+import { fetchHoldingReservations, reserveRikshaw } from '@/lib/reservations';
+import type { Customer, Rikshaw } from '@/types/domain';
+
+interface ReserveRikshawDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_RESERVATION = { tokenAmount: 0, expiresOn: '', notes: '' };
+
+const ReserveRikshawDialog = ({ open, onOpenChange }: ReserveRikshawDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { reservationPolicy } = useSettings();
+  const [form, setForm] = useState(EMPTY_RESERVATION);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [rikshawSearch, setRikshawSearch] = useState('');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [rikshaw, setRikshaw] = useState<Rikshaw | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm({ ...EMPTY_RESERVATION, expiresOn: format(addDays(new Date(), reservationPolicy.hold_days), 'yyyy-MM-dd') });
+    setCustomerSearch('');
+    setRikshawSearch('');
+    setCustomer(null);
+    setRikshaw(null);
+  }, [open, reservationPolicy.hold_days]);
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['customers', 'reservation-search', customerSearch],
+    queryFn: async () => {
+      const term = customerSearch.trim();
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .or(`name.ilike.%${term}%,cnic.ilike.%${term}%,phone.ilike.%${term}%`)
+        .order('name')
+        .limit(8);
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !customer && customerSearch.trim().length > 0,
+  });
+
+  const { data: holdingReservations } = useQuery({
+    queryKey: ['holding-reservations'],
+    queryFn: fetchHoldingReservations,
+    enabled: open,
+  });
+
+  const { data: rikshaws = [] } = useQuery<Rikshaw[]>({
+    queryKey: ['available-rikshaws', 'reservation-search', rikshawSearch],
+    queryFn: async () => {
+      const term = rikshawSearch.trim();
+      const { data, error } = await supabase
+        .from('rikshaws')
+        .select('*')
+        .eq('availability', 'unsold')
+        .or(`manufacturer.ilike.%${term}%,model_name.ilike.%${term}%,engine_number.ilike.%${term}%,chassis_number.ilike.%${term}%`)
+        .order('created_at', { ascending: false })
+        .limit(8);
+      if (error) throw error;
+      return data as Rikshaw[];
+    },
+    enabled: open && !rikshaw && rikshawSearch.trim().length > 0,
+  });
+
+  // Units already held for someone cannot be reserved again
+  const freeRikshaws = rikshaws.filter(r => !holdingReservations?.has(r.id));
+
+  const reserveMutation = useMutation({
+    mutationFn: () => reserveRikshaw({
+      rikshawId: rikshaw!.id,
+      customerId: customer!.id,
+      tokenAmount: form.tokenAmount,
+      expiresOn: form.expiresOn,
+      notes: form.notes.trim(),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['holding-reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['rikshaw-events', rikshaw!.id] });
+      onOpenChange(false);
+      toast({ title: "Rikshaw Reserved", description: `Held for ${customer!.name} until ${format(new Date(form.expiresOn), 'dd MMM yyyy')}.` });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['holding-reservations'] });
+      toast({ title: "Error reserving rikshaw", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleReserve = () => {
+    if (!customer || !rikshaw) {
+      toast({ title: "Error", description: "Please select a customer and a rikshaw.", variant: "destructive" });
+      return;
+    }
+    if (form.tokenAmount <= 0) {
+      toast({ title: "Error", description: "The token amount must be greater than 0.", variant: "destructive" });
+      return;
+    }
+    if (!form.expiresOn || form.expiresOn < format(new Date(), 'yyyy-MM-dd')) {
+      toast({ title: "Error", description: "The reservation must expire today or later.", variant: "destructive" });
+      return;
+    }
+    reserveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reserve a Rikshaw</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reservation-customer">Customer *</Label>
+            <Input
+              id="reservation-customer"
+              placeholder="Search by name, CNIC or phone"
+              value={customer ? `${customer.name} (${customer.cnic})` : customerSearch}
+              onChange={(e) => {
+                setCustomer(null);
+                setCustomerSearch(e.target.value);
+              }}
+            />
+            {!customer && customers.length > 0 && (
+              <div className="rounded-md border max-h-40 overflow-y-auto">
+                {customers.map(c => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    className="block w-full px-3 py-2 text-left text-sm hover:bg-muted border-b last:border-b-0"
+                    onClick={() => setCustomer(c)}
+                  >
+                    {c.name} <span className="text-muted-foreground">({c.cnic})</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reservation-rikshaw">Rikshaw *</Label>
+            <Input
+              id="reservation-rikshaw"
+              placeholder="Search unsold units by model, engine or chassis number"
+              value={rikshaw ? `${rikshaw.manufacturer} - ${rikshaw.model_name} (ENG: ${rikshaw.engine_number})` : rikshawSearch}
+              onChange={(e) => {
+                setRikshaw(null);
+                setRikshawSearch(e.target.value);
+              }}
+            />
+            {!rikshaw && rikshawSearch.trim() && (
+              <div className="rounded-md border max-h-40 overflow-y-auto">
+                {freeRikshaws.length === 0 ? (
+                  <p className="px-3 py-2 text-sm text-muted-foreground">No unreserved units match your search.</p>
+                ) : (
+                  freeRikshaws.map(r => (
+                    <button
+                      key={r.id}
+                      type="button"
+                      className="block w-full px-3 py-2 text-left text-sm hover:bg-muted border-b last:border-b-0"
+                      onClick={() => setRikshaw(r)}
+                    >
+                      {r.manufacturer} - {r.model_name}
+                      <span className="block text-xs text-muted-foreground">ENG: {r.engine_number} | CHS: {r.chassis_number}</span>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reservation-token">Token Amount (Rs) *</Label>
+              <Input
+                id="reservation-token"
+                type="number"
+                min={0}
+                value={form.tokenAmount || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, tokenAmount: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservation-expires">Held Until *</Label>
+              <Input
+                id="reservation-expires"
+                type="date"
+                min={format(new Date(), 'yyyy-MM-dd')}
+                value={form.expiresOn}
+                onChange={(e) => setForm(prev => ({ ...prev, expiresOn: e.target.value }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            If the hold expires without a sale, {reservationPolicy.forfeit_percent}% of the token is forfeited
+            and the rest refunded. On sale, the token counts towards the first advance.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="reservation-notes">Notes</Label>
+            <Textarea
+              id="reservation-notes"
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleReserve} disabled={reserveMutation.isPending}>
+            {reserveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Reserve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReserveRikshawDialog;
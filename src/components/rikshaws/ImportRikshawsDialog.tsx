@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { CheckCircle2, Download, Loader2, XCircle } from 'lucide-react';
+import { downloadCsv } from '@/lib/csv';
+import {
+  IMPORT_TEMPLATE,
+  importRikshaws,
+  readImportFile,
+  validateImport,
+  type ImportReport,
+} from '@/lib/inventoryImport';
+
+interface ImportRikshawsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Bulk stock entry: choose a file, review the dry-run report, then import the valid rows at once
+const ImportRikshawsDialog = ({ open, onOpenChange }: ImportRikshawsDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { settings } = useSettings();
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName('');
+    setReport(null);
+    setShowErrorsOnly(false);
+  }, [open]);
+
+  const validateMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const sheet = await readImportFile(file);
+      return validateImport(sheet, { manufacturers: settings.manufacturers, types: settings.rikshaw_types });
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      setShowErrorsOnly(result.validLines.length < result.rows.length);
+    },
+    onError: (error) => {
+      setReport(null);
+      toast({ title: "Error reading file", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => importRikshaws(report.validLines),
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['rikshaws'] });
+      onOpenChange(false);
+      toast({ title: "Import Complete", description: `${count} rikshaw(s) added to stock.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error importing rikshaws", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow choosing the same file again after fixing it
+    if (!file) return;
+    setFileName(file.name);
+    setReport(null);
+    validateMutation.mutate(file);
+  };
+
+  const errorCount = report ? report.rows.length - report.validLines.length : 0;
+  const visibleRows = report ? report.rows.filter(row => !showErrorsOnly || row.errors.length > 0) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Rikshaws</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) file with one rikshaw per row. Every row is checked first; only rows
+            without errors are imported, all together.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="import-file">File</Label>
+              <Input id="import-file" type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={validateMutation.isPending} />
+            </div>
+            <Button variant="outline" onClick={() => downloadCsv('rikshaw-import-template', IMPORT_TEMPLATE)}>
+              <Download className="h-4 w-4 mr-2" />Template
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Manufacturer and type must match the catalogs in Settings. Category is "new" or "old" (blank means new).
+            Dates may be written as 2026-10-19 or 19/10/2026.
+          </p>
+
+          {validateMutation.isPending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />Checking {fileName}...
+            </div>
+          )}
+
+          {report && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <div>
+                  <span className="font-medium">{fileName}</span>: {report.rows.length} row(s),{' '}
+                  <span className="text-green-700 font-medium">{report.validLines.length} ready</span>,{' '}
+                  <span className={errorCount > 0 ? 'text-red-600 font-medium' : ''}>{errorCount} with errors</span>
+                </div>
+                {errorCount > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setShowErrorsOnly(prev => !prev)}>
+                    {showErrorsOnly ? 'Show all rows' : 'Show errors only'}
+                  </Button>
+                )}
+              </div>
+
+              <div className="overflow-x-auto rounded-md border max-h-[45vh]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Engine No.</TableHead>
+                      <TableHead>Chassis No.</TableHead>
+                      <TableHead>Rickshaw</TableHead>
+                      <TableHead>Purchased</TableHead>
+                      <TableHead className="text-right">Price (Rs)</TableHead>
+                      <TableHead>Check</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map(({ rowNumber, line, errors }) => (
+                      <TableRow key={rowNumber} className={errors.length > 0 ? 'bg-red-50' : ''}>
+                        <TableCell>{rowNumber}</TableCell>
+                        <TableCell className="font-mono text-xs">{line.engine_number || '-'}</TableCell>
+                        <TableCell className="font-mono text-xs">{line.chassis_number || '-'}</TableCell>
+                        <TableCell className="text-xs">
+                          {[line.manufacturer, line.model_name, line.type].filter(Boolean).join(' ') || '-'} ({line.category})
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {line.purchase_date ? format(parseISO(line.purchase_date), 'dd MMM yyyy') : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">{line.purchase_price.toLocaleString()}</TableCell>
+                        <TableCell>
+                          {errors.length === 0 ? (
+                            <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Ready" />
+                          ) : (
+                            <ul className="space-y-0.5 text-xs text-red-700">
+                              {errors.map(error => (
+                                <li key={error} className="flex items-start gap-1">
+                                  <XCircle className="h-3 w-3 mt-0.5 shrink-0" />{error}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!report || report.validLines.length === 0 || importMutation.isPending}
+          >
+            {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {report?.validLines.length ?? 0} Rikshaw(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportRikshawsDialog;
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import RequireRole from '@/components/RequireRole';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ROLE_ACCESS } from '@/lib/roles';
+import {
+  MANUAL_RIKSHAW_EVENT_TYPES,
+  recordRikshawEvent,
+  RIKSHAW_EVENT_CLASSES,
+  RIKSHAW_EVENT_LABELS,
+} from '@/lib/rikshawEvents';
+import type { Customer, RikshawEvent, RikshawEventType } from '@/types/domain';
+
+type EventRow = RikshawEvent & { customers: Pick<Customer, 'name'> | null };
+
+const EMPTY_EVENT = { eventType: 'transferred' as RikshawEventType, eventDate: '', notes: '' };
+
+// Everything that happened to a unit, oldest first, with a form for events recorded by hand
+const RikshawTimeline = ({ rikshawId }: { rikshawId: string }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_EVENT);
+
+  const { data: events = [], isLoading } = useQuery<EventRow[]>({
+    queryKey: ['rikshaw-events', rikshawId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rikshaw_events')
+        .select('*, customers(name)')
+        .eq('rikshaw_id', rikshawId)
+        .order('event_date')
+        .order('created_at');
+      if (error) throw error;
+      return data as EventRow[];
+    },
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: () => recordRikshawEvent({
+      rikshawId,
+      eventType: form.eventType,
+      eventDate: form.eventDate,
+      notes: form.notes.trim(),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rikshaw-events', rikshawId] });
+      setShowForm(false);
+      toast({ title: "Event Recorded" });
+    },
+    onError: (error) => {
+      toast({ title: "Error recording event", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openForm = () => {
+    setForm({ ...EMPTY_EVENT, eventDate: format(new Date(), 'yyyy-MM-dd') });
+    setShowForm(true);
+  };
+
+  const handleRecord = () => {
+    if (!form.eventDate) {
+      toast({ title: "Error", description: "Please choose the date.", variant: "destructive" });
+      return;
+    }
+    recordMutation.mutate();
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No history recorded for this unit.</p>
+      ) : (
+        <ol className="relative ml-2 border-l pl-5 space-y-3">
+          {events.map(event => (
+            <li key={event.id} className="text-sm">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{format(parseISO(event.event_date), 'dd MMM yyyy')}</span>
+                <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", RIKSHAW_EVENT_CLASSES[event.event_type])}>
+                  {RIKSHAW_EVENT_LABELS[event.event_type]}
+                </span>
+                {event.customer_id && (
+                  <Link to={`/customers/${event.customer_id}`} className="hover:underline">
+                    {event.customers?.name ?? 'Customer'}
+                  </Link>
+                )}
+                {event.installment_plan_id && (
+                  <Link to={`/installments?plan=${event.installment_plan_id}`} className="text-xs text-muted-foreground hover:underline">
+                    (view plan)
+                  </Link>
+                )}
+              </div>
+              {event.notes && <p className="text-muted-foreground">{event.notes}</p>}
+              {event.created_by_email && <p className="text-xs text-muted-foreground">by {event.created_by_email}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <RequireRole roles={ROLE_ACCESS.manageRikshaws}>
+        {showForm ? (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end rounded-md border p-3">
+            <div className="space-y-2">
+              <Label htmlFor="rikshaw-event-type">Event</Label>
+              <Select value={form.eventType} onValueChange={(value) => setForm(prev => ({ ...prev, eventType: value as RikshawEventType }))}>
+                <SelectTrigger id="rikshaw-event-type"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MANUAL_RIKSHAW_EVENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{RIKSHAW_EVENT_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rikshaw-event-date">Date</Label>
+              <Input
+                id="rikshaw-event-date"
+                type="date"
+                value={form.eventDate}
+                onChange={(e) => setForm(prev => ({ ...prev, eventDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rikshaw-event-notes">Notes</Label>
+              <Input
+                id="rikshaw-event-notes"
+                placeholder="e.g. Transferred to new owner at excise office"
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleRecord} disabled={recordMutation.isPending}>
+                {recordMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Record
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={openForm}>
+            <Plus className="h-4 w-4 mr-2" />Record Event
+          </Button>
+        )}
+      </RequireRole>
+    </div>
+  );
+};
+
+export default RikshawTimeline;
@@ -0,0 +1,328 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { receivePurchaseInvoice, type PurchaseInvoiceLine } from '@/lib/suppliers';
+import type { Supplier } from '@/types/domain';
+
+interface ReceiveInvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier: Supplier;
+}
+
+type LineForm = Required<PurchaseInvoiceLine>;
+
+const EMPTY_LINE: LineForm = {
+  manufacturer: '',
+  model_name: '',
+  type: '',
+  engine_number: '',
+  chassis_number: '',
+  registration_number: '',
+  category: 'new',
+  purchase_price: 0,
+};
+
+const EMPTY_INVOICE = { invoiceNumber: '', invoiceDate: '', dueDate: '', otherCharges: 0, notes: '' };
+
+// Describes what is wrong with the lines, or null when they can be submitted
+const validateLines = (lines: LineForm[]): string | null => {
+  const incomplete = lines.findIndex(line =>
+    !line.manufacturer || !line.model_name.trim() || !line.type || !line.engine_number.trim() || !line.chassis_number.trim()
+  );
+  if (incomplete >= 0) return `Line ${incomplete + 1} needs a manufacturer, model, type, engine number and chassis number.`;
+
+  const unpriced = lines.findIndex(line => line.purchase_price <= 0);
+  if (unpriced >= 0) return `Line ${unpriced + 1} has no purchase price.`;
+
+  const engines = lines.map(line => line.engine_number.trim().toUpperCase());
+  const chassis = lines.map(line => line.chassis_number.trim().toUpperCase());
+  const repeated = engines.findIndex((engine, i) => engines.indexOf(engine) !== i);
+  if (repeated >= 0) return `Engine number ${lines[repeated].engine_number.trim()} appears more than once.`;
+  const repeatedChassis = chassis.findIndex((number, i) => chassis.indexOf(number) !== i);
+  if (repeatedChassis >= 0) return `Chassis number ${lines[repeatedChassis].chassis_number.trim()} appears more than once.`;
+
+  return null;
+};
+
+// Records a supplier's invoice line by line; each line becomes an unsold rikshaw in stock
+const ReceiveInvoiceDialog = ({ open, onOpenChange, supplier }: ReceiveInvoiceDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { settings } = useSettings();
+  const [invoice, setInvoice] = useState(EMPTY_INVOICE);
+  const [lines, setLines] = useState<LineForm[]>([EMPTY_LINE]);
+
+  useEffect(() => {
+    if (!open) return;
+    setInvoice({ ...EMPTY_INVOICE, invoiceDate: format(new Date(), 'yyyy-MM-dd') });
+    setLines([EMPTY_LINE]);
+  }, [open]);
+
+  const linesTotal = lines.reduce((sum, line) => sum + line.purchase_price, 0);
+
+  const receiveMutation = useMutation({
+    mutationFn: () => receivePurchaseInvoice({
+      supplierId: supplier.id,
+      invoiceNumber: invoice.invoiceNumber.trim(),
+      invoiceDate: invoice.invoiceDate,
+      dueDate: invoice.dueDate || null,
+      otherCharges: invoice.otherCharges,
+      notes: invoice.notes.trim(),
+      lines: lines.map(line => ({
+        ...line,
+        model_name: line.model_name.trim(),
+        engine_number: line.engine_number.trim(),
+        chassis_number: line.chassis_number.trim(),
+        registration_number: line.registration_number.trim(),
+      })),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['supplier-ledger', supplier.id] });
+      queryClient.invalidateQueries({ queryKey: ['rikshaws'] });
+      onOpenChange(false);
+      toast({ title: "Invoice Received", description: `${lines.length} rikshaw(s) added to stock.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error receiving invoice", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // A batch is usually the same model at the same price: start the new line from the last one
+  const addLine = () => {
+    setLines(prev => {
+      const last = prev[prev.length - 1];
+      return [...prev, { ...EMPTY_LINE, manufacturer: last.manufacturer, model_name: last.model_name, type: last.type, category: last.category, purchase_price: last.purchase_price }];
+    });
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleReceive = () => {
+    if (!invoice.invoiceNumber.trim() || !invoice.invoiceDate) {
+      toast({ title: "Error", description: "Please enter the invoice number and date.", variant: "destructive" });
+      return;
+    }
+    if (invoice.dueDate && invoice.dueDate < invoice.invoiceDate) {
+      toast({ title: "Error", description: "The due date cannot be before the invoice date.", variant: "destructive" });
+      return;
+    }
+    const problem = validateLines(lines);
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+    receiveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Invoice from {supplier.name}</DialogTitle>
+          <DialogDescription>
+            Every line is added to stock as an unsold rikshaw linked to this invoice. Nothing is added if any
+            engine or chassis number is already in stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="invoice-number">Invoice Number *</Label>
+              <Input
+                id="invoice-number"
+                value={invoice.invoiceNumber}
+                onChange={(e) => setInvoice(prev => ({ ...prev, invoiceNumber: e.target.value }))}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-date">Invoice Date *</Label>
+              <Input
+                id="invoice-date"
+                type="date"
+                value={invoice.invoiceDate}
+                onChange={(e) => setInvoice(prev => ({ ...prev, invoiceDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-due-date">Due Date</Label>
+              <Input
+                id="invoice-due-date"
+                type="date"
+                value={invoice.dueDate}
+                onChange={(e) => setInvoice(prev => ({ ...prev, dueDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-other-charges">Other Charges (Rs)</Label>
+              <Input
+                id="invoice-other-charges"
+                type="number"
+                min={0}
+                value={invoice.otherCharges || ''}
+                onChange={(e) => setInvoice(prev => ({ ...prev, otherCharges: Math.max(0, parseFloat(e.target.value) || 0) }))}
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">#</TableHead>
+                  <TableHead>Manufacturer</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Engine No.</TableHead>
+                  <TableHead>Chassis No.</TableHead>
+                  <TableHead>Registration</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Price (Rs)</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell className="min-w-[140px]">
+                      <Select value={line.manufacturer} onValueChange={(value) => updateLine(index, { manufacturer: value })}>
+                        <SelectTrigger aria-label={`Manufacturer, line ${index + 1}`}><SelectValue placeholder="Select" /></SelectTrigger>
+                        <SelectContent>
+                          {settings.manufacturers.map((m) => (
+                            <SelectItem key={m} value={m}>{m}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="min-w-[120px]">
+                      <Input
+                        aria-label={`Model, line ${index + 1}`}
+                        value={line.model_name}
+                        onChange={(e) => updateLine(index, { model_name: e.target.value })}
+                        autoComplete="off"
+                      />
+                    </TableCell>
+                    <TableCell className="min-w-[130px]">
+                      <Select value={line.type} onValueChange={(value) => updateLine(index, { type: value })}>
+                        <SelectTrigger aria-label={`Type, line ${index + 1}`}><SelectValue placeholder="Select" /></SelectTrigger>
+                        <SelectContent>
+                          {settings.rikshaw_types.map((t) => (
+                            <SelectItem key={t} value={t}>{t}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="min-w-[130px]">
+                      <Input
+                        aria-label={`Engine number, line ${index + 1}`}
+                        value={line.engine_number}
+                        onChange={(e) => updateLine(index, { engine_number: e.target.value })}
+                        autoComplete="off"
+                      />
+                    </TableCell>
+                    <TableCell className="min-w-[130px]">
+                      <Input
+                        aria-label={`Chassis number, line ${index + 1}`}
+                        value={line.chassis_number}
+                        onChange={(e) => updateLine(index, { chassis_number: e.target.value })}
+                        autoComplete="off"
+                      />
+                    </TableCell>
+                    <TableCell className="min-w-[110px]">
+                      <Input
+                        aria-label={`Registration number, line ${index + 1}`}
+                        value={line.registration_number}
+                        onChange={(e) => updateLine(index, { registration_number: e.target.value })}
+                        autoComplete="off"
+                      />
+                    </TableCell>
+                    <TableCell className="min-w-[90px]">
+                      <Select value={line.category} onValueChange={(value) => updateLine(index, { category: value as LineForm['category'] })}>
+                        <SelectTrigger aria-label={`Category, line ${index + 1}`}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="new">New</SelectItem>
+                          <SelectItem value="old">Old</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="min-w-[110px]">
+                      <Input
+                        aria-label={`Purchase price, line ${index + 1}`}
+                        type="number"
+                        min={0}
+                        value={line.purchase_price || ''}
+                        onChange={(e) => updateLine(index, { purchase_price: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeLine(index)}
+                        disabled={lines.length === 1}
+                        aria-label={`Remove line ${index + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <Button variant="outline" size="sm" onClick={addLine}>
+              <Plus className="h-4 w-4 mr-2" />Add Line
+            </Button>
+            <div className="text-sm text-right">
+              <div>{lines.length} rikshaw(s): Rs {linesTotal.toLocaleString()}</div>
+              {invoice.otherCharges > 0 && <div>Other charges: Rs {invoice.otherCharges.toLocaleString()}</div>}
+              <div className="font-bold">Invoice total: Rs {(linesTotal + invoice.otherCharges).toLocaleString()}</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoice-notes">Notes</Label>
+            <Textarea
+              id="invoice-notes"
+              value={invoice.notes}
+              onChange={(e) => setInvoice(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleReceive} disabled={receiveMutation.isPending}>
+            {receiveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Receive Invoice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiveInvoiceDialog;
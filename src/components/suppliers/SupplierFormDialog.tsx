@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import type { Supplier } from '@/types/domain';
+
+interface SupplierFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier?: Supplier; // edit this supplier; omitted to add a new one
+}
+
+const EMPTY_SUPPLIER = { name: '', phone: '', address: '', ntn: '', notes: '' };
+
+const SupplierFormDialog = ({ open, onOpenChange, supplier }: SupplierFormDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_SUPPLIER);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(supplier
+      ? {
+          name: supplier.name,
+          phone: supplier.phone ?? '',
+          address: supplier.address ?? '',
+          ntn: supplier.ntn ?? '',
+          notes: supplier.notes ?? '',
+        }
+      : EMPTY_SUPPLIER);
+  }, [open, supplier]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const values = {
+        name: form.name.trim(),
+        phone: form.phone.trim() || null,
+        address: form.address.trim() || null,
+        ntn: form.ntn.trim() || null,
+        notes: form.notes.trim() || null,
+      };
+      const { error } = supplier
+        ? await supabase.from('suppliers').update(values).eq('id', supplier.id)
+        : await supabase.from('suppliers').insert(values);
+      if (error) {
+        if (error.code === '23505') throw new Error(`A supplier named "${values.name}" already exists.`);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      if (supplier) queryClient.invalidateQueries({ queryKey: ['supplier', supplier.id] });
+      onOpenChange(false);
+      toast({ title: supplier ? "Supplier Updated" : "Supplier Added" });
+    },
+    onError: (error) => {
+      toast({ title: "Error saving supplier", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      toast({ title: "Error", description: "Please enter the supplier's name.", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{supplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="supplier-name">Name *</Label>
+            <Input
+              id="supplier-name"
+              placeholder="e.g. Sazgar Engineering Works"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-phone">Phone</Label>
+              <Input
+                id="supplier-phone"
+                value={form.phone}
+                onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-ntn">NTN</Label>
+              <Input
+                id="supplier-ntn"
+                value={form.ntn}
+                onChange={(e) => setForm(prev => ({ ...prev, ntn: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-address">Address</Label>
+            <Input
+              id="supplier-address"
+              value={form.address}
+              onChange={(e) => setForm(prev => ({ ...prev, address: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-notes">Notes</Label>
+            <Textarea
+              id="supplier-notes"
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {supplier ? 'Save Changes' : 'Add Supplier'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierFormDialog;
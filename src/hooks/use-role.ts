@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import type { AppRole } from '@/lib/roles';
+
+export function useRole() {
+  const { role, loading } = useAuth();
+
+  // True when the signed-in user has one of `roles` (pass ROLE_ACCESS.<action>)
+  const hasRole = useCallback(
+    (roles: readonly AppRole[]) => role !== null && roles.includes(role),
+    [role]
+  );
+
+  return { role, loading, hasRole };
+}
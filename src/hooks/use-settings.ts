@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BUSINESS_SETTINGS_KEY, DEFAULT_BUSINESS_SETTINGS, parseBusinessSettings } from '@/lib/settings';
+import { LATE_FEE_POLICY_SETTING, parseLateFeePolicy } from '@/lib/lateFees';
+import { AGREEMENT_TEMPLATE_KEY, DEFAULT_AGREEMENT_TEMPLATE, parseAgreementTemplate } from '@/lib/agreement';
+import { DEFAULT_SETTLEMENT_POLICY, parseSettlementPolicy, SETTLEMENT_POLICY_KEY } from '@/lib/settlement';
+import { DEFAULT_RESERVATION_POLICY, parseReservationPolicy, RESERVATION_POLICY_KEY } from '@/lib/reservations';
+
+// Invalidate this after saving any app_settings row
+export const SETTINGS_QUERY_KEY = ['app-settings'];
+
+// Showroom settings, the global late fee policy (null when none is configured; plans may
+// override it), the agreement template, the early settlement policy and the reservation policy.
+// Until loaded, everything but `lateFeePolicy` holds the defaults, so callers never wait on them.
+export function useSettings() {
+  const { data, isLoading } = useQuery({
+    queryKey: SETTINGS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('key, value')
+        .in('key', [BUSINESS_SETTINGS_KEY, LATE_FEE_POLICY_SETTING, AGREEMENT_TEMPLATE_KEY, SETTLEMENT_POLICY_KEY, RESERVATION_POLICY_KEY]);
+      if (error) throw error;
+
+      const byKey = Object.fromEntries((data || []).map(row => [row.key, row.value]));
+      return {
+        settings: parseBusinessSettings(byKey[BUSINESS_SETTINGS_KEY]),
+        lateFeePolicy: parseLateFeePolicy(byKey[LATE_FEE_POLICY_SETTING]),
+        agreementTemplate: parseAgreementTemplate(byKey[AGREEMENT_TEMPLATE_KEY]),
+        settlementPolicy: parseSettlementPolicy(byKey[SETTLEMENT_POLICY_KEY]),
+        reservationPolicy: parseReservationPolicy(byKey[RESERVATION_POLICY_KEY]),
+      };
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    settings: data?.settings ?? DEFAULT_BUSINESS_SETTINGS,
+    lateFeePolicy: data?.lateFeePolicy ?? null,
+    agreementTemplate: data?.agreementTemplate ?? DEFAULT_AGREEMENT_TEMPLATE,
+    settlementPolicy: data?.settlementPolicy ?? DEFAULT_SETTLEMENT_POLICY,
+    reservationPolicy: data?.reservationPolicy ?? DEFAULT_RESERVATION_POLICY,
+    isLoading,
+  };
+}
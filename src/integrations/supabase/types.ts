@@ -9,11 +9,112 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json | null
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json | null
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json | null
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          changed_at: string
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          reason: string | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          reason?: string | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_at?: string
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          reason?: string | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      customer_notes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          customer_id: string
+          id: string
+          note: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id: string
+          id?: string
+          note: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id?: string
+          id?: string
+          note?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           address: string
+          bank_name: string | null
+          cheque_number: string | null
           cnic: string
           created_at: string
+          guarantor_address: string | null
+          guarantor_cnic: string | null
+          guarantor_name: string | null
+          guarantor_phone: string | null
           id: string
           name: string
           phone: string
@@ -21,8 +122,14 @@ export type Database = {
         }
         Insert: {
           address: string
+          bank_name?: string | null
+          cheque_number?: string | null
           cnic: string
           created_at?: string
+          guarantor_address?: string | null
+          guarantor_cnic?: string | null
+          guarantor_name?: string | null
+          guarantor_phone?: string | null
           id?: string
           name: string
           phone: string
@@ -30,8 +137,14 @@ export type Database = {
         }
         Update: {
           address?: string
+          bank_name?: string | null
+          cheque_number?: string | null
           cnic?: string
           created_at?: string
+          guarantor_address?: string | null
+          guarantor_cnic?: string | null
+          guarantor_name?: string | null
+          guarantor_phone?: string | null
           id?: string
           name?: string
           phone?: string
@@ -39,43 +152,273 @@ export type Database = {
         }
         Relationships: []
       }
+      documents: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          customer_id: string | null
+          document_type: string
+          file_name: string
+          file_path: string
+          id: string
+          installment_plan_id: string | null
+          mime_type: string | null
+          rikshaw_id: string | null
+          size_bytes: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id?: string | null
+          document_type: string
+          file_name: string
+          file_path: string
+          id?: string
+          installment_plan_id?: string | null
+          mime_type?: string | null
+          rikshaw_id?: string | null
+          size_bytes?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id?: string | null
+          document_type?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          installment_plan_id?: string | null
+          mime_type?: string | null
+          rikshaw_id?: string | null
+          size_bytes?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_rikshaw_id_fkey"
+            columns: ["rikshaw_id"]
+            isOneToOne: false
+            referencedRelation: "rikshaws"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guarantors: {
+        Row: {
+          address: string | null
+          cnic: string
+          created_at: string
+          id: string
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          cnic: string
+          created_at?: string
+          id?: string
+          name: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          cnic?: string
+          created_at?: string
+          id?: string
+          name?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      installment_payments: {
+        Row: {
+          amount_paid: number
+          created_at: string
+          id: string
+          installment_number: number | null
+          installment_plan_id: string
+          payment_date: string
+          payment_type: string
+          received_by: string
+          receipt_number: string | null
+          receipt_seq: number | null
+          receipt_year: number | null
+          remarks: string | null
+          reversal_of: string | null
+          schedule_version: number | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+          voided_by_email: string | null
+        }
+        Insert: {
+          amount_paid: number
+          created_at?: string
+          id?: string
+          installment_number?: number | null
+          installment_plan_id: string
+          payment_date?: string
+          payment_type: string
+          received_by: string
+          receipt_number?: string | null
+          receipt_seq?: number | null
+          receipt_year?: number | null
+          remarks: string | null
+          schedule_version?: number | null
+        }
+        Update: {
+          amount_paid?: number
+          created_at?: string
+          id?: string
+          installment_number?: number | null
+          installment_plan_id?: string
+          payment_date?: string
+          payment_type?: string
+          received_by?: string
+          receipt_number?: string | null
+          receipt_seq?: number | null
+          receipt_year?: number | null
+          remarks?: string | null
+          reversal_of?: string | null
+          schedule_version?: number | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+          voided_by_email?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_payments_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: true
+            referencedRelation: "installment_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_payments_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       installment_plans: {
         Row: {
           advance_paid: number
+          advance_payments: Json
+          agreement_date: string
+          bank_name: string | null
+          bounce_charges: number
+          cheque_bounced_at: string | null
+          cheque_number: string | null
           created_at: string
           customer_id: string
+          default_reason: string | null
+          defaulted_on: string | null
           duration_months: number
+          guarantor_address: string | null
+          guarantor_cnic: string | null
+          guarantor_name: string | null
+          guarantor_phone: string | null
           id: string
-          monthly_amount: number
-          remaining_amount: number
+          is_commission_paid: boolean
+          late_fee_policy: Json | null
+          monthly_installment: number
+          rikshaw_details: Json | null
           rikshaw_id: string
-          start_date: string
+          schedule_history: Json
+          schedule_start_date: string | null
+          schedule_version: number
+          settled_on: string | null
+          settlement_quotation_id: string | null
+          showroom_commission: number
+          total_paid_monthly_installments: number
           total_price: number
           updated_at: string
         }
         Insert: {
           advance_paid?: number
+          advance_payments?: Json
+          agreement_date?: string
+          bank_name?: string | null
+          bounce_charges?: number
+          cheque_bounced_at?: string | null
+          cheque_number?: string | null
           created_at?: string
           customer_id: string
+          default_reason?: string | null
+          defaulted_on?: string | null
           duration_months: number
+          guarantor_address?: string | null
+          guarantor_cnic?: string | null
+          guarantor_name?: string | null
+          guarantor_phone?: string | null
           id?: string
-          monthly_amount: number
-          remaining_amount: number
+          is_commission_paid?: boolean
+          late_fee_policy?: Json | null
+          monthly_installment?: number
+          rikshaw_details?: Json | null
           rikshaw_id: string
-          start_date?: string
+          schedule_history?: Json
+          schedule_start_date?: string | null
+          schedule_version?: number
+          settled_on?: string | null
+          settlement_quotation_id?: string | null
+          showroom_commission?: number
+          total_paid_monthly_installments?: number
           total_price: number
           updated_at?: string
         }
         Update: {
           advance_paid?: number
+          advance_payments?: Json
+          agreement_date?: string
+          bank_name?: string | null
+          bounce_charges?: number
+          cheque_bounced_at?: string | null
+          cheque_number?: string | null
           created_at?: string
           customer_id?: string
+          default_reason?: string | null
+          defaulted_on?: string | null
           duration_months?: number
+          guarantor_address?: string | null
+          guarantor_cnic?: string | null
+          guarantor_name?: string | null
+          guarantor_phone?: string | null
           id?: string
-          monthly_amount?: number
-          remaining_amount?: number
+          is_commission_paid?: boolean
+          late_fee_policy?: Json | null
+          monthly_installment?: number
+          rikshaw_details?: Json | null
           rikshaw_id?: string
-          start_date?: string
+          schedule_history?: Json
+          schedule_start_date?: string | null
+          schedule_version?: number
+          settled_on?: string | null
+          settlement_quotation_id?: string | null
+          showroom_commission?: number
+          total_paid_monthly_installments?: number
           total_price?: number
           updated_at?: string
         }
@@ -94,6 +437,13 @@ export type Database = {
             referencedRelation: "rikshaws"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "installment_plans_settlement_quotation_id_fkey"
+            columns: ["settlement_quotation_id"]
+            isOneToOne: false
+            referencedRelation: "settlement_quotations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       installments: {
@@ -149,6 +499,110 @@ export type Database = {
           },
         ]
       }
+      plan_cheques: {
+        Row: {
+          amount: number | null
+          bank_name: string
+          bounce_charges: number
+          bounce_reason: string | null
+          bounced_on: string | null
+          cheque_date: string | null
+          cheque_number: string
+          cleared_on: string | null
+          created_at: string
+          created_by: string | null
+          deposited_on: string | null
+          id: string
+          installment_plan_id: string
+          kind: string
+          remarks: string | null
+          returned_on: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          bank_name: string
+          bounce_charges?: number
+          bounce_reason?: string | null
+          bounced_on?: string | null
+          cheque_date?: string | null
+          cheque_number: string
+          cleared_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          deposited_on?: string | null
+          id?: string
+          installment_plan_id: string
+          kind?: string
+          remarks?: string | null
+          returned_on?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          bank_name?: string
+          bounce_charges?: number
+          bounce_reason?: string | null
+          bounced_on?: string | null
+          cheque_date?: string | null
+          cheque_number?: string
+          cleared_on?: string | null
+          created_at?: string
+          created_by?: string | null
+          deposited_on?: string | null
+          id?: string
+          installment_plan_id?: string
+          kind?: string
+          remarks?: string | null
+          returned_on?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plan_cheques_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plan_guarantors: {
+        Row: {
+          created_at: string
+          guarantor_id: string
+          plan_id: string
+        }
+        Insert: {
+          created_at?: string
+          guarantor_id: string
+          plan_id: string
+        }
+        Update: {
+          created_at?: string
+          guarantor_id?: string
+          plan_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plan_guarantors_guarantor_id_fkey"
+            columns: ["guarantor_id"]
+            isOneToOne: false
+            referencedRelation: "guarantors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "plan_guarantors_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -173,59 +627,980 @@ export type Database = {
         }
         Relationships: []
       }
-      rikshaws: {
+      purchase_invoices: {
         Row: {
-          color: string
           created_at: string
-          customer_id: string | null
-          engine_number: string
+          created_by: string | null
+          created_by_email: string | null
+          due_date: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          notes: string | null
+          other_charges: number
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_date: string
+          invoice_number: string
+          notes?: string | null
+          other_charges?: number
+          supplier_id: string
+          total_amount: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_date?: string
+          invoice_number?: string
+          notes?: string | null
+          other_charges?: number
+          supplier_id?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_invoices_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_reprints: {
+        Row: {
+          id: string
+          installment_plan_id: string
+          receipt_number: string
+          reprinted_at: string
+          reprinted_by: string | null
+          reprinted_by_email: string | null
+        }
+        Insert: {
+          id?: string
+          installment_plan_id: string
+          receipt_number: string
+          reprinted_at?: string
+          reprinted_by?: string | null
+          reprinted_by_email?: string | null
+        }
+        Update: {
+          id?: string
+          installment_plan_id?: string
+          receipt_number?: string
+          reprinted_at?: string
+          reprinted_by?: string | null
+          reprinted_by_email?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_reprints_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_sequences: {
+        Row: {
+          last_number: number
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          year: number
+        }
+        Update: {
+          last_number?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      registrations: {
+        Row: {
+          applied_on: string | null
+          book_location: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          fee_amount: number
+          fee_paid_by: string | null
+          fee_paid_on: string | null
           id: string
-          model: string
-          price: number
+          installment_plan_id: string
+          noc_issued_on: string | null
+          noc_number: string | null
+          notes: string | null
+          plate_issued_on: string | null
+          received_on: string | null
+          registration_number: string | null
+          rikshaw_id: string
           status: string
           updated_at: string
         }
         Insert: {
-          color: string
+          applied_on?: string | null
+          book_location?: string | null
           created_at?: string
-          customer_id?: string | null
-          engine_number: string
+          created_by?: string | null
+          created_by_email?: string | null
+          fee_amount?: number
+          fee_paid_by?: string | null
+          fee_paid_on?: string | null
           id?: string
-          model: string
-          price: number
+          installment_plan_id: string
+          noc_issued_on?: string | null
+          noc_number?: string | null
+          notes?: string | null
+          plate_issued_on?: string | null
+          received_on?: string | null
+          registration_number?: string | null
+          rikshaw_id: string
           status?: string
           updated_at?: string
         }
         Update: {
-          color?: string
+          applied_on?: string | null
+          book_location?: string | null
           created_at?: string
-          customer_id?: string | null
-          engine_number?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          fee_amount?: number
+          fee_paid_by?: string | null
+          fee_paid_on?: string | null
           id?: string
-          model?: string
-          price?: number
+          installment_plan_id?: string
+          noc_issued_on?: string | null
+          noc_number?: string | null
+          notes?: string | null
+          plate_issued_on?: string | null
+          received_on?: string | null
+          registration_number?: string | null
+          rikshaw_id?: string
           status?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "rikshaws_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "registrations_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: true
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "registrations_rikshaw_id_fkey"
+            columns: ["rikshaw_id"]
             isOneToOne: false
-            referencedRelation: "customers"
+            referencedRelation: "rikshaws"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      generate_installments: {
+      repossessions: {
+        Row: {
+          condition: string
+          condition_notes: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          id: string
+          installment_plan_id: string
+          outstanding_balance: number
+          penalty_outstanding: number
+          repossessed_on: string
+          repossession_costs: number
+          resale_on_installments: boolean
+          resale_price: number | null
+          resold_on: string | null
+          rikshaw_id: string
+          updated_at: string
+        }
+        Insert: {
+          condition: string
+          condition_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          installment_plan_id: string
+          outstanding_balance: number
+          penalty_outstanding?: number
+          repossessed_on: string
+          repossession_costs?: number
+          resale_on_installments?: boolean
+          resale_price?: number | null
+          resold_on?: string | null
+          rikshaw_id: string
+          updated_at?: string
+        }
+        Update: {
+          condition?: string
+          condition_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          installment_plan_id?: string
+          outstanding_balance?: number
+          penalty_outstanding?: number
+          repossessed_on?: string
+          repossession_costs?: number
+          resale_on_installments?: boolean
+          resale_price?: number | null
+          resold_on?: string | null
+          rikshaw_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "repossessions_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: true
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "repossessions_rikshaw_id_fkey"
+            columns: ["rikshaw_id"]
+            isOneToOne: false
+            referencedRelation: "rikshaws"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          customer_id: string
+          expires_on: string
+          id: string
+          installment_plan_id: string | null
+          notes: string | null
+          release_reason: string | null
+          released_on: string | null
+          reserved_on: string
+          rikshaw_id: string
+          status: string
+          token_amount: number
+          token_forfeited: number | null
+          token_refunded: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id: string
+          expires_on: string
+          id?: string
+          installment_plan_id?: string | null
+          notes?: string | null
+          release_reason?: string | null
+          released_on?: string | null
+          reserved_on?: string
+          rikshaw_id: string
+          status?: string
+          token_amount: number
+          token_forfeited?: number | null
+          token_refunded?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id?: string
+          expires_on?: string
+          id?: string
+          installment_plan_id?: string | null
+          notes?: string | null
+          release_reason?: string | null
+          released_on?: string | null
+          reserved_on?: string
+          rikshaw_id?: string
+          status?: string
+          token_amount?: number
+          token_forfeited?: number | null
+          token_refunded?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservations_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_rikshaw_id_fkey"
+            columns: ["rikshaw_id"]
+            isOneToOne: false
+            referencedRelation: "rikshaws"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rikshaw_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          customer_id: string | null
+          event_date: string
+          event_type: string
+          id: string
+          installment_plan_id: string | null
+          notes: string | null
+          rikshaw_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id?: string | null
+          event_date?: string
+          event_type: string
+          id?: string
+          installment_plan_id?: string | null
+          notes?: string | null
+          rikshaw_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          customer_id?: string | null
+          event_date?: string
+          event_type?: string
+          id?: string
+          installment_plan_id?: string | null
+          notes?: string | null
+          rikshaw_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rikshaw_events_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rikshaw_events_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rikshaw_events_rikshaw_id_fkey"
+            columns: ["rikshaw_id"]
+            isOneToOne: false
+            referencedRelation: "rikshaws"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rikshaws: {
+        Row: {
+          availability: string
+          category: string
+          chassis_number: string
+          created_at: string
+          engine_number: string
+          id: string
+          manufacturer: string
+          model_name: string
+          purchase_date: string
+          purchase_invoice_id: string | null
+          purchase_price: number
+          registration_number: string | null
+          repossessed_from_plan_id: string | null
+          sale_price: number | null
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          availability?: string
+          category?: string
+          chassis_number: string
+          created_at?: string
+          engine_number: string
+          id?: string
+          manufacturer: string
+          model_name: string
+          purchase_date?: string
+          purchase_invoice_id?: string | null
+          purchase_price: number
+          registration_number?: string | null
+          repossessed_from_plan_id?: string | null
+          sale_price?: number | null
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          availability?: string
+          category?: string
+          chassis_number?: string
+          created_at?: string
+          engine_number?: string
+          id?: string
+          manufacturer?: string
+          model_name?: string
+          purchase_date?: string
+          purchase_invoice_id?: string | null
+          purchase_price?: number
+          registration_number?: string | null
+          repossessed_from_plan_id?: string | null
+          sale_price?: number | null
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rikshaws_purchase_invoice_id_fkey"
+            columns: ["purchase_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rikshaws_repossessed_from_plan_id_fkey"
+            columns: ["repossessed_from_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      settlement_quotations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by_email: string | null
+          commission_due: number
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          id: string
+          installment_plan_id: string
+          markup: number
+          not_yet_due: number
+          outstanding_balance: number
+          payoff_amount: number
+          penalty_due: number
+          rebate_amount: number
+          rebate_percent: number
+          settlement_date: string
+          status: string
+          unearned_markup: number
+          updated_at: string
+          valid_until: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by_email?: string | null
+          commission_due?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          installment_plan_id: string
+          markup?: number
+          not_yet_due?: number
+          outstanding_balance: number
+          payoff_amount: number
+          penalty_due?: number
+          rebate_amount?: number
+          rebate_percent?: number
+          settlement_date: string
+          status?: string
+          unearned_markup?: number
+          updated_at?: string
+          valid_until: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by_email?: string | null
+          commission_due?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          installment_plan_id?: string
+          markup?: number
+          not_yet_due?: number
+          outstanding_balance?: number
+          payoff_amount?: number
+          penalty_due?: number
+          rebate_amount?: number
+          rebate_percent?: number
+          settlement_date?: string
+          status?: string
+          unearned_markup?: number
+          updated_at?: string
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settlement_quotations_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          id: string
+          method: string
+          notes: string | null
+          payment_date: string
+          reference: string | null
+          supplier_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          method?: string
+          notes?: string | null
+          payment_date: string
+          reference?: string | null
+          supplier_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          id?: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          supplier_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payments_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          created_at: string
+          id: string
+          name: string
+          notes: string | null
+          ntn: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          notes?: string | null
+          ntn?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          ntn?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_settlement: {
+        Args: {
+          p_quotation_id: string
+          p_received_by: string
+        }
+        Returns: {
+          amount_paid: number
+          created_at: string
+          id: string
+          installment_number: number | null
+          installment_plan_id: string
+          payment_date: string
+          payment_type: string
+          received_by: string
+          receipt_number: string | null
+          receipt_seq: number | null
+          receipt_year: number | null
+          remarks: string | null
+          reversal_of: string | null
+          schedule_version: number | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+          voided_by_email: string | null
+        }[]
+      }
+      bounce_cheque: {
+        Args: {
+          p_cheque_id: string
+          p_charges?: number
+          p_reason?: string
+          p_bounced_on?: string
+        }
+        Returns: {
+          amount: number | null
+          bank_name: string
+          bounce_charges: number
+          bounce_reason: string | null
+          bounced_on: string | null
+          cheque_date: string | null
+          cheque_number: string
+          cleared_on: string | null
+          created_at: string
+          created_by: string | null
+          deposited_on: string | null
+          id: string
+          installment_plan_id: string
+          kind: string
+          remarks: string | null
+          returned_on: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      current_app_role: {
+        Args: never
+        Returns: string
+      }
+      current_audit_reason: {
+        Args: never
+        Returns: string
+      }
+      expire_reservations: {
+        Args: never
+        Returns: number
+      }
+      generate_installments: {
         Args: { plan_id: string }
         Returns: undefined
       }
+      has_role: {
+        Args: { roles: string[] }
+        Returns: boolean
+      }
+      import_rikshaws: {
+        Args: { p_rows: Json }
+        Returns: number
+      }
+      log_receipt_reprint: {
+        Args: { p_receipt_number: string }
+        Returns: {
+          id: string
+          installment_plan_id: string
+          receipt_number: string
+          reprinted_at: string
+          reprinted_by: string | null
+          reprinted_by_email: string | null
+        }
+      }
+      receive_purchase_invoice: {
+        Args: {
+          p_supplier_id: string
+          p_invoice_number: string
+          p_invoice_date: string
+          p_lines: Json
+          p_due_date?: string
+          p_other_charges?: number
+          p_notes?: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          due_date: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          notes: string | null
+          other_charges: number
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }
+      }
+      record_payment: {
+        Args: {
+          p_amount: number
+          p_payment_date?: string
+          p_payment_type: string
+          p_plan_id: string
+          p_received_by: string
+          p_remarks?: string
+        }
+        Returns: {
+          amount_paid: number
+          created_at: string
+          id: string
+          installment_number: number | null
+          installment_plan_id: string
+          payment_date: string
+          payment_type: string
+          received_by: string
+          receipt_number: string | null
+          receipt_seq: number | null
+          receipt_year: number | null
+          remarks: string | null
+          reversal_of: string | null
+          schedule_version: number | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+          voided_by_email: string | null
+        }[]
+      }
+      release_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_forfeit_percent: number
+          p_reason: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          customer_id: string
+          expires_on: string
+          id: string
+          installment_plan_id: string | null
+          notes: string | null
+          release_reason: string | null
+          released_on: string | null
+          reserved_on: string
+          rikshaw_id: string
+          status: string
+          token_amount: number
+          token_forfeited: number | null
+          token_refunded: number | null
+          updated_at: string
+        }
+      }
+      repossess_plan: {
+        Args: {
+          p_plan_id: string
+          p_repossessed_on: string
+          p_condition: string
+          p_condition_notes?: string
+          p_costs?: number
+          p_penalty_outstanding?: number
+        }
+        Returns: {
+          condition: string
+          condition_notes: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          id: string
+          installment_plan_id: string
+          outstanding_balance: number
+          penalty_outstanding: number
+          repossessed_on: string
+          repossession_costs: number
+          resale_price: number | null
+          resold_on: string | null
+          rikshaw_id: string
+          updated_at: string
+        }
+      }
+      reschedule_plan: {
+        Args: {
+          p_duration_months: number
+          p_monthly_installment: number
+          p_plan_id: string
+          p_reason: string
+          p_start_date: string
+        }
+        Returns: {
+          advance_paid: number
+          advance_payments: Json
+          agreement_date: string
+          bank_name: string | null
+          bounce_charges: number
+          cheque_bounced_at: string | null
+          cheque_number: string | null
+          created_at: string
+          customer_id: string
+          default_reason: string | null
+          defaulted_on: string | null
+          duration_months: number
+          guarantor_address: string | null
+          guarantor_cnic: string | null
+          guarantor_name: string | null
+          guarantor_phone: string | null
+          id: string
+          is_commission_paid: boolean
+          late_fee_policy: Json | null
+          monthly_installment: number
+          rikshaw_details: Json | null
+          rikshaw_id: string
+          schedule_history: Json
+          schedule_start_date: string | null
+          schedule_version: number
+          settled_on: string | null
+          settlement_quotation_id: string | null
+          showroom_commission: number
+          total_paid_monthly_installments: number
+          total_price: number
+          updated_at: string
+        }
+      }
+      reserve_rikshaw: {
+        Args: {
+          p_rikshaw_id: string
+          p_customer_id: string
+          p_token_amount: number
+          p_expires_on: string
+          p_notes?: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          customer_id: string
+          expires_on: string
+          id: string
+          installment_plan_id: string | null
+          notes: string | null
+          release_reason: string | null
+          released_on: string | null
+          reserved_on: string
+          rikshaw_id: string
+          status: string
+          token_amount: number
+          token_forfeited: number | null
+          token_refunded: number | null
+          updated_at: string
+        }
+      }
+      sell_rikshaw: {
+        Args: {
+          p_advance_payments: Json
+          p_agreement_date: string
+          p_customer_id: string
+          p_duration_months: number
+          p_guarantor_ids?: string[]
+          p_is_commission_paid?: boolean
+          p_monthly_installment: number
+          p_rikshaw_id: string
+          p_showroom_commission?: number
+          p_total_price: number
+        }
+        Returns: {
+          advance_paid: number
+          advance_payments: Json
+          agreement_date: string
+          bank_name: string | null
+          cheque_number: string | null
+          created_at: string
+          customer_id: string
+          default_reason: string | null
+          defaulted_on: string | null
+          duration_months: number
+          guarantor_address: string | null
+          guarantor_cnic: string | null
+          guarantor_name: string | null
+          guarantor_phone: string | null
+          id: string
+          is_commission_paid: boolean
+          late_fee_policy: Json | null
+          monthly_installment: number
+          rikshaw_details: Json | null
+          rikshaw_id: string
+          schedule_history: Json
+          schedule_start_date: string | null
+          schedule_version: number
+          settled_on: string | null
+          settlement_quotation_id: string | null
+          showroom_commission: number
+          total_paid_monthly_installments: number
+          total_price: number
+          updated_at: string
+        }
+      }
+      void_payment: {
+        Args: {
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: {
+          amount_paid: number
+          created_at: string
+          id: string
+          installment_number: number | null
+          installment_plan_id: string
+          payment_date: string
+          payment_type: string
+          received_by: string
+          receipt_number: string | null
+          receipt_seq: number | null
+          receipt_year: number | null
+          remarks: string | null
+          reversal_of: string | null
+          schedule_version: number | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+          voided_by_email: string | null
+        }
+      }
     }
     Enums: {
       [_ in never]: never
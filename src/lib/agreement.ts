@@ -0,0 +1,147 @@
+import { format, parseISO } from 'date-fns';
+import { computeInstallmentLedger } from '@/lib/installmentLedger';
+import { describeLateFeePolicy, LateFeePolicy, parseLateFeePolicy } from '@/lib/lateFees';
+import type { BusinessSettings } from '@/lib/settings';
+import type { Guarantor, InstallmentPlan } from '@/types/domain';
+
+// Hire-purchase agreement template, persisted in app_settings under AGREEMENT_TEMPLATE_KEY and
+// edited in Settings. Clauses are plain text with {{placeholders}} (see AGREEMENT_PLACEHOLDERS)
+// filled from the plan when the agreement is printed (buildAgreementPdf).
+
+export const AGREEMENT_TEMPLATE_KEY = 'agreement_template';
+
+// Stored as JSON, hence `type` rather than `interface`
+export type AgreementTemplate = {
+  title: string;
+  intro: string;
+  clauses: string[];
+  witnesses: number; // signature blocks for witnesses, 0-4
+};
+
+export const DEFAULT_AGREEMENT_TEMPLATE: AgreementTemplate = {
+  title: 'HIRE-PURCHASE AGREEMENT',
+  intro:
+    'This agreement is made at {{business_address}} on {{agreement_date}} between {{business_name}} (the "Seller") ' +
+    'and {{customer_name}}, CNIC {{customer_cnic}}, resident of {{customer_address}} (the "Buyer"), ' +
+    'with {{guarantor_names}} as guarantor(s).',
+  clauses: [
+    'The Seller has delivered to the Buyer one {{rikshaw}} ({{rikshaw_type}}), engine number {{engine_number}}, chassis number {{chassis_number}}, on hire-purchase for a total price of {{total_price}}.',
+    'The Buyer pays an advance of {{total_advance}} as per the advance schedule above. The balance of {{financed_amount}} is payable in {{duration_months}} monthly installments of {{monthly_installment}}, the first due on {{first_due_date}} and the last on {{last_due_date}}.',
+    'Ownership of the vehicle remains with the Seller until the full price has been paid. The registration will be transferred to the Buyer only after the last installment is paid.',
+    'Late payment: {{late_fee_policy}}.',
+    'If the Buyer fails to pay two consecutive installments, the Seller may take back the vehicle. Amounts already paid will be adjusted against the dues, the use of the vehicle and its depreciation.',
+    'Until the price is paid in full the Buyer shall not sell, rent out, pledge or transfer the vehicle, or change its engine or chassis.',
+    'The Buyer is responsible for the maintenance of the vehicle, its token tax, traffic fines, and any accident, damage or loss after delivery.',
+    'The guarantor(s) {{guarantor_names}} jointly and severally guarantee payment of every amount due under this agreement.',
+    'Cheques given by the Buyer are security for the dues. A bounced cheque is charged to the Buyer and may lead to legal action.',
+    'Any dispute under this agreement is subject to the courts at the Seller\'s place of business.',
+  ],
+  witnesses: 2,
+};
+
+// Placeholders available in the template, with the label shown in Settings
+export const AGREEMENT_PLACEHOLDERS: Record<string, string> = {
+  business_name: 'Showroom name',
+  business_address: 'Showroom address',
+  business_phone: 'Showroom phone',
+  agreement_date: 'Agreement date',
+  customer_name: 'Buyer name',
+  customer_cnic: 'Buyer CNIC',
+  customer_phone: 'Buyer phone',
+  customer_address: 'Buyer address',
+  guarantor_names: 'Guarantor names and CNICs',
+  rikshaw: 'Manufacturer and model',
+  rikshaw_type: 'Rikshaw type',
+  engine_number: 'Engine number',
+  chassis_number: 'Chassis number',
+  registration_number: 'Registration number',
+  total_price: 'Total price',
+  total_advance: 'Total agreed advance',
+  financed_amount: 'Price less advance',
+  monthly_installment: 'Monthly installment',
+  duration_months: 'Number of months',
+  first_due_date: 'First installment due date',
+  last_due_date: 'Last installment due date',
+  late_fee_policy: 'Late fee policy in words',
+};
+
+export const parseAgreementTemplate = (value: unknown): AgreementTemplate => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_AGREEMENT_TEMPLATE;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_AGREEMENT_TEMPLATE;
+
+  const clauses = Array.isArray(raw.clauses)
+    ? raw.clauses.filter((clause): clause is string => typeof clause === 'string' && clause.trim() !== '')
+    : [];
+  const witnesses = typeof raw.witnesses === 'number' && Number.isInteger(raw.witnesses)
+    ? Math.min(4, Math.max(0, raw.witnesses))
+    : defaults.witnesses;
+
+  return {
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title : defaults.title,
+    intro: typeof raw.intro === 'string' ? raw.intro : defaults.intro,
+    clauses: clauses.length > 0 ? clauses : defaults.clauses,
+    witnesses,
+  };
+};
+
+// Replaces {{name}} with its value; unknown placeholders are left as typed so mistakes show on paper
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+
+const money = (amount: number) => `Rs ${Math.round(amount).toLocaleString()}`;
+const displayDate = (date: string | null | undefined) => (date ? format(parseISO(date), 'dd MMM yyyy') : '-');
+
+// The people who guarantee a plan: linked guarantors, else the snapshot taken at sale time
+export const agreementGuarantors = (
+  plan: InstallmentPlan,
+  linked: Guarantor[]
+): Pick<Guarantor, 'name' | 'cnic' | 'phone' | 'address'>[] => {
+  if (linked.length > 0) return linked;
+  if (!plan.guarantor_name) return [];
+  return [{ name: plan.guarantor_name, cnic: plan.guarantor_cnic ?? '', phone: plan.guarantor_phone, address: plan.guarantor_address }];
+};
+
+/**
+ * Values for every placeholder in AGREEMENT_PLACEHOLDERS. The plan must carry its customer;
+ * vehicle details come from the sale-time `rikshaw_details` snapshot (live rikshaw as fallback).
+ */
+export const agreementValues = (
+  plan: InstallmentPlan,
+  guarantors: Pick<Guarantor, 'name' | 'cnic'>[],
+  settings: BusinessSettings,
+  globalLateFeePolicy: LateFeePolicy | null
+): Record<string, string> => {
+  const details = plan.rikshaw_details ?? plan.rikshaws;
+  const ledger = computeInstallmentLedger(plan, [], new Date(), globalLateFeePolicy);
+  const lateFeePolicy = parseLateFeePolicy(plan.late_fee_policy) ?? globalLateFeePolicy;
+  // Terms on the plan are those of the schedule in force, so are its due dates
+  const schedule = ledger.schedule.filter(item => item.schedule_version === ledger.scheduleVersion);
+
+  return {
+    business_name: settings.business_name,
+    business_address: settings.address,
+    business_phone: settings.phone,
+    agreement_date: displayDate(plan.agreement_date),
+    customer_name: plan.customers?.name ?? '',
+    customer_cnic: plan.customers?.cnic ?? '',
+    customer_phone: plan.customers?.phone ?? '',
+    customer_address: plan.customers?.address ?? '',
+    guarantor_names: guarantors.length > 0
+      ? guarantors.map(guarantor => `${guarantor.name} (CNIC ${guarantor.cnic})`).join(', ')
+      : 'none',
+    rikshaw: details ? `${details.manufacturer} ${details.model_name}` : '',
+    rikshaw_type: details?.type ?? '',
+    engine_number: details?.engine_number ?? '',
+    chassis_number: details?.chassis_number ?? '',
+    registration_number: details?.registration_number || 'not yet registered',
+    total_price: money(plan.total_price),
+    total_advance: money(ledger.totalAgreedAdvance),
+    financed_amount: money(plan.total_price - ledger.totalAgreedAdvance),
+    monthly_installment: money(plan.monthly_installment),
+    duration_months: String(plan.duration_months),
+    first_due_date: displayDate(schedule[0]?.due_date),
+    last_due_date: displayDate(schedule[schedule.length - 1]?.due_date),
+    late_fee_policy: describeLateFeePolicy(lateFeePolicy),
+  };
+};
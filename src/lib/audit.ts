@@ -0,0 +1,19 @@
+// Reasons for audited changes travel with the request in this header; the audit trigger
+// (public.current_audit_reason) decodes it and stores it on the audit_log row.
+export const AUDIT_REASON_HEADER = 'x-audit-reason';
+
+// Headers must be ASCII, so reasons (which may be in Urdu) are sent as base64 of UTF-8.
+export const encodeAuditReason = (reason: string) => {
+  const bytes = new TextEncoder().encode(reason.trim());
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+/**
+ * Attaches an audit reason to a Supabase query or RPC call:
+ *
+ *   await withAuditReason(supabase.from('installment_payments').delete().eq('id', id), reason);
+ */
+export const withAuditReason = <T extends { setHeader(name: string, value: string): T }>(query: T, reason: string): T =>
+  query.setHeader(AUDIT_REASON_HEADER, encodeAuditReason(reason));
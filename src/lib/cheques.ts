@@ -0,0 +1,92 @@
+import { endOfWeek, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { ChequeKind, ChequeStatus, PlanCheque } from '@/types/domain';
+
+export const CHEQUE_KIND_LABELS: Record<ChequeKind, string> = {
+  security: 'Security',
+  post_dated: 'Post-dated',
+};
+
+export const CHEQUE_STATUS_LABELS: Record<ChequeStatus, string> = {
+  held: 'Held',
+  deposited: 'Deposited',
+  cleared: 'Cleared',
+  bounced: 'Bounced',
+  returned: 'Returned to Customer',
+};
+
+export const CHEQUE_STATUS_CLASSES: Record<ChequeStatus, string> = {
+  held: 'bg-gray-100 text-gray-800',
+  deposited: 'bg-blue-100 text-blue-800',
+  cleared: 'bg-green-100 text-green-800',
+  bounced: 'bg-red-100 text-red-800',
+  returned: 'bg-yellow-100 text-yellow-800',
+};
+
+// Status moves a manager can make directly; bounces go through bounceCheque()
+export const NEXT_CHEQUE_STATUSES: Record<ChequeStatus, ChequeStatus[]> = {
+  held: ['deposited', 'returned'],
+  deposited: ['cleared'],
+  cleared: [],
+  bounced: ['returned'],
+  returned: [],
+};
+
+// The date column stamped when a cheque enters each status
+const STATUS_DATE_COLUMNS: Partial<Record<ChequeStatus, 'deposited_on' | 'cleared_on' | 'returned_on'>> = {
+  deposited: 'deposited_on',
+  cleared: 'cleared_on',
+  returned: 'returned_on',
+};
+
+/**
+ * Post-dated cheques still held whose date falls on or before the end of the week of `asOf`
+ * (weeks start on Monday). Cheques whose date has already passed stay on the list until they
+ * are deposited, earliest first.
+ */
+export const chequesDueForDeposit = <T extends PlanCheque>(cheques: T[], asOf: Date = new Date()): T[] => {
+  const weekEnd = format(endOfWeek(asOf, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  return cheques
+    .filter(cheque => cheque.kind === 'post_dated' && cheque.status === 'held' && cheque.cheque_date && cheque.cheque_date <= weekEnd)
+    .sort((a, b) => a.cheque_date.localeCompare(b.cheque_date));
+};
+
+export const updateChequeStatus = async (
+  cheque: PlanCheque,
+  status: ChequeStatus,
+  date: string // 'yyyy-MM-dd'
+): Promise<PlanCheque> => {
+  const dateColumn = STATUS_DATE_COLUMNS[status];
+  const { data, error } = await supabase
+    .from('plan_cheques')
+    .update({ status, ...(dateColumn ? { [dateColumn]: date } : {}) })
+    .eq('id', cheque.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as PlanCheque;
+};
+
+export interface BounceChequeParams {
+  chequeId: string;
+  charges: number;
+  reason?: string;
+  bouncedOn: string; // 'yyyy-MM-dd'
+}
+
+/**
+ * Records a bounce through the `bounce_cheque` RPC: the cheque is marked bounced with its
+ * charges, the charges are added to the plan (owed like late fees) and the plan is flagged.
+ */
+export const bounceCheque = async (params: BounceChequeParams): Promise<PlanCheque> => {
+  const { data, error } = await supabase.rpc('bounce_cheque', {
+    p_cheque_id: params.chequeId,
+    p_charges: params.charges,
+    p_reason: params.reason,
+    p_bounced_on: params.bouncedOn,
+  });
+
+  if (error) throw error;
+  return data as PlanCheque;
+};
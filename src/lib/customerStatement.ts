@@ -0,0 +1,104 @@
+import { isCountedPayment } from '@/lib/installmentLedger';
+import { PAYMENT_TYPE_LABELS } from '@/lib/payments';
+import type { InstallmentPayment, InstallmentPlan, PaymentType } from '@/types/domain';
+
+// Statement of account for one customer across all of their plans.
+//
+// Debits are what the customer owes: the sale price of each plan and the showroom commission.
+// Credits are what settles it: the advance collected at sale, advance adjustments, monthly
+// payments, discounts and commission payments. Voided payments and their reversals are left out.
+// Late fees are accounted for on the plan statement (they depend on the schedule) and are not
+// part of this account.
+
+export interface StatementLine {
+  date: string; // 'yyyy-MM-dd'
+  planId: string;
+  plan: string; // short plan label, e.g. 'New Asia Loader (LHR-1234)'
+  description: string;
+  reference: string | null; // receipt number for payments
+  debit: number;
+  credit: number;
+  balance: number; // running balance after this line
+}
+
+export interface CustomerStatement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+// Payment types that move the account balance (see the note above)
+const STATEMENT_PAYMENT_TYPES: PaymentType[] = ['monthly', 'advance_adjustment', 'commission', 'discount'];
+
+export const planLabel = (plan: InstallmentPlan) => {
+  const details = plan.rikshaw_details ?? plan.rikshaws;
+  if (!details) return `Plan ${plan.id.substring(0, 8)}`;
+  return `${details.manufacturer} ${details.model_name}${details.registration_number ? ` (${details.registration_number})` : ''}`;
+};
+
+type Entry = Omit<StatementLine, 'balance'> & { sortKey: string };
+
+const toEntries = (plans: InstallmentPlan[], payments: InstallmentPayment[]): Entry[] => {
+  const entries: Entry[] = [];
+
+  plans.forEach(plan => {
+    const label = planLabel(plan);
+    const saleDate = (plan.agreement_date || plan.created_at).substring(0, 10);
+
+    // Debits sort before credits on the same day ('0' < '1')
+    entries.push({ date: saleDate, planId: plan.id, plan: label, description: 'Sale on installments', reference: null, debit: plan.total_price, credit: 0, sortKey: `${saleDate}0${plan.created_at}` });
+    if (plan.showroom_commission > 0) {
+      entries.push({ date: saleDate, planId: plan.id, plan: label, description: 'Showroom commission', reference: null, debit: plan.showroom_commission, credit: 0, sortKey: `${saleDate}0${plan.created_at}` });
+    }
+
+    const initialAdvance = plan.advance_payments?.[0];
+    if (initialAdvance && initialAdvance.amount > 0) {
+      entries.push({ date: initialAdvance.date, planId: plan.id, plan: label, description: 'Advance received at sale', reference: null, debit: 0, credit: initialAdvance.amount, sortKey: `${initialAdvance.date}1${plan.created_at}` });
+    }
+
+    payments
+      .filter(p => p.installment_plan_id === plan.id && isCountedPayment(p) && STATEMENT_PAYMENT_TYPES.includes(p.payment_type))
+      .forEach(p => {
+        const description = p.payment_type === 'monthly' && p.installment_number
+          ? `${PAYMENT_TYPE_LABELS.monthly} #${p.installment_number}`
+          : PAYMENT_TYPE_LABELS[p.payment_type];
+        entries.push({ date: p.payment_date, planId: plan.id, plan: label, description, reference: p.receipt_number, debit: 0, credit: p.amount_paid, sortKey: `${p.payment_date}1${p.created_at}` });
+      });
+  });
+
+  return entries.sort((a, b) => a.sortKey.localeCompare(b.sortKey));
+};
+
+/**
+ * Builds the statement for `from`..`to` (inclusive, 'yyyy-MM-dd'). Everything dated before
+ * `from` is folded into the opening balance.
+ */
+export const buildCustomerStatement = (
+  plans: InstallmentPlan[],
+  payments: InstallmentPayment[],
+  from: string,
+  to: string
+): CustomerStatement => {
+  const entries = toEntries(plans, payments);
+
+  const openingBalance = entries
+    .filter(entry => entry.date < from)
+    .reduce((balance, entry) => balance + entry.debit - entry.credit, 0);
+
+  let balance = openingBalance;
+  const lines: StatementLine[] = entries
+    .filter(entry => entry.date >= from && entry.date <= to)
+    .map(({ sortKey: _sortKey, ...entry }) => {
+      balance += entry.debit - entry.credit;
+      return { ...entry, balance };
+    });
+
+  const totalDebit = lines.reduce((sum, line) => sum + line.debit, 0);
+  const totalCredit = lines.reduce((sum, line) => sum + line.credit, 0);
+
+  return { from, to, openingBalance, lines, totalDebit, totalCredit, closingBalance: openingBalance + totalDebit - totalCredit };
+};
@@ -0,0 +1,105 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { DocumentRecord, DocumentType } from '@/types/domain';
+
+// Private Supabase Storage bucket holding document scans and photos
+export const DOCUMENTS_BUCKET = 'documents';
+
+// Matches the bucket's file_size_limit in the documents migration
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  cnic_front: 'CNIC (Front)',
+  cnic_back: 'CNIC (Back)',
+  agreement: 'Agreement',
+  cheque: 'Cheque',
+  registration: 'Registration Book',
+  photo: 'Photo',
+};
+
+// Column on `documents` that points at the owner; also the first segment of the storage path
+export type DocumentOwnerColumn = 'customer_id' | 'installment_plan_id' | 'rikshaw_id';
+
+export interface DocumentOwner {
+  column: DocumentOwnerColumn;
+  id: string;
+}
+
+const OWNER_FOLDERS: Record<DocumentOwnerColumn, string> = {
+  customer_id: 'customers',
+  installment_plan_id: 'plans',
+  rikshaw_id: 'rikshaws',
+};
+
+export const isImageDocument = (document: Pick<DocumentRecord, 'mime_type'>) =>
+  !!document.mime_type?.startsWith('image/');
+
+export const fetchDocuments = async (owner: DocumentOwner): Promise<DocumentRecord[]> => {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq(owner.column, owner.id)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as DocumentRecord[];
+};
+
+/**
+ * Signed URLs for viewing documents, keyed by file path. Valid for an hour, which outlives
+ * the react-query cache entry that holds them.
+ */
+export const fetchDocumentUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+  return Object.fromEntries((data || []).filter(item => item.signedUrl).map(item => [item.path, item.signedUrl]));
+};
+
+/**
+ * Uploads a file to the documents bucket and records it against its owner. If the record
+ * cannot be written the uploaded file is removed again, so the bucket holds no orphans.
+ */
+export const uploadDocument = async (
+  owner: DocumentOwner,
+  documentType: DocumentType,
+  file: File
+): Promise<DocumentRecord> => {
+  if (file.size > MAX_DOCUMENT_BYTES) throw new Error('File is larger than 10 MB.');
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'bin';
+  const path = `${OWNER_FOLDERS[owner.column]}/${owner.id}/${documentType}-${Date.now()}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('documents')
+    .insert({
+      [owner.column]: owner.id,
+      document_type: documentType,
+      file_path: path,
+      file_name: file.name,
+      mime_type: file.type || null,
+      size_bytes: file.size,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(DOCUMENTS_BUCKET).remove([path]);
+    throw error;
+  }
+  return data as DocumentRecord;
+};
+
+// Deletes the record first: a leftover file is harmless, a record pointing at nothing is not
+export const deleteDocument = async (document: DocumentRecord): Promise<void> => {
+  const { error } = await supabase.from('documents').delete().eq('id', document.id);
+  if (error) throw error;
+
+  const { error: storageError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove([document.file_path]);
+  if (storageError) throw storageError;
+};
@@ -0,0 +1,102 @@
+import { supabase } from '@/integrations/supabase/client';
+import { computeInstallmentLedger, InstallmentLedger } from '@/lib/installmentLedger';
+import type { LateFeePolicy } from '@/lib/lateFees';
+import type { Guarantor, InstallmentPayment, InstallmentPlan } from '@/types/domain';
+
+// Guarantor exposure: what the plans a guarantor backs still owe, and how much of that is overdue.
+// Computed from the same ledger as the Installments page, so the figures always agree with it.
+
+export interface GuarantorPlanExposure {
+  plan: InstallmentPlan;
+  ledger: InstallmentLedger;
+  outstanding: number;
+  overdue: number;
+}
+
+export interface GuarantorExposure {
+  guarantorId: string;
+  plans: GuarantorPlanExposure[];
+  outstanding: number;
+  overdue: number;
+  overduePlans: number;
+}
+
+// Overdue advance chunks and installments plus unpaid late fees
+export const overdueAmount = (ledger: InstallmentLedger) =>
+  ledger.schedule.reduce((sum, item) => sum + (item.is_overdue ? item.remaining_amount : 0), 0)
+  + ledger.advanceSchedule.reduce((sum, item) => sum + (item.is_overdue ? item.remaining_amount : 0), 0)
+  + ledger.outstandingPenalty;
+
+/**
+ * Loads every plan backed by the given guarantors (with customer and rikshaw) and their
+ * payments, and returns the exposure per guarantor, keyed by guarantor id.
+ */
+export const fetchGuarantorExposure = async (
+  guarantorIds: string[],
+  globalLateFeePolicy: LateFeePolicy | null
+): Promise<Record<string, GuarantorExposure>> => {
+  const exposure: Record<string, GuarantorExposure> = Object.fromEntries(
+    guarantorIds.map(id => [id, { guarantorId: id, plans: [], outstanding: 0, overdue: 0, overduePlans: 0 }])
+  );
+  if (guarantorIds.length === 0) return exposure;
+
+  const { data: links, error: linksError } = await supabase
+    .from('plan_guarantors')
+    .select('guarantor_id, installment_plans(*, customers(id, name, cnic, phone), rikshaws(manufacturer, model_name, registration_number))')
+    .in('guarantor_id', guarantorIds);
+  if (linksError) throw linksError;
+
+  const rows = (links || []) as { guarantor_id: string; installment_plans: InstallmentPlan | null }[];
+  const planIds = [...new Set(rows.filter(row => row.installment_plans).map(row => row.installment_plans.id))];
+  if (planIds.length === 0) return exposure;
+
+  const { data: payments, error: paymentsError } = await supabase
+    .from('installment_payments')
+    .select('*')
+    .in('installment_plan_id', planIds);
+  if (paymentsError) throw paymentsError;
+
+  const now = new Date();
+  rows.forEach(({ guarantor_id, installment_plans: plan }) => {
+    if (!plan) return;
+    const ledger = computeInstallmentLedger(plan, (payments || []) as InstallmentPayment[], now, globalLateFeePolicy);
+    const outstanding = Math.max(0, ledger.remainingBalance);
+    const overdue = overdueAmount(ledger);
+
+    const entry = exposure[guarantor_id];
+    entry.plans.push({ plan, ledger, outstanding, overdue });
+    entry.outstanding += outstanding;
+    entry.overdue += overdue;
+    if (overdue > 0) entry.overduePlans += 1;
+  });
+
+  return exposure;
+};
+
+// Guarantors linked to one plan, in the order they were added
+export const fetchPlanGuarantors = async (planId: string): Promise<Guarantor[]> => {
+  const { data, error } = await supabase
+    .from('plan_guarantors')
+    .select('created_at, guarantors(*)')
+    .eq('plan_id', planId)
+    .order('created_at');
+  if (error) throw error;
+
+  return ((data || []) as { guarantors: Guarantor | null }[])
+    .map(row => row.guarantors)
+    .filter((guarantor): guarantor is Guarantor => !!guarantor);
+};
+
+// Links a guarantor to a plan after the sale (admins and managers)
+export const linkPlanGuarantor = async (planId: string, guarantorId: string) => {
+  const { error } = await supabase.from('plan_guarantors').insert({ plan_id: planId, guarantor_id: guarantorId });
+  if (error) {
+    if (error.code === '23505') throw new Error('This guarantor is already linked to the plan.');
+    throw error;
+  }
+};
+
+export const unlinkPlanGuarantor = async (planId: string, guarantorId: string) => {
+  const { error } = await supabase.from('plan_guarantors').delete().eq('plan_id', planId).eq('guarantor_id', guarantorId);
+  if (error) throw error;
+};
@@ -0,0 +1,299 @@
+import { describe, expect, it } from 'vitest';
+import { computeInstallmentLedger, installmentLabel, LedgerPayment, LedgerPlan } from '@/lib/installmentLedger';
+import { calculateLateFee, LateFeePolicy, parseLateFeePolicy } from '@/lib/lateFees';
+
+// Rs 100,000 unit: Rs 20,000 advance at sale, Rs 80,000 over 8 monthly installments of Rs 10,000
+const basePlan: LedgerPlan = {
+  id: 'plan-1',
+  total_price: 100000,
+  monthly_installment: 10000,
+  duration_months: 8,
+  advance_payments: [{ amount: 20000, date: '2026-01-01' }],
+  agreement_date: '2026-01-01',
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+const payment = (amount_paid: number, payment_type = 'monthly', payment_date = '2026-02-01'): LedgerPayment => ({
+  installment_plan_id: basePlan.id,
+  amount_paid,
+  payment_type,
+  payment_date,
+});
+
+// Before the first installment falls due
+const beforeFirstDue = new Date(2026, 0, 15);
+
+// Rs 500 once past 5 grace days, plus Rs 10 for every further day
+const lateFeePolicy: LateFeePolicy = { grace_days: 5, penalty_type: 'flat', penalty_value: 500, per_day_amount: 10, cap: null };
+
+describe('computeInstallmentLedger', () => {
+  describe('advance', () => {
+    it('counts the first advance chunk as collected at sale time', () => {
+      const ledger = computeInstallmentLedger(basePlan, [], beforeFirstDue);
+
+      expect(ledger.collectedAdvance).toBe(20000);
+      expect(ledger.remainingAdvance).toBe(0);
+      expect(ledger.advanceSchedule[0]).toMatchObject({ index: 1, paid_amount: 20000, status: 'Paid' });
+      expect(ledger.customerDebt).toBe(80000);
+    });
+
+    it('fills later chunks from advance adjustments only', () => {
+      const plan: LedgerPlan = {
+        ...basePlan,
+        advance_payments: [{ amount: 20000, date: '2026-01-01' }, { amount: 10000, date: '2026-01-10' }],
+      };
+      const ledger = computeInstallmentLedger(plan, [payment(4000, 'advance_adjustment')], beforeFirstDue);
+
+      expect(ledger.collectedAdvance).toBe(24000);
+      expect(ledger.remainingAdvance).toBe(6000);
+      expect(ledger.advanceSchedule[1]).toMatchObject({ paid_amount: 4000, remaining_amount: 6000, status: 'Partially Paid' });
+    });
+  });
+
+  describe('monthly target', () => {
+    it('is reduced by discounts, taken off the last installment', () => {
+      const ledger = computeInstallmentLedger(basePlan, [payment(5000, 'discount')], beforeFirstDue);
+
+      expect(ledger.monthlyTarget).toBe(75000);
+      expect(ledger.schedule.slice(0, 7).every(item => item.expected_amount === 10000)).toBe(true);
+      expect(ledger.schedule[7].expected_amount).toBe(5000);
+      expect(ledger.customerDebt).toBe(75000);
+    });
+
+    it('lets the last installment absorb the rounding remainder', () => {
+      const plan: LedgerPlan = { ...basePlan, total_price: 30000, monthly_installment: 3333.33, duration_months: 3 };
+      const ledger = computeInstallmentLedger(plan, [], beforeFirstDue);
+
+      expect(ledger.schedule.map(item => item.expected_amount)).toEqual([3333, 3333, 3334]);
+      expect(ledger.schedule.reduce((sum, item) => sum + item.expected_amount, 0)).toBe(ledger.monthlyTarget);
+    });
+  });
+
+  describe('waterfall', () => {
+    it('spreads a bulk payment over the earliest dues', () => {
+      const ledger = computeInstallmentLedger(basePlan, [payment(25000)], beforeFirstDue);
+
+      expect(ledger.schedule.slice(0, 4).map(item => [item.paid_amount, item.status])).toEqual([
+        [10000, 'Paid'],
+        [10000, 'Paid'],
+        [5000, 'Partially Paid'],
+        [0, 'Unpaid'],
+      ]);
+    });
+
+    it('pools untagged payments whatever their order and ignores voided ones', () => {
+      const payments: LedgerPayment[] = [
+        payment(3000, 'monthly', '2026-03-05'),
+        payment(12000, 'monthly', '2026-02-01'),
+        { ...payment(10000), voided_at: '2026-02-02T00:00:00Z' },
+        { ...payment(-10000), reversal_of: 'voided-payment' },
+        { ...payment(50000), installment_plan_id: 'other-plan' },
+      ];
+      const ledger = computeInstallmentLedger(basePlan, payments, beforeFirstDue);
+
+      expect(ledger.totalMonthlyPaid).toBe(15000);
+      expect(ledger.schedule[0].status).toBe('Paid');
+      expect(ledger.schedule[1]).toMatchObject({ paid_amount: 5000, remaining_amount: 5000 });
+    });
+  });
+
+  describe('status', () => {
+    // Three installments have fallen due by then
+    const afterThreeDues = new Date(2026, 3, 15);
+    const withPendingAdvance: LedgerPlan = {
+      ...basePlan,
+      advance_payments: [{ amount: 20000, date: '2026-01-01' }, { amount: 10000, date: '2026-02-01' }],
+    };
+
+    it('is Completed once nothing is owed, even on a defaulted plan', () => {
+      const plan: LedgerPlan = { ...withPendingAdvance, defaulted_on: '2026-03-01' };
+      const ledger = computeInstallmentLedger(plan, [payment(80000)], afterThreeDues);
+
+      expect(ledger.remainingAdvance).toBe(10000);
+      expect(ledger.status).toBe('Completed');
+    });
+
+    it('is Defaulted before Advance Pending', () => {
+      const plan: LedgerPlan = { ...withPendingAdvance, defaulted_on: '2026-03-01' };
+
+      expect(computeInstallmentLedger(plan, [], afterThreeDues).status).toBe('Defaulted');
+    });
+
+    it('is Advance Pending before Overdue', () => {
+      const ledger = computeInstallmentLedger(withPendingAdvance, [], afterThreeDues);
+
+      expect(ledger.schedule.some(item => item.is_overdue)).toBe(true);
+      expect(ledger.status).toBe('Advance Pending');
+    });
+
+    it('is Overdue when a past installment is unpaid', () => {
+      const ledger = computeInstallmentLedger(basePlan, [payment(20000)], afterThreeDues);
+
+      expect(ledger.status).toBe('Overdue');
+    });
+
+    it('is Active when everything due is paid, Not Active before the first due date', () => {
+      expect(computeInstallmentLedger(basePlan, [payment(30000)], afterThreeDues).status).toBe('Active');
+      expect(computeInstallmentLedger(basePlan, [], beforeFirstDue).status).toBe('Not Active');
+    });
+  });
+
+  describe('late fees', () => {
+    // Installment 1 paid 2 days late, installment 2 paid 9 days late, installment 3 (due 1 April) still open
+    const asOf = new Date(2026, 3, 15);
+    const latePayments = [payment(10000, 'monthly', '2026-02-03'), payment(10000, 'monthly', '2026-03-10')];
+
+    it('charges installments settled after the grace period and keeps accruing on open ones', () => {
+      const ledger = computeInstallmentLedger(basePlan, latePayments, asOf, lateFeePolicy);
+
+      expect(ledger.penaltySchedule.map(item => [item.installment_number, item.days_late, item.charged_amount, item.settled])).toEqual([
+        [2, 9, 540, true],
+        [3, 14, 590, false],
+      ]);
+      expect(ledger.totalPenalty).toBe(1130);
+      expect(ledger.remainingBalance).toBe(ledger.customerDebt + ledger.outstandingCommission + 1130);
+    });
+
+    it('pools penalty payments and waivers over the lines, earliest first, then bounce charges', () => {
+      const plan: LedgerPlan = { ...basePlan, bounce_charges: 300 };
+      const payments = [
+        ...latePayments,
+        payment(300, 'penalty', '2026-04-10'),
+        payment(400, 'penalty_waiver', '2026-04-10'),
+        { ...payment(1000, 'penalty_waiver', '2026-04-10'), voided_at: '2026-04-11T00:00:00Z' },
+      ];
+      const ledger = computeInstallmentLedger(plan, payments, asOf, lateFeePolicy);
+
+      expect(ledger.penaltySchedule.map(item => [item.paid_amount, item.remaining_amount, item.status])).toEqual([
+        [540, 0, 'Paid'],
+        [160, 430, 'Partially Paid'],
+      ]);
+      expect(ledger.penaltyPaid).toBe(300);
+      expect(ledger.penaltyWaived).toBe(400);
+      expect(ledger.totalPenalty).toBe(1430);
+      expect(ledger.outstandingPenalty).toBe(730);
+    });
+
+    it("uses the plan's own policy over the global one", () => {
+      const plan: LedgerPlan = { ...basePlan, late_fee_policy: { grace_days: 30, penalty_type: 'flat', penalty_value: 1000 } };
+      const ledger = computeInstallmentLedger(plan, latePayments, asOf, lateFeePolicy);
+
+      expect(ledger.penaltySchedule).toEqual([]);
+      expect(ledger.totalPenalty).toBe(0);
+    });
+
+    it('charges nothing without an active policy', () => {
+      expect(computeInstallmentLedger(basePlan, latePayments, asOf).penaltySchedule).toEqual([]);
+    });
+  });
+
+  describe('rescheduled plan', () => {
+    // Two installments paid under version 1, which was closed on 15 April with Rs 60,000 carried
+    // into version 2: 10 installments of Rs 6,000 from 1 June
+    const rescheduledPlan: LedgerPlan = {
+      ...basePlan,
+      schedule_version: 2,
+      schedule_start_date: '2026-05-01',
+      monthly_installment: 6000,
+      duration_months: 10,
+      schedule_history: [
+        { version: 1, start_date: '2026-01-01', monthly_installment: 10000, duration_months: 8, closed_on: '2026-04-15', carried_balance: 60000 },
+      ],
+    };
+    const reschedulePayments: LedgerPayment[] = [
+      { ...payment(10000, 'monthly', '2026-02-01'), schedule_version: 1 },
+      { ...payment(10000, 'monthly', '2026-03-01'), schedule_version: 1 },
+      payment(6000, 'monthly', '2026-06-01'),
+    ];
+    const asOf = new Date(2026, 5, 15);
+
+    it('carries the unpaid balance of the closed version into the one in force', () => {
+      const ledger = computeInstallmentLedger(rescheduledPlan, reschedulePayments, asOf);
+
+      expect(ledger.scheduleVersions.map(v => [v.version, v.scheduled_amount, v.paid_amount, v.carried_balance])).toEqual([
+        [1, 80000, 20000, 60000],
+        [2, 60000, 6000, null],
+      ]);
+      expect(ledger.schedule.filter(item => item.schedule_version === 2)).toHaveLength(10);
+      expect(ledger.schedule.filter(item => item.schedule_version === 2).every(item => item.expected_amount === 6000)).toBe(true);
+      expect(ledger.customerDebt).toBe(54000);
+    });
+
+    it('marks what the closed version left unpaid as Rescheduled, never overdue', () => {
+      const ledger = computeInstallmentLedger(rescheduledPlan, reschedulePayments, asOf);
+      const closed = ledger.schedule.filter(item => item.schedule_version === 1);
+
+      expect(closed.map(item => item.status)).toEqual(['Paid', 'Paid', ...Array(6).fill('Rescheduled')]);
+      expect(closed.every(item => item.remaining_amount === 0 && !item.is_overdue)).toBe(true);
+      expect(installmentLabel(closed[2], ledger)).toBe('v1-3');
+      expect(ledger.status).toBe('Active');
+    });
+
+    it('applies payments only to the version they were recorded under', () => {
+      const ledger = computeInstallmentLedger(rescheduledPlan, [...reschedulePayments, { ...payment(10000, 'monthly', '2026-04-01'), schedule_version: 1 }], asOf);
+      const current = ledger.schedule.filter(item => item.schedule_version === 2);
+
+      expect(ledger.scheduleVersions[0].paid_amount).toBe(30000);
+      expect(ledger.schedule.filter(item => item.schedule_version === 1)[2].status).toBe('Paid');
+      expect(current[0].paid_amount).toBe(6000);
+      expect(current[1].paid_amount).toBe(0);
+    });
+
+    it('stops late fees on the closed version at the reschedule date', () => {
+      const ledger = computeInstallmentLedger(rescheduledPlan, reschedulePayments, asOf, lateFeePolicy);
+
+      // Installment 3 fell due on 1 April and accrued until 15 April; installment 4 fell due after the reschedule
+      expect(ledger.penaltySchedule).toEqual([
+        expect.objectContaining({ schedule_version: 1, installment_number: 3, days_late: 14, charged_amount: 590, settled: true }),
+      ]);
+    });
+  });
+});
+
+describe('calculateLateFee', () => {
+  it('charges nothing within the grace period', () => {
+    expect(calculateLateFee(lateFeePolicy, 10000, 0)).toBe(0);
+    expect(calculateLateFee(lateFeePolicy, 10000, 5)).toBe(0);
+  });
+
+  it('adds the per-day amount for every day past the grace period', () => {
+    expect(calculateLateFee(lateFeePolicy, 10000, 6)).toBe(510);
+    expect(calculateLateFee(lateFeePolicy, 10000, 35)).toBe(800);
+  });
+
+  it('takes a percentage of the installment', () => {
+    const policy: LateFeePolicy = { ...lateFeePolicy, penalty_type: 'percentage', penalty_value: 2.5, per_day_amount: 0 };
+
+    expect(calculateLateFee(policy, 10000, 6)).toBe(250);
+    expect(calculateLateFee(policy, 3333, 6)).toBe(83);
+  });
+
+  it('stops at the cap', () => {
+    const policy: LateFeePolicy = { ...lateFeePolicy, cap: 600 };
+
+    expect(calculateLateFee(policy, 10000, 10)).toBe(550);
+    expect(calculateLateFee(policy, 10000, 60)).toBe(600);
+  });
+});
+
+describe('parseLateFeePolicy', () => {
+  it('reads a stored policy', () => {
+    expect(parseLateFeePolicy({ ...lateFeePolicy, cap: 2000 })).toEqual({ ...lateFeePolicy, cap: 2000 });
+  });
+
+  it('treats anything but an object as no policy', () => {
+    expect(parseLateFeePolicy(null)).toBeNull();
+    expect(parseLateFeePolicy('flat')).toBeNull();
+    expect(parseLateFeePolicy([lateFeePolicy])).toBeNull();
+  });
+
+  it('falls back to safe values for malformed fields', () => {
+    expect(parseLateFeePolicy({ grace_days: 3.7, penalty_type: 'daily', penalty_value: -100, per_day_amount: '10', cap: 0 })).toEqual({
+      grace_days: 3,
+      penalty_type: 'flat',
+      penalty_value: 0,
+      per_day_amount: 0,
+      cap: null,
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import { addMonths, differenceInCalendarDays, format, isBefore, parseISO, startOfDay } from 'date-fns';
+import { calculateLateFee, isLateFeePolicyActive, LateFeePolicy, parseLateFeePolicy } from '@/lib/lateFees';
+
+// Minimal shapes the ledger needs. Page-level plan/payment types carry more
+// fields (nested customers, rikshaws, ...) and are structurally compatible.
+export interface LedgerAdvancePayment {
+  amount: number;
+  date: string;
+}
+
+export interface LedgerPlan {
+  id: string;
+  total_price: number;
+  monthly_installment: number;
+  duration_months: number;
+  advance_payments: LedgerAdvancePayment[] | null;
+  agreement_date?: string | null;
+  created_at: string;
+  showroom_commission?: number | null;
+  bounce_charges?: number | null; // bank charges of bounced cheques, owed like late fees
+  late_fee_policy?: unknown; // plan override, see parseLateFeePolicy
+  schedule_version?: number | null; // version of the schedule in force (1 until rescheduled)
+  schedule_start_date?: string | null; // start of the schedule in force; null: agreement date
+  schedule_history?: LedgerScheduleVersion[] | null; // closed versions, oldest first
+  defaulted_on?: string | null; // set when a manager marks the plan as defaulted
+}
+
+// A closed schedule version (installment_plans.schedule_history)
+export interface LedgerScheduleVersion {
+  version: number;
+  start_date: string; // 'yyyy-MM-dd'
+  monthly_installment: number;
+  duration_months: number;
+  closed_on: string; // 'yyyy-MM-dd'
+  carried_balance: number;
+}
+
+export interface LedgerPayment {
+  installment_plan_id: string;
+  amount_paid: number;
+  payment_type: string;
+  payment_date?: string;
+  voided_at?: string | null;
+  reversal_of?: string | null; // set on the reversing entry of a voided payment
+  schedule_version?: number | null; // null: the schedule in force
+}
+
+// Rescheduled: unpaid (part of an) installment of a closed version, carried into the next one
+export type ScheduleItemStatus = 'Paid' | 'Partially Paid' | 'Unpaid' | 'Rescheduled';
+
+export type PlanStatus = 'Completed' | 'Defaulted' | 'Advance Pending' | 'Overdue' | 'Active' | 'Not Active';
+
+export interface MonthlyScheduleItem {
+  schedule_version: number;
+  installment_number: number; // restarts at 1 in every version
+  due_date: string; // 'yyyy-MM-dd'
+  expected_amount: number;
+  paid_amount: number;
+  remaining_amount: number;
+  status: ScheduleItemStatus;
+  is_overdue: boolean;
+}
+
+// Late fee charged on one monthly installment. Listed after that installment in the schedule.
+export interface PenaltyScheduleItem {
+  schedule_version: number;
+  installment_number: number;
+  due_date: string; // 'yyyy-MM-dd' (of the installment)
+  days_late: number;
+  settled: boolean; // false while the installment is unpaid and the fee still accrues
+  charged_amount: number;
+  paid_amount: number; // paid or waived
+  remaining_amount: number;
+  status: ScheduleItemStatus;
+}
+
+export interface AdvanceScheduleItem {
+  index: number; // 1-based position in plan.advance_payments
+  due_date: string; // 'yyyy-MM-dd'
+  expected_amount: number;
+  paid_amount: number;
+  remaining_amount: number;
+  status: ScheduleItemStatus;
+  is_overdue: boolean;
+}
+
+// One schedule version with what it was set up to collect and what was paid against it
+export interface ScheduleVersionSummary {
+  version: number;
+  start_date: string; // 'yyyy-MM-dd'
+  monthly_installment: number;
+  duration_months: number;
+  scheduled_amount: number;
+  paid_amount: number;
+  closed_on: string | null; // null for the version in force
+  carried_balance: number | null;
+}
+
+export interface InstallmentLedger {
+  // Advance position
+  totalAgreedAdvance: number;
+  collectedAdvance: number;
+  remainingAdvance: number;
+  advanceSchedule: AdvanceScheduleItem[];
+
+  // Monthly position
+  totalMonthlyPaid: number;
+  monthlyTarget: number;
+  schedule: MonthlyScheduleItem[]; // every version, oldest first
+  installmentsDue: number;
+  scheduleVersion: number; // version in force
+  scheduleVersions: ScheduleVersionSummary[];
+
+  // Late fees (and bounced-cheque charges)
+  penaltySchedule: PenaltyScheduleItem[];
+  bounceCharges: number;
+  totalPenalty: number; // late fee lines + bounceCharges
+  penaltyPaid: number;
+  penaltyWaived: number;
+  outstandingPenalty: number;
+
+  // Discounts and commission
+  totalDiscount: number;
+  commissionOwed: number;
+  commissionPaid: number;
+  outstandingCommission: number;
+
+  // Totals
+  customerPaid: number; // collected advance + monthly + discount
+  customerDebt: number; // total price - customerPaid
+  remainingBalance: number; // customerDebt + outstandingCommission + outstandingPenalty
+
+  status: PlanStatus;
+}
+
+// Voided payments and their reversing entries stay in the history but never count towards balances
+export const isCountedPayment = (payment: LedgerPayment) => !payment.voided_at && !payment.reversal_of;
+
+const sumByType = (payments: LedgerPayment[], type: string) =>
+  payments.reduce((sum, p) => (p.payment_type === type ? sum + (p.amount_paid || 0) : sum), 0);
+
+const itemStatus = (paid: number, expected: number): ScheduleItemStatus => {
+  if (paid >= expected) return 'Paid';
+  if (paid > 0) return 'Partially Paid';
+  return 'Unpaid';
+};
+
+// The schedule in force is anchored on its start date (set when rescheduled), else the agreement
+// date; older plans without one fall back to the sale date.
+export const getScheduleStartDate = (plan: LedgerPlan) =>
+  parseISO(plan.schedule_start_date || plan.agreement_date || plan.created_at);
+
+// "3" on plans never rescheduled, "v2-3" once a plan has several schedule versions
+export const installmentLabel = (
+  item: Pick<MonthlyScheduleItem, 'schedule_version' | 'installment_number'>,
+  ledger: Pick<InstallmentLedger, 'scheduleVersions'>
+) => (ledger.scheduleVersions.length > 1 ? `v${item.schedule_version}-${item.installment_number}` : String(item.installment_number));
+
+/**
+ * Computes the full financial position of a plan from its recorded payments.
+ *
+ * Advance: `advance_payments` holds the agreed advance chunks. The first chunk is
+ * collected at sale time; later chunks are collected through `advance_adjustment`
+ * payments and are filled in order.
+ *
+ * Monthly: all `monthly` payments are pooled and distributed sequentially over the
+ * schedule (waterfall), so bulk or untagged payments always clear the earliest dues
+ * first. The amount the monthly schedule must cover is the total price less collected
+ * advance and discounts; every installment expects `monthly_installment` (capped by what
+ * is left) and the last one absorbs the remainder.
+ *
+ * Rescheduled plans: each closed version in `schedule_history` is laid out with its own terms
+ * and only the monthly payments tagged with its `schedule_version`; it expects what was paid
+ * against it plus the balance it carried forward, and whatever it left unpaid is marked
+ * `Rescheduled` (nothing remaining, never overdue). The schedule in force covers the monthly
+ * target less the monthly payments of the closed versions.
+ *
+ * Late fees: with a late fee policy (the plan's own, else `globalLateFeePolicy`), every
+ * installment settled more than the grace period after its due date gets a penalty line.
+ * The settlement date is the date of the monthly payment that completed it in the waterfall;
+ * unpaid installments keep accruing until `asOf` (until `closed_on` in a closed version, where the
+ * fee stops at the reschedule). `penalty` payments and `penalty_waiver`
+ * entries are pooled over the penalty lines, earliest first. Bounced-cheque charges
+ * (`plan.bounce_charges`) are added to the penalty total and settled the same way, after
+ * the late fee lines.
+ *
+ * Status: a plan marked as defaulted reports 'Defaulted' until it is fully paid, whatever its
+ * schedule says.
+ *
+ * `payments` may contain rows for other plans; only rows for `plan.id` are used. Voided
+ * payments and reversing entries are ignored.
+ */
+export const computeInstallmentLedger = (
+  plan: LedgerPlan,
+  payments: LedgerPayment[],
+  asOf: Date = new Date(),
+  globalLateFeePolicy: LateFeePolicy | null = null
+): InstallmentLedger => {
+  const planPayments = payments.filter(p => p.installment_plan_id === plan.id && isCountedPayment(p));
+  const today = startOfDay(asOf);
+  const advanceChunks = plan.advance_payments || [];
+
+  const totalMonthlyPaid = sumByType(planPayments, 'monthly');
+  const advanceAdjustmentsPaid = sumByType(planPayments, 'advance_adjustment');
+  const totalDiscount = sumByType(planPayments, 'discount');
+  const commissionPaid = sumByType(planPayments, 'commission');
+  const penaltyPaid = sumByType(planPayments, 'penalty');
+  const penaltyWaived = sumByType(planPayments, 'penalty_waiver');
+
+  // --- Advance position ---
+  const totalAgreedAdvance = advanceChunks.reduce((sum, p) => sum + (p.amount || 0), 0);
+  const initialAdvance = advanceChunks[0]?.amount || 0;
+  const collectedAdvance = initialAdvance + advanceAdjustmentsPaid;
+  const remainingAdvance = Math.max(0, totalAgreedAdvance - collectedAdvance);
+
+  let advancePool = collectedAdvance;
+  const advanceSchedule: AdvanceScheduleItem[] = advanceChunks.map((chunk, i) => {
+    const expected = chunk.amount || 0;
+    const paid = Math.min(expected, Math.max(0, advancePool));
+    advancePool -= paid;
+    const dueDate = parseISO(chunk.date);
+    return {
+      index: i + 1,
+      due_date: format(dueDate, 'yyyy-MM-dd'),
+      expected_amount: expected,
+      paid_amount: paid,
+      remaining_amount: expected - paid,
+      status: itemStatus(paid, expected),
+      is_overdue: expected - paid > 0 && isBefore(dueDate, today),
+    };
+  });
+
+  // --- Monthly schedule, one version at a time ---
+  const monthlyTarget = Math.max(0, plan.total_price - collectedAdvance - totalDiscount);
+  const scheduleVersion = plan.schedule_version || 1;
+  const versions = [
+    ...[...(plan.schedule_history || [])]
+      .sort((a, b) => a.version - b.version)
+      .map(v => ({ ...v, start: parseISO(v.start_date) })),
+    {
+      version: scheduleVersion,
+      start: getScheduleStartDate(plan),
+      monthly_installment: plan.monthly_installment,
+      duration_months: plan.duration_months,
+      closed_on: null as string | null,
+      carried_balance: null as number | null,
+    },
+  ];
+
+  const lateFeePolicy = parseLateFeePolicy(plan.late_fee_policy) ?? globalLateFeePolicy;
+  const lateFeesActive = isLateFeePolicyActive(lateFeePolicy);
+  let penaltyPool = penaltyPaid + penaltyWaived;
+
+  const schedule: MonthlyScheduleItem[] = [];
+  const penaltySchedule: PenaltyScheduleItem[] = [];
+  const scheduleVersions: ScheduleVersionSummary[] = [];
+  let paidInClosedVersions = 0;
+  let installmentsDue = 0;
+
+  versions.forEach(version => {
+    const isClosed = version.closed_on !== null;
+    const versionPayments = planPayments.filter(
+      p => p.payment_type === 'monthly' && (p.schedule_version ?? scheduleVersion) === version.version
+    );
+    const versionPaid = sumByType(versionPayments, 'monthly');
+    const scheduledAmount = isClosed
+      ? versionPaid + version.carried_balance
+      : Math.max(0, monthlyTarget - paidInClosedVersions);
+    const closedOn = isClosed ? startOfDay(parseISO(version.closed_on)) : null;
+    // A closed version stopped falling due when it was closed
+    const dueUntil = closedOn && isBefore(closedOn, today) ? closedOn : today;
+
+    const items: MonthlyScheduleItem[] = [];
+    let targetToAllocate = scheduledAmount;
+    let monthlyPool = versionPaid;
+
+    for (let i = 1; i <= version.duration_months; i++) {
+      const dueDate = addMonths(version.start, i);
+
+      const expected = i === version.duration_months
+        ? Math.max(0, Math.round(targetToAllocate))
+        : Math.round(Math.min(version.monthly_installment, Math.max(0, targetToAllocate)));
+      targetToAllocate -= expected;
+
+      const paid = Math.min(expected, monthlyPool);
+      monthlyPool -= paid;
+
+      if (!isBefore(dueUntil, startOfDay(dueDate))) installmentsDue++;
+
+      const carried = isClosed && expected - paid > 0;
+      items.push({
+        schedule_version: version.version,
+        installment_number: i,
+        due_date: format(dueDate, 'yyyy-MM-dd'),
+        expected_amount: expected,
+        paid_amount: paid,
+        remaining_amount: carried ? 0 : expected - paid,
+        status: carried ? 'Rescheduled' : itemStatus(paid, expected),
+        is_overdue: !isClosed && expected - paid > 0 && isBefore(dueDate, today),
+      });
+    }
+
+    // --- Late fees ---
+    if (lateFeesActive) {
+      // Replay this version's monthly payments in date order to find when each installment was fully covered
+      const monthlyPayments = versionPayments
+        .filter(p => p.payment_date)
+        .sort((a, b) => a.payment_date.localeCompare(b.payment_date));
+      let paymentIndex = 0;
+      let carried = 0; // paid amount not yet consumed by earlier installments
+
+      items.forEach(item => {
+        while (carried < item.expected_amount && paymentIndex < monthlyPayments.length) {
+          carried += monthlyPayments[paymentIndex].amount_paid || 0;
+          paymentIndex++;
+        }
+        const paidOff = item.expected_amount > 0 && carried >= item.expected_amount;
+        const settledOn = paidOff && paymentIndex > 0
+          ? parseISO(monthlyPayments[paymentIndex - 1].payment_date)
+          : closedOn ?? today;
+        if (paidOff) carried -= item.expected_amount;
+        // Nothing is owed on a zero-amount installment, so it cannot be late
+        if (item.expected_amount <= 0) return;
+
+        const daysLate = differenceInCalendarDays(settledOn, parseISO(item.due_date));
+        const charged = calculateLateFee(lateFeePolicy, item.expected_amount, daysLate);
+        if (charged <= 0) return;
+
+        const paid = Math.min(charged, Math.max(0, penaltyPool));
+        penaltyPool -= paid;
+
+        penaltySchedule.push({
+          schedule_version: item.schedule_version,
+          installment_number: item.installment_number,
+          due_date: item.due_date,
+          days_late: daysLate,
+          settled: paidOff || isClosed,
+          charged_amount: charged,
+          paid_amount: paid,
+          remaining_amount: charged - paid,
+          status: itemStatus(paid, charged),
+        });
+      });
+    }
+
+    schedule.push(...items);
+    scheduleVersions.push({
+      version: version.version,
+      start_date: format(version.start, 'yyyy-MM-dd'),
+      monthly_installment: version.monthly_installment,
+      duration_months: version.duration_months,
+      scheduled_amount: scheduledAmount,
+      paid_amount: versionPaid,
+      closed_on: version.closed_on,
+      carried_balance: version.carried_balance,
+    });
+    if (isClosed) paidInClosedVersions += versionPaid;
+  });
+
+  const bounceCharges = plan.bounce_charges || 0;
+  const totalPenalty = penaltySchedule.reduce((sum, item) => sum + item.charged_amount, 0) + bounceCharges;
+  const outstandingPenalty = Math.max(0, totalPenalty - penaltyPaid - penaltyWaived);
+
+  // --- Totals ---
+  const commissionOwed = plan.showroom_commission || 0;
+  const outstandingCommission = commissionOwed - commissionPaid;
+  const customerPaid = collectedAdvance + totalMonthlyPaid + totalDiscount;
+  const customerDebt = plan.total_price - customerPaid;
+  const remainingBalance = customerDebt + outstandingCommission + outstandingPenalty;
+
+  let status: PlanStatus;
+  if (customerDebt <= 0) {
+    status = 'Completed';
+  } else if (plan.defaulted_on) {
+    status = 'Defaulted';
+  } else if (remainingAdvance > 0) {
+    status = 'Advance Pending';
+  } else if (schedule.some(item => item.is_overdue)) {
+    status = 'Overdue';
+  } else if (installmentsDue > 0) {
+    status = 'Active';
+  } else {
+    status = 'Not Active';
+  }
+
+  return {
+    totalAgreedAdvance,
+    collectedAdvance,
+    remainingAdvance,
+    advanceSchedule,
+    totalMonthlyPaid,
+    monthlyTarget,
+    schedule,
+    installmentsDue,
+    scheduleVersion,
+    scheduleVersions,
+    penaltySchedule,
+    bounceCharges,
+    totalPenalty,
+    penaltyPaid,
+    penaltyWaived,
+    outstandingPenalty,
+    totalDiscount,
+    commissionOwed,
+    commissionPaid,
+    outstandingCommission,
+    customerPaid,
+    customerDebt,
+    remainingBalance,
+    status,
+  };
+};
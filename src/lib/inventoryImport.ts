@@ -0,0 +1,222 @@
+import { format, isValid, parse } from 'date-fns';
+import { readSheet } from 'read-excel-file/browser';
+import { supabase } from '@/integrations/supabase/client';
+import { parseCsv, type CsvCell } from '@/lib/csv';
+
+// One rikshaw from an import file, ready for the `import_rikshaws` RPC
+export type ImportLine = {
+  manufacturer: string;
+  model_name: string;
+  type: string;
+  engine_number: string;
+  chassis_number: string;
+  registration_number: string;
+  category: 'new' | 'old';
+  purchase_date: string; // 'yyyy-MM-dd'
+  purchase_price: number;
+};
+
+type ImportColumn = keyof ImportLine;
+
+// File columns, matched on the header row ignoring case, spaces and punctuation
+const IMPORT_COLUMNS: { key: ImportColumn; label: string; aliases: string[]; required: boolean }[] = [
+  { key: 'engine_number', label: 'Engine Number', aliases: ['engine', 'engineno'], required: true },
+  { key: 'chassis_number', label: 'Chassis Number', aliases: ['chassis', 'chassisno'], required: true },
+  { key: 'registration_number', label: 'Registration Number', aliases: ['registration', 'registrationno', 'regno'], required: false },
+  { key: 'manufacturer', label: 'Manufacturer', aliases: ['maker', 'make'], required: true },
+  { key: 'model_name', label: 'Model', aliases: ['modelname'], required: true },
+  { key: 'type', label: 'Type', aliases: [], required: true },
+  { key: 'category', label: 'Category', aliases: [], required: false },
+  { key: 'purchase_date', label: 'Purchase Date', aliases: ['date'], required: true },
+  { key: 'purchase_price', label: 'Purchase Price', aliases: ['price'], required: true },
+];
+
+// Day-first dates are tried before month-first ones, as they are written locally
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'd-M-yyyy', 'dd MMM yyyy', 'd MMM yyyy'];
+
+export const IMPORT_TEMPLATE: CsvCell[][] = [
+  IMPORT_COLUMNS.map(column => column.label),
+  ['ENG123456', 'CHS789012', '', 'Sazgar', 'SAZ-200', 'Loader', 'new', format(new Date(), 'yyyy-MM-dd'), 350000],
+];
+
+type SheetCell = string | number | boolean | Date | null;
+
+export interface ImportRow {
+  rowNumber: number; // line in the file, counting the header as 1
+  line: ImportLine;
+  errors: string[];
+}
+
+export interface ImportReport {
+  rows: ImportRow[];
+  validLines: ImportLine[];
+}
+
+export interface ImportCatalog {
+  manufacturers: string[];
+  types: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const cellText = (cell: SheetCell | undefined) => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return format(cell, 'yyyy-MM-dd');
+  return String(cell).trim();
+};
+
+const parseDate = (cell: SheetCell | undefined): string | null => {
+  if (cell instanceof Date) return isValid(cell) ? format(cell, 'yyyy-MM-dd') : null;
+  const text = cellText(cell);
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(text, dateFormat, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+const parsePrice = (cell: SheetCell | undefined) => {
+  if (typeof cell === 'number') return cell;
+  const amount = parseFloat(cellText(cell).replace(/rs\.?|,|\s/gi, ''));
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+// The catalog spelling of a value, matched ignoring case
+const catalogValue = (catalog: string[], value: string) =>
+  catalog.find(entry => entry.toLowerCase() === value.toLowerCase()) ?? null;
+
+/** Reads the first sheet of an .xlsx file, or a .csv file, as rows of cells. */
+export const readImportFile = async (file: File): Promise<SheetCell[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return (await readSheet(file)) as SheetCell[][];
+  }
+  if (/\.csv$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+  throw new Error('Please choose a .csv or .xlsx file.');
+};
+
+// Units already in stock with any of these numbers, `column` -> values found
+const findExistingNumbers = async (lines: ImportLine[]) => {
+  const existing = {
+    engine_number: new Set<string>(),
+    chassis_number: new Set<string>(),
+    registration_number: new Set<string>(),
+  };
+  const CHUNK = 100;
+
+  for (const column of Object.keys(existing) as (keyof typeof existing)[]) {
+    const values = [...new Set(lines.map(line => line[column]).filter(Boolean))];
+    for (let i = 0; i < values.length; i += CHUNK) {
+      const { data, error } = await supabase
+        .from('rikshaws')
+        .select(column)
+        .in(column, values.slice(i, i + CHUNK));
+      if (error) throw error;
+      (data as Record<string, string>[]).forEach(row => existing[column].add(row[column]));
+    }
+  }
+
+  return existing;
+};
+
+/**
+ * Dry run of an import: maps the header row to columns, then checks every row for missing
+ * values, unknown manufacturers and types (from Settings), a usable date, a price above zero,
+ * numbers repeated within the file and numbers already in stock. Nothing is written.
+ */
+export const validateImport = async (sheet: SheetCell[][], catalog: ImportCatalog): Promise<ImportReport> => {
+  const [header = [], ...body] = sheet;
+  const headers = header.map(cell => normalizeHeader(cellText(cell)));
+  const columnIndex = {} as Record<ImportColumn, number>;
+
+  const missing: string[] = [];
+  IMPORT_COLUMNS.forEach(column => {
+    const names = [normalizeHeader(column.key), normalizeHeader(column.label), ...column.aliases];
+    columnIndex[column.key] = headers.findIndex(header => names.includes(header));
+    if (columnIndex[column.key] < 0 && column.required) missing.push(column.label);
+  });
+  if (missing.length > 0) {
+    throw new Error(`The file has no ${missing.join(', ')} column. Download the template for the expected layout.`);
+  }
+  if (body.length === 0) {
+    throw new Error('The file has no rows below the header.');
+  }
+
+  const cell = (cells: SheetCell[], key: ImportColumn) => (columnIndex[key] >= 0 ? cells[columnIndex[key]] : undefined);
+
+  const rows: ImportRow[] = body.map((cells, index) => {
+    const errors: string[] = [];
+    const manufacturer = cellText(cell(cells, 'manufacturer'));
+    const type = cellText(cell(cells, 'type'));
+    const category = cellText(cell(cells, 'category')).toLowerCase() || 'new';
+    const purchaseDate = parseDate(cell(cells, 'purchase_date'));
+    const line: ImportLine = {
+      manufacturer: catalogValue(catalog.manufacturers, manufacturer) ?? manufacturer,
+      model_name: cellText(cell(cells, 'model_name')),
+      type: catalogValue(catalog.types, type) ?? type,
+      engine_number: cellText(cell(cells, 'engine_number')),
+      chassis_number: cellText(cell(cells, 'chassis_number')),
+      registration_number: cellText(cell(cells, 'registration_number')),
+      category: category === 'old' ? 'old' : 'new',
+      purchase_date: purchaseDate ?? '',
+      purchase_price: parsePrice(cell(cells, 'purchase_price')),
+    };
+
+    IMPORT_COLUMNS.forEach(column => {
+      if (column.required && column.key !== 'purchase_price' && !cellText(cell(cells, column.key))) {
+        errors.push(`${column.label} is required.`);
+      }
+    });
+    if (manufacturer && !catalogValue(catalog.manufacturers, manufacturer)) {
+      errors.push(`Manufacturer "${manufacturer}" is not in the catalog.`);
+    }
+    if (type && !catalogValue(catalog.types, type)) {
+      errors.push(`Type "${type}" is not in the catalog.`);
+    }
+    if (category !== 'new' && category !== 'old') {
+      errors.push(`Category must be "new" or "old", not "${category}".`);
+    }
+    if (cellText(cell(cells, 'purchase_date')) && !purchaseDate) {
+      errors.push(`Purchase date "${cellText(cell(cells, 'purchase_date'))}" is not a date.`);
+    }
+    if (line.purchase_price <= 0) {
+      errors.push('Purchase price must be greater than 0.');
+    }
+
+    return { rowNumber: index + 2, line, errors };
+  });
+
+  // Repeated within the file: every row after the first with the same number
+  (['engine_number', 'chassis_number', 'registration_number'] as const).forEach(column => {
+    const label = IMPORT_COLUMNS.find(entry => entry.key === column).label;
+    const firstRow = new Map<string, number>();
+    rows.forEach(row => {
+      const value = row.line[column];
+      if (!value) return;
+      if (firstRow.has(value)) row.errors.push(`${label} ${value} is also on row ${firstRow.get(value)}.`);
+      else firstRow.set(value, row.rowNumber);
+    });
+  });
+
+  const existing = await findExistingNumbers(rows.map(row => row.line));
+  rows.forEach(({ line, errors }) => {
+    if (existing.engine_number.has(line.engine_number)) errors.push(`Engine Number ${line.engine_number} is already in stock.`);
+    if (existing.chassis_number.has(line.chassis_number)) errors.push(`Chassis Number ${line.chassis_number} is already in stock.`);
+    if (line.registration_number && existing.registration_number.has(line.registration_number)) {
+      errors.push(`Registration Number ${line.registration_number} is already in stock.`);
+    }
+  });
+
+  return { rows, validLines: rows.filter(row => row.errors.length === 0).map(row => row.line) };
+};
+
+/**
+ * Adds the validated units as unsold rikshaws through the `import_rikshaws` RPC, in one
+ * transaction: if any unit has been added since the dry run, nothing is imported.
+ */
+export const importRikshaws = async (lines: ImportLine[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('import_rikshaws', { p_rows: lines });
+  if (error) throw error;
+  return data;
+};
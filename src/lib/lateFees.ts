@@ -0,0 +1,76 @@
+// Late-payment penalties.
+//
+// A policy is stored globally in app_settings ('late_fee_policy') and can be overridden per plan
+// in installment_plans.late_fee_policy. Penalties are charged per monthly installment that is
+// settled (or still open) more than `grace_days` after its due date; see computeInstallmentLedger
+// for how they are matched against `penalty` and `penalty_waiver` payments.
+
+export const LATE_FEE_POLICY_SETTING = 'late_fee_policy';
+
+export type LateFeeType = 'flat' | 'percentage';
+
+// Stored as JSON, hence `type` rather than `interface`
+export type LateFeePolicy = {
+  grace_days: number;
+  penalty_type: LateFeeType;
+  penalty_value: number; // Rs for 'flat', % of the installment for 'percentage'
+  per_day_amount: number; // Rs accrued for every day late after the grace period
+  cap: number | null; // maximum penalty per installment; null for no cap
+};
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  grace_days: 5,
+  penalty_type: 'flat',
+  penalty_value: 0,
+  per_day_amount: 0,
+  cap: null,
+};
+
+// Narrows a JSON value from the database; anything malformed counts as "no policy"
+export const parseLateFeePolicy = (value: unknown): LateFeePolicy | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : 0);
+
+  return {
+    grace_days: Math.floor(num(raw.grace_days)),
+    penalty_type: raw.penalty_type === 'percentage' ? 'percentage' : 'flat',
+    penalty_value: num(raw.penalty_value),
+    per_day_amount: num(raw.per_day_amount),
+    cap: typeof raw.cap === 'number' && raw.cap > 0 ? raw.cap : null,
+  };
+};
+
+export const isLateFeePolicyActive = (policy: LateFeePolicy | null): policy is LateFeePolicy =>
+  !!policy && (policy.penalty_value > 0 || policy.per_day_amount > 0);
+
+/**
+ * Penalty for one installment of `installmentAmount` settled `daysLate` days after its due date.
+ * Nothing is charged within the grace period; after it the base penalty applies once and the
+ * per-day amount accrues for every day beyond the grace period, up to the cap.
+ */
+export const calculateLateFee = (policy: LateFeePolicy, installmentAmount: number, daysLate: number) => {
+  if (daysLate <= policy.grace_days) return 0;
+
+  const base = policy.penalty_type === 'percentage'
+    ? (installmentAmount * policy.penalty_value) / 100
+    : policy.penalty_value;
+  const accrued = policy.per_day_amount * (daysLate - policy.grace_days);
+  const fee = Math.round(base + accrued);
+
+  return policy.cap !== null ? Math.min(fee, policy.cap) : fee;
+};
+
+export const describeLateFeePolicy = (policy: LateFeePolicy | null) => {
+  if (!isLateFeePolicyActive(policy)) return 'No late fees';
+
+  const parts: string[] = [];
+  if (policy.penalty_value > 0) {
+    parts.push(policy.penalty_type === 'percentage' ? `${policy.penalty_value}% of the installment` : `Rs ${policy.penalty_value.toLocaleString()}`);
+  }
+  if (policy.per_day_amount > 0) parts.push(`Rs ${policy.per_day_amount.toLocaleString()}/day`);
+
+  let text = `${parts.join(' + ')} after ${policy.grace_days} grace day${policy.grace_days === 1 ? '' : 's'}`;
+  if (policy.cap !== null) text += `, capped at Rs ${policy.cap.toLocaleString()}`;
+  return text;
+};
@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { InstallmentPayment, PaymentType, ReceiptReprint } from '@/types/domain';
+
+export interface RecordPaymentParams {
+  planId: string;
+  amount: number;
+  paymentType: PaymentType;
+  receivedBy: string;
+  paymentDate: string; // 'yyyy-MM-dd'
+  remarks?: string; // required for penalty waivers
+}
+
+/**
+ * Records a payment through the `record_payment` RPC. The server locks the plan, allocates
+ * monthly amounts over the schedule (earliest dues first, leftover to the pending advance),
+ * inserts every row and updates the plan aggregates in one transaction.
+ *
+ * Returns the inserted rows in allocation order; non-monthly payments yield a single row.
+ * Penalty waivers need an admin or manager and a reason in `remarks`.
+ */
+export const recordPayment = async (params: RecordPaymentParams): Promise<InstallmentPayment[]> => {
+  const { data, error } = await supabase.rpc('record_payment', {
+    p_plan_id: params.planId,
+    p_amount: params.amount,
+    p_payment_type: params.paymentType,
+    p_received_by: params.receivedBy,
+    p_payment_date: params.paymentDate,
+    p_remarks: params.remarks,
+  });
+
+  if (error) throw error;
+  return (data || []) as InstallmentPayment[];
+};
+
+/**
+ * Voids a payment through the `void_payment` RPC. The original row is kept and marked voided
+ * (reason, user, time) and a reversing entry with the negated amount is inserted.
+ *
+ * Returns the reversing entry.
+ */
+export const voidPayment = async (paymentId: string, reason: string): Promise<InstallmentPayment> => {
+  const { data, error } = await supabase.rpc('void_payment', {
+    p_payment_id: paymentId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data as InstallmentPayment;
+};
+
+/**
+ * Logs a receipt reprint through the `log_receipt_reprint` RPC (who and when). Call it before
+ * printing the copy, which must be marked DUPLICATE.
+ */
+export const logReceiptReprint = async (receiptNumber: string): Promise<ReceiptReprint> => {
+  const { data, error } = await supabase.rpc('log_receipt_reprint', {
+    p_receipt_number: receiptNumber,
+  });
+
+  if (error) throw error;
+  return data as ReceiptReprint;
+};
+
+// Display names for payment types on screens, receipts and reports
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  monthly: 'Monthly Installment',
+  advance_adjustment: 'Advance Adjustment',
+  commission: 'Showroom Commission',
+  discount: 'Discount / Early Payoff',
+  penalty: 'Late Payment Fee',
+  penalty_waiver: 'Late Fee Waiver',
+};
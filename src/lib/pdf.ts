@@ -0,0 +1,739 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { AgreementTemplate, fillTemplate } from '@/lib/agreement';
+import type { CustomerStatement } from '@/lib/customerStatement';
+import { installmentLabel, InstallmentLedger } from '@/lib/installmentLedger';
+import { PAYMENT_TYPE_LABELS } from '@/lib/payments';
+import type { BusinessSettings } from '@/lib/settings';
+import { quotationNumber } from '@/lib/settlement';
+import type { Customer, Guarantor, InstallmentPayment, InstallmentPlan, Registration, SettlementQuotation } from '@/types/domain';
+
+// PDF documents: payment receipt, bulk receipt, plan statement, customer statement, hire-purchase
+// agreement, monthly dues report, single-table reports, early settlement quotation and NOC letter.
+//
+// Every builder returns a jsPDF document with the showroom letterhead (from Settings) on the first
+// page and page numbers plus the receipt footer on every page. Hand the result to `savePdf` or
+// `printPdf`; printing goes through a hidden iframe, so popup blockers don't get in the way.
+
+const MARGIN = 12;
+const HEADER_FILL: [number, number, number] = [30, 58, 138]; // blue-900
+
+type PdfDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const money = (amount: number) => `Rs ${Math.round(amount).toLocaleString()}`;
+const displayDate = (date: string | null | undefined) => (date ? format(parseISO(date), 'dd MMM yyyy') : '-');
+
+// Server-assigned receipt number; waivers and reversals have none
+export const receiptNumber = (payment: Pick<InstallmentPayment, 'receipt_number'>) => payment.receipt_number ?? '-';
+
+// Loads the logo as a data URL; a missing or blocked logo must never stop a receipt
+const loadImage = async (url: string | null): Promise<{ data: string; format: string } | null> => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { data, format: blob.type.includes('png') ? 'PNG' : 'JPEG' };
+  } catch {
+    return null;
+  }
+};
+
+const tableEndY = (doc: PdfDocument, fallback: number) => doc.lastAutoTable?.finalY ?? fallback;
+
+// Letterhead and document title; returns the y position below them
+const drawHeader = async (doc: PdfDocument, settings: BusinessSettings, title: string, subtitle?: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = MARGIN;
+
+  const logo = await loadImage(settings.logo_url);
+  if (logo) {
+    try {
+      doc.addImage(logo.data, logo.format, MARGIN, y, 16, 16);
+    } catch {
+      // Unsupported image format: print without the logo
+    }
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(settings.business_name.toUpperCase(), pageWidth / 2, y + 5, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(90);
+  doc.text(settings.address, pageWidth / 2, y + 10, { align: 'center' });
+  const contact = [settings.phone && `Ph: ${settings.phone}`, settings.ntn && `NTN: ${settings.ntn}`].filter(Boolean).join('  |  ');
+  if (contact) doc.text(contact, pageWidth / 2, y + 14, { align: 'center' });
+  doc.setTextColor(0);
+
+  y += 19;
+  doc.setDrawColor(60);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, y, pageWidth - MARGIN, y);
+
+  y += 7;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(title, pageWidth / 2, y, { align: 'center' });
+  if (subtitle) {
+    y += 5;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(subtitle, pageWidth / 2, y, { align: 'center' });
+  }
+
+  return y + 6;
+};
+
+// Page numbers and the receipt footer on every page; call last
+const drawFooters = (doc: PdfDocument, settings: BusinessSettings) => {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(120);
+    if (settings.receipt_footer) {
+      doc.text(settings.receipt_footer, pageWidth / 2, pageHeight - 10, { align: 'center', maxWidth: pageWidth - 2 * MARGIN });
+    }
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 5, { align: 'right' });
+    doc.text(`Printed ${format(new Date(), 'dd MMM yyyy, hh:mm a')}`, MARGIN, pageHeight - 5);
+    doc.setTextColor(0);
+  }
+};
+
+// Reprinted copies carry a diagonal DUPLICATE watermark on every page
+const drawDuplicateMark = (doc: PdfDocument) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(pageWidth > 160 ? 72 : 54);
+    doc.setTextColor(220, 38, 38);
+    doc.saveGraphicsState();
+    doc.setGState(doc.GState({ opacity: 0.15 }));
+    doc.text('DUPLICATE', pageWidth / 2, pageHeight / 2, { align: 'center', baseline: 'middle', angle: 35 });
+    doc.restoreGraphicsState();
+    doc.setTextColor(0);
+  }
+};
+
+// Two-column label/value block (customer, rikshaw, ...)
+const detailsTable = (doc: PdfDocument, startY: number, title: string, rows: [string, string][]) => {
+  autoTable(doc, {
+    startY,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [[{ content: title, colSpan: 2 }]],
+    body: rows.map(([label, value]) => [label, value || '-']),
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 35 } },
+  });
+  return tableEndY(doc, startY) + 4;
+};
+
+const customerRows = (plan: InstallmentPlan): [string, string][] => [
+  ['Name', plan.customers?.name ?? ''],
+  ['CNIC', plan.customers?.cnic ?? ''],
+  ['Phone', plan.customers?.phone ?? ''],
+];
+
+const rikshawRows = (plan: InstallmentPlan): [string, string][] => {
+  // Prefer the snapshot taken at sale time; fall back to the live rikshaw row
+  const details = plan.rikshaw_details ?? plan.rikshaws;
+  return [
+    ['Manufacturer', details?.manufacturer ?? ''],
+    ['Model', details?.model_name ?? ''],
+    ['Reg No', details?.registration_number ?? ''],
+    ['Engine No', details?.engine_number ?? ''],
+    ['Chassis No', details?.chassis_number ?? ''],
+  ];
+};
+
+export interface PaymentReceiptInput {
+  settings: BusinessSettings;
+  plan: InstallmentPlan;
+  payment: InstallmentPayment;
+  remainingBalance: number;
+  duplicate?: boolean; // reprint from the payment history
+}
+
+export const buildPaymentReceiptPdf = async ({ settings, plan, payment, remainingBalance, duplicate }: PaymentReceiptInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a5' });
+  let y = await drawHeader(doc, settings, duplicate ? 'PAYMENT RECEIPT (DUPLICATE)' : 'PAYMENT RECEIPT', `Receipt No: ${receiptNumber(payment)}  |  Date: ${displayDate(payment.payment_date)}`);
+
+  y = detailsTable(doc, y, 'Customer Details', customerRows(plan));
+  y = detailsTable(doc, y, 'Rickshaw Details', rikshawRows(plan));
+
+  const paymentRows: [string, string][] = [['Payment Type', PAYMENT_TYPE_LABELS[payment.payment_type] ?? payment.payment_type]];
+  if (payment.payment_type === 'monthly' && payment.installment_number) {
+    paymentRows.push(['Installment #', String(payment.installment_number)]);
+  }
+  paymentRows.push(['Amount Received', money(payment.amount_paid)]);
+  paymentRows.push(['Remaining Balance', money(remainingBalance)]);
+  paymentRows.push(['Received By', payment.received_by]);
+  detailsTable(doc, y, 'Payment Details', paymentRows);
+
+  if (duplicate) drawDuplicateMark(doc);
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface BulkReceiptInput {
+  settings: BusinessSettings;
+  plan: InstallmentPlan;
+  payments: InstallmentPayment[]; // rows produced by one record_payment call
+  remainingBalance: number;
+  duplicate?: boolean; // reprint from the payment history
+}
+
+export const buildBulkReceiptPdf = async ({ settings, plan, payments, remainingBalance, duplicate }: BulkReceiptInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a5' });
+  const first = payments[0];
+  const total = payments.reduce((sum, p) => sum + p.amount_paid, 0);
+  let y = await drawHeader(doc, settings, duplicate ? 'BULK MONTHLY PAYMENT RECEIPT (DUPLICATE)' : 'BULK MONTHLY PAYMENT RECEIPT', `Receipt No: ${receiptNumber(first)}  |  Date: ${displayDate(first.payment_date)}`);
+
+  y = detailsTable(doc, y, 'Customer Details', customerRows(plan));
+  y = detailsTable(doc, y, 'Rickshaw Details', rikshawRows(plan));
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Type', 'Installment #', 'Amount Applied']],
+    body: payments.map(p => [PAYMENT_TYPE_LABELS[p.payment_type] ?? p.payment_type, p.installment_number ?? '-', money(p.amount_paid)]),
+    foot: [['Total Paid', '', money(total)]],
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [229, 231, 235], textColor: 0 },
+    columnStyles: { 2: { halign: 'right' } },
+  });
+  y = tableEndY(doc, y) + 4;
+
+  detailsTable(doc, y, 'Summary', [
+    ['Remaining Balance', money(remainingBalance)],
+    ['Received By', first.received_by],
+  ]);
+
+  if (duplicate) drawDuplicateMark(doc);
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface PlanStatementInput {
+  settings: BusinessSettings;
+  plan: InstallmentPlan;
+  ledger: InstallmentLedger;
+  payments: InstallmentPayment[]; // payment history, including the initial advance row
+}
+
+export const buildPlanStatementPdf = async ({ settings, plan, ledger, payments }: PlanStatementInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = await drawHeader(doc, settings, 'INSTALLMENT PLAN STATEMENT', `Agreement Date: ${displayDate(plan.agreement_date)}`);
+
+  y = detailsTable(doc, y, 'Customer', [
+    ...customerRows(plan),
+    ['Address', plan.customers?.address ?? ''],
+    ['Guarantor', [plan.customers?.guarantor_name, plan.customers?.guarantor_cnic, plan.customers?.guarantor_phone].filter(Boolean).join(' / ')],
+  ]);
+  y = detailsTable(doc, y, 'Rickshaw', rikshawRows(plan));
+  y = detailsTable(doc, y, 'Plan Summary', [
+    ['Total Price', money(plan.total_price)],
+    ['Agreed Advance', money(ledger.totalAgreedAdvance)],
+    ['Collected Advance', money(ledger.collectedAdvance)],
+    ['Monthly Installment', `${money(plan.monthly_installment)} x ${plan.duration_months} months`],
+    ['Monthly Paid', money(ledger.totalMonthlyPaid)],
+    ['Discounts', money(ledger.totalDiscount)],
+    ['Outstanding Late Fees', money(ledger.outstandingPenalty)],
+    ['Remaining Balance', money(ledger.remainingBalance)],
+  ]);
+
+  if (ledger.advanceSchedule.length > 0) {
+    autoTable(doc, {
+      startY: y,
+      margin: { left: MARGIN, right: MARGIN },
+      head: [['Advance #', 'Due Date', 'Expected', 'Paid', 'Remaining', 'Status']],
+      body: ledger.advanceSchedule.map(item => [
+        item.index, displayDate(item.due_date), money(item.expected_amount), money(item.paid_amount), money(item.remaining_amount), item.status,
+      ]),
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: HEADER_FILL },
+    });
+    y = tableEndY(doc, y) + 4;
+  }
+
+  // Monthly schedule with each installment's late fee as its own line
+  const scheduleRows: RowInput[] = [];
+  ledger.schedule.forEach(item => {
+    scheduleRows.push([
+      installmentLabel(item, ledger), displayDate(item.due_date), money(item.expected_amount), money(item.paid_amount), money(item.remaining_amount),
+      item.is_overdue ? `${item.status} (Overdue)` : item.status,
+    ]);
+    ledger.penaltySchedule
+      .filter(penalty => penalty.schedule_version === item.schedule_version && penalty.installment_number === item.installment_number)
+      .forEach(penalty => {
+        scheduleRows.push([
+          { content: `Late fee #${installmentLabel(penalty, ledger)}`, styles: { textColor: [185, 28, 28] } },
+          `${penalty.days_late} days late`, money(penalty.charged_amount), money(penalty.paid_amount), money(penalty.remaining_amount), penalty.status,
+        ]);
+      });
+  });
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Installment #', 'Due Date', 'Expected', 'Paid', 'Remaining', 'Status']],
+    body: scheduleRows,
+    theme: 'striped',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+  });
+  y = tableEndY(doc, y) + 4;
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Date', 'Receipt No', 'Type', 'Installment #', 'Amount', 'Received By']],
+    body: payments.map(p => {
+      const inactive = !!p.voided_at || !!p.reversal_of;
+      const type = (PAYMENT_TYPE_LABELS[p.payment_type] ?? p.payment_type) + (p.voided_at ? ' (VOIDED)' : p.reversal_of ? ' (REVERSAL)' : '');
+      const styles = inactive ? { textColor: 150 } : {};
+      return [
+        { content: displayDate(p.payment_date), styles },
+        { content: p.id.startsWith('initial-') ? '-' : receiptNumber(p), styles },
+        { content: p.id.startsWith('initial-') ? 'Initial Advance' : type, styles },
+        { content: p.installment_number ? String(p.installment_number) : '-', styles },
+        { content: money(p.amount_paid), styles },
+        { content: p.received_by, styles },
+      ];
+    }),
+    theme: 'striped',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+  });
+
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface CustomerStatementInput {
+  settings: BusinessSettings;
+  customer: Pick<Customer, 'name' | 'cnic' | 'phone' | 'address'>;
+  statement: CustomerStatement;
+}
+
+export const buildCustomerStatementPdf = async ({ settings, customer, statement }: CustomerStatementInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = await drawHeader(doc, settings, 'STATEMENT OF ACCOUNT', `${displayDate(statement.from)} to ${displayDate(statement.to)}`);
+
+  y = detailsTable(doc, y, 'Customer', [
+    ['Name', customer.name],
+    ['CNIC', customer.cnic],
+    ['Phone', customer.phone],
+    ['Address', customer.address],
+  ]);
+
+  const totalsRow = (label: string, amount: number) => [{ content: label, colSpan: 6, styles: { fontStyle: 'bold' as const } }, { content: money(amount), styles: { fontStyle: 'bold' as const } }];
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Date', 'Plan', 'Description', 'Receipt No', 'Debit', 'Credit', 'Balance']],
+    body: [
+      totalsRow('Opening Balance', statement.openingBalance),
+      ...statement.lines.map(line => [
+        displayDate(line.date), line.plan, line.description, line.reference ?? '-',
+        line.debit ? money(line.debit) : '', line.credit ? money(line.credit) : '', money(line.balance),
+      ]),
+    ],
+    foot: [
+      [{ content: 'Period Totals', colSpan: 4 }, money(statement.totalDebit), money(statement.totalCredit), ''],
+      [{ content: 'Closing Balance', colSpan: 6 }, money(statement.closingBalance)],
+    ],
+    theme: 'striped',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [229, 231, 235], textColor: 0 },
+    columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } },
+  });
+
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface AgreementInput {
+  settings: BusinessSettings;
+  template: AgreementTemplate;
+  plan: InstallmentPlan; // with customers and rikshaws
+  guarantors: Pick<Guarantor, 'name' | 'cnic' | 'phone' | 'address'>[];
+  values: Record<string, string>; // placeholder values, see agreementValues
+}
+
+// Wrapped paragraph that continues on a new page when it runs past the bottom margin
+const drawParagraph = (doc: PdfDocument, text: string, y: number, indent = 0, label?: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const lineHeight = 4.2;
+  const lines: string[] = doc.splitTextToSize(text, pageWidth - 2 * MARGIN - indent);
+
+  lines.forEach((line, i) => {
+    if (y > pageHeight - 20) {
+      doc.addPage();
+      y = MARGIN + 4;
+    }
+    if (i === 0 && label) doc.text(label, MARGIN, y);
+    doc.text(line, MARGIN + indent, y);
+    y += lineHeight;
+  });
+  return y + 1.5;
+};
+
+// Signature block: role, name and CNIC, a signature line and a thumbprint box
+const drawSignatureBlock = (doc: PdfDocument, x: number, y: number, width: number, role: string, name: string, cnic: string) => {
+  const height = 34;
+  const thumbWidth = 22;
+  doc.setDrawColor(150);
+  doc.setLineWidth(0.2);
+  doc.rect(x, y, width, height);
+  doc.rect(x + width - thumbWidth - 3, y + 3, thumbWidth, height - 10);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.text(role, x + 3, y + 5);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Name: ${name || ''}`, x + 3, y + 11, { maxWidth: width - thumbWidth - 9 });
+  doc.text(`CNIC: ${cnic || ''}`, x + 3, y + 16);
+  doc.line(x + 3, y + 27, x + width - thumbWidth - 8, y + 27);
+  doc.setFontSize(7);
+  doc.setTextColor(110);
+  doc.text('Signature', x + 3, y + 31);
+  doc.text('Thumbprint', x + width - thumbWidth / 2 - 3, y + height - 3, { align: 'center' });
+  doc.setTextColor(0);
+  return height;
+};
+
+export const buildAgreementPdf = async ({ settings, template, plan, guarantors, values }: AgreementInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = await drawHeader(doc, settings, template.title.toUpperCase(), `Agreement Date: ${displayDate(plan.agreement_date)}`);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  y = drawParagraph(doc, fillTemplate(template.intro, values), y) + 1;
+
+  y = detailsTable(doc, y, 'Buyer', [
+    ['Name', plan.customers?.name ?? ''],
+    ['CNIC', plan.customers?.cnic ?? ''],
+    ['Phone', plan.customers?.phone ?? ''],
+    ['Address', plan.customers?.address ?? ''],
+  ]);
+
+  if (guarantors.length > 0) {
+    autoTable(doc, {
+      startY: y,
+      margin: { left: MARGIN, right: MARGIN },
+      head: [['#', 'Guarantor', 'CNIC', 'Phone', 'Address']],
+      body: guarantors.map((guarantor, i) => [i + 1, guarantor.name, guarantor.cnic, guarantor.phone ?? '-', guarantor.address ?? '-']),
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: HEADER_FILL },
+    });
+    y = tableEndY(doc, y) + 4;
+  }
+
+  y = detailsTable(doc, y, 'Vehicle', [...rikshawRows(plan), ['Type', values.rikshaw_type]]);
+  y = detailsTable(doc, y, 'Payment Terms', [
+    ['Total Price', values.total_price],
+    ['Advance', values.total_advance],
+    ['Balance', values.financed_amount],
+    ['Monthly Installment', `${values.monthly_installment} x ${values.duration_months} months`],
+    ['Installments Due', `${values.first_due_date} to ${values.last_due_date}`],
+  ]);
+
+  if (plan.advance_payments.length > 0) {
+    autoTable(doc, {
+      startY: y,
+      margin: { left: MARGIN, right: MARGIN },
+      head: [['Advance #', 'Due Date', 'Amount']],
+      body: plan.advance_payments.map((chunk, i) => [i + 1, displayDate(chunk.date), money(chunk.amount)]),
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: HEADER_FILL },
+    });
+    y = tableEndY(doc, y) + 4;
+  }
+
+  if (y > pageHeight - 40) {
+    doc.addPage();
+    y = MARGIN + 4;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('Terms and Conditions', MARGIN, y);
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  template.clauses.forEach((clause, i) => {
+    y = drawParagraph(doc, fillTemplate(clause, values), y, 7, `${i + 1}.`);
+  });
+
+  // Signatures: buyer, guarantors, seller, witnesses; two blocks per row
+  const signatories: [string, string, string][] = [
+    ['Buyer', plan.customers?.name ?? '', plan.customers?.cnic ?? ''],
+    ...guarantors.map((guarantor, i): [string, string, string] => [
+      guarantors.length > 1 ? `Guarantor ${i + 1}` : 'Guarantor', guarantor.name, guarantor.cnic,
+    ]),
+    [`Seller (for ${settings.business_name})`, '', ''],
+    ...Array.from({ length: template.witnesses }, (_, i): [string, string, string] => [`Witness ${i + 1}`, '', '']),
+  ];
+
+  const gap = 6;
+  const blockWidth = (pageWidth - 2 * MARGIN - gap) / 2;
+  y += 4;
+  signatories.forEach(([role, name, cnic], i) => {
+    const x = i % 2 === 0 ? MARGIN : MARGIN + blockWidth + gap;
+    if (i % 2 === 0 && y + 34 > pageHeight - 16) {
+      doc.addPage();
+      y = MARGIN + 4;
+    }
+    const height = drawSignatureBlock(doc, x, y, blockWidth, role, name, cnic);
+    if (i % 2 === 1 || i === signatories.length - 1) y += height + 5;
+  });
+
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface DuesReportEntry {
+  customerName: string;
+  rikshawDetails: string;
+  phoneNumber: string;
+  totalAmountDue: number;
+  overallStatus: string;
+  items: { type: string; installment: number | string | null; date: string; amount: number; status: string }[];
+}
+
+export interface MonthlyDuesReportInput {
+  settings: BusinessSettings;
+  periodLabel: string; // e.g. 'October 2026'
+  entries: DuesReportEntry[];
+}
+
+export const buildMonthlyDuesReportPdf = async ({ settings, periodLabel, entries }: MonthlyDuesReportInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'landscape' });
+  const y = await drawHeader(doc, settings, 'MONTHLY INSTALLMENT REPORT', periodLabel);
+
+  // One row per due item; customer columns span the customer's items
+  const body: RowInput[] = [];
+  entries.forEach(entry => {
+    const items = [...entry.items].sort((a, b) => a.date.localeCompare(b.date));
+    items.forEach((item, index) => {
+      const dueColumns = [
+        item.type,
+        displayDate(item.date),
+        item.installment ?? '-',
+        money(item.amount),
+        { content: item.status, styles: item.status === 'Overdue' ? { textColor: [185, 28, 28] as [number, number, number] } : {} },
+      ];
+      if (index === 0) {
+        const rowSpan = items.length;
+        body.push([
+          { content: entry.customerName.toUpperCase(), rowSpan, styles: { fontStyle: 'bold' } },
+          { content: entry.rikshawDetails, rowSpan },
+          { content: entry.phoneNumber, rowSpan },
+          { content: money(entry.totalAmountDue), rowSpan, styles: { fontStyle: 'bold' } },
+          ...dueColumns,
+        ]);
+      } else {
+        body.push(dueColumns);
+      }
+    });
+  });
+
+  const grandTotal = entries.reduce((sum, entry) => sum + entry.totalAmountDue, 0);
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [['Customer', 'Rickshaw', 'Phone', 'Total Due', 'Type', 'Due Date', 'Inst. #', 'Amount', 'Status']],
+    body,
+    foot: [[{ content: `${entries.length} customers`, colSpan: 3 }, money(grandTotal), { content: '', colSpan: 5 }]],
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5, valign: 'top' },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [229, 231, 235], textColor: 0 },
+    rowPageBreak: 'avoid',
+  });
+
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface TableReportInput {
+  settings: BusinessSettings;
+  title: string; // e.g. 'VOIDED PAYMENTS REPORT'
+  subtitle?: string; // e.g. the report period
+  head: string[];
+  body: RowInput[];
+  foot?: RowInput[];
+  rightAligned?: number[]; // indexes of the amount columns
+}
+
+// Landscape report of one plain table (voided payments, repossessions, ...)
+export const buildTableReportPdf = async ({ settings, title, subtitle, head, body, foot, rightAligned = [] }: TableReportInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'landscape' });
+  const y = await drawHeader(doc, settings, title, subtitle);
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [head],
+    body,
+    foot,
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5, valign: 'top' },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [229, 231, 235], textColor: 0 },
+    columnStyles: Object.fromEntries(rightAligned.map(index => [index, { halign: 'right' as const }])),
+  });
+
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface SettlementQuotationInput {
+  settings: BusinessSettings;
+  plan: InstallmentPlan;
+  quotation: SettlementQuotation;
+}
+
+export const buildSettlementQuotationPdf = async ({ settings, plan, quotation }: SettlementQuotationInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a5' });
+  let y = await drawHeader(doc, settings, 'EARLY SETTLEMENT QUOTATION', `Quotation No: ${quotationNumber(quotation)}  |  Issued: ${displayDate(quotation.created_at.slice(0, 10))}`);
+
+  y = detailsTable(doc, y, 'Customer Details', customerRows(plan));
+  y = detailsTable(doc, y, 'Rickshaw Details', rikshawRows(plan));
+
+  const body: RowInput[] = [['Outstanding Balance', money(quotation.outstanding_balance)]];
+  if (quotation.penalty_due > 0) body.push(['Late Fees Due', money(quotation.penalty_due)]);
+  if (quotation.commission_due > 0) body.push(['Commission Due', money(quotation.commission_due)]);
+  if (quotation.rebate_amount > 0) {
+    body.push([`Rebate (${quotation.rebate_percent}% of unearned markup ${money(quotation.unearned_markup)})`, `- ${money(quotation.rebate_amount)}`]);
+  }
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [[{ content: `Payoff as of ${displayDate(quotation.settlement_date)}`, colSpan: 2 }]],
+    body,
+    foot: [['Amount Payable', money(quotation.payoff_amount)]],
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [229, 231, 235], textColor: 0 },
+    columnStyles: { 1: { halign: 'right' } },
+  });
+  y = tableEndY(doc, y) + 6;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text(`Valid until ${displayDate(quotation.valid_until)}`, MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  const note = doc.splitTextToSize(
+    'Payable in full in a single payment. After the validity date, or if any other payment is made on this plan, '
+      + 'a new quotation must be issued. On payment the plan is closed as settled.',
+    doc.internal.pageSize.getWidth() - MARGIN * 2
+  );
+  doc.text(note, MARGIN, y + 5);
+
+  drawFooters(doc, settings);
+  return doc;
+};
+
+export interface NocLetterInput {
+  settings: BusinessSettings;
+  plan: InstallmentPlan; // with customers and rikshaws
+  registration: Registration; // with the NOC issued
+}
+
+// No objection certificate for a completed plan: the customer may transfer the unit into their name
+export const buildNocLetterPdf = async ({ settings, plan, registration }: NocLetterInput) => {
+  const doc: PdfDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = await drawHeader(doc, settings, 'NO OBJECTION CERTIFICATE', `NOC No: ${registration.noc_number ?? '-'}  |  Issued: ${displayDate(registration.noc_issued_on)}`);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  y = drawParagraph(
+    doc,
+    `This is to certify that ${plan.customers?.name ?? ''} (CNIC ${plan.customers?.cnic ?? ''}) purchased the vehicle described `
+      + `below from ${settings.business_name} on installments under the agreement dated ${displayDate(plan.agreement_date)}, `
+      + 'and has paid the full price. No amount remains due to the showroom against this vehicle.',
+    y
+  ) + 2;
+
+  y = detailsTable(doc, y, 'Customer Details', customerRows(plan));
+  y = detailsTable(doc, y, 'Vehicle Details', [
+    ...rikshawRows(plan).filter(([label]) => label !== 'Reg No'),
+    ['Registration No', registration.registration_number ?? ''],
+  ]);
+
+  y = drawParagraph(
+    doc,
+    `${settings.business_name} has no objection to the transfer of ownership of this vehicle to the above-named customer `
+      + 'or to any person they nominate, and to the excise and taxation department recording the transfer. '
+      + 'The original registration book has been handed over to the customer with this certificate.',
+    y + 2
+  );
+
+  const blockWidth = (pageWidth - 2 * MARGIN - 6) / 2;
+  y += 8;
+  drawSignatureBlock(doc, MARGIN, y, blockWidth, `For ${settings.business_name}`, '', '');
+  drawSignatureBlock(doc, MARGIN + blockWidth + 6, y, blockWidth, 'Received by (Customer)', plan.customers?.name ?? '', plan.customers?.cnic ?? '');
+
+  drawFooters(doc, settings);
+  return doc;
+};
+
+// --- Output ---
+
+export const savePdf = (doc: jsPDF, fileName: string) => {
+  doc.save(fileName.endsWith('.pdf') ? fileName : `${fileName}.pdf`);
+};
+
+// Prints through a hidden iframe instead of a new window, which popup blockers allow
+export const printPdf = (doc: jsPDF) => {
+  const url = URL.createObjectURL(doc.output('blob'));
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.src = url;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Leave the frame long enough for the print dialog to read it
+    setTimeout(() => {
+      frame.remove();
+      URL.revokeObjectURL(url);
+    }, 60_000);
+  };
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,96 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  Registration,
+  RegistrationBookLocation,
+  RegistrationFeePaidBy,
+  RegistrationStatus,
+} from '@/types/domain';
+
+// Excise registration and ownership transfer of sold units.
+//
+// Each sale gets a registration row. It moves not_applied -> applied -> received -> plate_issued;
+// the registration number entered with the plate is copied to the rikshaw. The original book stays
+// in the showroom safe until the plan completes; on completion the showroom issues a NOC, numbered
+// by the database, so the customer can transfer the vehicle into their name.
+
+export const REGISTRATION_STATUSES: RegistrationStatus[] = ['not_applied', 'applied', 'received', 'plate_issued'];
+
+export const REGISTRATION_STATUS_LABELS: Record<RegistrationStatus, string> = {
+  not_applied: 'Not Applied',
+  applied: 'Applied',
+  received: 'Book Received',
+  plate_issued: 'Plate Issued',
+};
+
+export const REGISTRATION_STATUS_CLASSES: Record<RegistrationStatus, string> = {
+  not_applied: 'bg-red-100 text-red-800',
+  applied: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-blue-100 text-blue-800',
+  plate_issued: 'bg-green-100 text-green-800',
+};
+
+export const REGISTRATION_FEE_PAID_BY_LABELS: Record<RegistrationFeePaidBy, string> = {
+  customer: 'Customer',
+  showroom: 'Showroom',
+};
+
+export const REGISTRATION_BOOK_LOCATION_LABELS: Record<RegistrationBookLocation, string> = {
+  excise_office: 'Excise Office',
+  showroom_safe: 'Showroom Safe',
+  customer: 'Handed to Customer',
+};
+
+// Default threshold for the pending registrations list
+export const DEFAULT_PENDING_DAYS = 30;
+
+// Days since the sale for a registration without a plate yet; null once the plate is issued
+export const registrationPendingDays = (
+  registration: Pick<Registration, 'status'>,
+  saleDate: string,
+  asOf = new Date()
+): number | null =>
+  registration.status === 'plate_issued' ? null : differenceInCalendarDays(asOf, parseISO(saleDate));
+
+export type RegistrationChanges = Pick<
+  Registration,
+  | 'status'
+  | 'applied_on'
+  | 'received_on'
+  | 'plate_issued_on'
+  | 'registration_number'
+  | 'fee_amount'
+  | 'fee_paid_by'
+  | 'fee_paid_on'
+  | 'book_location'
+  | 'notes'
+>;
+
+export const updateRegistration = async (registrationId: string, changes: RegistrationChanges): Promise<Registration> => {
+  const { data, error } = await supabase
+    .from('registrations')
+    .update(changes)
+    .eq('id', registrationId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Registration;
+};
+
+/**
+ * Issues the NOC for a completed plan. The database assigns the NOC number and records the
+ * transfer in the unit's history; the registration book is handed over with it. Refused while
+ * the plan still owes any of its price, late fees or bounce charges.
+ */
+export const issueNoc = async (registrationId: string, issuedOn: string): Promise<Registration> => {
+  const { data, error } = await supabase
+    .from('registrations')
+    .update({ noc_issued_on: issuedOn, book_location: 'customer' })
+    .eq('id', registrationId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Registration;
+};
@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import { withAuditReason } from '@/lib/audit';
+import type { Repossession, RepossessionCondition } from '@/types/domain';
+
+export const REPOSSESSION_CONDITION_LABELS: Record<RepossessionCondition, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  damaged: 'Damaged',
+};
+
+/**
+ * What the showroom is short after reselling a repossessed unit: the balance owed when it was
+ * repossessed plus the repossession costs, less the resale price. Negative is a surplus. Null
+ * until the unit is sold again.
+ */
+export const repossessionShortfall = (
+  repossession: Pick<Repossession, 'outstanding_balance' | 'repossession_costs' | 'resale_price'>
+) =>
+  repossession.resale_price === null
+    ? null
+    : repossession.outstanding_balance + repossession.repossession_costs - repossession.resale_price;
+
+// The reason goes on the plan and, through the audit header, into the audit log
+export const markPlanDefaulted = async (planId: string, defaultedOn: string, reason: string) => {
+  const { error } = await withAuditReason(
+    supabase
+      .from('installment_plans')
+      .update({ defaulted_on: defaultedOn, default_reason: reason })
+      .eq('id', planId),
+    reason
+  );
+  if (error) throw error;
+};
+
+export const clearPlanDefault = async (planId: string, reason: string) => {
+  const { error } = await withAuditReason(
+    supabase
+      .from('installment_plans')
+      .update({ defaulted_on: null, default_reason: null })
+      .eq('id', planId),
+    reason
+  );
+  if (error) throw error;
+};
+
+export interface RepossessPlanParams {
+  planId: string;
+  repossessedOn: string; // 'yyyy-MM-dd'
+  condition: RepossessionCondition;
+  conditionNotes: string;
+  costs: number;
+  penaltyOutstanding: number; // unpaid late fees at the time, kept for reference
+}
+
+/**
+ * Records the repossession of a defaulted plan's unit through the `repossess_plan` RPC, which
+ * stores the balance still owed and puts the unit back in stock as an unsold `old` rikshaw linked
+ * to the plan, in one transaction.
+ */
+export const repossessPlan = async (params: RepossessPlanParams): Promise<Repossession> => {
+  const { data, error } = await supabase.rpc('repossess_plan', {
+    p_plan_id: params.planId,
+    p_repossessed_on: params.repossessedOn,
+    p_condition: params.condition,
+    p_condition_notes: params.conditionNotes,
+    p_costs: params.costs,
+    p_penalty_outstanding: params.penaltyOutstanding,
+  });
+
+  if (error) throw error;
+  return data as Repossession;
+};
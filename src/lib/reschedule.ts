@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { InstallmentPlan } from '@/types/domain';
+
+export interface ReschedulePlanParams {
+  planId: string;
+  monthlyInstallment: number;
+  durationMonths: number;
+  startDate: string; // 'yyyy-MM-dd'; the first new installment falls due a month later
+  reason: string;
+}
+
+/**
+ * Reschedules a plan through the `reschedule_plan` RPC: the schedule in force is closed and
+ * appended to `schedule_history` with the outstanding balance it carries forward, and the plan
+ * continues under the next version with the new terms. Payments already recorded stay with the
+ * version they were paid against.
+ */
+export const reschedulePlan = async (params: ReschedulePlanParams): Promise<InstallmentPlan> => {
+  const { data, error } = await supabase.rpc('reschedule_plan', {
+    p_plan_id: params.planId,
+    p_monthly_installment: params.monthlyInstallment,
+    p_duration_months: params.durationMonths,
+    p_start_date: params.startDate,
+    p_reason: params.reason,
+  });
+
+  if (error) throw error;
+  return data as InstallmentPlan;
+};
+
+// Amount of the last installment when `balance` is spread over the given terms (it absorbs the remainder)
+export const lastInstallmentAmount = (balance: number, monthlyInstallment: number, durationMonths: number) =>
+  Math.max(0, Math.round(balance - monthlyInstallment * Math.max(0, durationMonths - 1)));
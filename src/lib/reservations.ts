@@ -0,0 +1,122 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { RIKSHAW_RESERVED_CODE, RIKSHAW_UNAVAILABLE_CODE, RikshawUnavailableError } from '@/lib/sales';
+import type { Customer, Reservation, ReservationStatus } from '@/types/domain';
+
+// Unit reservations.
+//
+// A customer pays a token to hold an unsold unit until `expires_on`. While held, the unit is
+// hidden from other customers' sales and sell_rikshaw refuses them; selling it to the holder
+// converts the reservation and the token counts towards the first advance. An expired hold gives
+// the unit back, keeping `forfeit_percent` of the token and refunding the rest; the policy is
+// persisted in app_settings under RESERVATION_POLICY_KEY and edited in Settings.
+
+export const RESERVATION_POLICY_KEY = 'reservation_policy';
+
+// Stored as JSON, hence `type` rather than `interface`
+export type ReservationPolicy = {
+  hold_days: number; // default length of a hold
+  forfeit_percent: number; // % of the token kept when a hold expires, 0-100; the rest is refunded
+};
+
+export const DEFAULT_RESERVATION_POLICY: ReservationPolicy = {
+  hold_days: 7,
+  forfeit_percent: 100,
+};
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  active: 'Active',
+  converted: 'Sold',
+  expired: 'Expired',
+  cancelled: 'Released',
+};
+
+export const RESERVATION_STATUS_CLASSES: Record<ReservationStatus, string> = {
+  active: 'bg-yellow-100 text-yellow-800',
+  converted: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+// Merges a stored JSON value over the defaults, field by field
+export const parseReservationPolicy = (value: unknown): ReservationPolicy => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_RESERVATION_POLICY;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_RESERVATION_POLICY;
+  const nonNegative = (v: unknown, fallback: number) =>
+    typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : fallback;
+
+  return {
+    hold_days: Math.max(1, Math.floor(nonNegative(raw.hold_days, defaults.hold_days))),
+    forfeit_percent: Math.min(100, nonNegative(raw.forfeit_percent, defaults.forfeit_percent)),
+  };
+};
+
+// Whether the reservation still holds its unit on `asOf`
+export const isReservationHolding = (reservation: Pick<Reservation, 'status' | 'expires_on'>, asOf = new Date()): boolean =>
+  reservation.status === 'active' && reservation.expires_on >= format(asOf, 'yyyy-MM-dd');
+
+export type HoldingReservation = Reservation & { customers: Pick<Customer, 'name'> | null };
+
+// Reservations holding a unit today, keyed by rikshaw id
+export const fetchHoldingReservations = async (): Promise<Map<string, HoldingReservation>> => {
+  const { data, error } = await supabase
+    .from('reservations')
+    .select('*, customers(name)')
+    .eq('status', 'active')
+    .gte('expires_on', format(new Date(), 'yyyy-MM-dd'));
+
+  if (error) throw error;
+  const reservations = (data || []) as HoldingReservation[];
+  return new Map(reservations.map(reservation => [reservation.rikshaw_id, reservation]));
+};
+
+export interface ReserveRikshawParams {
+  rikshawId: string;
+  customerId: string;
+  tokenAmount: number;
+  expiresOn: string; // 'yyyy-MM-dd', last day of the hold
+  notes: string;
+}
+
+/**
+ * Reserves a unit through the `reserve_rikshaw` RPC, which locks it and checks it is unsold and
+ * not already held. Throws `RikshawUnavailableError` if it was sold or reserved in the meantime.
+ */
+export const reserveRikshaw = async (params: ReserveRikshawParams): Promise<Reservation> => {
+  const { data, error } = await supabase.rpc('reserve_rikshaw', {
+    p_rikshaw_id: params.rikshawId,
+    p_customer_id: params.customerId,
+    p_token_amount: params.tokenAmount,
+    p_expires_on: params.expiresOn,
+    p_notes: params.notes || undefined,
+  });
+
+  if (error) {
+    if (error.code === RIKSHAW_UNAVAILABLE_CODE || error.code === RIKSHAW_RESERVED_CODE) {
+      throw new RikshawUnavailableError(params.rikshawId, error.message);
+    }
+    throw error;
+  }
+
+  return data as Reservation;
+};
+
+// Ends an active hold early; `forfeitPercent` of the token is kept and the rest refunded
+export const releaseReservation = async (reservationId: string, forfeitPercent: number, reason: string): Promise<Reservation> => {
+  const { data, error } = await supabase.rpc('release_reservation', {
+    p_reservation_id: reservationId,
+    p_forfeit_percent: forfeitPercent,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data as Reservation;
+};
+
+// Marks holds past their expiry date expired under the current policy; returns how many
+export const expireReservations = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('expire_reservations');
+  if (error) throw error;
+  return data ?? 0;
+};
@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { RikshawEvent, RikshawEventType } from '@/types/domain';
+
+export const RIKSHAW_EVENT_LABELS: Record<RikshawEventType, string> = {
+  purchased: 'Purchased',
+  in_stock: 'Back in Stock',
+  reserved: 'Reserved',
+  sold: 'Sold',
+  repossessed: 'Repossessed',
+  resold: 'Resold',
+  transferred: 'Transferred',
+  scrapped: 'Scrapped',
+};
+
+export const RIKSHAW_EVENT_CLASSES: Record<RikshawEventType, string> = {
+  purchased: 'bg-blue-100 text-blue-800',
+  in_stock: 'bg-gray-100 text-gray-800',
+  reserved: 'bg-yellow-100 text-yellow-800',
+  sold: 'bg-green-100 text-green-800',
+  repossessed: 'bg-red-100 text-red-800',
+  resold: 'bg-green-100 text-green-800',
+  transferred: 'bg-purple-100 text-purple-800',
+  scrapped: 'bg-red-700 text-white',
+};
+
+// Events a manager records by hand; the rest are written when the unit is bought, sold or repossessed
+export const MANUAL_RIKSHAW_EVENT_TYPES: RikshawEventType[] = ['transferred', 'scrapped'];
+
+export interface RecordRikshawEventParams {
+  rikshawId: string;
+  eventType: RikshawEventType;
+  eventDate: string; // 'yyyy-MM-dd'
+  notes: string;
+}
+
+export const recordRikshawEvent = async (params: RecordRikshawEventParams): Promise<RikshawEvent> => {
+  const { data, error } = await supabase
+    .from('rikshaw_events')
+    .insert({
+      rikshaw_id: params.rikshawId,
+      event_type: params.eventType,
+      event_date: params.eventDate,
+      notes: params.notes || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as RikshawEvent;
+};
@@ -0,0 +1,37 @@
+// Application roles, stored in profiles.role.
+// Keep this matrix in sync with the RLS policies in supabase/migrations/*_role_based_access.sql;
+// the UI only hides what the database would reject anyway.
+export const APP_ROLES = ['admin', 'manager', 'cashier', 'viewer'] as const;
+
+export type AppRole = (typeof APP_ROLES)[number];
+
+export const isAppRole = (value: unknown): value is AppRole =>
+  typeof value === 'string' && (APP_ROLES as readonly string[]).includes(value);
+
+// Which roles may perform each action. Use with `useRole().hasRole(...)` or `<RequireRole roles={...}>`.
+export const ROLE_ACCESS = {
+  viewApp: ['admin', 'manager', 'cashier', 'viewer'],
+  sellRikshaw: ['admin', 'manager'],
+  reserveRikshaws: ['admin', 'manager'],
+  manageRikshaws: ['admin', 'manager'],
+  deleteRikshaws: ['admin'],
+  manageCustomers: ['admin', 'manager'],
+  deleteCustomers: ['admin'],
+  addCustomerNotes: ['admin', 'manager', 'cashier'],
+  deleteCustomerNotes: ['admin', 'manager'],
+  uploadDocuments: ['admin', 'manager', 'cashier'],
+  deleteDocuments: ['admin', 'manager'],
+  recordPayments: ['admin', 'manager', 'cashier'],
+  editPayments: ['admin', 'manager'],
+  voidPayments: ['admin', 'manager'],
+  waivePenalties: ['admin', 'manager'],
+  editPlans: ['admin', 'manager'],
+  linkGuarantors: ['admin', 'manager'],
+  manageCheques: ['admin', 'manager'],
+  manageSuppliers: ['admin', 'manager'],
+  deleteSupplierPayments: ['admin'],
+  settlePlans: ['admin', 'manager'],
+  manageRegistrations: ['admin', 'manager'],
+  manageSettings: ['admin'],
+  viewAuditLog: ['admin', 'manager'],
+} as const satisfies Record<string, readonly AppRole[]>;
@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AdvancePayment, InstallmentPlan } from '@/types/domain';
+
+// SQLSTATE raised by public.sell_rikshaw when the unit is no longer unsold
+export const RIKSHAW_UNAVAILABLE_CODE = 'RK001';
+// SQLSTATE raised when the unit is reserved for another customer
+export const RIKSHAW_RESERVED_CODE = 'RK002';
+
+// Thrown when another sale got to the rikshaw first (or it was already sold or reserved for someone else).
+export class RikshawUnavailableError extends Error {
+  readonly rikshawId: string;
+
+  constructor(rikshawId: string, message = 'This rikshaw has already been sold.') {
+    super(message);
+    this.name = 'RikshawUnavailableError';
+    this.rikshawId = rikshawId;
+  }
+}
+
+export interface SellRikshawParams {
+  customerId: string;
+  rikshawId: string;
+  totalPrice: number;
+  advancePayments: AdvancePayment[]; // index 0 is collected at sale time
+  monthlyInstallment: number;
+  durationMonths: number;
+  agreementDate: string; // 'yyyy-MM-dd'
+  showroomCommission: number;
+  isCommissionPaid: boolean;
+  guarantorIds?: string[]; // empty: link the guarantor on the customer record, if any
+}
+
+/**
+ * Sells a rikshaw through the `sell_rikshaw` RPC: locks the unit, checks it is unsold,
+ * creates the installment plan, links its guarantors, converts the customer's reservation of the unit
+ * (its token is part of the first advance) and marks the unit sold in a single transaction.
+ * Throws `RikshawUnavailableError` if the unit was sold, or reserved for another customer, in the meantime.
+ */
+export const sellRikshaw = async (params: SellRikshawParams): Promise<InstallmentPlan> => {
+  const { data, error } = await supabase.rpc('sell_rikshaw', {
+    p_customer_id: params.customerId,
+    p_rikshaw_id: params.rikshawId,
+    p_total_price: params.totalPrice,
+    p_advance_payments: params.advancePayments,
+    p_monthly_installment: params.monthlyInstallment,
+    p_duration_months: params.durationMonths,
+    p_agreement_date: params.agreementDate,
+    p_showroom_commission: params.showroomCommission,
+    p_is_commission_paid: params.isCommissionPaid,
+    p_guarantor_ids: params.guarantorIds?.length ? params.guarantorIds : undefined,
+  });
+
+  if (error) {
+    if (error.code === RIKSHAW_UNAVAILABLE_CODE || error.code === RIKSHAW_RESERVED_CODE) {
+      throw new RikshawUnavailableError(params.rikshawId, error.message);
+    }
+    throw error;
+  }
+
+  return data as InstallmentPlan;
+};
@@ -0,0 +1,70 @@
+// Showroom settings, persisted in app_settings under BUSINESS_SETTINGS_KEY.
+//
+// Read them through `useSettings()`; anything missing or malformed in the stored JSON falls back
+// to DEFAULT_BUSINESS_SETTINGS, so a fresh database behaves exactly like the old hard-coded app.
+
+export const BUSINESS_SETTINGS_KEY = 'business_settings';
+
+// Public Supabase Storage bucket holding the uploaded logo
+export const BRANDING_BUCKET = 'branding';
+
+// Stored as JSON, hence `type` rather than `interface`
+export type BusinessSettings = {
+  business_name: string;
+  address: string;
+  phone: string;
+  logo_url: string | null;
+  ntn: string; // National Tax Number, printed on receipts when set
+  receipt_footer: string;
+  default_duration_months: number;
+  max_advance_installments: number;
+  guarantor_exposure_limit: number; // Rs; the sale form warns above it, 0 = no warning
+  manufacturers: string[];
+  rikshaw_types: string[];
+};
+
+export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
+  business_name: 'Al-Hamd Traders',
+  address: 'Railway Road Chowk Shamah, Sargodha',
+  phone: '0300-1234567',
+  logo_url: null,
+  ntn: '',
+  receipt_footer: 'Thank You!',
+  default_duration_months: 12,
+  max_advance_installments: 6,
+  guarantor_exposure_limit: 1000000,
+  manufacturers: ['New Asia', 'Salaar', 'Rozgar', 'TezRaftar'],
+  rikshaw_types: ['Loader 100 CC', 'Loader 150 CC', 'Rikshaw 200 CC Family', 'Rikshaw 200 CC Open 6-seater'],
+};
+
+// Merges a stored JSON value over the defaults, field by field
+export const parseBusinessSettings = (value: unknown): BusinessSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_BUSINESS_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_BUSINESS_SETTINGS;
+
+  const text = (v: unknown, fallback: string) => (typeof v === 'string' ? v : fallback);
+  const positiveInt = (v: unknown, fallback: number) =>
+    typeof v === 'number' && Number.isInteger(v) && v > 0 ? v : fallback;
+  const nonNegative = (v: unknown, fallback: number) =>
+    typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : fallback;
+  const list = (v: unknown, fallback: string[]) => {
+    if (!Array.isArray(v)) return fallback;
+    const items = v.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+    return items.length > 0 ? items : fallback;
+  };
+
+  return {
+    business_name: text(raw.business_name, defaults.business_name).trim() || defaults.business_name,
+    address: text(raw.address, defaults.address),
+    phone: text(raw.phone, defaults.phone),
+    logo_url: typeof raw.logo_url === 'string' && raw.logo_url ? raw.logo_url : null,
+    ntn: text(raw.ntn, defaults.ntn),
+    receipt_footer: text(raw.receipt_footer, defaults.receipt_footer),
+    default_duration_months: positiveInt(raw.default_duration_months, defaults.default_duration_months),
+    max_advance_installments: positiveInt(raw.max_advance_installments, defaults.max_advance_installments),
+    guarantor_exposure_limit: nonNegative(raw.guarantor_exposure_limit, defaults.guarantor_exposure_limit),
+    manufacturers: list(raw.manufacturers, defaults.manufacturers),
+    rikshaw_types: list(raw.rikshaw_types, defaults.rikshaw_types),
+  };
+};
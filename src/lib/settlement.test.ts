@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { LedgerPayment, LedgerPlan } from '@/lib/installmentLedger';
+import type { LateFeePolicy } from '@/lib/lateFees';
+import { computeSettlementQuote, SettlementPolicy } from '@/lib/settlement';
+
+// Rs 400,000 unit bought for Rs 300,000 (Rs 100,000 markup): Rs 100,000 advance, then 10 installments
+// of Rs 30,000 from 1 July. Only the first one is paid.
+const plan: LedgerPlan = {
+  id: 'plan-1',
+  total_price: 400000,
+  monthly_installment: 30000,
+  duration_months: 10,
+  advance_payments: [{ amount: 100000, date: '2026-06-01' }],
+  agreement_date: '2026-06-01',
+  created_at: '2026-06-01T00:00:00Z',
+};
+const payments: LedgerPayment[] = [
+  { installment_plan_id: plan.id, amount_paid: 30000, payment_type: 'monthly', payment_date: '2026-07-01' },
+];
+const purchasePrice = 300000;
+const policy: SettlementPolicy = { rebate_percent: 50, max_rebate: 0, valid_days: 7 };
+
+// Installments 2-4 have fallen due by then, 5-10 (Rs 180,000) have not
+const settlementDate = '2026-10-19';
+
+describe('computeSettlementQuote', () => {
+  it('rebates a share of the markup on the installments not yet due', () => {
+    const quote = computeSettlementQuote(plan, payments, settlementDate, purchasePrice, policy);
+
+    expect(quote).toMatchObject({
+      outstandingBalance: 270000,
+      notYetDue: 180000,
+      markup: 100000,
+      unearnedMarkup: 45000, // 180,000 of the 400,000 price is not yet due
+      rebatePercent: 50,
+      rebateAmount: 22500,
+      payoffAmount: 247500,
+      validUntil: '2026-10-26',
+    });
+  });
+
+  it('caps the rebate at the policy maximum', () => {
+    const quote = computeSettlementQuote(plan, payments, settlementDate, purchasePrice, { ...policy, max_rebate: 10000 });
+
+    expect(quote.rebateAmount).toBe(10000);
+    expect(quote.payoffAmount).toBe(260000);
+  });
+
+  it('gives no rebate without markup', () => {
+    expect(computeSettlementQuote(plan, payments, settlementDate, null, policy)).toMatchObject({ markup: 0, rebateAmount: 0, payoffAmount: 270000 });
+    expect(computeSettlementQuote(plan, payments, settlementDate, 450000, policy)).toMatchObject({ markup: 0, rebateAmount: 0, payoffAmount: 270000 });
+  });
+
+  it('adds late fees to the settlement date and unpaid commission to the payoff', () => {
+    // Rs 500 on each of installments 2-4, all past the 5 grace days on the settlement date
+    const lateFeePolicy: LateFeePolicy = { grace_days: 5, penalty_type: 'flat', penalty_value: 500, per_day_amount: 0, cap: null };
+    const quote = computeSettlementQuote({ ...plan, showroom_commission: 5000 }, payments, settlementDate, purchasePrice, policy, lateFeePolicy);
+
+    expect(quote.penaltyDue).toBe(1500);
+    expect(quote.commissionDue).toBe(5000);
+    expect(quote.payoffAmount).toBe(270000 + 1500 + 5000 - 22500);
+  });
+});
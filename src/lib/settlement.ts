@@ -0,0 +1,169 @@
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { computeInstallmentLedger, LedgerPayment, LedgerPlan } from '@/lib/installmentLedger';
+import type { LateFeePolicy } from '@/lib/lateFees';
+import type { InstallmentPayment, SettlementQuotation, SettlementQuotationStatus } from '@/types/domain';
+
+// Early settlement of a plan.
+//
+// The payoff as of a settlement date is the outstanding balance plus unpaid late fees and
+// commission, less a rebate on the markup not yet earned. The rebate policy is persisted in
+// app_settings under SETTLEMENT_POLICY_KEY and edited in Settings. A quotation freezes the figures
+// until `valid_until`; accept_settlement() posts it in one transaction and marks the plan settled.
+// The database applies the same policy (plan_settlement_rebate) and refuses larger rebates.
+
+export const SETTLEMENT_POLICY_KEY = 'settlement_policy';
+
+// Stored as JSON, hence `type` rather than `interface`
+export type SettlementPolicy = {
+  rebate_percent: number; // % of the unearned markup given back, 0-100
+  max_rebate: number; // Rs; 0 = no cap
+  valid_days: number; // how long a quotation stays valid after its settlement date
+};
+
+export const DEFAULT_SETTLEMENT_POLICY: SettlementPolicy = {
+  rebate_percent: 0,
+  max_rebate: 0,
+  valid_days: 7,
+};
+
+export const SETTLEMENT_STATUS_LABELS: Record<SettlementQuotationStatus, string> = {
+  open: 'Open',
+  accepted: 'Accepted',
+  cancelled: 'Cancelled',
+};
+
+// Merges a stored JSON value over the defaults, field by field
+export const parseSettlementPolicy = (value: unknown): SettlementPolicy => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_SETTLEMENT_POLICY;
+  const raw = value as Record<string, unknown>;
+  const defaults = DEFAULT_SETTLEMENT_POLICY;
+  const nonNegative = (v: unknown, fallback: number) =>
+    typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : fallback;
+
+  return {
+    rebate_percent: Math.min(100, nonNegative(raw.rebate_percent, defaults.rebate_percent)),
+    max_rebate: nonNegative(raw.max_rebate, defaults.max_rebate),
+    valid_days: Math.floor(nonNegative(raw.valid_days, defaults.valid_days)),
+  };
+};
+
+export interface SettlementQuote {
+  settlementDate: string; // 'yyyy-MM-dd'
+  validUntil: string; // 'yyyy-MM-dd'
+  outstandingBalance: number;
+  penaltyDue: number;
+  commissionDue: number;
+  notYetDue: number; // monthly installments falling due after the settlement date
+  markup: number; // total price - purchase price
+  unearnedMarkup: number;
+  rebatePercent: number;
+  rebateAmount: number;
+  payoffAmount: number;
+}
+
+/**
+ * Works out the payoff of a plan as of `settlementDate`, with late fees accrued up to that date.
+ *
+ * The markup (total price less the unit's purchase price) is treated as earned evenly over the
+ * price, so the unearned part is the markup's share of the installments not yet due. The rebate
+ * is `policy.rebate_percent` of it, capped at `policy.max_rebate` and at the outstanding balance,
+ * and rounded to whole rupees. Without a known purchase price there is no rebate.
+ */
+export const computeSettlementQuote = (
+  plan: LedgerPlan,
+  payments: LedgerPayment[],
+  settlementDate: string,
+  purchasePrice: number | null,
+  policy: SettlementPolicy,
+  globalLateFeePolicy: LateFeePolicy | null = null
+): SettlementQuote => {
+  const asOf = startOfDay(parseISO(settlementDate));
+  const ledger = computeInstallmentLedger(plan, payments, asOf, globalLateFeePolicy);
+
+  const outstandingBalance = Math.max(0, ledger.customerDebt);
+  const notYetDue = ledger.schedule
+    .filter(item => item.due_date > settlementDate)
+    .reduce((sum, item) => sum + item.remaining_amount, 0);
+  const markup = purchasePrice ? Math.max(0, plan.total_price - purchasePrice) : 0;
+  const unearnedMarkup = plan.total_price > 0 ? Math.round((markup * notYetDue) / plan.total_price) : 0;
+
+  let rebateAmount = Math.round((unearnedMarkup * policy.rebate_percent) / 100);
+  if (policy.max_rebate > 0) rebateAmount = Math.min(rebateAmount, policy.max_rebate);
+  rebateAmount = Math.min(rebateAmount, Math.floor(outstandingBalance));
+
+  const penaltyDue = ledger.outstandingPenalty;
+  const commissionDue = Math.max(0, ledger.outstandingCommission);
+
+  return {
+    settlementDate,
+    validUntil: format(addDays(asOf, policy.valid_days), 'yyyy-MM-dd'),
+    outstandingBalance,
+    penaltyDue,
+    commissionDue,
+    notYetDue,
+    markup,
+    unearnedMarkup,
+    rebatePercent: policy.rebate_percent,
+    rebateAmount,
+    payoffAmount: outstandingBalance + penaltyDue + commissionDue - rebateAmount,
+  };
+};
+
+// Short reference printed on the quotation and in the remarks of the settlement payments
+export const quotationNumber = (quotation: Pick<SettlementQuotation, 'id'>) => quotation.id.slice(0, 8).toUpperCase();
+
+export const isQuotationExpired = (quotation: SettlementQuotation, today: string = format(new Date(), 'yyyy-MM-dd')) =>
+  quotation.status === 'open' && quotation.valid_until < today;
+
+export const issueQuotation = async (planId: string, quote: SettlementQuote): Promise<SettlementQuotation> => {
+  const { data, error } = await supabase
+    .from('settlement_quotations')
+    .insert({
+      installment_plan_id: planId,
+      settlement_date: quote.settlementDate,
+      valid_until: quote.validUntil,
+      outstanding_balance: quote.outstandingBalance,
+      penalty_due: quote.penaltyDue,
+      commission_due: quote.commissionDue,
+      not_yet_due: quote.notYetDue,
+      markup: quote.markup,
+      unearned_markup: quote.unearnedMarkup,
+      rebate_percent: quote.rebatePercent,
+      rebate_amount: quote.rebateAmount,
+      payoff_amount: quote.payoffAmount,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SettlementQuotation;
+};
+
+/**
+ * Accepts a quotation through the `accept_settlement` RPC, which posts late fees, commission, the
+ * balance less the rebate and the rebate (as a discount) under one receipt number, dated the
+ * settlement date, and marks the plan settled. Fails if the balance, late fees or commission changed
+ * since the quotation was issued, or if the rebate is more than the settlement policy now allows.
+ */
+export const acceptSettlement = async (quotationId: string, receivedBy: string): Promise<InstallmentPayment[]> => {
+  const { data, error } = await supabase.rpc('accept_settlement', {
+    p_quotation_id: quotationId,
+    p_received_by: receivedBy,
+  });
+
+  if (error) throw error;
+  return (data || []) as InstallmentPayment[];
+};
+
+export const cancelQuotation = async (quotationId: string): Promise<SettlementQuotation> => {
+  const { data, error } = await supabase
+    .from('settlement_quotations')
+    .update({ status: 'cancelled' })
+    .eq('id', quotationId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SettlementQuotation;
+};
@@ -0,0 +1,112 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PurchaseInvoice, SupplierPayment, SupplierPaymentMethod } from '@/types/domain';
+
+export const SUPPLIER_PAYMENT_METHOD_LABELS: Record<SupplierPaymentMethod, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+};
+
+export type PurchaseInvoiceStatus = 'paid' | 'partial' | 'unpaid';
+
+export const PURCHASE_INVOICE_STATUS_LABELS: Record<PurchaseInvoiceStatus, string> = {
+  paid: 'Paid',
+  partial: 'Part Paid',
+  unpaid: 'Unpaid',
+};
+
+// One rikshaw on a purchase invoice; becomes an unsold rikshaw row when the invoice is received
+export type PurchaseInvoiceLine = {
+  manufacturer: string;
+  model_name: string;
+  type: string;
+  engine_number: string;
+  chassis_number: string;
+  registration_number?: string;
+  category?: 'new' | 'old';
+  purchase_price: number;
+};
+
+export interface ReceivePurchaseInvoiceParams {
+  supplierId: string;
+  invoiceNumber: string;
+  invoiceDate: string; // 'yyyy-MM-dd'
+  dueDate: string | null;
+  otherCharges: number;
+  notes: string;
+  lines: PurchaseInvoiceLine[];
+}
+
+/**
+ * Records a supplier's invoice through the `receive_purchase_invoice` RPC, which adds one unsold
+ * rikshaw per line linked to the invoice, in one transaction. Fails without adding anything if an
+ * engine or chassis number is already in stock.
+ */
+export const receivePurchaseInvoice = async (params: ReceivePurchaseInvoiceParams): Promise<PurchaseInvoice> => {
+  const { data, error } = await supabase.rpc('receive_purchase_invoice', {
+    p_supplier_id: params.supplierId,
+    p_invoice_number: params.invoiceNumber,
+    p_invoice_date: params.invoiceDate,
+    p_lines: params.lines,
+    p_due_date: params.dueDate,
+    p_other_charges: params.otherCharges,
+    p_notes: params.notes,
+  });
+
+  if (error) throw error;
+  return data as PurchaseInvoice;
+};
+
+export interface InvoiceBalance<T extends PurchaseInvoice = PurchaseInvoice> {
+  invoice: T;
+  paid: number;
+  remaining: number;
+  status: PurchaseInvoiceStatus;
+  isOverdue: boolean;
+}
+
+export interface SupplierBalance<T extends PurchaseInvoice = PurchaseInvoice> {
+  invoiced: number;
+  paid: number;
+  balance: number; // owed to the supplier; negative is an advance
+  overdue: number;
+  invoices: InvoiceBalance<T>[]; // oldest first
+}
+
+/**
+ * What is owed to a supplier. Payments are not tied to invoices, so the total paid is applied to
+ * the invoices oldest first (by invoice date, then number); whatever is left on an invoice past
+ * its due date on `asOf` is overdue.
+ */
+export const computeSupplierBalance = <T extends PurchaseInvoice>(
+  invoices: T[],
+  payments: Pick<SupplierPayment, 'amount'>[],
+  asOf: string // 'yyyy-MM-dd'
+): SupplierBalance<T> => {
+  const invoiced = invoices.reduce((sum, invoice) => sum + invoice.total_amount, 0);
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+  let unapplied = paid;
+  const balances = [...invoices]
+    .sort((a, b) => a.invoice_date.localeCompare(b.invoice_date) || a.invoice_number.localeCompare(b.invoice_number))
+    .map((invoice): InvoiceBalance<T> => {
+      const applied = Math.min(unapplied, invoice.total_amount);
+      unapplied -= applied;
+      const remaining = invoice.total_amount - applied;
+      return {
+        invoice,
+        paid: applied,
+        remaining,
+        status: remaining <= 0 ? 'paid' : applied > 0 ? 'partial' : 'unpaid',
+        isOverdue: remaining > 0 && !!invoice.due_date && invoice.due_date < asOf,
+      };
+    });
+
+  return {
+    invoiced,
+    paid,
+    balance: invoiced - paid,
+    overdue: balances.reduce((sum, entry) => sum + (entry.isOverdue ? entry.remaining : 0), 0),
+    invoices: balances,
+  };
+};
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Eye, History, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { AuditAction, AuditedTable, AuditLogEntry } from '@/types/domain';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<AuditedTable, string> = {
+  installment_payments: 'Payments',
+  installment_plans: 'Installment Plans',
+  rikshaws: 'Rikshaws',
+  customers: 'Customers',
+  plan_cheques: 'Cheques',
+  settlement_quotations: 'Settlement Quotations',
+  repossessions: 'Repossessions',
+  purchase_invoices: 'Purchase Invoices',
+  supplier_payments: 'Supplier Payments',
+  reservations: 'Reservations',
+  registrations: 'Registrations',
+};
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive'> = {
+  INSERT: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+};
+
+// Bookkeeping columns that change on every write and would only add noise to the diff
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Inserts show every new value, deletes every old value, updates only the columns that changed
+const diffEntry = (entry: AuditLogEntry): FieldChange[] => {
+  const before = entry.old_data ?? {};
+  const after = entry.new_data ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .sort();
+
+  return fields
+    .map(field => ({ field, before: before[field], after: after[field] }))
+    .filter(change => entry.action !== 'UPDATE' || JSON.stringify(change.before) !== JSON.stringify(change.after));
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const AuditLog = () => {
+  const [entity, setEntity] = useState<AuditedTable | 'all'>('all');
+  const [userSearch, setUserSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['audit-log', entity, userSearch, fromDate, toDate],
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('changed_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(pageParam * PAGE_SIZE, (pageParam + 1) * PAGE_SIZE - 1);
+
+      if (entity !== 'all') query = query.eq('table_name', entity);
+      if (userSearch.trim()) query = query.ilike('actor_email', `%${userSearch.trim()}%`);
+      // Dates are local calendar days; compare against the start of the day after `toDate`
+      if (fromDate) query = query.gte('changed_at', parseISO(fromDate).toISOString());
+      if (toDate) {
+        const end = parseISO(toDate);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('changed_at', end.toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as AuditLogEntry[];
+    },
+    getNextPageParam: (lastPage, allPages) => (lastPage.length === PAGE_SIZE ? allPages.length : undefined),
+  });
+
+  const entries = data?.pages.flat() ?? [];
+
+  const clearFilters = () => {
+    setEntity('all');
+    setUserSearch('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <History className="h-7 w-7" />
+          Audit Log
+        </h1>
+        <p className="text-muted-foreground">Every change to payments, plans, rikshaws and customers, with who made it and why.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Narrow the log by entity, user and date.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity">Entity</Label>
+              <Select value={entity} onValueChange={(value) => setEntity(value as AuditedTable | 'all')}>
+                <SelectTrigger id="audit-entity">
+                  <SelectValue placeholder="All entities" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {(Object.keys(ENTITY_LABELS) as AuditedTable[]).map(table => (
+                    <SelectItem key={table} value={table}>{ENTITY_LABELS[table]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-user">User</Label>
+              <Input
+                id="audit-user"
+                placeholder="Search by email"
+                value={userSearch}
+                onChange={(e) => setUserSearch(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={clearFilters}>Clear Filters</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-center text-red-600 py-12">Failed to load the audit log: {(error as Error).message}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No changes match these filters.</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>When</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(entry.changed_at), 'dd MMM yyyy, hh:mm a')}</TableCell>
+                      <TableCell>{ENTITY_LABELS[entry.table_name] ?? entry.table_name}</TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[entry.action]}>{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell>{entry.actor_email || <span className="text-muted-foreground">System</span>}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={entry.reason ?? undefined}>
+                        {entry.reason || <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {hasNextPage && (
+                <div className="flex justify-center mt-4">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage ? 'Loading...' : 'Load More'}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          {selectedEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {selectedEntry.action} · {ENTITY_LABELS[selectedEntry.table_name] ?? selectedEntry.table_name}
+                </DialogTitle>
+                <DialogDescription>
+                  {format(parseISO(selectedEntry.changed_at), 'dd MMM yyyy, hh:mm:ss a')} by {selectedEntry.actor_email || 'System'}
+                  {selectedEntry.record_id && <> · Record {selectedEntry.record_id}</>}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="rounded-md bg-gray-50 p-3 text-sm">
+                <span className="font-medium">Reason: </span>
+                {selectedEntry.reason || <span className="text-muted-foreground">No reason given</span>}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[25%]">Field</TableHead>
+                    {selectedEntry.action !== 'INSERT' && <TableHead>Before</TableHead>}
+                    {selectedEntry.action !== 'DELETE' && <TableHead>After</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diffEntry(selectedEntry).map(change => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                      {selectedEntry.action !== 'INSERT' && (
+                        <TableCell className="whitespace-pre-wrap break-all text-xs bg-red-50 text-red-800">
+                          {formatValue(change.before)}
+                        </TableCell>
+                      )}
+                      {selectedEntry.action !== 'DELETE' && (
+                        <TableCell className="whitespace-pre-wrap break-all text-xs bg-green-50 text-green-800">
+                          {formatValue(change.after)}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import ChequeActions, { ChequeStatusBadge } from '@/components/cheques/ChequeActions';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Landmark, Search } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { CHEQUE_KIND_LABELS, CHEQUE_STATUS_LABELS, chequesDueForDeposit } from '@/lib/cheques';
+import type { ChequeStatus, Customer, InstallmentPlan, PlanCheque } from '@/types/domain';
+
+type RegisterCheque = PlanCheque & {
+  installment_plans: (Pick<InstallmentPlan, 'id' | 'customer_id' | 'rikshaw_details'> & {
+    customers: Pick<Customer, 'name' | 'phone'> | null;
+  }) | null;
+};
+
+const ChequeTable = ({ cheques, today }: { cheques: RegisterCheque[]; today: string }) => (
+  <div className="overflow-x-auto rounded-md border">
+    <Table>
+      <TableHeader>
+        <TableRow className="bg-gray-100">
+          <TableHead>Customer</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Bank</TableHead>
+          <TableHead>Cheque No.</TableHead>
+          <TableHead>Date</TableHead>
+          <TableHead className="text-right">Amount (Rs)</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {cheques.map(cheque => {
+          const plan = cheque.installment_plans;
+          const overdueForDeposit = cheque.status === 'held' && cheque.kind === 'post_dated' && !!cheque.cheque_date && cheque.cheque_date < today;
+          return (
+            <TableRow key={cheque.id}>
+              <TableCell className="font-medium">
+                {plan ? (
+                  <>
+                    <Link to={`/customers/${plan.customer_id}`} className="hover:underline">{plan.customers?.name ?? 'N/A'}</Link>
+                    <Link to={`/installments?plan=${plan.id}`} className="block text-xs text-muted-foreground hover:underline">
+                      {plan.rikshaw_details ? `${plan.rikshaw_details.manufacturer} ${plan.rikshaw_details.model_name}` : 'View plan'}
+                    </Link>
+                  </>
+                ) : 'N/A'}
+              </TableCell>
+              <TableCell>{CHEQUE_KIND_LABELS[cheque.kind]}</TableCell>
+              <TableCell>{cheque.bank_name}</TableCell>
+              <TableCell className="font-mono">{cheque.cheque_number}</TableCell>
+              <TableCell className={cn(overdueForDeposit && 'text-red-600 font-semibold')}>
+                {cheque.cheque_date ? format(parseISO(cheque.cheque_date), 'dd MMM yyyy') : '-'}
+              </TableCell>
+              <TableCell className="text-right">{cheque.amount ? cheque.amount.toLocaleString() : '-'}</TableCell>
+              <TableCell><ChequeStatusBadge status={cheque.status} /></TableCell>
+              <TableCell className="text-right"><ChequeActions cheque={cheque} /></TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+const Cheques = () => {
+  const { toast } = useToast();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [statusFilter, setStatusFilter] = useState<ChequeStatus | 'all'>('held');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // The whole register is small (a handful of cheques per plan), so it is loaded once and
+  // filtered here; the due-for-deposit list needs every held cheque regardless of the filter.
+  const { data: cheques = [], isLoading, error } = useQuery<RegisterCheque[]>({
+    queryKey: ['cheque-register'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('plan_cheques')
+        .select('*, installment_plans(id, customer_id, rikshaw_details, customers(name, phone))')
+        .order('cheque_date', { ascending: true, nullsFirst: false });
+      if (error) throw error;
+      return data as RegisterCheque[];
+    },
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({ title: "Error fetching cheques", description: error.message, variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  const dueThisWeek = useMemo(() => chequesDueForDeposit(cheques), [cheques]);
+  const dueTotal = dueThisWeek.reduce((sum, cheque) => sum + (cheque.amount || 0), 0);
+
+  const filteredCheques = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return cheques.filter(cheque => {
+      if (statusFilter !== 'all' && cheque.status !== statusFilter) return false;
+      if (!term) return true;
+      return [cheque.cheque_number, cheque.bank_name, cheque.installment_plans?.customers?.name]
+        .some(value => value?.toLowerCase().includes(term));
+    });
+  }, [cheques, statusFilter, searchTerm]);
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+          <Landmark className="h-7 w-7 text-blue-600" />
+          Cheque Register
+        </h1>
+        <p className="text-muted-foreground mt-2">Security and post-dated cheques held against installment plans.</p>
+      </div>
+
+      <Card className="border-orange-200">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-orange-700">
+            <CalendarClock className="h-5 w-5" /> Due for Deposit This Week
+          </CardTitle>
+          <CardDescription>
+            Post-dated cheques still held and dated up to the end of this week. Dates in red have already passed.
+            {dueThisWeek.length > 0 && ` ${dueThisWeek.length} cheque(s), Rs ${dueTotal.toLocaleString()} in total.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading cheques...</p>
+          ) : dueThisWeek.length === 0 ? (
+            <p className="text-muted-foreground">No cheques are due for deposit this week.</p>
+          ) : (
+            <ChequeTable cheques={dueThisWeek} today={today} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Cheques</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ChequeStatus | 'all')}>
+                <SelectTrigger className="w-52"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {(Object.keys(CHEQUE_STATUS_LABELS) as ChequeStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{CHEQUE_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="relative flex-1 min-w-[240px] max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by cheque no., bank or customer..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading cheques...</p>
+          ) : filteredCheques.length === 0 ? (
+            <p className="text-muted-foreground">No cheques match the filter.</p>
+          ) : (
+            <ChequeTable cheques={filteredCheques} today={today} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Cheques;
@@ -0,0 +1,452 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { ArrowLeft, Car, Eye, FileText, Loader2, Paperclip, StickyNote, Trash2, User, Wallet } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { computeInstallmentLedger, InstallmentLedger } from '@/lib/installmentLedger';
+import { planLabel } from '@/lib/customerStatement';
+import { PAYMENT_TYPE_LABELS } from '@/lib/payments';
+import { ROLE_ACCESS } from '@/lib/roles';
+import RequireRole from '@/components/RequireRole';
+import DocumentManager from '@/components/documents/DocumentManager';
+import type { Customer, CustomerNote, InstallmentPayment, InstallmentPlan } from '@/types/domain';
+
+const displayDate = (date: string | null | undefined) => (date ? format(parseISO(date), 'dd MMM yyyy') : 'N/A');
+
+const Field = ({ label, value }: { label: string; value: string | null | undefined }) => (
+  <div className="space-y-1">
+    <p className="text-xs font-semibold text-muted-foreground">{label}</p>
+    <p>{value || 'N/A'}</p>
+  </div>
+);
+
+const CustomerProfile = () => {
+  const { id: customerId } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { lateFeePolicy: globalLateFeePolicy } = useSettings();
+  const [newNote, setNewNote] = useState('');
+
+  const { data: customer, isLoading: loadingCustomer, error: customerError } = useQuery<Customer>({
+    queryKey: ['customer', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('customers').select('*').eq('id', customerId).single();
+      if (error) throw error;
+      return data as Customer;
+    },
+    enabled: !!customerId,
+  });
+
+  // Plans (with the unit sold) and every payment on them
+  const { data: accountData, isLoading: loadingAccount, error: accountError } = useQuery<{ plans: InstallmentPlan[]; payments: InstallmentPayment[] }>({
+    queryKey: ['customer-profile', customerId],
+    queryFn: async () => {
+      const { data: plans, error: plansError } = await supabase
+        .from('installment_plans')
+        .select('*, rikshaws(manufacturer, model_name, registration_number, engine_number, chassis_number, type)')
+        .eq('customer_id', customerId)
+        .order('agreement_date', { ascending: false });
+      if (plansError) throw plansError;
+      if (!plans || plans.length === 0) return { plans: [], payments: [] };
+
+      const { data: payments, error: paymentsError } = await supabase
+        .from('installment_payments')
+        .select('*')
+        .in('installment_plan_id', plans.map(plan => plan.id))
+        .order('payment_date', { ascending: false });
+      if (paymentsError) throw paymentsError;
+
+      return { plans: plans as InstallmentPlan[], payments: (payments || []) as InstallmentPayment[] };
+    },
+    enabled: !!customerId,
+  });
+
+  const { data: notes = [] } = useQuery<CustomerNote[]>({
+    queryKey: ['customer-notes', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customer_notes')
+        .select('*')
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as CustomerNote[];
+    },
+    enabled: !!customerId,
+  });
+
+  useEffect(() => {
+    const error = customerError || accountError;
+    if (error) {
+      toast({ title: "Error fetching customer", description: error.message, variant: "destructive" });
+    }
+  }, [customerError, accountError, toast]);
+
+  const plans = useMemo(() => accountData?.plans ?? [], [accountData]);
+  const payments = useMemo(() => accountData?.payments ?? [], [accountData]);
+
+  // Live status and balance of every plan
+  const ledgersByPlan = useMemo(() => {
+    const ledgers: Record<string, InstallmentLedger> = {};
+    plans.forEach(plan => {
+      ledgers[plan.id] = computeInstallmentLedger(plan, payments, new Date(), globalLateFeePolicy);
+    });
+    return ledgers;
+  }, [plans, payments, globalLateFeePolicy]);
+
+  const totals = useMemo(() => ({
+    purchased: plans.reduce((sum, plan) => sum + plan.total_price, 0),
+    paid: plans.reduce((sum, plan) => sum + (ledgersByPlan[plan.id]?.customerPaid ?? 0), 0),
+    outstanding: plans.reduce((sum, plan) => sum + Math.max(0, ledgersByPlan[plan.id]?.remainingBalance ?? 0), 0),
+  }), [plans, ledgersByPlan]);
+
+  const plansById = useMemo(() => Object.fromEntries(plans.map(plan => [plan.id, plan])), [plans]);
+
+  const addNoteMutation = useMutation({
+    mutationFn: async (note: string) => {
+      const { error } = await supabase.from('customer_notes').insert({ customer_id: customerId, note });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-notes', customerId] });
+      setNewNote('');
+      toast({ title: "Note Added" });
+    },
+    onError: (error) => {
+      toast({ title: "Error adding note", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      const { error } = await supabase.from('customer_notes').delete().eq('id', noteId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer-notes', customerId] });
+      toast({ title: "Note Deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Error deleting note", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (loadingCustomer || loadingAccount) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="max-w-7xl mx-auto p-4 space-y-4">
+        <p className="text-muted-foreground">Customer not found.</p>
+        <Button variant="outline" asChild>
+          <Link to="/customers"><ArrowLeft className="h-4 w-4 mr-2" />Customers</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <User className="h-7 w-7 text-blue-600" />
+            {customer.name}
+          </h1>
+          <p className="text-muted-foreground mt-2">CNIC {customer.cnic} · {customer.phone}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to={`/customers/${customer.id}/statement`}><FileText className="h-4 w-4 mr-2" />Statement of Account</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link to="/customers"><ArrowLeft className="h-4 w-4 mr-2" />Customers</Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Identity & Guarantor */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Identity</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4 text-sm">
+            <Field label="Name" value={customer.name} />
+            <Field label="CNIC" value={customer.cnic} />
+            <Field label="Phone" value={customer.phone} />
+            <Field label="Customer Since" value={displayDate(customer.created_at)} />
+            <div className="col-span-2"><Field label="Address" value={customer.address} /></div>
+            <Field label="Bank Name" value={customer.bank_name} />
+            <Field label="Cheque Number" value={customer.cheque_number} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Guarantor</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4 text-sm">
+            <Field label="Name" value={customer.guarantor_name} />
+            <Field label="CNIC" value={customer.guarantor_cnic} />
+            <Field label="Phone" value={customer.guarantor_phone} />
+            <div className="col-span-2"><Field label="Address" value={customer.guarantor_address} /></div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Plans', value: plans.length.toString() },
+          { label: 'Total Purchased', value: `Rs ${totals.purchased.toLocaleString()}` },
+          { label: 'Total Paid', value: `Rs ${totals.paid.toLocaleString()}` },
+          { label: 'Outstanding', value: `Rs ${totals.outstanding.toLocaleString()}` },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Plans */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center gap-2"><Wallet className="h-5 w-5" />Installment Plans</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <p className="text-muted-foreground">No installment plans for this customer.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agreement Date</TableHead>
+                    <TableHead>Rickshaw</TableHead>
+                    <TableHead>Total Price</TableHead>
+                    <TableHead>Monthly</TableHead>
+                    <TableHead>Remaining Balance</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map(plan => {
+                    const ledger = ledgersByPlan[plan.id];
+                    return (
+                      <TableRow key={plan.id}>
+                        <TableCell>{displayDate(plan.agreement_date)}</TableCell>
+                        <TableCell>{planLabel(plan)}</TableCell>
+                        <TableCell>Rs {plan.total_price.toLocaleString()}</TableCell>
+                        <TableCell>Rs {plan.monthly_installment.toLocaleString()} × {plan.duration_months}</TableCell>
+                        <TableCell>Rs {(ledger?.remainingBalance ?? 0).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <span className={cn(
+                            "px-2 py-1 rounded-full text-xs font-medium",
+                            ledger?.status === 'Completed' && "bg-green-100 text-green-800",
+                            ledger?.status === 'Active' && "bg-blue-100 text-blue-800",
+                            ledger?.status === 'Overdue' && "bg-red-100 text-red-800",
+                            ledger?.status === 'Defaulted' && "bg-red-700 text-white",
+                            ledger?.status === 'Advance Pending' && "bg-yellow-100 text-yellow-800",
+                            ledger?.status === 'Not Active' && "bg-gray-100 text-gray-800",
+                          )}>
+                            {ledger?.status}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" asChild>
+                            <Link to={`/installments?plan=${plan.id}`} className="flex items-center gap-1">
+                              <Eye className="h-4 w-4" /> View Plan
+                            </Link>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rikshaws bought */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center gap-2"><Car className="h-5 w-5" />Rickshaws Bought</CardTitle>
+          <CardDescription>As recorded at the time of sale.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <p className="text-muted-foreground">No rickshaws bought yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sold On</TableHead>
+                    <TableHead>Manufacturer</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Engine No</TableHead>
+                    <TableHead>Chassis No</TableHead>
+                    <TableHead>Reg No</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map(plan => {
+                    const details = plan.rikshaw_details ?? plan.rikshaws;
+                    return (
+                      <TableRow key={plan.id}>
+                        <TableCell>{displayDate(plan.agreement_date)}</TableCell>
+                        <TableCell>{details?.manufacturer ?? 'N/A'}</TableCell>
+                        <TableCell>{details?.model_name ?? 'N/A'}</TableCell>
+                        <TableCell>{details?.type ?? 'N/A'}</TableCell>
+                        <TableCell>{details?.engine_number ?? 'N/A'}</TableCell>
+                        <TableCell>{details?.chassis_number ?? 'N/A'}</TableCell>
+                        <TableCell>{details?.registration_number || 'N/A'}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payments */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">All Payments</CardTitle>
+          <CardDescription>Every payment across the customer's plans, newest first. The advance collected at sale is on each plan.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {payments.length === 0 ? (
+            <p className="text-muted-foreground">No payments recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border max-h-[480px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Receipt No</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Amount (Rs)</TableHead>
+                    <TableHead>Received By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payments.map(payment => (
+                    <TableRow
+                      key={payment.id}
+                      className={cn((payment.voided_at || payment.reversal_of) && 'text-muted-foreground', payment.voided_at && 'line-through')}
+                    >
+                      <TableCell className="whitespace-nowrap">{displayDate(payment.payment_date)}</TableCell>
+                      <TableCell className="font-mono text-xs">{payment.receipt_number ?? '-'}</TableCell>
+                      <TableCell className="text-xs">{plansById[payment.installment_plan_id] ? planLabel(plansById[payment.installment_plan_id]) : 'N/A'}</TableCell>
+                      <TableCell>
+                        {PAYMENT_TYPE_LABELS[payment.payment_type] ?? payment.payment_type}
+                        {payment.payment_type === 'monthly' && payment.installment_number ? ` #${payment.installment_number}` : ''}
+                        {payment.voided_at && <Badge variant="destructive" className="ml-2 no-underline">Voided</Badge>}
+                        {payment.reversal_of && <Badge variant="outline" className="ml-2">Reversal</Badge>}
+                      </TableCell>
+                      <TableCell>{payment.amount_paid.toLocaleString()}</TableCell>
+                      <TableCell>{payment.received_by}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Documents */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center gap-2"><Paperclip className="h-5 w-5" />Documents</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DocumentManager owner={{ column: 'customer_id', id: customer.id }} />
+        </CardContent>
+      </Card>
+
+      {/* Notes */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center gap-2"><StickyNote className="h-5 w-5" />Notes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RequireRole roles={ROLE_ACCESS.addCustomerNotes}>
+            <div className="space-y-2">
+              <Textarea
+                value={newNote}
+                onChange={(e) => setNewNote(e.target.value)}
+                placeholder="e.g. Visited showroom, promised to clear arrears by the 10th"
+                rows={2}
+              />
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() => addNoteMutation.mutate(newNote.trim())}
+                  disabled={!newNote.trim() || addNoteMutation.isPending}
+                >
+                  {addNoteMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                  Add Note
+                </Button>
+              </div>
+            </div>
+          </RequireRole>
+          {notes.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No notes yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {notes.map(note => (
+                <li key={note.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="whitespace-pre-wrap">{note.note}</p>
+                    <RequireRole roles={ROLE_ACCESS.deleteCustomerNotes}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Delete note"
+                        onClick={() => deleteNoteMutation.mutate(note.id)}
+                        disabled={deleteNoteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </RequireRole>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {note.created_by_email || 'Unknown'} · {format(new Date(note.created_at), 'dd MMM yyyy, hh:mm a')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerProfile;
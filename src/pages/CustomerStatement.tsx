@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { ArrowLeft, Download, FileSpreadsheet, FileText, Printer } from 'lucide-react';
+import { format, parseISO, startOfYear } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { buildCustomerStatement } from '@/lib/customerStatement';
+import { downloadCsv } from '@/lib/csv';
+import { buildCustomerStatementPdf, printPdf, savePdf } from '@/lib/pdf';
+import type { Customer, InstallmentPayment, InstallmentPlan } from '@/types/domain';
+
+const CustomerStatement = () => {
+  const { id: customerId } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const today = useMemo(() => new Date(), []);
+  const [fromDate, setFromDate] = useState(format(startOfYear(today), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(today, 'yyyy-MM-dd'));
+
+  const { data: customer, isLoading: loadingCustomer, error: customerError } = useQuery<Customer>({
+    queryKey: ['customer', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('customers').select('*').eq('id', customerId).single();
+      if (error) throw error;
+      return data as Customer;
+    },
+    enabled: !!customerId,
+  });
+
+  // Every plan of the customer with all of its payments; the statement is built client-side
+  const { data: accountData, isLoading: loadingAccount, error: accountError } = useQuery<{ plans: InstallmentPlan[]; payments: InstallmentPayment[] }>({
+    queryKey: ['customer-account', customerId],
+    queryFn: async () => {
+      const { data: plans, error: plansError } = await supabase
+        .from('installment_plans')
+        .select('*, rikshaws(manufacturer, model_name, registration_number)')
+        .eq('customer_id', customerId)
+        .order('agreement_date', { ascending: true });
+      if (plansError) throw plansError;
+      if (!plans || plans.length === 0) return { plans: [], payments: [] };
+
+      const { data: payments, error: paymentsError } = await supabase
+        .from('installment_payments')
+        .select('*')
+        .in('installment_plan_id', plans.map(plan => plan.id));
+      if (paymentsError) throw paymentsError;
+
+      return { plans: plans as InstallmentPlan[], payments: (payments || []) as InstallmentPayment[] };
+    },
+    enabled: !!customerId,
+  });
+
+  useEffect(() => {
+    const error = customerError || accountError;
+    if (error) {
+      toast({ title: "Error fetching statement", description: error.message, variant: "destructive" });
+    }
+  }, [customerError, accountError, toast]);
+
+  const statement = useMemo(() => {
+    if (!accountData || !fromDate || !toDate) return null;
+    return buildCustomerStatement(accountData.plans, accountData.payments, fromDate, toDate);
+  }, [accountData, fromDate, toDate]);
+
+  const fileName = customer ? `statement-${customer.name.replace(/\s+/g, '-').toLowerCase()}-${fromDate}-to-${toDate}` : 'statement';
+
+  const handlePdf = async (action: 'print' | 'save') => {
+    if (!customer || !statement) return;
+    try {
+      const doc = await buildCustomerStatementPdf({ settings, customer, statement });
+      if (action === 'print') printPdf(doc);
+      else savePdf(doc, fileName);
+    } catch (error) {
+      toast({ title: "Statement Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!customer || !statement) return;
+    downloadCsv(fileName, [
+      ['Customer', customer.name, 'CNIC', customer.cnic],
+      ['Period', statement.from, 'to', statement.to],
+      [],
+      ['Date', 'Plan', 'Description', 'Receipt No', 'Debit', 'Credit', 'Balance'],
+      ['', '', 'Opening Balance', '', '', '', statement.openingBalance],
+      ...statement.lines.map(line => [line.date, line.plan, line.description, line.reference, line.debit || '', line.credit || '', line.balance]),
+      ['', '', 'Period Totals', '', statement.totalDebit, statement.totalCredit, ''],
+      ['', '', 'Closing Balance', '', '', '', statement.closingBalance],
+    ]);
+  };
+
+  const earliestDate = useMemo(() => {
+    const dates = accountData?.plans.map(plan => (plan.agreement_date || plan.created_at).substring(0, 10)) ?? [];
+    return dates.length > 0 ? dates.reduce((min, date) => (date < min ? date : min)) : null;
+  }, [accountData]);
+
+  const isLoading = loadingCustomer || loadingAccount;
+  const canExport = !!statement && !!customer;
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <FileText className="h-7 w-7 text-blue-600" />
+            Statement of Account
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            {customer ? `${customer.name} (${customer.cnic}) — all installment plans` : 'Running balance across all of the customer\'s plans.'}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/customers"><ArrowLeft className="h-4 w-4 mr-2" />Customers</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement Period</CardTitle>
+          <CardDescription>Entries before the start date are carried into the opening balance.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4 items-end flex-wrap">
+            <div className="space-y-2">
+              <Label htmlFor="statement-from">From</Label>
+              <Input id="statement-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-to">To</Label>
+              <Input id="statement-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button variant="outline" disabled={!earliestDate} onClick={() => earliestDate && setFromDate(earliestDate)}>
+              Full History
+            </Button>
+            <Button onClick={() => handlePdf('print')} disabled={!canExport} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+              <Printer className="h-4 w-4" /> Print
+            </Button>
+            <Button variant="outline" onClick={() => handlePdf('save')} disabled={!canExport} className="flex items-center gap-2">
+              <Download className="h-4 w-4" /> Download PDF
+            </Button>
+            <Button variant="outline" onClick={handleExportCsv} disabled={!canExport} className="flex items-center gap-2">
+              <FileSpreadsheet className="h-4 w-4" /> Export CSV
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading statement...</div>
+      ) : !statement || accountData?.plans.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">This customer has no installment plans.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Opening Balance', value: statement.openingBalance },
+              { label: 'Debits', value: statement.totalDebit },
+              { label: 'Credits', value: statement.totalCredit },
+              { label: 'Closing Balance', value: statement.closingBalance },
+            ].map(({ label, value }) => (
+              <Card key={label}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-bold">Rs {value.toLocaleString()}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto rounded-md border shadow-sm">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-100">
+                  <TableHead>Date</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Receipt No</TableHead>
+                  <TableHead className="text-right">Debit (Rs)</TableHead>
+                  <TableHead className="text-right">Credit (Rs)</TableHead>
+                  <TableHead className="text-right">Balance (Rs)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="font-semibold">
+                  <TableCell colSpan={6}>Opening Balance</TableCell>
+                  <TableCell className="text-right">{statement.openingBalance.toLocaleString()}</TableCell>
+                </TableRow>
+                {statement.lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">No entries in this period.</TableCell>
+                  </TableRow>
+                ) : (
+                  statement.lines.map((line, index) => (
+                    <TableRow key={`${line.planId}-${index}`}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(line.date), 'dd MMM yyyy')}</TableCell>
+                      <TableCell className="text-xs">{line.plan}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="font-mono text-xs">{line.reference ?? '-'}</TableCell>
+                      <TableCell className="text-right">{line.debit ? line.debit.toLocaleString() : ''}</TableCell>
+                      <TableCell className="text-right text-green-700">{line.credit ? line.credit.toLocaleString() : ''}</TableCell>
+                      <TableCell className={cn('text-right font-medium', line.balance < 0 && 'text-red-600')}>{line.balance.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={4} className="font-semibold">Period Totals</TableCell>
+                  <TableCell className="text-right font-semibold">{statement.totalDebit.toLocaleString()}</TableCell>
+                  <TableCell className="text-right font-semibold">{statement.totalCredit.toLocaleString()}</TableCell>
+                  <TableCell />
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={6} className="font-bold">Closing Balance</TableCell>
+                  <TableCell className="text-right font-bold">{statement.closingBalance.toLocaleString()}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomerStatement;
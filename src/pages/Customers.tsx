@@ -6,28 +6,20 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, Search, Eye, XCircle, Loader2 } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Eye, XCircle, Loader2, FileText } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { Textarea } from '@/components/ui/textarea';
 import { supabase } from '@/integrations/supabase/client';
-
-// Define the Customer interface
-interface Customer {
-  id: string;
-  name: string;
-  cnic: string;
-  phone: string;
-  address: string;
-  assigned_rickshaw: string | null;
-  guarantor_name: string | null;
-  guarantor_cnic: string | null;
-  guarantor_phone: string | null;
-  guarantor_address: string | null;
-  bank_name: string | null;
-  cheque_number: string | null;
-  created_at: string; // This is the customer record creation date
-  updated_at: string;
-  agreement_date: string | null; // Field to store the latest agreement date from installment_plans
-}
+import type { Customer } from '@/types/domain';
+import RequireRole from '@/components/RequireRole';
+import DocumentManager from '@/components/documents/DocumentManager';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { withAuditReason } from '@/lib/audit';
+
+// List rows carry the agreement date of the customer's latest installment plan
+type CustomerListItem = Customer & {
+  agreement_date: string | null;
+};
 
 // Define the CustomerFormData interface for form input
 interface CustomerFormData {
@@ -263,6 +255,16 @@ const CustomerForm: React.FC<CustomerFormProps> = React.memo(({
             </Button>
           </div>
         </form>
+
+        <h3 className="text-lg font-semibold border-b pb-2 mt-6 mb-4">Documents</h3>
+        {editingCustomer ? (
+          <DocumentManager
+            owner={{ column: 'customer_id', id: editingCustomer.id }}
+            documentTypes={['cnic_front', 'cnic_back', 'cheque', 'photo', 'agreement', 'registration']}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">Save the customer first, then edit it to attach CNIC copies and other documents.</p>
+        )}
       </CardContent>
     </Card>
   );
@@ -270,7 +272,7 @@ const CustomerForm: React.FC<CustomerFormProps> = React.memo(({
 
 // Props interface for CustomerDetailsDisplay
 interface CustomerDetailsDisplayProps {
-  customer: Customer;
+  customer: CustomerListItem;
   onClose: () => void;
 }
 
@@ -297,10 +299,6 @@ const CustomerDetailsDisplay: React.FC<CustomerDetailsDisplayProps> = React.memo
           <p className="font-semibold">Phone Number:</p>
           <p>{customer.phone}</p>
         </div>
-        <div className="space-y-1">
-          <p className="font-semibold">Assigned Rickshaw:</p>
-          <p>{customer.assigned_rickshaw || 'N/A'}</p>
-        </div>
         <div className="space-y-1 col-span-2">
           <p className="font-semibold">Address:</p>
           <p>{customer.address}</p>
@@ -343,6 +341,9 @@ const CustomerDetailsDisplay: React.FC<CustomerDetailsDisplayProps> = React.memo
           <p>{customer.agreement_date ? new Date(customer.agreement_date).toLocaleDateString() : 'N/A'}</p>
         </div>
       </div>
+
+      <h3 className="text-md font-semibold border-b pb-1 mt-4 mb-3">Documents</h3>
+      <DocumentManager owner={{ column: 'customer_id', id: customer.id }} />
     </CardContent>
   </Card>
 ));
@@ -353,8 +354,8 @@ const Customers = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [page, setPage] = useState(0);
   // States to control which panel is visible: null (list), 'form' (add/edit), or Customer object (details)
-  const [showCustomerPanel, setShowCustomerPanel] = useState<'form' | Customer | null>(null);
-  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null); // Kept for `CustomerForm` prop clarity
+  const [showCustomerPanel, setShowCustomerPanel] = useState<'form' | CustomerListItem | null>(null);
+  const [editingCustomer, setEditingCustomer] = useState<CustomerListItem | null>(null); // Kept for `CustomerForm` prop clarity
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
   const [formData, setFormData] = useState<CustomerFormData>({
@@ -417,7 +418,6 @@ const Customers = () => {
     queryFn: fetchCustomers,
     placeholderData: (previousData) => previousData,
     staleTime: 5 * 60 * 1000, // 5 minutes
-    keepPreviousData: true,
     retry: 1, // Retry once on failure
     refetchOnWindowFocus: false // Prevent refetching on window focus
   });
@@ -592,15 +592,18 @@ const Customers = () => {
   });
 
   const deleteCustomerMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const { error } = await supabase
-        .from('customers')
-        .delete()
-        .eq('id', id);
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const { error } = await withAuditReason(
+        supabase
+          .from('customers')
+          .delete()
+          .eq('id', id),
+        reason
+      );
 
       if (error) throw new Error(error.message);
     },
-    onSuccess: () => {
+    onSuccess: (_data, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['customers'] });
       // If the deleted customer was the one being viewed, close the details panel
       if (typeof showCustomerPanel !== 'string' && showCustomerPanel?.id === id) {
@@ -639,7 +642,7 @@ const Customers = () => {
   }, [formData, addCustomerMutation]);
 
   // Handler for editing a customer
-  const handleEdit = useCallback((customer: Customer) => {
+  const handleEdit = useCallback((customer: CustomerListItem) => {
     setEditingCustomer(customer); // Set customer to be edited
     setFormData({
       name: customer.name,
@@ -667,13 +670,18 @@ const Customers = () => {
 
   // Handler for deleting a customer
   const handleDelete = useCallback((id: string) => {
-    if (window.confirm('Are you sure you want to delete this customer? This action cannot be undone.')) {
-      deleteCustomerMutation.mutate(id);
+    // The reason is stored with the deletion in the audit log
+    const reason = window.prompt('Are you sure you want to delete this customer? This action cannot be undone.\n\nReason for deletion:');
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast({ title: "Error", description: "A reason is required to delete a customer.", variant: "destructive" });
+      return;
     }
+    deleteCustomerMutation.mutate({ id, reason: reason.trim() });
   }, [deleteCustomerMutation, showCustomerPanel]);
 
   // Handler for viewing customer details
-  const handleViewDetails = useCallback((customer: Customer) => {
+  const handleViewDetails = useCallback((customer: CustomerListItem) => {
     setShowCustomerPanel(customer); // Set the customer object to show details
     setEditingCustomer(null); // Ensure editing state is clear
     resetForm(); // Clear form data just in case
@@ -693,10 +701,12 @@ const Customers = () => {
           <h1 className="text-3xl font-bold">Customer Management</h1>
           {/* Show Add Customer button only when the main list is visible */}
           {showCustomerPanel === null && (
-            <Button onClick={handleAddClick} aria-label="Add customer">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Customer
-            </Button>
+            <RequireRole roles={ROLE_ACCESS.manageCustomers}>
+              <Button onClick={handleAddClick} aria-label="Add customer">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Customer
+              </Button>
+            </RequireRole>
           )}
         </div>
 
@@ -777,7 +787,9 @@ const Customers = () => {
                     ) : (
                       customers.map((customer) => (
                         <TableRow key={customer.id}>
-                          <TableCell className="font-medium">{customer.name}</TableCell>
+                          <TableCell className="font-medium">
+                            <Link to={`/customers/${customer.id}`} className="hover:underline">{customer.name}</Link>
+                          </TableCell>
                           <TableCell>{customer.cnic}</TableCell>
                           <TableCell>{customer.phone}</TableCell>
                           <TableCell className="max-w-xs truncate">{customer.address}</TableCell>
@@ -792,23 +804,32 @@ const Customers = () => {
                               >
                                 <Eye className="h-4 w-4" />
                               </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => handleEdit(customer)}
-                                aria-label={`Edit ${customer.name}`}
-                              >
-                                <Edit className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => handleDelete(customer.id)}
-                                disabled={deleteCustomerMutation.isPending}
-                                aria-label={`Delete ${customer.name}`}
-                              >
-                                <Trash2 className="h-4 w-4" />
+                              <Button variant="outline" size="sm" asChild>
+                                <Link to={`/customers/${customer.id}/statement`} aria-label={`Statement of account for ${customer.name}`}>
+                                  <FileText className="h-4 w-4" />
+                                </Link>
                               </Button>
+                              <RequireRole roles={ROLE_ACCESS.manageCustomers}>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleEdit(customer)}
+                                  aria-label={`Edit ${customer.name}`}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </RequireRole>
+                              <RequireRole roles={ROLE_ACCESS.deleteCustomers}>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleDelete(customer.id)}
+                                  disabled={deleteCustomerMutation.isPending}
+                                  aria-label={`Delete ${customer.name}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </RequireRole>
                             </div>
                           </TableCell>
                         </TableRow>
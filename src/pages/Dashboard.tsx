@@ -8,10 +8,14 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Car, Calendar, DollarSign, Check, ChevronDown, ChevronUp, Printer, Plus, X, Eye, Search, SortAsc, SortDesc, TrendingUp, AlertCircle, Clock, CheckCircle, Users, ShoppingCart, TrendingDown, Loader2, Warehouse } from 'lucide-react';
 import { format, addMonths, isBefore, isAfter, parseISO, startOfMonth, endOfMonth, eachMonthOfInterval, startOfYear, endOfYear, getMonth, getYear, addDays, startOfDay } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { Link } from 'react-router-dom';
+import { computeInstallmentLedger, InstallmentLedger, isCountedPayment } from '@/lib/installmentLedger';
+import type { InstallmentPayment, InstallmentPlan, Rikshaw } from '@/types/domain';
 
 // Error Boundary Component (for robustness)
 class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean; error: Error | null }> {
@@ -48,84 +52,10 @@ class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { has
   }
 }
 
-// Interface definitions for data structures (re-used and updated)
-interface Customer {
-  id: string;
-  name: string;
-  address: string;
-  cnic: string;
-  phone: string;
-  guarantor_name: string | null;
-  guarantor_cnic: string | null;
-  guarantor_phone: string | null;
-  guarantor_address: string | null;
-  bank_name: string | null;
-  cheque_number: string | null;
-}
-
-interface Rikshaw {
-  id: string;
-  manufacturer: string;
-  model_name: string;
-  engine_number: string;
-  chassis_number: string;
-  registration_number: string | null;
-  type: string;
-  availability: 'sold' | 'unsold'; // 'sold', 'unsold'
-  purchase_date: string; // Added purchase_date
-  purchase_price: number; // Added purchase_price
-  sale_price: number | null; // Added sale_price
-}
-
-interface AdvancePayment {
-  amount: number;
-  date: string;
-}
-
-interface InstallmentPlan {
-  id: string;
-  customer_id: string;
-  rikshaw_id: string;
-  total_price: number;
-  advance_paid: number; // Total advance amount collected at sale time (sum of initial advance_payments)
-  advance_payments: AdvancePayment[]; // Array of initial individual advance payments made at sale time
-  monthly_installment: number;
-  duration_months: number;
-  guarantor_name: string | null;
-  guarantor_cnic: string | null;
-  guarantor_phone: string | null;
-  guarantor_address: string | null;
-  bank_name: string | null;
-  cheque_number: string | null;
-  rikshaw_details: {
-    manufacturer: string;
-    model_name: string;
-    engine_number: string;
-    chassis_number: string;
-    registration_number: string | null;
-    type: string;
-  };
-  customers: Customer; // Nested customer details (only name, cnic needed for dashboard)
-  rikshaws: Rikshaw; // Nested rikshaw details (updated to include purchase/sale price for profit)
-  created_at: string; // Sale date
-  agreement_date: string; // Added agreement_date
-  total_paid_monthly_installments?: number | null; // Aggregate of only monthly payments
-}
-
-interface InstallmentPayment {
-  id: string;
-  installment_plan_id: string;
-  payment_date: string; // ISO string 'YYYY-MM-DD'
-  amount_paid: number;
-  received_by: string;
-  payment_type: 'monthly' | 'advance_adjustment';
-  installment_number?: number | null; // New field for monthly installment number
-  created_at: string;
-}
-
 // Dashboard specific interfaces
 interface UpcomingInstallment {
   planId: string;
+  customerId: string;
   customerName: string;
   rikshawDetails: string;
   type: 'monthly' | 'advance';
@@ -137,8 +67,9 @@ interface UpcomingInstallment {
 
 const Dashboard = () => {
   const { toast } = useToast();
+  const { lateFeePolicy: globalLateFeePolicy } = useSettings();
 
-  const today = new Date();
+  const today = useMemo(() => new Date(), []);
   const currentMonthStart = format(startOfMonth(today), 'yyyy-MM-dd');
   const currentMonthEnd = format(endOfMonth(today), 'yyyy-MM-dd');
 
@@ -270,92 +201,39 @@ const Dashboard = () => {
     // Sum of all 'advance_paid' from installment plans (representing the initial total advance for each sale)
     const initialAdvancesCollected = installmentPlans.reduce((sum, plan) => sum + plan.advance_paid, 0);
 
-    // Sum of all recorded payments (monthly and advance adjustments)
-    const recordedPayments = allInstallmentPayments.reduce((sum, payment) => sum + payment.amount_paid, 0);
+    // Sum of all recorded payments (monthly and advance adjustments), ignoring voided ones
+    const recordedPayments = allInstallmentPayments
+      .filter(isCountedPayment)
+      .reduce((sum, payment) => sum + payment.amount_paid, 0);
     
     return initialAdvancesCollected + recordedPayments;
   }, [installmentPlans, allInstallmentPayments]);
 
-  // Function to calculate remaining balance for a single plan (reused from InstallmentPage)
-  const calculateRemainingBalance = useCallback((plan: InstallmentPlan, payments: InstallmentPayment[]) => {
-    const totalAdvanceAdjustmentsCollected = payments.reduce((sum, p) => p.payment_type === 'advance_adjustment' ? sum + p.amount_paid : sum, 0);
-    const totalMonthlyPaymentsReceived = payments.reduce((sum, p) => p.payment_type === 'monthly' ? sum + p.amount_paid : sum, 0);
-    
-    // Overall total paid includes the initial advance_paid from the plan itself (total agreed advance)
-    const overallTotalPaid = plan.advance_paid + totalMonthlyPaymentsReceived + totalAdvanceAdjustmentsCollected;
-    
-    return plan.total_price - overallTotalPaid;
-  }, []);
+  // Ledger (balance, schedule, status) for every plan, keyed by plan id
+  const ledgersByPlan = useMemo(() => {
+    const ledgers: Record<string, InstallmentLedger> = {};
+    if (loadingPlans || loadingAllPayments) return ledgers;
+    installmentPlans.forEach(plan => {
+      ledgers[plan.id] = computeInstallmentLedger(plan, allInstallmentPayments, today, globalLateFeePolicy);
+    });
+    return ledgers;
+  }, [installmentPlans, allInstallmentPayments, loadingPlans, loadingAllPayments, today, globalLateFeePolicy]);
 
-  // Calculate total remaining balance across all plans
+  // Calculate total customer debt remaining across all plans
   const totalRemainingBalance = useMemo(() => {
-    if (loadingPlans || loadingAllPayments) return 0;
-    return installmentPlans.reduce((sum, plan) => {
-      const paymentsForPlan = allInstallmentPayments.filter(p => p.installment_plan_id === plan.id);
-      return sum + calculateRemainingBalance(plan, paymentsForPlan);
-    }, 0);
-  }, [installmentPlans, allInstallmentPayments, loadingPlans, loadingAllPayments, calculateRemainingBalance]);
-
-  // Function to calculate plan status (reused from InstallmentPage)
-  const getPlanStatus = useCallback((plan: InstallmentPlan, allPayments: InstallmentPayment[]) => {
-    const paymentsForPlan = allPayments.filter(p => p.installment_plan_id === plan.id);
-
-    // Use plan.advance_paid directly for total agreed advance
-    const totalAgreedAdvance = plan.advance_paid;
-
-    // Collected Advance: initial advance_paid + subsequent advance adjustments
-    const totalAdvanceAdjustmentsCollected = paymentsForPlan.reduce((sum, p) => p.payment_type === 'advance_adjustment' ? sum + p.amount_paid : sum, 0);
-    const collectedAdvance = totalAgreedAdvance + totalAdvanceAdjustmentsCollected;
-
-    const totalMonthlyPaymentsReceived = paymentsForPlan.reduce((sum, p) => p.payment_type === 'monthly' ? sum + p.amount_paid : sum, 0);
-    const overallTotalPaid = collectedAdvance + totalMonthlyPaymentsReceived;
-
-    if (overallTotalPaid >= plan.total_price) {
-      return 'Completed';
-    }
-
-    // Remaining initial advance due (assuming advance_payments[0] is the primary initial lump sum if multiple were allowed at sale time)
-    // If advance_paid is truly the sum of all initial chunks, then remainingAgreedAdvanceDue would be totalAgreedAdvance - (sum of recorded advance payments up to agreement date)
-    // For simplicity and consistency with previous page's 'SellRickshaw' logic (where 'advance_paid' is the sum of 'advance_payments'),
-    // we'll check if the *initial total advance* has been fully collected by comparing against plan.advance_paid directly.
-    const initialAdvancePaymentsActuallyRecorded = plan.advance_payments.reduce((sum, p) => sum + p.amount, 0);
-    if (initialAdvancePaymentsActuallyRecorded < totalAgreedAdvance) {
-        return 'Advance Pending';
-    }
-
-
-    const agreementDate = parseISO(plan.agreement_date); // Use agreement_date for schedule
-    let installmentsDueCount = 0;
-    for (let i = 1; i <= plan.duration_months; i++) {
-      const dueDate = addMonths(agreementDate, i);
-      if (isBefore(dueDate, today) || format(dueDate, 'yyyy-MM-dd') === format(today, 'yyyy-MM-dd')) {
-        installmentsDueCount++;
-      } else {
-        break;
-      }
-    }
-
-    const expectedMonthlyPaid = installmentsDueCount * plan.monthly_installment;
-
-    if (totalMonthlyPaymentsReceived < expectedMonthlyPaid && installmentsDueCount > 0) {
-      return 'Overdue';
-    } else if (totalMonthlyPaymentsReceived >= expectedMonthlyPaid && installmentsDueCount > 0) {
-      return 'Active';
-    }
-
-    return 'Not Active'; // For plans where no installments are due yet
-  }, [today]);
+    return Object.values(ledgersByPlan).reduce((sum, ledger) => sum + ledger.customerDebt, 0);
+  }, [ledgersByPlan]);
 
   // Calculate overdue and advance pending counts
   const overdueInstallmentsCount = useMemo(() => {
     if (loadingPlans || loadingAllPayments) return 0;
-    return installmentPlans.filter(plan => getPlanStatus(plan, allInstallmentPayments) === 'Overdue').length;
-  }, [installmentPlans, allInstallmentPayments, loadingPlans, loadingAllPayments, getPlanStatus]);
+    return installmentPlans.filter(plan => ledgersByPlan[plan.id]?.status === 'Overdue').length;
+  }, [installmentPlans, ledgersByPlan, loadingPlans, loadingAllPayments]);
 
   const advancePendingCount = useMemo(() => {
     if (loadingPlans || loadingAllPayments) return 0;
-    return installmentPlans.filter(plan => getPlanStatus(plan, allInstallmentPayments) === 'Advance Pending').length;
-  }, [installmentPlans, allInstallmentPayments, loadingPlans, loadingAllPayments, getPlanStatus]);
+    return installmentPlans.filter(plan => ledgersByPlan[plan.id]?.status === 'Advance Pending').length;
+  }, [installmentPlans, ledgersByPlan, loadingPlans, loadingAllPayments]);
 
   // Calculate total investment in purchased rickshaws this month
   const currentMonthInvestment = useMemo(() => {
@@ -389,6 +267,7 @@ const Dashboard = () => {
     if (loadingAllPayments) return 0;
     return allInstallmentPayments
       .filter(payment => {
+        if (!isCountedPayment(payment)) return false;
         const paymentDate = parseISO(payment.payment_date);
         return paymentDate >= parseISO(currentMonthStart) && paymentDate <= parseISO(currentMonthEnd) &&
                ongoingPlans.some(plan => plan.id === payment.installment_plan_id);
@@ -405,72 +284,51 @@ const Dashboard = () => {
     const sevenDaysFromNow = addDays(startOfDay(today), 7); // Include today and next 6 days
 
     installmentPlans.forEach(plan => {
-      const paymentsForPlan = allInstallmentPayments.filter(p => p.installment_plan_id === plan.id);
-
-      // Check for remaining advance due (if any of the initial chunks are still not paid)
-      // This is a simplified check: if plan.advance_paid (the total agreed advance) is not fully covered
-      // by the sum of initial advance_payments array, it's considered pending.
-      const initialAdvancePaymentsActuallyRecorded = plan.advance_payments.reduce((sum, p) => sum + p.amount, 0);
-      const remainingInitialAdvanceToCollect = plan.advance_paid - initialAdvancePaymentsActuallyRecorded;
-      
-      if (remainingInitialAdvanceToCollect > 0) {
-        upcoming.push({
-          planId: plan.id,
-          customerName: plan.customers.name,
-          rikshawDetails: `${plan.rikshaws.model_name} (${plan.rikshaws.registration_number || 'N/A'})`,
-          type: 'advance',
-          amountDue: remainingInitialAdvanceToCollect,
-          dueDate: format(parseISO(plan.agreement_date), 'yyyy-MM-dd'), // Use agreement date as a reference or a more precise future date if available for advance
-          status: 'overdue', // Consider pending initial advance as overdue if not collected on agreement date
-        });
-      }
-
-      // Generate monthly schedule and find upcoming ones
-      const agreementDate = parseISO(plan.agreement_date);
-      const paymentsByInstallment: Record<number, number> = {};
-      paymentsForPlan
-        .filter(p => p.payment_type === 'monthly' && p.installment_number !== null)
-        .forEach(p => {
-          if (p.installment_number) {
-            paymentsByInstallment[p.installment_number] = (paymentsByInstallment[p.installment_number] || 0) + p.amount_paid;
-          }
-        });
-
-      for (let i = 1; i <= plan.duration_months; i++) {
-        const dueDate = addMonths(agreementDate, i);
-        const paidAmount = paymentsByInstallment[i] || 0;
-        const expectedAmount = plan.monthly_installment;
-
-        if (paidAmount < expectedAmount) {
-          const amountRemainingForInstallment = expectedAmount - paidAmount;
-          let status: 'due' | 'overdue' = 'due';
+      const ledger = ledgersByPlan[plan.id];
+      // Defaulted plans are no longer collected installment by installment
+      if (!ledger || plan.defaulted_on) return;
+      const rikshawDetails = `${plan.rikshaws.model_name} (${plan.rikshaws.registration_number || 'N/A'})`;
+
+      // Pending advance chunks that are overdue or due within the window
+      ledger.advanceSchedule.forEach(item => {
+        const dueDate = parseISO(item.due_date);
+        if (item.remaining_amount > 0 && (item.is_overdue || isBefore(dueDate, sevenDaysFromNow))) {
+          upcoming.push({
+            planId: plan.id,
+            customerId: plan.customer_id,
+            customerName: plan.customers.name,
+            rikshawDetails,
+            type: 'advance',
+            amountDue: item.remaining_amount,
+            dueDate: item.due_date,
+            status: item.is_overdue ? 'overdue' : 'due',
+          });
+        }
+      });
 
-          // An installment is overdue if its due date is before today AND there's an amount remaining
-          if (isBefore(dueDate, startOfDay(today)) && amountRemainingForInstallment > 0) {
-            status = 'overdue';
-          }
-          
-          // Only include if it's overdue, or if due date is within the next 7 days (including today)
-          if (status === 'overdue' || (isAfter(dueDate, startOfDay(today)) && isBefore(dueDate, sevenDaysFromNow)) || format(dueDate, 'yyyy-MM-dd') === format(today, 'yyyy-MM-dd')) {
-            upcoming.push({
-              planId: plan.id,
-              customerName: plan.customers.name,
-              rikshawDetails: `${plan.rikshaws.model_name} (${plan.rikshaws.registration_number || 'N/A'})`,
-              type: 'monthly',
-              installmentNumber: i,
-              amountDue: amountRemainingForInstallment,
-              dueDate: format(dueDate, 'yyyy-MM-dd'),
-              status: status,
-            });
-          }
+      // Monthly installments that are overdue or due within the window
+      ledger.schedule.forEach(item => {
+        const dueDate = parseISO(item.due_date);
+        if (item.remaining_amount > 0 && (item.is_overdue || isBefore(dueDate, sevenDaysFromNow))) {
+          upcoming.push({
+            planId: plan.id,
+            customerId: plan.customer_id,
+            customerName: plan.customers.name,
+            rikshawDetails,
+            type: 'monthly',
+            installmentNumber: item.installment_number,
+            amountDue: item.remaining_amount,
+            dueDate: item.due_date,
+            status: item.is_overdue ? 'overdue' : 'due',
+          });
         }
-      }
+      });
     });
 
     upcoming.sort((a, b) => parseISO(a.dueDate).getTime() - parseISO(b.dueDate).getTime());
 
     return upcoming;
-  }, [installmentPlans, allInstallmentPayments, loadingPlans, loadingAllPayments, today]);
+  }, [installmentPlans, ledgersByPlan, loadingPlans, loadingAllPayments, today]);
 
 
   return (
@@ -680,7 +538,9 @@ const Dashboard = () => {
                   <TableBody>
                     {upcomingInstallments.map((item, index) => (
                       <TableRow key={`${item.planId}-${item.type}-${item.installmentNumber || 'advance'}-${index}`}>
-                        <TableCell className="font-medium">{item.customerName}</TableCell>
+                        <TableCell className="font-medium">
+                          <Link to={`/customers/${item.customerId}`} className="hover:underline">{item.customerName}</Link>
+                        </TableCell>
                         <TableCell>{item.rikshawDetails}</TableCell>
                         <TableCell>{item.type === 'monthly' ? 'Monthly' : 'Advance Due'}</TableCell>
                         <TableCell>{item.installmentNumber || '-'}</TableCell>
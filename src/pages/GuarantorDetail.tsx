@@ -0,0 +1,179 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { AlertTriangle, ArrowLeft, Eye, Loader2, ShieldCheck } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { fetchGuarantorExposure } from '@/lib/guarantors';
+import { planLabel } from '@/lib/customerStatement';
+import type { Guarantor } from '@/types/domain';
+
+const GuarantorDetail = () => {
+  const { id: guarantorId } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { settings, lateFeePolicy } = useSettings();
+
+  const { data: guarantor, isLoading: loadingGuarantor, error: guarantorError } = useQuery<Guarantor>({
+    queryKey: ['guarantor', guarantorId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('guarantors').select('*').eq('id', guarantorId).single();
+      if (error) throw error;
+      return data as Guarantor;
+    },
+    enabled: !!guarantorId,
+  });
+
+  const { data: exposureById, isLoading: loadingExposure, error: exposureError } = useQuery({
+    queryKey: ['guarantor-exposure', [guarantorId], lateFeePolicy],
+    queryFn: () => fetchGuarantorExposure([guarantorId], lateFeePolicy),
+    enabled: !!guarantorId,
+  });
+
+  useEffect(() => {
+    const error = guarantorError || exposureError;
+    if (error) {
+      toast({ title: "Error fetching guarantor", description: error.message, variant: "destructive" });
+    }
+  }, [guarantorError, exposureError, toast]);
+
+  if (loadingGuarantor || loadingExposure) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!guarantor) {
+    return (
+      <div className="max-w-7xl mx-auto p-4 space-y-4">
+        <p className="text-muted-foreground">Guarantor not found.</p>
+        <Button variant="outline" asChild>
+          <Link to="/guarantors"><ArrowLeft className="h-4 w-4 mr-2" />Guarantors</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const exposure = exposureById?.[guarantor.id];
+  const plans = [...(exposure?.plans ?? [])].sort((a, b) => b.overdue - a.overdue || b.outstanding - a.outstanding);
+  const limit = settings.guarantor_exposure_limit;
+  const overLimit = limit > 0 && (exposure?.outstanding ?? 0) > limit;
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <ShieldCheck className="h-7 w-7 text-blue-600" />
+            {guarantor.name}
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            CNIC {guarantor.cnic} · {guarantor.phone || 'No phone'} · {guarantor.address || 'No address'}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/guarantors"><ArrowLeft className="h-4 w-4 mr-2" />Guarantors</Link>
+        </Button>
+      </div>
+
+      {overLimit && (
+        <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <AlertTriangle className="h-4 w-4" />
+          Outstanding exposure is above the limit of Rs {limit.toLocaleString()} set in Settings.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Plans Backed', value: (exposure?.plans.length ?? 0).toString() },
+          { label: 'Outstanding', value: `Rs ${(exposure?.outstanding ?? 0).toLocaleString()}` },
+          { label: 'Overdue', value: `Rs ${(exposure?.overdue ?? 0).toLocaleString()}` },
+          { label: 'Plans Overdue', value: (exposure?.overduePlans ?? 0).toString() },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Plans Backed</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <p className="text-muted-foreground">This guarantor does not back any plan.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Rickshaw</TableHead>
+                    <TableHead>Agreement Date</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Outstanding (Rs)</TableHead>
+                    <TableHead className="text-right">Overdue (Rs)</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map(({ plan, ledger, outstanding, overdue }) => (
+                    <TableRow key={plan.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/customers/${plan.customer_id}`} className="hover:underline">{plan.customers?.name ?? 'N/A'}</Link>
+                        <span className="block text-xs text-muted-foreground">{plan.customers?.cnic}</span>
+                      </TableCell>
+                      <TableCell className="text-xs">{planLabel(plan)}</TableCell>
+                      <TableCell>{plan.agreement_date ? format(parseISO(plan.agreement_date), 'dd MMM yyyy') : 'N/A'}</TableCell>
+                      <TableCell>
+                        <span className={cn(
+                          "px-2 py-1 rounded-full text-xs font-medium",
+                          ledger.status === 'Completed' && "bg-green-100 text-green-800",
+                          ledger.status === 'Active' && "bg-blue-100 text-blue-800",
+                          ledger.status === 'Overdue' && "bg-red-100 text-red-800",
+                          ledger.status === 'Defaulted' && "bg-red-700 text-white",
+                          ledger.status === 'Advance Pending' && "bg-yellow-100 text-yellow-800",
+                          ledger.status === 'Not Active' && "bg-gray-100 text-gray-800",
+                        )}>
+                          {ledger.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{outstanding.toLocaleString()}</TableCell>
+                      <TableCell className={cn('text-right', overdue > 0 && 'text-red-600 font-semibold')}>{overdue.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" asChild>
+                          <Link to={`/installments?plan=${plan.id}`} aria-label="View plan"><Eye className="h-4 w-4" /></Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={4} className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-bold">{(exposure?.outstanding ?? 0).toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-bold text-red-600">{(exposure?.overdue ?? 0).toLocaleString()}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GuarantorDetail;
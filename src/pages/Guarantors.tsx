@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Eye, Search, ShieldCheck } from 'lucide-react';
+import type { Guarantor } from '@/types/domain';
+
+type GuarantorRow = Guarantor & { plan_guarantors: { count: number }[] };
+
+const Guarantors = () => {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { data: guarantors = [], isLoading, error } = useQuery<GuarantorRow[]>({
+    queryKey: ['guarantors', searchTerm],
+    queryFn: async () => {
+      let query = supabase
+        .from('guarantors')
+        .select('*, plan_guarantors(count)')
+        .order('name')
+        .limit(100);
+
+      if (searchTerm.trim()) {
+        query = query.or(`cnic.ilike.%${searchTerm.trim()}%,name.ilike.%${searchTerm.trim()}%,phone.ilike.%${searchTerm.trim()}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as GuarantorRow[];
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({ title: "Error fetching guarantors", description: error.message, variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+          <ShieldCheck className="h-7 w-7 text-blue-600" />
+          Guarantors
+        </h1>
+        <p className="text-muted-foreground mt-2">Everyone who has guaranteed a plan, and what they are exposed to.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Search</CardTitle>
+          <CardDescription>Find a guarantor by CNIC, name or phone.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="e.g. 38403-1234567-1"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading guarantors...</div>
+      ) : guarantors.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          {searchTerm ? 'No guarantors found matching your search.' : 'No guarantors recorded yet.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>Name</TableHead>
+                <TableHead>CNIC</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Plans Backed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {guarantors.map(guarantor => (
+                <TableRow key={guarantor.id}>
+                  <TableCell className="font-medium">
+                    <Link to={`/guarantors/${guarantor.id}`} className="hover:underline">{guarantor.name}</Link>
+                  </TableCell>
+                  <TableCell>{guarantor.cnic}</TableCell>
+                  <TableCell>{guarantor.phone || 'N/A'}</TableCell>
+                  <TableCell className="max-w-xs truncate">{guarantor.address || 'N/A'}</TableCell>
+                  <TableCell>{guarantor.plan_guarantors?.[0]?.count ?? 0}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={`/guarantors/${guarantor.id}`} aria-label={`View ${guarantor.name}`}>
+                        <Eye className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Guarantors;
@@ -10,72 +10,31 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { useToast } from '@/hooks/use-toast';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { Car, Calendar, DollarSign, Check, ChevronDown, ChevronUp, Printer, Plus, X, Eye, Search, SortAsc, SortDesc, Edit, Save, Loader2, Trash2 } from 'lucide-react';
-import { format, addMonths, isBefore, parseISO } from 'date-fns';
+import { Car, Calendar, DollarSign, Check, ChevronDown, ChevronUp, Printer, Plus, X, Eye, Search, SortAsc, SortDesc, Edit, Save, Loader2, Ban, Download, Receipt } from 'lucide-react';
+import { format } from 'date-fns';
+import { Link, useSearchParams } from 'react-router-dom';
 import { cn } from '@/lib/utils';
-
-// Interface definitions for data structures
-interface Customer {
-  id: string;
-  name: string;
-  address: string;
-  cnic: string;
-  phone: string;
-  guarantor_name: string;
-  guarantor_cnic: string;
-  guarantor_phone: string;
-  guarantor_address: string;
-  bank_name: string;
-  cheque_number: string;
-}
-
-interface Rikshaw {
-  id: string;
-  manufacturer: string;
-  model_name: string;
-  engine_number: string;
-  chassis_number: string;
-  registration_number: string;
-  type: string;
-  availability: string; // 'sold', 'available'
-}
-
-interface AdvancePayment {
-  amount: number;
-  date: string;
-}
-
-interface InstallmentPlan {
-  id: string;
-  customer_id: string;
-  rikshaw_id: string;
-  total_price: number;
-  advance_paid: number;
-  monthly_installment: number;
-  duration_months: number;
-  remaining_amount: number;
-  start_date: string;
-  created_at: string;
-  updated_at: string;
-  customers?: Customer;
-  rikshaws?: Rikshaw;
-  advance_payments: AdvancePayment[];
-  agreement_date?: string;
-  total_paid_monthly_installments?: number;
-  showroom_commission?: number;
-  is_commission_paid?: boolean;
-}
-
-interface InstallmentPayment {
-  id: string;
-  installment_plan_id: string;
-  payment_date: string; // ISO string 'YYYY-MM-DD'
-  amount_paid: number;
-  received_by: string;
-  payment_type: 'monthly' | 'advance_adjustment' | 'commission' | 'discount'; // 🛑 Added 'discount' type
-  installment_number?: number | null; // New field for monthly installment number
-  created_at: string;
-}
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { computeInstallmentLedger, InstallmentLedger } from '@/lib/installmentLedger';
+import { logReceiptReprint, recordPayment, voidPayment } from '@/lib/payments';
+import { buildBulkReceiptPdf, buildPaymentReceiptPdf, buildPlanStatementPdf, printPdf, receiptNumber, savePdf } from '@/lib/pdf';
+import { withAuditReason } from '@/lib/audit';
+import { ROLE_ACCESS } from '@/lib/roles';
+import RequireRole from '@/components/RequireRole';
+import LateFeePolicyFields from '@/components/installments/LateFeePolicyFields';
+import DocumentManager from '@/components/documents/DocumentManager';
+import PlanCheques from '@/components/cheques/PlanCheques';
+import AgreementActions from '@/components/installments/AgreementActions';
+import ScheduleHistory from '@/components/installments/ScheduleHistory';
+import SettlementCalculator from '@/components/installments/SettlementCalculator';
+import RepossessionPanel from '@/components/installments/RepossessionPanel';
+import RegistrationPanel from '@/components/installments/RegistrationPanel';
+import PlanGuarantorsPanel from '@/components/installments/PlanGuarantorsPanel';
+import { useRole } from '@/hooks/use-role';
+import { useSettings } from '@/hooks/use-settings';
+import { DEFAULT_LATE_FEE_POLICY, describeLateFeePolicy, LateFeePolicy } from '@/lib/lateFees';
+import type { AdvancePayment, InstallmentPayment, InstallmentPlan, PaymentType, ReceiptReprint } from '@/types/domain';
 
 // Main InstallmentPage Component
 const InstallmentPage = () => {
@@ -88,6 +47,17 @@ const InstallmentPage = () => {
   const [sortOrder, setSortOrder] = useState('desc');
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
+  const { lateFeePolicy: globalLateFeePolicy } = useSettings();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Deep link from other pages (e.g. the customer profile): /installments?plan=<id>
+  useEffect(() => {
+    const planParam = searchParams.get('plan');
+    if (planParam) {
+      setSelectedPlanId(planParam);
+      setShowDetailModal(true);
+    }
+  }, [searchParams]);
 
   // Fetch all installment plans with customer and rikshaw details
   const { data: installmentPlans = [], isLoading: loadingPlans, error: plansError } = useQuery<InstallmentPlan[]>({
@@ -97,7 +67,7 @@ const InstallmentPage = () => {
         .from('installment_plans')
         .select(`
           *,
-          customers!inner (name, cnic, phone, address, guarantor_name, guarantor_cnic, guarantor_phone, guarantor_address, bank_name, cheque_number),
+          customers!inner (name, cnic, phone, address, bank_name, cheque_number),
           rikshaws!inner (manufacturer, model_name, registration_number, engine_number, chassis_number, type)
         `)
         .order('created_at', { ascending: false });
@@ -139,56 +109,14 @@ const InstallmentPage = () => {
     }
   }, [allPaymentsError, toast]);
 
-  // Function to calculate plan status
-  const getPlanStatus = useCallback((plan: InstallmentPlan, allPayments: InstallmentPayment[]) => {
-    const paymentsForPlan = allPayments.filter(p => p.installment_plan_id === plan.id);
-
-    // Sum of all initial advance payments (Total Agreed Advance)
-    const totalAgreedAdvance = plan.advance_payments.reduce((sum, p) => sum + p.amount, 0);
-
-    // Collected Advance: initial first advance payment + subsequent advance adjustments
-    const initialFirstAdvance = plan.advance_payments[0]?.amount || 0;
-    const totalAdvanceAdjustmentsCollected = paymentsForPlan.reduce((sum, p) => p.payment_type === 'advance_adjustment' ? sum + p.amount_paid : sum, 0);
-    const collectedAdvance = initialFirstAdvance + totalAdvanceAdjustmentsCollected;
-
-    const totalMonthlyPaymentsReceived = paymentsForPlan.reduce((sum, p) => p.payment_type === 'monthly' ? sum + p.amount_paid : sum, 0);
-    const totalDiscountApplied = paymentsForPlan.reduce((sum, p) => p.payment_type === 'discount' ? sum + p.amount_paid : sum, 0); // 🛑 Added Discount calculation
-
-    // Total payments that count against the customer's debt
-    const totalCustomerPayments = initialFirstAdvance + totalMonthlyPaymentsReceived + totalAdvanceAdjustmentsCollected + totalDiscountApplied; 
-
-
-    if (totalCustomerPayments >= plan.total_price) { // Check against total customer payments
-      return 'Completed';
-    }
-
-    const remainingAgreedAdvanceDue = totalAgreedAdvance - collectedAdvance;
-    if (remainingAgreedAdvanceDue > 0) {
-      return 'Advance Pending';
-    }
-
-    const saleDate = parseISO(plan.created_at);
-    const today = new Date();
-    let installmentsDueCount = 0;
-    for (let i = 1; i <= plan.duration_months; i++) {
-      const dueDate = addMonths(saleDate, i);
-      if (isBefore(dueDate, today) || format(dueDate, 'yyyy-MM-dd') === format(today, 'yyyy-MM-dd')) {
-        installmentsDueCount++;
-      } else {
-        break;
-      }
-    }
-
-    const expectedMonthlyPaid = installmentsDueCount * plan.monthly_installment;
-
-    if (totalMonthlyPaymentsReceived >= expectedMonthlyPaid) {
-      return 'Active';
-    } else if (totalMonthlyPaymentsReceived < expectedMonthlyPaid && installmentsDueCount > 0) {
-      return 'Overdue';
-    }
-
-    return 'Not Active';
-  }, []);
+  // Ledger (balance, schedule, status) for every plan, keyed by plan id
+  const ledgersByPlan = useMemo(() => {
+    const ledgers: Record<string, InstallmentLedger> = {};
+    installmentPlans.forEach(plan => {
+      ledgers[plan.id] = computeInstallmentLedger(plan, allInstallmentPayments, new Date(), globalLateFeePolicy);
+    });
+    return ledgers;
+  }, [installmentPlans, allInstallmentPayments, globalLateFeePolicy]);
 
   // Filter and sort installment plans
   const filteredAndSortedPlans = useMemo(() => {
@@ -231,25 +159,6 @@ const InstallmentPage = () => {
     setShowDetailModal(true);
   };
 
-  const calculateRemainingBalance = useCallback((plan: InstallmentPlan, payments: InstallmentPayment[]) => {
-    const initialFirstAdvance = plan.advance_payments[0]?.amount || 0;
-    const totalMonthlyPaymentsReceived = payments.reduce((sum, p) => p.payment_type === 'monthly' ? sum + p.amount_paid : sum, 0);
-    const totalAdvanceAdjustmentsCollected = payments.reduce((sum, p) => p.payment_type === 'advance_adjustment' ? sum + p.amount_paid : sum, 0);
-    const totalDiscountApplied = payments.reduce((sum, p) => p.payment_type === 'discount' ? sum + p.amount_paid : sum, 0); // 🛑 Added Discount
-
-    const overallCustomerPaid = initialFirstAdvance + totalMonthlyPaymentsReceived + totalAdvanceAdjustmentsCollected + totalDiscountApplied; // Includes discount
-    
-    // Commission Calculation
-    const totalCommissionPaid = payments.reduce((sum, p) => p.payment_type === 'commission' ? sum + p.amount_paid : sum, 0);
-    const totalOutstandingCommission = (plan.showroom_commission || 0) - totalCommissionPaid;
-    
-    const customerDebt = plan.total_price - overallCustomerPaid;
-    
-    // Remaining Balance = Customer Debt + Outstanding Commission
-    return customerDebt + totalOutstandingCommission;
-
-  }, []);
-
   return (
     <div className="space-y-6 max-w-7xl mx-auto p-4">
       <div className="text-center">
@@ -325,7 +234,11 @@ const InstallmentPage = () => {
                 <TableBody>
                   {filteredAndSortedPlans.map((plan) => (
                     <TableRow key={plan.id}>
-                      <TableCell className="font-medium">{plan.customers?.name}</TableCell>
+                      <TableCell className="font-medium">
+                        <Link to={`/customers/${plan.customer_id}`} className="hover:underline">{plan.customers?.name}</Link>
+                        {plan.cheque_bounced_at && <Badge variant="destructive" className="ml-2">Cheque Bounced</Badge>}
+                        {plan.settled_on && <Badge variant="secondary" className="ml-2">Settled Early</Badge>}
+                      </TableCell>
                       <TableCell>
                         {plan.rikshaws?.model_name} ({plan.rikshaws?.registration_number})
                       </TableCell>
@@ -333,18 +246,19 @@ const InstallmentPage = () => {
                       
                       <TableCell>Rs {plan.monthly_installment?.toLocaleString()}</TableCell>
                       <TableCell>
-                        Rs {calculateRemainingBalance(plan, allInstallmentPayments.filter(p => p.installment_plan_id === plan.id))?.toLocaleString()}
+                        Rs {ledgersByPlan[plan.id]?.remainingBalance.toLocaleString()}
                       </TableCell>
                       <TableCell>
                         <span className={cn(
                           "px-2 py-1 rounded-full text-xs font-medium",
-                          getPlanStatus(plan, allInstallmentPayments) === 'Completed' && "bg-green-100 text-green-800",
-                          getPlanStatus(plan, allInstallmentPayments) === 'Active' && "bg-blue-100 text-blue-800",
-                          getPlanStatus(plan, allInstallmentPayments) === 'Overdue' && "bg-red-100 text-red-800",
-                          getPlanStatus(plan, allInstallmentPayments) === 'Advance Pending' && "bg-yellow-100 text-yellow-800",
-                          getPlanStatus(plan, allInstallmentPayments) === 'Not Active' && "bg-gray-100 text-gray-800",
+                          ledgersByPlan[plan.id]?.status === 'Completed' && "bg-green-100 text-green-800",
+                          ledgersByPlan[plan.id]?.status === 'Active' && "bg-blue-100 text-blue-800",
+                          ledgersByPlan[plan.id]?.status === 'Overdue' && "bg-red-100 text-red-800",
+                          ledgersByPlan[plan.id]?.status === 'Defaulted' && "bg-red-700 text-white",
+                          ledgersByPlan[plan.id]?.status === 'Advance Pending' && "bg-yellow-100 text-yellow-800",
+                          ledgersByPlan[plan.id]?.status === 'Not Active' && "bg-gray-100 text-gray-800",
                         )}>
-                          {getPlanStatus(plan, allInstallmentPayments)}
+                          {ledgersByPlan[plan.id]?.status}
                         </span>
                       </TableCell>
                       <TableCell className="text-right">
@@ -374,6 +288,7 @@ const InstallmentPage = () => {
           onClose={() => {
             setShowDetailModal(false);
             setSelectedPlanId(null);
+            if (searchParams.has('plan')) setSearchParams({}, { replace: true });
           }}
         />
       )}
@@ -381,6 +296,14 @@ const InstallmentPage = () => {
   );
 };
 
+// Receipt for the payment(s) produced by the last record_payment call
+interface LastReceipt {
+  kind: 'single' | 'bulk';
+  payments: InstallmentPayment[];
+  remainingBalance: number;
+  duplicate?: boolean; // reprint from the payment history
+}
+
 // Installment Detail Modal Component
 interface InstallmentDetailModalProps {
   planId: string;
@@ -393,32 +316,35 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
   const queryClient = useQueryClient();
 
   const [showRecordPaymentForm, setShowRecordPaymentForm] = useState(false);
-  const [paymentType, setPaymentType] = useState<'monthly' | 'advance_adjustment' | 'commission' | 'discount'>('monthly'); // 🛑 Updated type
+  const [paymentType, setPaymentType] = useState<PaymentType>('monthly'); // 🛑 Updated type
   const [amountPaid, setAmountPaid] = useState<number>(0);
   const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
   const [receivedBy, setReceivedBy] = useState('');
   const [installmentNumber, setInstallmentNumber] = useState<number | null>(null);
+  const [waiverReason, setWaiverReason] = useState(''); // Required for penalty waivers
   const [isRecordingPayment, setIsRecordingPayment] = useState(false);
+  const [lastReceipt, setLastReceipt] = useState<LastReceipt | null>(null); // Kept for reprint / download after recording
+  const { hasRole } = useRole();
+  const { settings, lateFeePolicy: globalLateFeePolicy } = useSettings();
 
   // State for editing payments
   const [editingPayment, setEditingPayment] = useState<InstallmentPayment | null>(null);
   const [showEditPaymentModal, setShowEditPaymentModal] = useState(false);
-  const [editedAmountPaid, setEditedAmountPaid] = useState<number>(0);
-  const [editedPaymentDate, setEditedPaymentDate] = useState('');
   const [editedReceivedBy, setEditedReceivedBy] = useState('');
-  const [editedPaymentType, setEditedPaymentType] = useState<'monthly' | 'advance_adjustment' | 'commission' | 'discount'>('monthly'); // 🛑 Updated type
-  const [editedInstallmentNumber, setEditedInstallmentNumber] = useState<number | null>(null);
+  const [editedRemarks, setEditedRemarks] = useState('');
+  const [editPaymentReason, setEditPaymentReason] = useState(''); // Stored in the audit log
 
   // State for delete confirmation
-  const [paymentToDelete, setPaymentToDelete] = useState<InstallmentPayment | null>(null);
+  const [paymentToVoid, setPaymentToVoid] = useState<InstallmentPayment | null>(null);
+  const [voidPaymentReason, setVoidPaymentReason] = useState(''); // Stored on the voided payment and in the audit log
 
   // State for editing plan details
   const [isEditingPlan, setIsEditingPlan] = useState(false);
   const [editedTotalPrice, setEditedTotalPrice] = useState<number>(0);
   const [editedAdvanceAgreed, setEditedAdvanceAgreed] = useState<number>(0); // This is plan.advance_payments[0].amount
-  const [editedMonthlyInstallment, setEditedMonthlyInstallment] = useState<number>(0);
-  const [editedDurationMonths, setEditedDurationMonths] = useState<number>(0);
   const [editedShowroomCommission, setEditedShowroomCommission] = useState<number>(0);
+  const [editedLateFeePolicy, setEditedLateFeePolicy] = useState<LateFeePolicy | null>(null); // null = global policy
+  const [planEditReason, setPlanEditReason] = useState(''); // Stored in the audit log
 
 
   // Fetch specific installment plan details
@@ -429,7 +355,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
         .from('installment_plans')
         .select(`
           *,
-          customers!inner (name, cnic, phone, address, guarantor_name, guarantor_cnic, guarantor_phone, guarantor_address, bank_name, cheque_number),
+          customers!inner (name, cnic, phone, address, bank_name, cheque_number),
           rikshaws!inner (manufacturer, model_name, registration_number, engine_number, chassis_number, type)
         `)
         .eq('id', planId)
@@ -455,6 +381,21 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
     enabled: isOpen && !!planId,
   });
 
+  // Receipt reprints for this plan, newest first
+  const { data: receiptReprints = [] } = useQuery<ReceiptReprint[]>({
+    queryKey: ['receipt-reprints', planId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('receipt_reprints')
+        .select('*')
+        .eq('installment_plan_id', planId)
+        .order('reprinted_at', { ascending: false });
+      if (error) throw error;
+      return data as ReceiptReprint[];
+    },
+    enabled: isOpen && !!planId,
+  });
+
   // Handle errors
   useEffect(() => {
     if (planDetailsError) {
@@ -481,126 +422,26 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
     if (planDetails) {
       setEditedTotalPrice(planDetails.total_price);
       setEditedAdvanceAgreed(planDetails.advance_payments[0]?.amount || 0); // Use the first advance payment as 'agreed'
-      setEditedMonthlyInstallment(planDetails.monthly_installment);
-      setEditedDurationMonths(planDetails.duration_months);
       setEditedShowroomCommission(planDetails.showroom_commission || 0);
+      setEditedLateFeePolicy(planDetails.late_fee_policy);
     }
   }, [planDetails]);
 
 
-  // Calculate total agreed advance payments (sum of all initial advance payments)
-  const totalAgreedAdvance = useMemo(() => {
-    if (!planDetails || !planDetails.advance_payments) return 0;
-    return planDetails.advance_payments.reduce((sum, p) => sum + p.amount, 0);
-  }, [planDetails]);
-
-  // Calculate collected advance: initial first advance payment + subsequent advance adjustments
-  const collectedAdvance = useMemo(() => {
-    if (!planDetails) return 0;
-    const initialFirstAdvance = planDetails.advance_payments[0]?.amount || 0;
-    const totalAdvanceAdjustmentsCollected = installmentPayments.reduce((sum, p) => p.payment_type === 'advance_adjustment' ? sum + p.amount_paid : sum, 0);
-    return initialFirstAdvance + totalAdvanceAdjustmentsCollected;
-  }, [planDetails, installmentPayments]);
-
-  const remainingAgreedAdvanceDue = useMemo(() => {
-    return totalAgreedAdvance - collectedAdvance;
-  }, [totalAgreedAdvance, collectedAdvance]);
-
-
-  const totalMonthlyPaymentsReceived = useMemo(() => {
-    return installmentPayments.reduce((sum, p) => p.payment_type === 'monthly' ? sum + p.amount_paid : sum, 0);
-  }, [installmentPayments]);
-
-  const totalDiscountApplied = useMemo(() => {
-    // 🛑 New Memo: Calculate total discount applied
-    return installmentPayments.reduce((sum, p) => p.payment_type === 'discount' ? sum + p.amount_paid : sum, 0);
-  }, [installmentPayments]);
-  
-  const totalCommissionPaid = useMemo(() => {
-    // 🛑 COMMISSION: Calculated total commission paid for display purposes only
-    return installmentPayments.reduce((sum, p) => p.payment_type === 'commission' ? sum + p.amount_paid : sum, 0);
-  }, [installmentPayments]);
-
-  const overallCustomerPaid = useMemo(() => {
-    // 🛑 LOGIC FIX: Include discount payments in the customer's total paid
-    return collectedAdvance + totalMonthlyPaymentsReceived + totalDiscountApplied;
-  }, [collectedAdvance, totalMonthlyPaymentsReceived, totalDiscountApplied]);
-
-  // 🛑 New Memo: Calculate total outstanding commission (Commission Owed - Commission Paid)
-  const totalOutstandingCommission = useMemo(() => {
-    if (!planDetails) return 0;
-    return (planDetails.showroom_commission || 0) - totalCommissionPaid;
-  }, [planDetails, totalCommissionPaid]);
-
-  const remainingBalanceOnPlan = useMemo(() => {
-    if (!planDetails) return 0;
-    // 🛑 MODIFIED LOGIC (User Request in prior step): Remaining balance is the Customer Debt (Total Price - Customer Paid) PLUS the Outstanding Showroom Commission.
-    const customerDebt = planDetails.total_price - overallCustomerPaid;
-    return customerDebt + totalOutstandingCommission;
-  }, [planDetails, overallCustomerPaid, totalOutstandingCommission]);
-
-  // Generate monthly installment schedule with payment status
-  const monthlySchedule = useMemo(() => {
-    if (!planDetails) return [];
-    const schedule = [];
-    // Use agreement_date instead of created_at for saleDate
-    const saleDate = parseISO(planDetails.agreement_date);
-    const duration = planDetails.duration_months;
-    const monthlyAmount = planDetails.monthly_installment;
-    const initialAdvance = collectedAdvance; 
-    const totalDiscount = totalDiscountApplied;
-
-    // 1. Total Customer Debt that the monthly installments MUST cover.
-    const totalMonthlyTarget = Math.max(0, planDetails.total_price - initialAdvance - totalDiscount);
-    
-    // Create a map of payments by installment number
-    const paymentsByInstallment: Record<number, number> = {};
-    installmentPayments
-      .filter(p => p.payment_type === 'monthly' && p.installment_number !== null)
-      .forEach(p => {
-        if (p.installment_number) {
-          paymentsByInstallment[p.installment_number] = (paymentsByInstallment[p.installment_number] || 0) + p.amount_paid;
-        }
-      });
-
-    for (let i = 1; i <= duration; i++) {
-      const dueDate = addMonths(saleDate, i);
-      const paidAmount = paymentsByInstallment[i] || 0;
-      let expected_amount = monthlyAmount;
-      
-      // 🛑 MODIFIED LOGIC (User Request): Make the last installment absorb the final remaining customer debt.
-      if (i === duration) {
-        // Sum of standard monthly amounts for the first (N-1) installments
-        const standardExpectedForPreviousMonths = (duration - 1) * monthlyAmount;
-        
-        // Remaining amount that the last installment must cover
-        const remainingDebtToClear = totalMonthlyTarget - standardExpectedForPreviousMonths;
-
-        // The expected amount for the last installment is this remaining amount, 
-        // ensuring it's not negative (e.g., if totalMonthlyTarget was 0 due to an early full advance/discount).
-        expected_amount = Math.max(0, remainingDebtToClear);
-        
-        // Round to avoid display issues with fractional currency units
-        expected_amount = Math.round(expected_amount);
+  // Balance, advance position and monthly schedule for this plan
+  const ledger = useMemo(() => {
+    if (!planDetails) return null;
+    return computeInstallmentLedger(planDetails, installmentPayments, new Date(), globalLateFeePolicy);
+  }, [planDetails, installmentPayments, globalLateFeePolicy]);
 
-      } else {
-        // For all installments before the last one, use the standard monthly amount.
-        expected_amount = monthlyAmount;
-      }
-      
-      const isPaid = paidAmount >= expected_amount;
-      const isPartiallyPaid = paidAmount > 0 && paidAmount < expected_amount;
-
-      schedule.push({
-        installment_number: i,
-        due_date: format(dueDate, 'yyyy-MM-dd'),
-        expected_amount: expected_amount, 
-        paid_amount: paidAmount,
-        status: isPaid ? 'Paid' : isPartiallyPaid ? 'Partially Paid' : 'Unpaid'
-      });
-    }
-    return schedule;
-  }, [planDetails, installmentPayments, collectedAdvance, totalDiscountApplied]); 
+  const totalAgreedAdvance = ledger?.totalAgreedAdvance ?? 0;
+  const collectedAdvance = ledger?.collectedAdvance ?? 0;
+  const remainingAgreedAdvanceDue = ledger?.remainingAdvance ?? 0;
+  const totalCommissionPaid = ledger?.commissionPaid ?? 0;
+  const remainingBalanceOnPlan = ledger?.remainingBalance ?? 0;
+  const monthlySchedule = useMemo(() => ledger?.schedule ?? [], [ledger]);
+  const penaltySchedule = useMemo(() => ledger?.penaltySchedule ?? [], [ledger]);
+  const outstandingPenalty = ledger?.outstandingPenalty ?? 0;
 
   // 🛑 New Memo: Combine regular payments and the first advance payment for the history table
   const combinedPaymentHistory = useMemo(() => {
@@ -620,6 +461,16 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
               payment_type: 'advance_adjustment' as const, // Treat as an advance adjustment payment type
               installment_number: null,
               created_at: planDetails.created_at,
+              voided_at: null,
+              voided_by: null,
+              voided_by_email: null,
+              void_reason: null,
+              reversal_of: null,
+              remarks: null,
+              receipt_year: null,
+              receipt_seq: null,
+              receipt_number: null,
+              schedule_version: 1,
           }];
       }
       
@@ -645,7 +496,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
   const availableInstallments = useMemo(() => {
     if (!planDetails) return [];
     return monthlySchedule.filter(
-      item => item.status !== 'Paid' && item.expected_amount > item.paid_amount
+      item => item.status !== 'Paid' && item.remaining_amount > 0
     ).map(item => item.installment_number);
   }, [monthlySchedule, planDetails]);
 
@@ -657,111 +508,23 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
     }
   }, [availableInstallments, installmentNumber]);
 
-  // Function to generate and print a payment receipt
-  const generatePaymentReceipt = useCallback((payment: InstallmentPayment, finalRemainingBalance: number) => {
-    if (!planDetails) {
-      toast({ title: "Error", description: "Plan details not available for receipt.", variant: "destructive" });
-      return;
+  // Builds the receipt PDF for the last recorded payment (bulk receipt for monthly payments)
+  const buildReceiptPdf = useCallback(async (receipt: LastReceipt) => {
+    if (!planDetails) throw new Error('Plan details not available for receipt.');
+    return receipt.kind === 'bulk'
+      ? buildBulkReceiptPdf({ settings, plan: planDetails, payments: receipt.payments, remainingBalance: receipt.remainingBalance, duplicate: receipt.duplicate })
+      : buildPaymentReceiptPdf({ settings, plan: planDetails, payment: receipt.payments[0], remainingBalance: receipt.remainingBalance, duplicate: receipt.duplicate });
+  }, [planDetails, settings]);
+
+  const outputReceipt = useCallback(async (receipt: LastReceipt, action: 'print' | 'save') => {
+    try {
+      const doc = await buildReceiptPdf(receipt);
+      if (action === 'print') printPdf(doc);
+      else savePdf(doc, `receipt-${receiptNumber(receipt.payments[0])}`);
+    } catch (error) {
+      toast({ title: "Receipt Error", description: (error as Error).message, variant: "destructive" });
     }
-
-    const getPaymentTypeName = (type: 'monthly' | 'advance_adjustment' | 'commission' | 'discount') => {
-      switch (type) {
-        case 'monthly':
-          return 'Monthly Installment';
-        case 'advance_adjustment':
-          // Check if this is the initial payment being rendered
-          if (payment.id.startsWith('initial-')) {
-            return 'Initial Advance Payment';
-          }
-          return 'Advance Adjustment';
-        case 'commission':
-          return 'Showroom Commission';
-        case 'discount': // 🛑 Added 'discount' case
-          return 'Discount / Early Payoff';
-        default:
-          return 'Payment';
-      }
-    };
-
-    const receiptContent = `
-      <div style="font-family: 'Inter', sans-serif; padding: 10px; width: 100%; box-sizing: border-box; font-size: 10px; line-height: 1.4;">
-        <style>
-          @media print {
-            body { margin: 0; padding: 0; }
-            .receipt-container {
-              width: 100%; /* Take full width of the print area */
-              height: 148.5mm; /* Approximately 1/2 A4 height (297mm / 2) */
-              margin: 0;
-              padding: 10px;
-              box-sizing: border-box;
-              border: 1px solid #ccc; /* Optional: for visual separation */
-            }
-            .no-print { display: none; }
-          }
-        </style>
-        <div class="receipt-container">
-          <div style="text-align: center; border-bottom: 2px solid #333; padding-bottom: 5px; margin-bottom: 10px;">
-            <h2 style="margin: 0; font-size: 14px; color: #333;">AL-HAMD TRADERS</h2>
-            <p style="margin: 0; font-size: 8px; color: #666;">Railway Road Chowk Shamah, Sargodha</p>
-          </div>
-          <p style="text-align: center; font-weight: bold; margin-bottom: 10px; font-size: 11px;">PAYMENT RECEIPT</p>
-          <p style="margin-bottom: 5px;"><strong>Date:</strong> ${new Date(payment.payment_date).toLocaleDateString()}</p>
-          <p style="margin-bottom: 10px;"><strong>Receipt No:</strong> ${payment.id.substring(0, 8).toUpperCase()}</p>
-
-          <div style="margin-bottom: 10px; border: 1px dashed #ccc; padding: 5px;">
-            <p style="margin: 0; font-weight: bold;">Customer Details:</p>
-            <p style="margin: 0;"><strong>Name:</strong> ${planDetails.customers?.name}</p>
-            <p style="margin: 0;"><strong>Phone:</strong> ${planDetails.customers?.phone}</p>
-          </div>
-
-          <div style="margin-bottom: 10px; border: 1px dashed #ccc; padding: 5px;">
-            <p style="margin: 0; font-weight: bold;">Rickshaw Details:</p>
-            <p style="margin: 0;"><strong>Manufacturer:</strong> ${planDetails.rikshaws?.manufacturer}</p>
-            <p style="margin: 0;"><strong>Reg No:</strong> ${planDetails.rikshaws?.registration_number}</p>
-            <p style="margin: 0;"><strong>Engine No:</strong> ${planDetails.rikshaws?.engine_number}</p>
-          </div>
-
-          <div style="margin-bottom: 10px;">
-            <p style="margin: 0;"><strong>Payment Type:</strong> ${getPaymentTypeName(payment.payment_type)}</p>
-            ${payment.payment_type === 'monthly' && payment.installment_number ? `<p style="margin: 0;"><strong>Installment #:</strong> ${payment.installment_number}</p>` : ''}
-          </div>
-
-          <div style="margin-bottom: 10px; font-size: 12px; font-weight: bold; text-align: center; padding: 5px; background-color: #e0ffe0; border-radius: 3px;">
-            <p style="margin: 0;">Amount Received: Rs ${payment.amount_paid.toLocaleString()}</p>
-          </div>
-
-          <div style="margin-bottom: 10px; text-align: center; border-top: 1px solid #eee; padding-top: 5px;">
-            <p style="margin: 0;"><strong>Remaining Balance:</strong> Rs ${finalRemainingBalance.toLocaleString()}</p>
-          </div>
-
-          <p style="margin: 0; text-align: right; font-size: 9px;">Received By: ${payment.received_by}</p>
-          <p style="margin: 0; text-align: center; font-size: 8px; margin-top: 10px;">Thank You!</p>
-        </div>
-      </div>
-    `;
-
-    const printWindow = window.open('', '_blank'); // Open in new tab
-    if (printWindow) {
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>Payment Receipt</title>
-            <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700&display=swap" rel="stylesheet">
-            <style>
-              body { font-family: 'Inter', sans-serif; margin: 0; padding: 0; }
-              @page { size: A4; margin: 0; } /* Set page size to A4 and remove margins */
-            </style>
-          </head>
-          <body>
-            ${receiptContent}
-          </body>
-        </html>
-      `);
-      printWindow.document.close();
-      printWindow.focus();
-      printWindow.print(); // Trigger print dialog
-    }
-  }, [planDetails, toast]);
+  }, [buildReceiptPdf, toast]);
 
 
   // Mutation to record a new payment
@@ -771,140 +534,33 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
       payment_date: string;
       amount_paid: number;
       received_by: string;
-      payment_type: 'monthly' | 'advance_adjustment' | 'commission' | 'discount'; // 🛑 Updated type
+      payment_type: PaymentType; // 🛑 Updated type
       installment_number?: number | null;
+      remarks?: string;
     }) => {
       setIsRecordingPayment(true);
 
-      // If monthly payment with an installment number, allocate across current and future installments
-      if (newPayment.payment_type === 'monthly' && newPayment.installment_number) {
-        // Build allocations by using the computed monthly schedule (expected vs paid)
-        let remaining = newPayment.amount_paid;
-        const rows: {
-          installment_plan_id: string;
-          payment_date: string;
-          amount_paid: number;
-          received_by: string;
-          payment_type: 'monthly';
-          installment_number: number;
-        }[] = [];
-
-        for (const item of monthlySchedule) {
-          // REMOVED: if (item.installment_number < newPayment.installment_number) continue;
-          // User Request: Always fill the earliest unpaid/partial installments first (waterfall),
-          // regardless of the manually entered installment number.
-          
-          if (remaining <= 0) break;
-
-          const dueForThisInstallment = Math.max(0, item.expected_amount - item.paid_amount);
-          if (dueForThisInstallment <= 0) continue; // skip fully paid
-
-          const payNow = Math.min(remaining, dueForThisInstallment);
-          rows.push({
-            installment_plan_id: newPayment.installment_plan_id,
-            payment_date: newPayment.payment_date,
-            amount_paid: payNow,
-            received_by: newPayment.received_by,
-            payment_type: 'monthly',
-            installment_number: item.installment_number,
-          });
-          remaining -= payNow;
-        }
-
-        // Insert allocated monthly rows if any
-        let insertedRows: any[] = [];
-        if (rows.length > 0) {
-          const { data, error } = await supabase
-            .from('installment_payments')
-            .insert(rows)
-            .select();
-          if (error) throw error;
-          insertedRows = data as any[];
-
-          // Update total_paid_monthly_installments by the sum allocated
-          const totalAllocated = rows.reduce((sum, r) => sum + r.amount_paid, 0);
-          const { data: currentPlan, error: fetchPlanError } = await supabase
-            .from('installment_plans')
-            .select('total_paid_monthly_installments')
-            .eq('id', planId)
-            .single();
-          if (!fetchPlanError) {
-            const updatedTotalPaidMonthly = (currentPlan?.total_paid_monthly_installments || 0) + totalAllocated;
-            await supabase
-              .from('installment_plans')
-              .update({ total_paid_monthly_installments: updatedTotalPaidMonthly })
-              .eq('id', planId);
-          }
-        }
-
-        // Auto-apply leftover as advance adjustment if an advance is pending
-        if (remaining > 0 && remainingAgreedAdvanceDue > 0) {
-          const advanceApplied = Math.min(remaining, remainingAgreedAdvanceDue);
-          const advanceRow = {
-            installment_plan_id: newPayment.installment_plan_id,
-            payment_date: newPayment.payment_date,
-            amount_paid: advanceApplied,
-            received_by: newPayment.received_by,
-            payment_type: 'advance_adjustment' as const,
-            installment_number: null,
-          };
-          const { data: advanceData, error: advanceErr } = await supabase
-            .from('installment_payments')
-            .insert([advanceRow])
-            .select();
-          if (advanceErr) throw advanceErr;
-
-          insertedRows = [...insertedRows, ...(Array.isArray(advanceData) ? advanceData : [])];
-        }
-
-        if (insertedRows.length > 0) {
-          return insertedRows; // array of inserted payments (monthly + optional advance adjustment)
-        }
-      }
-
-      // Default single-row insert (advance_adjustment, commission, discount, or simple monthly)
-      const { data, error } = await supabase
-        .from('installment_payments')
-        .insert([newPayment])
-        .select()
-        .single();
-      if (error) throw error;
-
-      // COMMISSION LOGIC: If commission is paid, update the flag on the plan
-      if (newPayment.payment_type === 'commission') {
-        await supabase
-          .from('installment_plans')
-          .update({ is_commission_paid: true })
-          .eq('id', planId);
-      }
-
-      // Update total_paid_monthly_installments if it's a monthly payment
-      if (newPayment.payment_type === 'monthly') {
-        const { data: currentPlan, error: fetchPlanError } = await supabase
-          .from('installment_plans')
-          .select('total_paid_monthly_installments')
-          .eq('id', planId)
-          .single();
-
-        if (!fetchPlanError) {
-          const updatedTotalPaidMonthly = (currentPlan?.total_paid_monthly_installments || 0) + newPayment.amount_paid;
-          await supabase
-            .from('installment_plans')
-            .update({ total_paid_monthly_installments: updatedTotalPaidMonthly })
-            .eq('id', planId);
-        }
-      }
-
-      return data; // single payment
+      // Allocation (monthly waterfall, leftover to pending advance), inserts and plan aggregates
+      // all happen server-side in one transaction, so concurrent cashiers cannot lose updates.
+      return recordPayment({
+        planId: newPayment.installment_plan_id,
+        amount: newPayment.amount_paid,
+        paymentType: newPayment.payment_type,
+        receivedBy: newPayment.received_by,
+        paymentDate: newPayment.payment_date,
+        remarks: newPayment.remarks,
+      });
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data: InstallmentPayment[], newPayment) => {
       // Invalidate queries to trigger re-fetch and UI update
       queryClient.invalidateQueries({ queryKey: ['installment-payments', planId] });
       queryClient.invalidateQueries({ queryKey: ['installment-plan-details', planId] });
       queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
       queryClient.invalidateQueries({ queryKey: ['all-installment-payments'] });
+      // Completing the plan returns its held security cheques (database trigger)
+      queryClient.invalidateQueries({ queryKey: ['plan-cheques', planId] });
 
-      if (Array.isArray(data)) {
+      if (newPayment.payment_type === 'monthly') {
         const totalPaid = data.reduce((sum: number, p: InstallmentPayment) => sum + p.amount_paid, 0);
         const coveredInstallments = data
           .filter((p: InstallmentPayment) => p.payment_type === 'monthly' && p.installment_number)
@@ -923,83 +579,28 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
         });
 
         // Print a combined bulk receipt (including any advance adjustment)
-        if (planDetails) {
-          const receiptHtml = `
-            <div style="font-family: 'Inter', sans-serif; padding: 10px; width: 100%; box-sizing: border-box; font-size: 10px; line-height: 1.4;">
-              <style>
-                @media print {
-                  body { margin: 0; padding: 0; }
-                  .receipt-container { width: 100%; height: 148.5mm; margin: 0; padding: 10px; box-sizing: border-box; border: 1px solid #ccc; }
-                  .no-print { display: none; }
-                }
-                table { width: 100%; border-collapse: collapse; }
-                th, td { border: 1px solid #ddd; padding: 4px; text-align: left; font-size: 9px; }
-              </style>
-              <div class="receipt-container">
-                <div style="text-align: center; border-bottom: 2px solid #333; padding-bottom: 5px; margin-bottom: 10px;">
-                  <h2 style="margin: 0; font-size: 14px; color: #333;">AL-HAMD TRADERS</h2>
-                  <p style="margin: 0; font-size: 8px; color: #666;">Railway Road Chowk Shamah, Sargodha</p>
-                </div>
-                <p style="text-align: center; font-weight: bold; margin-bottom: 10px; font-size: 11px;">BULK MONTHLY PAYMENT RECEIPT</p>
-                <p style="margin-bottom: 5px;"><strong>Date:</strong> ${new Date(data[0].payment_date).toLocaleDateString()}</p>
-
-                <div style="margin-bottom: 10px; border: 1px dashed #ccc; padding: 5px;">
-                  <p style="margin: 0; font-weight: bold;">Customer Details:</p>
-                  <p style="margin: 0;"><strong>Name:</strong> ${planDetails.customers?.name}</p>
-                  <p style="margin: 0;"><strong>Phone:</strong> ${planDetails.customers?.phone}</p>
-                </div>
-
-                <div style="margin-bottom: 10px; border: 1px dashed #ccc; padding: 5px;">
-                  <p style="margin: 0; font-weight: bold;">Rickshaw Details:</p>
-                  <p style="margin: 0;"><strong>Manufacturer:</strong> ${planDetails.rikshaws?.manufacturer}</p>
-                  <p style="margin: 0;"><strong>Reg No:</strong> ${planDetails.rikshaws?.registration_number}</p>
-                  <p style="margin: 0;"><strong>Engine No:</strong> ${planDetails.rikshaws?.engine_number}</p>
-                </div>
-
-                <div style="margin-bottom: 10px; border: 1px dashed #ccc; padding: 5px;">
-                  <p style="margin: 0; font-weight: bold;">Payment Details:</p>
-                  <p style="margin: 0;"><strong>Total Paid:</strong> Rs ${totalPaid.toLocaleString()}</p>
-                  <p style="margin: 0;"><strong>Applied Installments:</strong> #${coveredInstallments.join(', ')}</p>
-                </div>
-
-                <table>
-                  <thead>
-                    <tr>
-                      <th>Type</th>
-                      <th>Installment #</th>
-                      <th>Amount Applied (Rs)</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    ${data.map((p: InstallmentPayment) => `<tr><td>${p.payment_type === 'monthly' ? 'Monthly' : 'Advance Adjustment'}</td><td>${p.installment_number ?? '-'}</td><td>${p.amount_paid.toLocaleString()}</td></tr>`).join('')}
-                  </tbody>
-                </table>
-
-                <div style="margin-top: 10px; border-top: 1px solid #eee; padding-top: 6px; font-size: 9px;">
-                  <p style="margin: 0;">Received By: ${data[0].received_by}</p>
-                </div>
-              </div>
-            </div>
-          `;
-          const printWindow = window.open('', '_blank');
-          if (printWindow) {
-            printWindow.document.write(receiptHtml);
-            printWindow.document.close();
-            printWindow.print();
-          }
-        }
+        const receipt: LastReceipt = { kind: 'bulk', payments: data, remainingBalance: remainingBalanceOnPlan - totalPaid };
+        setLastReceipt(receipt);
+        outputReceipt(receipt, 'print');
 
         // Update remaining balance contextually (no single-payment receipt used here)
+      } else if (newPayment.payment_type === 'penalty_waiver') {
+        // Nothing was received, so there is no receipt to print
+        toast({
+          title: 'Late Fee Waived',
+          description: `Rs ${amountPaid.toLocaleString()} of late fees waived.`,
+        });
       } else {
-        const payment: InstallmentPayment = data as InstallmentPayment;
+        const payment: InstallmentPayment = data[0];
         toast({
           title: 'Payment Recorded!',
           description: `Rs ${amountPaid.toLocaleString()} received for ${payment.payment_type.replace('_', ' ')}.`,
         });
 
         // Calculate the remaining balance for the receipt immediately after the new payment.
-        const newRemainingBalanceForReceipt = remainingBalanceOnPlan - payment.amount_paid;
-        generatePaymentReceipt(payment, newRemainingBalanceForReceipt);
+        const receipt: LastReceipt = { kind: 'single', payments: [payment], remainingBalance: remainingBalanceOnPlan - payment.amount_paid };
+        setLastReceipt(receipt);
+        outputReceipt(receipt, 'print');
       }
 
       setShowRecordPaymentForm(false);
@@ -1007,6 +608,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
       setReceivedBy('');
       setPaymentDate(new Date().toISOString().split('T')[0]);
       setInstallmentNumber(null);
+      setWaiverReason('');
     },
     onError: (error: any) => {
       toast({
@@ -1018,34 +620,24 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
     onSettled: () => setIsRecordingPayment(false)
   });
 
-  // Mutation to update an existing payment
+  // Mutation to correct who received a payment and its remarks. The amount, type, installment
+  // and date are fixed once recorded (the database refuses changes): a wrong payment is voided
+  // and recorded again.
   const updatePaymentMutation = useMutation({
-    mutationFn: async (updatedPayment: InstallmentPayment) => {
-      const { data, error } = await supabase
-        .from('installment_payments')
-        .update({
-          payment_date: updatedPayment.payment_date,
-          amount_paid: updatedPayment.amount_paid,
-          received_by: updatedPayment.received_by,
-          payment_type: updatedPayment.payment_type,
-          installment_number: updatedPayment.installment_number
-        })
-        .eq('id', updatedPayment.id)
-        .select()
-        .single();
+    mutationFn: async ({ payment: updatedPayment, reason }: { payment: InstallmentPayment; reason: string }) => {
+      const { data, error } = await withAuditReason(
+        supabase
+          .from('installment_payments')
+          .update({
+            received_by: updatedPayment.received_by,
+            remarks: updatedPayment.remarks
+          })
+          .eq('id', updatedPayment.id)
+          .select()
+          .single(),
+        reason
+      );
       if (error) throw error;
-
-      // COMMISSION LOGIC for update: If updating an old payment to 'commission'
-      if (updatedPayment.payment_type === 'commission') {
-         await supabase
-            .from('installment_plans')
-            .update({ is_commission_paid: true })
-            .eq('id', planId);
-      }
-      // Note: Reverting a commission payment to non-commission status would require
-      // complex logic to reset the flag, which is omitted for simplicity but is a business consideration.
-
-
       return data;
     },
     onSuccess: () => {
@@ -1059,6 +651,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
       });
       setShowEditPaymentModal(false);
       setEditingPayment(null);
+      setEditPaymentReason('');
     },
     onError: (error: any) => {
       toast({
@@ -1069,28 +662,60 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
     }
   });
 
-  // Mutation to delete a payment
-  const deletePaymentMutation = useMutation({
-    mutationFn: async (paymentId: string) => {
-      const { error } = await supabase
-        .from('installment_payments')
-        .delete()
-        .eq('id', paymentId);
-      if (error) throw error;
+  // Mutation to void a payment. Payments are never deleted: the row is marked voided and a
+  // reversing entry is recorded, so printed receipts stay traceable.
+  const voidPaymentMutation = useMutation({
+    mutationFn: async ({ paymentId, reason }: { paymentId: string; reason: string }) => {
+      return voidPayment(paymentId, reason);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['installment-payments', planId] });
       queryClient.invalidateQueries({ queryKey: ['installment-plan-details', planId] });
       queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
       queryClient.invalidateQueries({ queryKey: ['all-installment-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['voided-payments'] });
       toast({
-        title: "Payment Deleted!",
-        description: "Payment has been successfully deleted.",
+        title: "Payment Voided!",
+        description: "The payment was voided and a reversing entry was recorded.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error voiding payment",
+        description: error.message,
+        variant: "destructive",
       });
+    }
+  });
+
+  // Reprints a receipt from the payment history. The reprint is logged first, so every copy
+  // that leaves the printer is on record; copies are marked DUPLICATE.
+  const reprintReceiptMutation = useMutation({
+    mutationFn: async (payment: InstallmentPayment) => {
+      if (!planDetails || !payment.receipt_number) throw new Error('This payment has no receipt to reprint.');
+      await logReceiptReprint(payment.receipt_number);
+
+      // All rows of a bulk payment share its receipt number
+      const receiptPayments = installmentPayments.filter(p => p.receipt_number === payment.receipt_number && !p.reversal_of);
+      // Balance right after this receipt: replay the payments recorded up to it
+      const issuedAt = new Date(payment.created_at);
+      const paymentsUpToReceipt = installmentPayments.filter(p => new Date(p.created_at).getTime() <= issuedAt.getTime());
+      const { remainingBalance } = computeInstallmentLedger(planDetails, paymentsUpToReceipt, issuedAt, globalLateFeePolicy);
+
+      const receipt: LastReceipt = {
+        kind: receiptPayments.some(p => p.payment_type === 'monthly') ? 'bulk' : 'single',
+        payments: receiptPayments,
+        remainingBalance,
+        duplicate: true,
+      };
+      await outputReceipt(receipt, 'print');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['receipt-reprints', planId] });
     },
     onError: (error: any) => {
       toast({
-        title: "Error deleting payment",
+        title: "Error reprinting receipt",
         description: error.message,
         variant: "destructive",
       });
@@ -1102,9 +727,9 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
      mutationFn: async (updatedPlan: {
        total_price: number;
        advance_paid: number; 
-       monthly_installment: number;
-       duration_months: number;
        showroom_commission: number;
+       late_fee_policy: LateFeePolicy | null;
+       reason: string;
      }) => {
        // Fetch the current advance_payments array
        const { data: currentPlanData, error: fetchError } = await supabase
@@ -1115,7 +740,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
 
        if (fetchError) throw fetchError;
 
-       const currentAdvancePayments = currentPlanData?.advance_payments || [];
+       const currentAdvancePayments = (currentPlanData?.advance_payments as AdvancePayment[]) || [];
        const updatedAdvancePayments = [...currentAdvancePayments];
 
        // Update the first advance payment amount if it exists
@@ -1133,19 +758,21 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
        }
 
 
-       const { data, error } = await supabase
-         .from('installment_plans')
-         .update({
-           total_price: updatedPlan.total_price,
-           advance_paid: updatedPlan.advance_paid,
-           advance_payments: updatedAdvancePayments, // Update the JSONB array
-           monthly_installment: updatedPlan.monthly_installment,
-           duration_months: updatedPlan.duration_months,
-           showroom_commission: updatedPlan.showroom_commission,
-         })
-         .eq('id', planId)
-         .select()
-         .single();
+       const { data, error } = await withAuditReason(
+         supabase
+           .from('installment_plans')
+           .update({
+             total_price: updatedPlan.total_price,
+             advance_paid: updatedPlan.advance_paid,
+             advance_payments: updatedAdvancePayments, // Update the JSONB array
+             showroom_commission: updatedPlan.showroom_commission,
+             late_fee_policy: updatedPlan.late_fee_policy,
+           })
+           .eq('id', planId)
+           .select()
+           .single(),
+         updatedPlan.reason
+       );
 
        if (error) throw error;
        return data;
@@ -1159,6 +786,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
          description: "Installment plan details have been successfully updated.",
        });
        setIsEditingPlan(false); // Exit edit mode
+       setPlanEditReason('');
      },
      onError: (error: any) => {
        toast({
@@ -1194,13 +822,24 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
       return;
     }
 
+    // Late fees can only be paid or waived up to what is outstanding
+    if ((paymentType === 'penalty' || paymentType === 'penalty_waiver') && amountPaid > outstandingPenalty) {
+      toast({ title: "Error", description: `Amount exceeds the outstanding late fees of Rs ${outstandingPenalty.toLocaleString()}.`, variant: "destructive" });
+      return;
+    }
+    if (paymentType === 'penalty_waiver' && !waiverReason.trim()) {
+      toast({ title: "Error", description: "Please enter a reason for waiving the late fee.", variant: "destructive" });
+      return;
+    }
+
     recordPaymentMutation.mutate({
       installment_plan_id: planId,
       payment_date: paymentDate,
       amount_paid: amountPaid,
       received_by: receivedBy.trim(),
       payment_type: paymentType,
-      installment_number: paymentType === 'monthly' ? installmentNumber : null
+      installment_number: paymentType === 'monthly' ? installmentNumber : null,
+      remarks: paymentType === 'penalty_waiver' ? waiverReason.trim() : undefined,
     });
   };
 
@@ -1208,31 +847,22 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
   const handleEditPaymentSubmit = () => {
     if (!editingPayment) return;
 
-    if (editedAmountPaid <= 0) {
-      toast({ title: "Error", description: "Amount paid must be greater than 0.", variant: "destructive" });
-      return;
-    }
-    if (!editedPaymentDate) {
-      toast({ title: "Error", description: "Payment date is required.", variant: "destructive" });
-      return;
-    }
     if (!editedReceivedBy.trim()) {
       toast({ title: "Error", description: "Received by name is required.", variant: "destructive" });
       return;
     }
-    // 🛑 VALIDATION: Check installment number only if payment is monthly
-    if (editedPaymentType === 'monthly' && (editedInstallmentNumber === null || editedInstallmentNumber <= 0)) {
-      toast({ title: "Error", description: "Please enter a valid installment number for monthly payment (e.g., 1, 2).", variant: "destructive" });
+    if (!editPaymentReason.trim()) {
+      toast({ title: "Error", description: "Please enter a reason for editing this payment.", variant: "destructive" });
       return;
     }
 
     updatePaymentMutation.mutate({
-      ...editingPayment,
-      amount_paid: editedAmountPaid,
-      payment_date: editedPaymentDate,
-      received_by: editedReceivedBy.trim(),
-      payment_type: editedPaymentType,
-      installment_number: editedPaymentType === 'monthly' ? editedInstallmentNumber : null
+      payment: {
+        ...editingPayment,
+        received_by: editedReceivedBy.trim(),
+        remarks: editedRemarks.trim() || null
+      },
+      reason: editPaymentReason.trim(),
     });
   };
 
@@ -1248,36 +878,30 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
       toast({ title: "Error", description: "Agreed Advance Amount cannot be negative.", variant: "destructive" });
       return;
     }
-    if (editedMonthlyInstallment < 0) { // Monthly installment can be 0 if total price is paid by advance
-      toast({ title: "Error", description: "Monthly Installment cannot be negative.", variant: "destructive" });
-      return;
-    }
-    if (editedDurationMonths <= 0) {
-      toast({ title: "Error", description: "Duration in Months must be greater than 0.", variant: "destructive" });
-      return;
-    }
     if (editedShowroomCommission < 0) {
       toast({ title: "Error", description: "Commission cannot be negative.", variant: "destructive" });
       return;
     }
+    if (!planEditReason.trim()) {
+      toast({ title: "Error", description: "Please enter a reason for changing the plan.", variant: "destructive" });
+      return;
+    }
 
     updateInstallmentPlanMutation.mutate({
       total_price: editedTotalPrice,
       advance_paid: editedAdvanceAgreed,
-      monthly_installment: editedMonthlyInstallment,
-      duration_months: editedDurationMonths,
       showroom_commission: editedShowroomCommission,
+      late_fee_policy: editedLateFeePolicy,
+      reason: planEditReason.trim(),
     });
   };
 
 
   const openEditPaymentModal = (payment: InstallmentPayment) => {
     setEditingPayment(payment);
-    setEditedAmountPaid(payment.amount_paid);
-    setEditedPaymentDate(payment.payment_date);
     setEditedReceivedBy(payment.received_by);
-    setEditedPaymentType(payment.payment_type);
-    setEditedInstallmentNumber(payment.installment_number);
+    setEditedRemarks(payment.remarks || '');
+    setEditPaymentReason('');
     setShowEditPaymentModal(true);
   };
 
@@ -1301,44 +925,14 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
     );
   }
 
-  const handlePrintPlan = () => {
-    if (!planDetails) return;
-
-    const printContent = document.getElementById('printable-plan');
-    const printWindow = window.open('', '_blank');
-
-    if (printWindow && printContent) {
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>Installment Plan - ${planDetails.customers?.name}</title>
-            <script src="https://cdn.tailwindcss.com"></script>
-            <style>
-              @media print {
-                .no-print { display: none; }
-                body { -webkit-print-color-adjust: exact !important; print-color-adjust: exact !important; }
-              }
-            </style>
-          </head>
-          <body class="text-gray-900 p-10">
-            <div class="text-center border-b-4 border-blue-900 pb-4 mb-6">
-              <h1 class="text-4xl font-extrabold text-blue-900 uppercase">Al-Hamd Traders</h1>
-              <p class="text-sm text-gray-600">Railway Road Chowk Shamah, Sargodha</p>
-            </div>
-
-            <div id="printable-wrapper">
-              ${printContent.innerHTML}
-            </div>
-
-            <div class="text-center text-xs text-gray-500 border-t mt-10 pt-4">
-              Thank you for your business! For any queries, contact: 0300-1234567
-            </div>
-          </body>
-        </html>
-      `);
-      printWindow.document.close();
-      printWindow.focus();
-      printWindow.print();
+  const handlePlanStatement = async (action: 'print' | 'save') => {
+    if (!planDetails || !ledger) return;
+    try {
+      const doc = await buildPlanStatementPdf({ settings, plan: planDetails, ledger, payments: combinedPaymentHistory });
+      if (action === 'print') printPdf(doc);
+      else savePdf(doc, `plan-statement-${(planDetails.customers?.name ?? planId).replace(/\s+/g, '-').toLowerCase()}`);
+    } catch (error) {
+      toast({ title: "Statement Error", description: (error as Error).message, variant: "destructive" });
     }
   };
 
@@ -1358,7 +952,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
 
         <div className="space-y-6 mt-4">
           {/* Customer & Rickshaw Details */}
-          <div id="printable-plan">
+          <div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <Card className="border">
                 <CardHeader className="pb-2">
@@ -1386,17 +980,14 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
               </Card>
             </div>
 
-            {/* Guarantor & Bank Details */}
+            {/* Guarantors & Bank Details */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <Card className="border">
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-lg">Guarantor Details</CardTitle>
+                  <CardTitle className="text-lg">Guarantors</CardTitle>
                 </CardHeader>
-                <CardContent className="text-sm space-y-1">
-                  <p><strong>Name:</strong> {planDetails.customers?.guarantor_name}</p>
-                  <p><strong>CNIC:</strong> {planDetails.customers?.guarantor_cnic}</p>
-                  <p><strong>Phone:</strong> {planDetails.customers?.guarantor_phone}</p>
-                  <p><strong>Address:</strong> {planDetails.customers?.guarantor_address}</p>
+                <CardContent>
+                  <PlanGuarantorsPanel planId={planDetails.id} />
                 </CardContent>
               </Card>
               <Card className="border">
@@ -1410,26 +1001,58 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
               </Card>
             </div>
 
+            {/* Cheque register */}
+            <Card className="border">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Cheques</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PlanCheques plan={planDetails} />
+              </CardContent>
+            </Card>
+
+            {/* Documents: the plan's own papers, and the customer's CNIC copies etc. */}
+            <Card className="border">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Documents</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <p className="font-semibold text-sm">Plan</p>
+                  <DocumentManager
+                    owner={{ column: 'installment_plan_id', id: planDetails.id }}
+                    documentTypes={['agreement', 'cheque', 'registration', 'photo', 'cnic_front', 'cnic_back']}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <p className="font-semibold text-sm">Customer</p>
+                  <DocumentManager owner={{ column: 'customer_id', id: planDetails.customer_id }} />
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Overall Payment Summary */}
             <Card className="border bg-blue-50">
               <CardHeader className="pb-2 flex flex-row items-center justify-between">
                 <CardTitle className="text-lg text-blue-700">Payment Summary</CardTitle>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setIsEditingPlan(!isEditingPlan)}
-                  className="flex items-center gap-1"
-                >
-                  {isEditingPlan ? (
-                    <>
-                      <X className="h-4 w-4" /> Cancel Edit
-                    </>
-                  ) : (
-                    <>
-                      <Edit className="h-4 w-4" /> Edit Plan
-                    </>
-                  )}
-                </Button>
+                <RequireRole roles={ROLE_ACCESS.editPlans}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsEditingPlan(!isEditingPlan)}
+                    className="flex items-center gap-1"
+                  >
+                    {isEditingPlan ? (
+                      <>
+                        <X className="h-4 w-4" /> Cancel Edit
+                      </>
+                    ) : (
+                      <>
+                        <Edit className="h-4 w-4" /> Edit Plan
+                      </>
+                    )}
+                  </Button>
+                </RequireRole>
               </CardHeader>
               <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                 <div className="space-y-2">
@@ -1462,31 +1085,19 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                   <Label className="text-muted-foreground">Collected Advance:</Label>
                   <p className="font-bold text-lg">Rs {collectedAdvance.toLocaleString()}</p>
                 </div>
+                {/* Monthly amount and duration change only through a reschedule (Schedule Versions) */}
                 <div className="space-y-2">
                   <Label className="text-muted-foreground">Monthly Installment:</Label>
-                  {isEditingPlan ? (
-                    <Input
-                      type="number"
-                      value={editedMonthlyInstallment}
-                      onChange={(e) => setEditedMonthlyInstallment(parseFloat(e.target.value) || 0)}
-                      className="font-bold text-lg"
-                    />
-                  ) : (
-                    <p className="font-bold text-lg">Rs {planDetails.monthly_installment?.toLocaleString()}</p>
-                  )}
+                  <p className="font-bold text-lg">Rs {planDetails.monthly_installment?.toLocaleString()}</p>
                 </div>
                 <div className="space-y-2">
                   <Label className="text-muted-foreground">Duration:</Label>
-                  {isEditingPlan ? (
-                    <Input
-                      type="number"
-                      value={editedDurationMonths}
-                      onChange={(e) => setEditedDurationMonths(parseInt(e.target.value) || 0)}
-                      className="font-bold text-lg"
-                    />
-                  ) : (
-                    <p className="font-bold text-lg">{planDetails.duration_months} months</p>
-                  )}
+                  <p className="font-bold text-lg">
+                    {planDetails.duration_months} months
+                    {planDetails.schedule_version > 1 && (
+                      <span className="block text-xs font-normal text-muted-foreground">Schedule v{planDetails.schedule_version}</span>
+                    )}
+                  </p>
                 </div>
                 <div className="space-y-2">
                   <Label className="text-muted-foreground">Showroom Commission:</Label>
@@ -1513,9 +1124,52 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                   </p>
                 </div>
                 <div className="space-y-2">
-                  <p className="text-muted-foreground">Overall Remaining Balance (Customer Debt + Outstanding Commission):</p>
+                  <p className="text-muted-foreground">Outstanding Late Fees:</p>
+                  <p className={cn("font-bold text-lg", outstandingPenalty > 0 ? "text-red-600" : "text-green-600")}>
+                    Rs {outstandingPenalty.toLocaleString()}
+                    {(ledger?.bounceCharges ?? 0) > 0 && (
+                      <span className="block text-xs font-normal text-muted-foreground">Includes Rs {ledger.bounceCharges.toLocaleString()} cheque bounce charges</span>
+                    )}
+                    {(ledger?.penaltyWaived ?? 0) > 0 && (
+                      <span className="block text-xs font-normal text-muted-foreground">Rs {ledger.penaltyWaived.toLocaleString()} waived</span>
+                    )}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-muted-foreground">Overall Remaining Balance (Customer Debt + Outstanding Commission + Late Fees):</p>
                   <p className="font-bold text-2xl text-green-700">Rs {remainingBalanceOnPlan.toLocaleString()}</p>
                 </div>
+                {isEditingPlan && (
+                  <div className="md:col-span-3 space-y-3 rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="plan-custom-late-fees"
+                        checked={editedLateFeePolicy !== null}
+                        onCheckedChange={(checked) =>
+                          setEditedLateFeePolicy(checked ? (globalLateFeePolicy ?? DEFAULT_LATE_FEE_POLICY) : null)
+                        }
+                      />
+                      <Label htmlFor="plan-custom-late-fees">Use a custom late fee policy for this plan</Label>
+                    </div>
+                    {editedLateFeePolicy ? (
+                      <LateFeePolicyFields idPrefix="plan-late-fee" value={editedLateFeePolicy} onChange={setEditedLateFeePolicy} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Global policy: {describeLateFeePolicy(globalLateFeePolicy)}</p>
+                    )}
+                  </div>
+                )}
+                {isEditingPlan && (
+                  <div className="md:col-span-3 space-y-2">
+                    <Label htmlFor="plan-edit-reason" className="text-muted-foreground">Reason for Change *</Label>
+                    <Input
+                      id="plan-edit-reason"
+                      type="text"
+                      placeholder="e.g., Price renegotiated with customer"
+                      value={planEditReason}
+                      onChange={(e) => setPlanEditReason(e.target.value)}
+                    />
+                  </div>
+                )}
                 {isEditingPlan && (
                   <div className="md:col-span-3 flex justify-end">
                     <Button
@@ -1571,10 +1225,62 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
               </CardContent>
             </Card>
 
+            {/* Schedule Versions */}
+            {ledger && (
+              <Card className="border">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Schedule Versions</CardTitle>
+                  <CardDescription>Rescheduling closes the schedule in force and carries the outstanding balance into a new one.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ScheduleHistory plan={planDetails} ledger={ledger} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Early Settlement */}
+            {(planDetails.settled_on || !isPlanCompleted) && (
+              <Card className="border">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Early Settlement</CardTitle>
+                  <CardDescription>Payoff as of a chosen date, with a rebate on the markup not yet earned.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SettlementCalculator plan={planDetails} payments={installmentPayments} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Default & Repossession */}
+            {ledger && !planDetails.settled_on && (planDetails.defaulted_on || !isPlanCompleted) && (
+              <Card className="border">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Default & Repossession</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <RepossessionPanel plan={planDetails} ledger={ledger} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Registration & Transfer */}
+            <Card className="border">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Registration & Transfer</CardTitle>
+                <CardDescription>Excise registration of the unit, the registration book and the NOC issued on completion.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RegistrationPanel plan={planDetails} completed={isPlanCompleted} />
+              </CardContent>
+            </Card>
+
             {/* Monthly Installment Schedule */}
             <Card className="border">
               <CardHeader className="pb-2">
                 <CardTitle className="text-lg">Monthly Installment Schedule</CardTitle>
+                <CardDescription>
+                  Late fees{planDetails.late_fee_policy ? ' (plan policy)' : ''}: {describeLateFeePolicy(planDetails.late_fee_policy ?? globalLateFeePolicy)}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 {isPlanCompleted ? (
@@ -1595,13 +1301,22 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                       </TableHeader>
                       <TableBody>
                         {monthlySchedule.map((item, index) => (
-                          <TableRow key={index}>
+                          <React.Fragment key={index}>
+                          {/* Version heading on rescheduled plans */}
+                          {(ledger?.scheduleVersions.length ?? 0) > 1 && item.installment_number === 1 && (
+                            <TableRow className="bg-gray-50">
+                              <TableCell colSpan={5} className="text-xs font-semibold text-muted-foreground">
+                                Schedule v{item.schedule_version}{item.schedule_version === planDetails.schedule_version ? ' (in force)' : ' (closed)'}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                          <TableRow>
                             <TableCell>{item.installment_number}</TableCell>
                             <TableCell>{new Date(item.due_date).toLocaleDateString()}</TableCell>
                             <TableCell>
                                 {/* Highlight the last installment if it's the large, final amount */}
                                 <span className={cn(
-                                    item.installment_number === planDetails.duration_months && item.expected_amount !== planDetails.monthly_installment ? 'font-bold text-red-600' : ''
+                                    item.schedule_version === planDetails.schedule_version && item.installment_number === planDetails.duration_months && item.expected_amount !== planDetails.monthly_installment ? 'font-bold text-red-600' : ''
                                 )}>
                                     Rs {item.expected_amount.toLocaleString()}
                                 </span>
@@ -1611,13 +1326,36 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                                 "px-2 py-1 rounded-full text-xs font-medium",
                                 item.status === 'Paid' && "bg-green-100 text-green-800",
                                 item.status === 'Partially Paid' && "bg-yellow-100 text-yellow-800",
-                                item.status === 'Unpaid' && "bg-gray-100 text-gray-800"
+                                item.status === 'Unpaid' && "bg-gray-100 text-gray-800",
+                                item.status === 'Rescheduled' && "bg-blue-100 text-blue-800"
                               )}>
                                 {item.status}
                               </span>
                             </TableCell>
                             <TableCell>Rs {item.paid_amount.toLocaleString()}</TableCell>
                           </TableRow>
+                          {/* Late fee charged on this installment, as its own line */}
+                          {penaltySchedule.filter(penalty => penalty.schedule_version === item.schedule_version && penalty.installment_number === item.installment_number).map(penalty => (
+                            <TableRow key={`penalty-${penalty.schedule_version}-${penalty.installment_number}`} className="bg-red-50/50">
+                              <TableCell className="text-xs text-red-700">Late fee #{penalty.installment_number}</TableCell>
+                              <TableCell className="text-xs text-muted-foreground">
+                                {penalty.days_late} day{penalty.days_late === 1 ? '' : 's'} late{penalty.settled ? '' : ' (accruing)'}
+                              </TableCell>
+                              <TableCell className="text-red-700">Rs {penalty.charged_amount.toLocaleString()}</TableCell>
+                              <TableCell>
+                                <span className={cn(
+                                  "px-2 py-1 rounded-full text-xs font-medium",
+                                  penalty.status === 'Paid' && "bg-green-100 text-green-800",
+                                  penalty.status === 'Partially Paid' && "bg-yellow-100 text-yellow-800",
+                                  penalty.status === 'Unpaid' && "bg-red-100 text-red-800"
+                                )}>
+                                  {penalty.status}
+                                </span>
+                              </TableCell>
+                              <TableCell>Rs {penalty.paid_amount.toLocaleString()}</TableCell>
+                            </TableRow>
+                          ))}
+                          </React.Fragment>
                         ))}
                       </TableBody>
                     </Table>
@@ -1641,6 +1379,7 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                       <TableHeader>
                         <TableRow>
                           <TableHead>Date Paid</TableHead>
+                          <TableHead>Receipt No</TableHead>
                           <TableHead>Amount Paid (Rs)</TableHead>
                           <TableHead>Type</TableHead>
                           <TableHead>Installment #</TableHead>
@@ -1650,14 +1389,25 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                       </TableHeader>
                       <TableBody>
                         {combinedPaymentHistory.map((payment: InstallmentPayment) => (
-                          <TableRow key={payment.id}>
+                          // Voided payments and their reversals stay visible but don't count towards the balance
+                          <TableRow
+                            key={payment.id}
+                            className={cn((payment.voided_at || payment.reversal_of) && 'text-muted-foreground', payment.voided_at && 'line-through')}
+                            title={payment.voided_at ? `Voided by ${payment.voided_by_email || 'unknown'} on ${new Date(payment.voided_at).toLocaleDateString()}: ${payment.void_reason}` : undefined}
+                          >
                             <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
+                            <TableCell className="whitespace-nowrap font-mono text-xs">{payment.receipt_number ?? '-'}</TableCell>
                             <TableCell>Rs {payment.amount_paid.toLocaleString()}</TableCell>
                             <TableCell>
                                 {payment.id.startsWith('initial-') ? 'Initial Advance' :
                                  payment.payment_type === 'monthly' ? 'Monthly' : 
                                  payment.payment_type === 'commission' ? 'Commission' : 
-                                 payment.payment_type === 'discount' ? 'Discount' : 'Advance Adjustment'} 
+                                 payment.payment_type === 'discount' ? 'Discount' :
+                                 payment.payment_type === 'penalty' ? 'Late Fee' :
+                                 payment.payment_type === 'penalty_waiver' ? 'Late Fee Waiver' : 'Advance Adjustment'} 
+                                {payment.remarks && <span className="block text-xs text-muted-foreground">{payment.remarks}</span>}
+                                {payment.voided_at && <Badge variant="destructive" className="ml-2 no-underline">Voided</Badge>}
+                                {payment.reversal_of && <Badge variant="outline" className="ml-2">Reversal</Badge>}
                             </TableCell>
                             <TableCell>
                               {payment.payment_type === 'monthly' && payment.installment_number !== null
@@ -1666,25 +1416,46 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                             </TableCell>
                             <TableCell>{payment.received_by}</TableCell>
                             <TableCell className="text-right">
-                              {/* Only show edit and delete buttons for payments made post-sale (i.e., not the initial advance) */}
-                              {payment.id.startsWith('initial-') ? (
+                              {/* Only show edit and void buttons for active payments made post-sale (i.e., not the initial advance) */}
+                              {payment.id.startsWith('initial-') || payment.voided_at || payment.reversal_of ? (
                                 <span className="text-muted-foreground">N/A</span>
                               ) : (
                                 <div className="flex gap-1">
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => openEditPaymentModal(payment)}
-                                  >
-                                    <Edit className="h-4 w-4" />
-                                  </Button>
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => setPaymentToDelete(payment)}
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </Button>
+                                  {payment.receipt_number && (
+                                    <RequireRole roles={ROLE_ACCESS.recordPayments}>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Reprint receipt (duplicate)"
+                                        disabled={reprintReceiptMutation.isPending}
+                                        onClick={() => reprintReceiptMutation.mutate(payment)}
+                                      >
+                                        <Printer className="h-4 w-4" />
+                                      </Button>
+                                    </RequireRole>
+                                  )}
+                                  {/* Waivers can only be voided, never edited */}
+                                  {payment.payment_type !== 'penalty_waiver' && (
+                                    <RequireRole roles={ROLE_ACCESS.editPayments}>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => openEditPaymentModal(payment)}
+                                      >
+                                        <Edit className="h-4 w-4" />
+                                      </Button>
+                                    </RequireRole>
+                                  )}
+                                  <RequireRole roles={ROLE_ACCESS.voidPayments}>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Void payment"
+                                      onClick={() => setPaymentToVoid(payment)}
+                                    >
+                                      <Ban className="h-4 w-4" />
+                                    </Button>
+                                  </RequireRole>
                                 </div>
                               )}
                             </TableCell>
@@ -1696,116 +1467,172 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
                 ) : (
                   <p className="text-muted-foreground">No actual payments recorded for this plan yet.</p>
                 )}
+                {receiptReprints.length > 0 && (
+                  <div className="mt-4 space-y-1 text-sm">
+                    <p className="font-semibold">Receipt Reprints</p>
+                    {receiptReprints.map(reprint => (
+                      <p key={reprint.id} className="text-muted-foreground">
+                        Receipt <span className="font-mono">{reprint.receipt_number}</span> reprinted by {reprint.reprinted_by_email || 'unknown'} on {format(new Date(reprint.reprinted_at), 'dd MMM yyyy, hh:mm a')}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
           {/* Record Payment Section */}
-          <Card className="border bg-green-50">
-            <CardHeader className="pb-2">
-              <CardTitle className="text-lg text-green-700 flex items-center justify-between">
-                Record New Payment
-                <Button variant="outline" size="sm" onClick={() => setShowRecordPaymentForm(!showRecordPaymentForm)}>
-                  {showRecordPaymentForm ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
-                  {showRecordPaymentForm ? "Hide Form" : "Show Form"}
-                </Button>
-              </CardTitle>
-            </CardHeader>
-            {showRecordPaymentForm && (
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="payment-type">Payment Type *</Label>
-                    <Select 
-                      value={paymentType} 
-                      onValueChange={(value: 'monthly' | 'advance_adjustment' | 'commission' | 'discount') => {
-                        setPaymentType(value);
-                        // Reset installment number if not monthly or discount
-                        if (value !== 'monthly') {
-                          setInstallmentNumber(null);
-                        }
-                      }}
-                    >
-                      <SelectTrigger id="payment-type">
-                        <SelectValue placeholder="Select payment type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="monthly">Monthly Installment</SelectItem>
-                        <SelectItem value="advance_adjustment">Advance Payment Adjustment</SelectItem>
-                        <SelectItem value="discount">Discount / Early Payoff</SelectItem> {/* 🛑 Added Discount */}
-                        <SelectItem value="commission">Showroom Commission Payment</SelectItem>
-                      </SelectContent>
-                    </Select>
+          <RequireRole roles={ROLE_ACCESS.recordPayments}>
+            <Card className="border bg-green-50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg text-green-700 flex items-center justify-between">
+                  Record New Payment
+                  <Button variant="outline" size="sm" onClick={() => setShowRecordPaymentForm(!showRecordPaymentForm)}>
+                    {showRecordPaymentForm ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                    {showRecordPaymentForm ? "Hide Form" : "Show Form"}
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              {lastReceipt && (
+                <CardContent className="pb-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-green-200 bg-white p-3 text-sm">
+                    <span className="flex items-center gap-2">
+                      <Receipt className="h-4 w-4 text-green-700" />
+                      Receipt {receiptNumber(lastReceipt.payments[0])} — Rs {lastReceipt.payments.reduce((sum, p) => sum + p.amount_paid, 0).toLocaleString()}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => outputReceipt(lastReceipt, 'print')}>
+                        <Printer className="h-4 w-4 mr-1" /> Print
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => outputReceipt(lastReceipt, 'save')}>
+                        <Download className="h-4 w-4 mr-1" /> Download PDF
+                      </Button>
+                    </div>
                   </div>
-                  {paymentType === 'monthly' && (
+                </CardContent>
+              )}
+              {showRecordPaymentForm && (
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="installment-number">Installment # * (Manual Entry)</Label>
-                      {/* 🛑 Changed from Select to Input */}
-                      <Input
-                          id="installment-number"
-                          type="number"
-                          placeholder="e.g., 1, 2, 3..."
-                          value={installmentNumber || ''}
-                          onChange={(e) => setInstallmentNumber(parseInt(e.target.value) || null)} 
-                          required={paymentType === 'monthly'}
+                      <Label htmlFor="payment-type">Payment Type *</Label>
+                      <Select 
+                        value={paymentType} 
+                        onValueChange={(value: PaymentType) => {
+                          setPaymentType(value);
+                          // Reset installment number if not monthly or discount
+                          if (value !== 'monthly') {
+                            setInstallmentNumber(null);
+                          }
+                        }}
+                      >
+                        <SelectTrigger id="payment-type">
+                          <SelectValue placeholder="Select payment type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="monthly">Monthly Installment</SelectItem>
+                          <SelectItem value="advance_adjustment">Advance Payment Adjustment</SelectItem>
+                          <SelectItem value="discount">Discount / Early Payoff</SelectItem> {/* 🛑 Added Discount */}
+                    <SelectItem value="penalty">Late Payment Fee</SelectItem>
+                          <SelectItem value="commission">Showroom Commission Payment</SelectItem>
+                          <SelectItem value="penalty">Late Payment Fee</SelectItem>
+                          {hasRole(ROLE_ACCESS.waivePenalties) && (
+                            <SelectItem value="penalty_waiver">Waive Late Fee</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      {(paymentType === 'penalty' || paymentType === 'penalty_waiver') && (
+                        <p className="text-xs text-muted-foreground">Outstanding late fees: Rs {outstandingPenalty.toLocaleString()}</p>
+                      )}
+                    </div>
+                    {paymentType === 'penalty_waiver' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="waiver-reason">Reason for Waiver *</Label>
+                        <Input
+                          id="waiver-reason"
+                          type="text"
+                          placeholder="e.g., Delay caused by bank holiday"
+                          value={waiverReason}
+                          onChange={(e) => setWaiverReason(e.target.value)}
+                          required
                           className="rounded-md border"
+                        />
+                      </div>
+                    )}
+                    {paymentType === 'monthly' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="installment-number">Installment # * (Manual Entry)</Label>
+                        {/* 🛑 Changed from Select to Input */}
+                        <Input
+                            id="installment-number"
+                            type="number"
+                            placeholder="e.g., 1, 2, 3..."
+                            value={installmentNumber || ''}
+                            onChange={(e) => setInstallmentNumber(parseInt(e.target.value) || null)} 
+                            required={paymentType === 'monthly'}
+                            className="rounded-md border"
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="amount-paid">Amount Paid (Rs) *</Label>
+                      <Input
+                        id="amount-paid"
+                        type="number"
+                        value={amountPaid || ''}
+                        onChange={(e) => setAmountPaid(parseFloat(e.target.value) || 0)}
+                        required
+                        className="rounded-md border"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="payment-date">Payment Date *</Label>
+                      <Input
+                        id="payment-date"
+                        type="date"
+                        value={paymentDate}
+                        onChange={(e) => setPaymentDate(e.target.value)}
+                        required
+                        className="rounded-md border"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="received-by">Received By *</Label>
+                      <Input
+                        id="received-by"
+                        type="text"
+                        placeholder="Enter name of receiver (Use 'System' for discount)"
+                        value={receivedBy}
+                        onChange={(e) => setReceivedBy(e.target.value)}
+                        required
+                        className="rounded-md border"
                       />
                     </div>
-                  )}
-                  <div className="space-y-2">
-                    <Label htmlFor="amount-paid">Amount Paid (Rs) *</Label>
-                    <Input
-                      id="amount-paid"
-                      type="number"
-                      value={amountPaid || ''}
-                      onChange={(e) => setAmountPaid(parseFloat(e.target.value) || 0)}
-                      required
-                      className="rounded-md border"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="payment-date">Payment Date *</Label>
-                    <Input
-                      id="payment-date"
-                      type="date"
-                      value={paymentDate}
-                      onChange={(e) => setPaymentDate(e.target.value)}
-                      required
-                      className="rounded-md border"
-                    />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="received-by">Received By *</Label>
-                    <Input
-                      id="received-by"
-                      type="text"
-                      placeholder="Enter name of receiver (Use 'System' for discount)"
-                      value={receivedBy}
-                      onChange={(e) => setReceivedBy(e.target.value)}
-                      required
-                      className="rounded-md border"
-                    />
+                  <div className="flex justify-end pt-2">
+                    <Button
+                      onClick={handleRecordPayment}
+                      disabled={isRecordingPayment}
+                      className="px-6 bg-green-600 hover:bg-green-700"
+                    >
+                      {isRecordingPayment ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Recording...
+                        </>
+                      ) : "Record Payment"}
+                    </Button>
                   </div>
-                </div>
-                <div className="flex justify-end pt-2">
-                  <Button
-                    onClick={handleRecordPayment}
-                    disabled={isRecordingPayment}
-                    className="px-6 bg-green-600 hover:bg-green-700"
-                  >
-                    {isRecordingPayment ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Recording...
-                      </>
-                    ) : "Record Payment"}
-                  </Button>
-                </div>
-              </CardContent>
-            )}
-          </Card>
+                </CardContent>
+              )}
+            </Card>
+          </RequireRole>
         </div>
-        <DialogFooter className="mt-6">
-          <Button onClick={handlePrintPlan} className="ml-2">
-            Print Plan
+        <DialogFooter className="mt-6 flex-wrap gap-2">
+          <AgreementActions planId={planDetails.id} />
+          <Button variant="outline" onClick={() => handlePlanStatement('save')} className="ml-2">
+            <Download className="h-4 w-4 mr-2" /> Download PDF
+          </Button>
+          <Button onClick={() => handlePlanStatement('print')} className="ml-2">
+            <Printer className="h-4 w-4 mr-2" /> Print Statement
           </Button>
           <Button variant="outline" onClick={onClose}>
             Close
@@ -1820,73 +1647,37 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
             <DialogHeader>
               <DialogTitle>Edit Payment</DialogTitle>
               <DialogDescription>
-                Modify the details for this payment record.
+                Correct who received this payment or its remarks. To change the amount, type or date, void the payment and record it again.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
               <div className="space-y-2">
-                <Label htmlFor="edit-payment-type">Payment Type *</Label>
-                <Select
-                  value={editedPaymentType}
-                  onValueChange={(value: 'monthly' | 'advance_adjustment' | 'commission' | 'discount') => { // 🛑 Updated type
-                    setEditedPaymentType(value);
-                    if (value !== 'monthly') {
-                      setEditedInstallmentNumber(null);
-                    }
-                  }}
-                >
-                  <SelectTrigger id="edit-payment-type">
-                    <SelectValue placeholder="Select payment type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="monthly">Monthly Installment</SelectItem>
-                    <SelectItem value="advance_adjustment">Advance Payment Adjustment</SelectItem>
-                    <SelectItem value="discount">Discount / Early Payoff</SelectItem> {/* 🛑 Added Discount */}
-                    <SelectItem value="commission">Showroom Commission Payment</SelectItem>
-                  </SelectContent> {/* 🛑 FIXED: Closing tag was incorrect */}
-                </Select>
-              </div>
-              {editedPaymentType === 'monthly' && (
-                <div className="space-y-2">
-                  <Label htmlFor="edit-installment-number">Installment # * (Manual Entry)</Label>
-                  {/* 🛑 Changed from Select to Input */}
-                  <Input
-                    id="edit-installment-number"
-                    type="number"
-                    placeholder="e.g., 1, 2, 3..."
-                    value={editedInstallmentNumber || ''}
-                    onChange={(e) => setEditedInstallmentNumber(parseInt(e.target.value) || null)}
-                    required={editedPaymentType === 'monthly'}
-                  />
-                </div>
-              )}
-              <div className="space-y-2">
-                <Label htmlFor="edit-amount-paid">Amount Paid (Rs) *</Label>
+                <Label htmlFor="edit-received-by">Received By *</Label>
                 <Input
-                  id="edit-amount-paid"
-                  type="number"
-                  value={editedAmountPaid || ''}
-                  onChange={(e) => setEditedAmountPaid(parseFloat(e.target.value) || 0)}
+                  id="edit-received-by"
+                  type="text"
+                  value={editedReceivedBy}
+                  onChange={(e) => setEditedReceivedBy(e.target.value)}
                   required
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="edit-payment-date">Payment Date *</Label>
+                <Label htmlFor="edit-remarks">Remarks</Label>
                 <Input
-                  id="edit-payment-date"
-                  type="date"
-                  value={editedPaymentDate}
-                  onChange={(e) => setEditedPaymentDate(e.target.value)}
-                  required
+                  id="edit-remarks"
+                  type="text"
+                  value={editedRemarks}
+                  onChange={(e) => setEditedRemarks(e.target.value)}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="edit-received-by">Received By *</Label>
+                <Label htmlFor="edit-payment-reason">Reason for Change *</Label>
                 <Input
-                  id="edit-received-by"
+                  id="edit-payment-reason"
                   type="text"
-                  value={editedReceivedBy}
-                  onChange={(e) => setEditedReceivedBy(e.target.value)}
+                  placeholder="e.g., Wrong cashier name entered"
+                  value={editPaymentReason}
+                  onChange={(e) => setEditPaymentReason(e.target.value)}
                   required
                 />
               </div>
@@ -1911,25 +1702,40 @@ const InstallmentDetailModal: React.FC<InstallmentDetailModalProps> = ({ planId,
         </Dialog>
       )}
 
-      {/* Delete Payment Confirmation Dialog */}
-      {paymentToDelete && (
-        <AlertDialog open={!!paymentToDelete} onOpenChange={() => setPaymentToDelete(null)}>
+      {/* Void Payment Confirmation Dialog */}
+      {paymentToVoid && (
+        <AlertDialog open={!!paymentToVoid} onOpenChange={() => { setPaymentToVoid(null); setVoidPaymentReason(''); }}>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Delete Payment</AlertDialogTitle>
+              <AlertDialogTitle>Void Payment</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete this payment of Rs {paymentToDelete.amount_paid.toLocaleString()}? This action cannot be undone.
+                Void this payment of Rs {paymentToVoid.amount_paid.toLocaleString()}? It stays in the history marked as voided,
+                a reversing entry is recorded and it no longer counts towards the plan balance. This cannot be undone.
               </AlertDialogDescription>
             </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="void-payment-reason">Reason for Voiding *</Label>
+              <Input
+                id="void-payment-reason"
+                type="text"
+                value={voidPaymentReason}
+                onChange={(e) => setVoidPaymentReason(e.target.value)}
+                required
+              />
+            </div>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={() => {
-                if (paymentToDelete) {
-                  deletePaymentMutation.mutate(paymentToDelete.id);
-                  setPaymentToDelete(null);
-                }
-              }}>
-                Delete
+              <AlertDialogAction
+                disabled={!voidPaymentReason.trim()}
+                onClick={() => {
+                  if (paymentToVoid) {
+                    voidPaymentMutation.mutate({ paymentId: paymentToVoid.id, reason: voidPaymentReason.trim() });
+                    setPaymentToVoid(null);
+                    setVoidPaymentReason('');
+                  }
+                }}
+              >
+                Void Payment
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
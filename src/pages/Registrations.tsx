@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ClipboardList, Eye } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_PENDING_DAYS,
+  REGISTRATION_BOOK_LOCATION_LABELS,
+  REGISTRATION_STATUS_CLASSES,
+  REGISTRATION_STATUS_LABELS,
+  REGISTRATION_STATUSES,
+  registrationPendingDays,
+} from '@/lib/registrations';
+import type { Customer, InstallmentPlan, Registration, RegistrationStatus, Repossession, Rikshaw } from '@/types/domain';
+
+type RegistrationRow = Registration & {
+  installment_plans: (Pick<InstallmentPlan, 'agreement_date' | 'customer_id'> & {
+    customers: Pick<Customer, 'name' | 'phone'> | null;
+    repossessions: Pick<Repossession, 'id'> | null;
+  }) | null;
+  rikshaws: Pick<Rikshaw, 'manufacturer' | 'model_name' | 'engine_number'> | null;
+};
+
+// 'overdue': not yet plated more than N days after the sale
+type RegistrationView = 'overdue' | RegistrationStatus | 'all';
+
+const Registrations = () => {
+  const { toast } = useToast();
+  const [view, setView] = useState<RegistrationView>('overdue');
+  const [pendingDays, setPendingDays] = useState(DEFAULT_PENDING_DAYS);
+
+  const { data: registrations = [], isLoading, error } = useQuery<RegistrationRow[]>({
+    queryKey: ['registrations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('registrations')
+        .select('*, installment_plans(agreement_date, customer_id, customers(name, phone), repossessions(id)), rikshaws(manufacturer, model_name, engine_number)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as RegistrationRow[];
+    },
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({ title: "Error fetching registrations", description: error.message, variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  // Registrations of repossessed units are no longer followed up
+  const rows = useMemo(() => registrations
+    .filter(registration => registration.installment_plans && !registration.installment_plans.repossessions)
+    .map(registration => ({
+      registration,
+      daysPending: registrationPendingDays(registration, registration.installment_plans!.agreement_date),
+    })), [registrations]);
+
+  const visibleRows = rows
+    .filter(({ registration, daysPending }) => {
+      if (view === 'all') return true;
+      if (view === 'overdue') return daysPending !== null && daysPending > pendingDays;
+      return registration.status === view;
+    })
+    .sort((a, b) => (b.daysPending ?? -1) - (a.daysPending ?? -1));
+
+  const totals = {
+    pending: rows.filter(({ daysPending }) => daysPending !== null).length,
+    overdue: rows.filter(({ daysPending }) => daysPending !== null && daysPending > pendingDays).length,
+    booksInSafe: rows.filter(({ registration }) => registration.book_location === 'showroom_safe').length,
+    nocsIssued: rows.filter(({ registration }) => registration.noc_number).length,
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+          <ClipboardList className="h-7 w-7 text-blue-600" />
+          Registrations
+        </h1>
+        <p className="text-muted-foreground mt-2">Excise registration of sold units, registration books and NOCs.</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Awaiting Plate', value: totals.pending },
+          { label: `Pending Over ${pendingDays} Days`, value: totals.overdue },
+          { label: 'Books in Showroom Safe', value: totals.booksInSafe },
+          { label: 'NOCs Issued', value: totals.nocsIssued },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filter</CardTitle>
+          <CardDescription>Units still without a number plate are counted from their sale date.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="registration-view">Show</Label>
+            <Select value={view} onValueChange={(value) => setView(value as RegistrationView)}>
+              <SelectTrigger id="registration-view" className="w-[220px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="overdue">Pending over {pendingDays} days</SelectItem>
+                {REGISTRATION_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{REGISTRATION_STATUS_LABELS[status]}</SelectItem>
+                ))}
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="registration-pending-days">Pending More Than (Days)</Label>
+            <Input
+              id="registration-pending-days"
+              type="number"
+              min={0}
+              className="w-[120px]"
+              value={pendingDays}
+              onChange={(e) => setPendingDays(Math.max(0, parseInt(e.target.value) || 0))}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading registrations...</div>
+      ) : visibleRows.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No registrations match this filter.</div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>Customer</TableHead>
+                <TableHead>Rikshaw</TableHead>
+                <TableHead>Sold On</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Days Pending</TableHead>
+                <TableHead>Registration No</TableHead>
+                <TableHead>Book</TableHead>
+                <TableHead>NOC</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map(({ registration, daysPending }) => {
+                const plan = registration.installment_plans!;
+                return (
+                  <TableRow key={registration.id}>
+                    <TableCell>
+                      <Link to={`/customers/${plan.customer_id}`} className="font-medium hover:underline">
+                        {plan.customers?.name ?? 'N/A'}
+                      </Link>
+                      {plan.customers?.phone && <span className="block text-xs text-muted-foreground">{plan.customers.phone}</span>}
+                    </TableCell>
+                    <TableCell>
+                      {registration.rikshaws?.manufacturer} - {registration.rikshaws?.model_name}
+                      <span className="block text-xs font-mono text-muted-foreground">{registration.rikshaws?.engine_number}</span>
+                    </TableCell>
+                    <TableCell>{format(parseISO(plan.agreement_date), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>
+                      <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", REGISTRATION_STATUS_CLASSES[registration.status])}>
+                        {REGISTRATION_STATUS_LABELS[registration.status]}
+                      </span>
+                    </TableCell>
+                    <TableCell className={cn('text-right', daysPending !== null && daysPending > pendingDays && 'text-red-600 font-semibold')}>
+                      {daysPending ?? '-'}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{registration.registration_number || '-'}</TableCell>
+                    <TableCell>{registration.book_location ? REGISTRATION_BOOK_LOCATION_LABELS[registration.book_location] : '-'}</TableCell>
+                    <TableCell>{registration.noc_number || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/installments?plan=${registration.installment_plan_id}`} aria-label="View plan">
+                          <Eye className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Registrations;
@@ -8,57 +8,34 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, Printer, Search } from 'lucide-react';
+import { Ban, Calendar, Download, Printer, Search, Truck } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { format, addMonths, isBefore, isAfter, parseISO, startOfMonth, endOfMonth, getYear, getMonth } from 'date-fns';
 import { cn } from '@/lib/utils';
-
-// --- Interface Definitions (Kept from your original code) ---
-interface Customer {
-  id: string;
-  name: string;
-  phone: string;
-}
-
-interface Rikshaw {
-    model_name: string;
-    registration_number: string;
-    engine_number: string;
-}
-  
-interface AdvancePayment {
-    amount: number;
+import { computeInstallmentLedger, installmentLabel } from '@/lib/installmentLedger';
+import { buildMonthlyDuesReportPdf, printPdf, savePdf } from '@/lib/pdf';
+import { useSettings } from '@/hooks/use-settings';
+import type { InstallmentPayment, InstallmentPlan } from '@/types/domain';
+
+// --- Report-specific Interfaces ---
+interface DueItem {
+    type: 'Monthly' | 'Advance Due' | 'Late Fee' | string;
+    installment: number | string | null;
     date: string;
+    amount: number;
+    status: 'Due' | 'Overdue';
 }
-  
-interface InstallmentPlan {
-    id: string;
-    total_price: number;
-    advance_payments: AdvancePayment[];
-    monthly_installment: number;
-    duration_months: number;
-    customers: Customer;
-    rikshaws: Rikshaw;
-    agreement_date: string;
-}
-  
-interface InstallmentPayment {
-    id: string;
-    installment_plan_id: string;
-    amount_paid: number;
-    payment_type: 'monthly' | 'advance_adjustment' | 'discount' | string;
-    installment_number?: number | null;
-}
-  
+
 interface ReportEntry {
     planId: string;
+    customerId: string;
     customerName: string;
     rikshawDetails: string;
     phoneNumber: string;
-    amountDue: number;
+    totalAmountDue: number;
+    items: DueItem[];
+    overallStatus: 'Due' | 'Overdue';
     dueDate: string;
-    type: 'Monthly' | 'Advance Due' | string;
-    installmentNumber?: number | null | string;
-    status: 'Due' | 'Overdue';
 }
 // -----------------------------
 
@@ -78,11 +55,12 @@ const splitMergedEntry = (entry: ReportEntry) => {
 
 const ReportPage = () => {
   const { toast } = useToast();
-  const today = new Date();
+  const today = useMemo(() => new Date(), []);
 
   const [reportMonth, setReportMonth] = useState(getMonth(today).toString());
   const [reportYear, setReportYear] = useState(getYear(today).toString());
   const [searchTerm, setSearchTerm] = useState('');
+  const { settings, lateFeePolicy: globalLateFeePolicy } = useSettings();
 
   // --- Data Fetching Queries (UNMODIFIED) ---
   const { data: installmentPlans = [], isLoading: loadingPlans, error: plansError } = useQuery<InstallmentPlan[]>({
@@ -96,7 +74,7 @@ const ReportPage = () => {
           rikshaws!inner (model_name, registration_number, engine_number)
         `); 
       if (error) throw error;
-      return data as any[];
+      return data as InstallmentPlan[];
     }
   });
 
@@ -122,171 +100,72 @@ const ReportPage = () => {
     const startOfSelectedMonth = startOfMonth(selectedDate);
     const endOfSelectedMonth = endOfMonth(selectedDate);
 
-    const individualDues: { planId: string; customerName: string; rikshawDetails: string; phoneNumber: string; item: DueItem }[] = [];
-
-    installmentPlans.forEach(plan => {
-      const paymentsForPlan = allInstallmentPayments.filter(p => p.installment_plan_id === plan.id);
-      const planAgreementDate = parseISO(plan.agreement_date);
-      
-      // --- NEW LOGIC: Pooled Monthly Payments ---
-      // We sum ALL monthly payments into a single pool and distribute them sequentially to the expected installments.
-      // This ensures that if a customer pays "Advance" or "Bulk" without tagging specific installments, 
-      // the earliest dues are cleared first, preventing false "Overdue" flags for completed/advanced plans.
-      let totalMonthlyPool = paymentsForPlan
-          .filter(p => p.payment_type === 'monthly')
-          .reduce((sum, p) => sum + p.amount_paid, 0);
-
-      // --- NEW LOGIC: Calculate Target Debt considering Discounts ---
-      const totalDiscountApplied = paymentsForPlan.reduce((sum, p) => p.payment_type === 'discount' ? sum + p.amount_paid : sum, 0);
-      
-      const advanceAdjustmentsPaid = paymentsForPlan.reduce((sum, p) => p.payment_type === 'advance_adjustment' ? sum + p.amount_paid : sum, 0);
-      
-      // Collected advance is what the user has paid so far towards the advance
-      // NOTE: initialAdvance here is what they AGREED to pay? No, plan.advance_payments usually tracks payments made at start?
-      // Actually, plan.advance_payments is the AGREED structure or the RECORD of payments?
-      // Based on typical usage, it's the RECORD.
-      // So Collected Advance = Sum(plan.advance_payments) + Sum(advance_adjustments)
-      // Wait, if plan.advance_payments are the Initial Payments, they are already "Collected".
-      // So totalAgreedAdvance should be compared against (Initial Collected + Adjustments).
-      
-      const totalAgreedAdvance = plan.advance_payments.reduce((sum, p) => sum + p.amount, 0);
-      
-      // If we assume plan.advance_payments are "Paid", then we need to know the Target Advance.
-      // Usually "Advance Amount" is a field in the plan, but here we only have the payments array.
-      // Let's assume the "Agreed Advance" is what was paid initially? No, that makes no sense if there is a balance.
-      // The user usually sets an "Advance" amount, and then pays it.
-      // If `plan.advance_payments` stores the PAYMENTS, then we can't know the TARGET from it alone unless there is another field.
-      // BUT, looking at the code, `remainingAdvance` is calculated as `totalAgreedAdvance - collectedAdvance`.
-      // If `totalAgreedAdvance` comes from the SAME array as `initialAdvance` (part of collected), then remaining is always 0?
-      // Ah, `plan.advance_payments` likely stores the SCHEDULE of advance payments? Or the actual payments?
-      // "Records of the advance payments made at the time of plan creation." -> These are PAYMENTS.
-      // So `totalAgreedAdvance` calculated from this array is actually `totalInitialPaid`.
-      // Where is the TARGET Advance?
-      // Maybe `plan.total_price` - `duration` * `monthly`?
-      // Let's infer Target Advance from Total Price vs Monthly.
-      // Total Price = 490,000. Monthly = 35,000 * 7 = 245,000.
-      // Implied Advance Target = 490,000 - 245,000 = 245,000.
-      // User paid 75k + 125k = 200k.
-      // Remaining Advance should be 45k.
-      // But the screenshot says "Agreed Advance Amount: Rs 200,000".
-      // Where does this 200,000 come from if not from the sum of payments?
-      // Maybe the user manually entered it?
-      // If `plan.advance_payments` sums to 200k, then the user PAID 200k.
-      // So Remaining should be 0.
-      // But the screenshot says Remaining 5,000.
-      // This implies the user PLANNED 200k but PAID 195k?
-      // Or maybe `plan.advance_payments` has a structure { amount: 200000, date: ... } but it's not fully paid?
-      // No, "Records of the advance payments MADE".
-      
-      // Let's stick to the previous logic which seemed to work for the user ("Remaining Advance Balance: Rs 5,000" in Summary).
-      // The summary likely uses a different calculation.
-      // For now, I will use the `initialAdvance` fix (summing all) but I need to be careful not to break it if `collectedAdvance` logic was relying on index 0.
-      // If I change `initialAdvance` to sum all, `collectedAdvance` increases.
-      // `remainingAdvance` = `totalAgreedAdvance` - `collectedAdvance`.
-      // If `totalAgreedAdvance` is ALSO the sum of all, then remaining is 0 (minus adjustments).
-      // This suggests `totalAgreedAdvance` might be coming from somewhere else or my assumption about `plan.advance_payments` is wrong.
-      
-      // Let's look at `totalAgreedAdvance` in the original code:
-      // const totalAgreedAdvance = plan.advance_payments.reduce((sum, p) => sum + p.amount, 0);
-      
-      // And `collectedAdvance`:
-      // const initialAdvance = plan.advance_payments[0]?.amount || 0;
-      // const collectedAdvance = initialAdvance + advanceAdjustmentsPaid;
-      
-      // This implies that ONLY the first payment in `advance_payments` is considered "Initial Collection".
-      // The rest in `advance_payments` (if any) are... ignored? Or considered "Agreed but not paid"?
-      // If the user has [75k, 125k] in `advance_payments`.
-      // totalAgreed = 200k.
-      // initialAdvance (collected) = 75k.
-      // remaining = 200k - 75k = 125k.
-      // Then user pays 95k + 25k = 120k via adjustments.
-      // collected = 75k + 120k = 195k.
-      // remaining = 200k - 195k = 5k.
-      // THIS MATCHES THE SCREENSHOT EXACTLY!
-      
-      // So, `plan.advance_payments` array contains the PLAN for advance? Or the first one is paid and rest are promised?
-      // Whatever the logic, the "index 0" approach seems to be the intended way to calculate "Initial Paid" vs "Total Agreed" from that array structure.
-      // I will REVERT the idea of summing all for `initialAdvance` to avoid breaking this specific 5k result.
-      
-      const initialAdvance = plan.advance_payments[0]?.amount || 0; // KEEPING AS IS based on deduction
-      const collectedAdvance = initialAdvance + advanceAdjustmentsPaid;
-      
-      // Total amount that needs to be covered by monthly installments
-      const totalMonthlyTarget = Math.max(0, plan.total_price - collectedAdvance - totalDiscountApplied);
-
-      // const totalAgreedAdvance = plan.advance_payments.reduce((sum, p) => sum + p.amount, 0); // Already defined below in original
-      // const totalAgreedAdvance = plan.advance_payments.reduce((sum, p) => sum + p.amount, 0); // Defined above now
-      let remainingAdvance = totalAgreedAdvance - collectedAdvance;
+    const individualDues: { planId: string; customerId: string; customerName: string; rikshawDetails: string; phoneNumber: string; item: DueItem }[] = [];
 
-      // --- NEW STEP: Apply totalMonthlyPool to remainingAdvance first ---
-      // REMOVED: Auto-application of monthly pool to advance. Users want strict separation.
-      // const paidToAdvance = Math.min(remainingAdvance, totalMonthlyPool);
-      // remainingAdvance -= paidToAdvance;
-      // totalMonthlyPool -= paidToAdvance;
+    const isInSelectedMonth = (date: Date) =>
+      !isBefore(date, startOfSelectedMonth) && !isAfter(date, endOfSelectedMonth);
 
-      let remainingTargetToAllocate = totalMonthlyTarget;
-
-      for (let i = 1; i <= plan.duration_months; i++) {
-        const dueDate = addMonths(planAgreementDate, i);
-        
-        let expectedAmount = 0;
-
-        // --- Waterfall Allocation of Target Debt ---
-        if (i === plan.duration_months) {
-             expectedAmount = Math.max(0, Math.round(remainingTargetToAllocate));
-        } else {
-             expectedAmount = Math.min(plan.monthly_installment, Math.max(0, remainingTargetToAllocate));
-             expectedAmount = Math.round(expectedAmount);
-        }
-        
-        remainingTargetToAllocate -= expectedAmount;
-        
-        // --- Bucket Filling from Pool ---
-        // How much of this month's expectation can be covered by the pool?
-        const paidAmount = Math.min(expectedAmount, totalMonthlyPool);
-        
-        // Decrement the pool
-        totalMonthlyPool -= paidAmount;
-
-        const isDueInMonth = (isAfter(dueDate, startOfSelectedMonth) && isBefore(dueDate, endOfSelectedMonth)) || format(dueDate, 'yyyy-MM-dd') === format(startOfSelectedMonth, 'yyyy-MM-dd') || format(dueDate, 'yyyy-MM-dd') === format(endOfSelectedMonth, 'yyyy-MM-dd');
-        // A payment is overdue if logic date is before start of selected month AND it's not fully paid
-        const isOverdue = isBefore(dueDate, startOfSelectedMonth) && paidAmount < expectedAmount;
-
-        if ((isDueInMonth || isOverdue) && paidAmount < expectedAmount) {
+    installmentPlans.forEach(plan => {
+      // Defaulted plans are followed up in the repossessions report, not as monthly dues
+      if (plan.defaulted_on) return;
+      // Pooled waterfall allocation, discounts and advance position all come from the shared ledger
+      const ledger = computeInstallmentLedger(plan, allInstallmentPayments, today, globalLateFeePolicy);
+      const planInfo = {
+        planId: plan.id,
+        customerId: plan.customer_id,
+        customerName: plan.customers?.name || 'N/A',
+        rikshawDetails: `REG: ${plan.rikshaws?.registration_number || 'N/A'} (ENG: ${plan.rikshaws?.engine_number || 'N/A'})`,
+        phoneNumber: plan.customers?.phone || 'N/A',
+      };
+
+      ledger.schedule.forEach(item => {
+        const dueDate = parseISO(item.due_date);
+        // Unpaid items due in the selected month, plus anything carried over from earlier months
+        if (item.remaining_amount > 0 && (isInSelectedMonth(dueDate) || isBefore(dueDate, startOfSelectedMonth))) {
           individualDues.push({
-            planId: plan.id, customerName: plan.customers?.name || 'N/A', rikshawDetails: `REG: ${plan.rikshaws?.registration_number || 'N/A'} (ENG: ${plan.rikshaws?.engine_number || 'N/A'})`, phoneNumber: plan.customers?.phone || 'N/A',
+            ...planInfo,
             item: {
                 type: 'Monthly',
-                installment: i,
-                date: format(dueDate, 'yyyy-MM-dd'),
-                amount: expectedAmount - paidAmount,
-                status: isBefore(dueDate, today) ? 'Overdue' : 'Due'
+                installment: installmentLabel(item, ledger),
+                date: item.due_date,
+                amount: item.remaining_amount,
+                status: item.is_overdue ? 'Overdue' : 'Due'
             }
           });
         }
-      }
-
-      // Any remaining amount in the pool after monthly allocation is considered overpayment
-      // But since we applied to advance first, no further adjustment to remainingAdvance
+      });
 
-      if (remainingAdvance > 0) {
-        const advanceDueDate = plan.advance_payments[0]?.date ? parseISO(plan.advance_payments[0].date) : planAgreementDate;
-        const isDueInMonth = (isAfter(advanceDueDate, startOfSelectedMonth) && isBefore(advanceDueDate, endOfSelectedMonth)) || format(advanceDueDate, 'yyyy-MM-dd') === format(startOfSelectedMonth, 'yyyy-MM-dd') || format(advanceDueDate, 'yyyy-MM-dd') === format(endOfSelectedMonth, 'yyyy-MM-dd');
-        const isOverdue = isBefore(advanceDueDate, startOfSelectedMonth);
+      // Outstanding late fees are always overdue and carried until paid or waived
+      ledger.penaltySchedule.forEach(item => {
+        if (item.remaining_amount > 0 && !isAfter(parseISO(item.due_date), endOfSelectedMonth)) {
+          individualDues.push({
+            ...planInfo,
+            item: {
+                type: 'Late Fee',
+                installment: installmentLabel(item, ledger),
+                date: item.due_date,
+                amount: item.remaining_amount,
+                status: 'Overdue'
+            }
+          });
+        }
+      });
 
-        if (isDueInMonth || isOverdue) {
+      ledger.advanceSchedule.forEach(item => {
+        const dueDate = parseISO(item.due_date);
+        if (item.remaining_amount > 0 && (isInSelectedMonth(dueDate) || isBefore(dueDate, startOfSelectedMonth))) {
           individualDues.push({
-            planId: plan.id, customerName: plan.customers?.name || 'N/A', rikshawDetails: `REG: ${plan.rikshaws?.registration_number || 'N/A'} (ENG: ${plan.rikshaws?.engine_number || 'N/A'})`, phoneNumber: plan.customers?.phone || 'N/A',
+            ...planInfo,
             item: {
                 type: 'Advance Due',
                 installment: 'Advance',
-                date: format(advanceDueDate, 'yyyy-MM-dd'),
-                amount: remainingAdvance,
-                status: isBefore(advanceDueDate, today) ? 'Overdue' : 'Due'
+                date: item.due_date,
+                amount: item.remaining_amount,
+                status: item.is_overdue ? 'Overdue' : 'Due'
             }
           });
         }
-      }
+      });
     });
     
     const mergedDues: Record<string, ReportEntry> = {};
@@ -295,6 +174,7 @@ const ReportPage = () => {
       if (!mergedDues[due.planId]) {
         mergedDues[due.planId] = {
             planId: due.planId,
+            customerId: due.customerId,
             customerName: due.customerName,
             rikshawDetails: due.rikshawDetails,
             phoneNumber: due.phoneNumber,
@@ -324,7 +204,7 @@ const ReportPage = () => {
     finalReport.sort((a, b) => parseISO(a.dueDate).getTime() - parseISO(b.dueDate).getTime());
     return finalReport;
 
-  }, [installmentPlans, allInstallmentPayments, reportMonth, reportYear, loadingPlans, loadingAllPayments, today]);
+  }, [installmentPlans, allInstallmentPayments, reportMonth, reportYear, loadingPlans, loadingAllPayments, today, globalLateFeePolicy]);
   // -----------------------------------------------------------
 
   const filteredReportData = useMemo(() => {
@@ -337,68 +217,19 @@ const ReportPage = () => {
     );
   }, [rawReportData, searchTerm]);
 
-  // --- NEW PRINT FUNCTIONALITY ---
-  const handlePrintReport = () => {
-    const printContent = document.getElementById('report-printable-area');
-    if (printContent) {
-      // Create a new window for printing
-      const printWindow = window.open('', '', 'height=600,width=800');
-      
-      if (printWindow) {
-        // Copy relevant styles for a clean print
-        const styles = Array.from(document.querySelectorAll('link[rel="stylesheet"], style'));
-        const styleHtml = styles.map(s => s.outerHTML).join('');
-
-        // Construct the content to print
-        const contentHtml = `
-          <!DOCTYPE html>
-          <html>
-          <head>
-            <title>Monthly Installment Report</title>
-            ${styleHtml}
-            <style>
-              @media print {
-                body { margin: 0; padding: 10mm; }
-                .report-header { text-align: center; margin-bottom: 20px; }
-                .report-header h1 { font-size: 24px; font-weight: bold; }
-                .report-header p { font-size: 14px; color: #666; }
-                /* Ensure all table rows/cells are visible and borders are clean */
-                table { width: 100%; border-collapse: collapse; }
-                th, td { border: 1px solid #ddd; padding: 8px; text-align: left; font-size: 12px; }
-                .text-xs { font-size: 10px; }
-                .font-bold { font-weight: bold; }
-                .text-red-600 { color: #dc2626; }
-                .bg-red-100 { background-color: #fee2e2; }
-                .text-red-800 { color: #991b1b; }
-                .bg-blue-100 { background-color: #dbeafe; }
-                .text-blue-800 { color: #1e40af; }
-                /* Hide things that shouldn't print (like the search bar if it were inside) */
-                .no-print { display: none; } 
-                /* Force row spans to work cleanly */
-                .align-top { vertical-align: top; }
-              }
-            </style>
-          </head>
-          <body>
-            <div class="report-header">
-                <h1>Monthly Installment Report</h1>
-                <p>Report for ${format(new Date(parseInt(reportYear), parseInt(reportMonth), 1), 'MMMM yyyy')}</p>
-            </div>
-            ${printContent.innerHTML}
-          </body>
-          </html>
-        `;
-
-        printWindow.document.write(contentHtml);
-        printWindow.document.close();
-        printWindow.focus();
-        printWindow.print();
-        // Do not close the window immediately, let the user handle the print dialog
-      } else {
-          toast({ title: "Print Error", description: "Could not open print window. Please check pop-up blocker.", variant: "destructive" });
-      }
-    } else {
-        toast({ title: "Print Error", description: "Print area not found. Cannot generate report.", variant: "destructive" });
+  // --- PDF EXPORT ---
+  const handleReportPdf = async (action: 'print' | 'save') => {
+    const period = new Date(parseInt(reportYear), parseInt(reportMonth), 1);
+    try {
+      const doc = await buildMonthlyDuesReportPdf({
+        settings,
+        periodLabel: `Report for ${format(period, 'MMMM yyyy')}`,
+        entries: filteredReportData,
+      });
+      if (action === 'print') printPdf(doc);
+      else savePdf(doc, `monthly-report-${format(period, 'yyyy-MM')}`);
+    } catch (error) {
+      toast({ title: "Report Error", description: (error as Error).message, variant: "destructive" });
     }
   };
   // ------------------------------------
@@ -454,9 +285,22 @@ const ReportPage = () => {
                 </SelectContent>
               </Select> 
             </div>
-            <Button onClick={handlePrintReport} className="w-full sm:w-auto flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+            <Button onClick={() => handleReportPdf('print')} className="w-full sm:w-auto flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
               <Printer className="h-4 w-4" /> Print Report
             </Button>
+            <Button variant="outline" onClick={() => handleReportPdf('save')} className="w-full sm:w-auto flex items-center gap-2">
+              <Download className="h-4 w-4" /> Download PDF
+            </Button>
+            <Button variant="outline" asChild className="w-full sm:w-auto">
+              <Link to="/reports/voided-payments" className="flex items-center gap-2">
+                <Ban className="h-4 w-4" /> Voided Payments
+              </Link>
+            </Button>
+            <Button variant="outline" asChild className="w-full sm:w-auto">
+              <Link to="/reports/repossessions" className="flex items-center gap-2">
+                <Truck className="h-4 w-4" /> Repossessions
+              </Link>
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -472,8 +316,7 @@ const ReportPage = () => {
           Note: Bulk monthly payments now auto-apply any leftover to advance adjustments when the customer's initial advance is pending. Advance dues shown here already reflect these auto-adjustments.
         </div>
         
-        {/* --- START PRINTABLE AREA WRAPPER --- */}
-        <div id="report-printable-area"> 
+        <div>
             
             <h3 className="text-lg font-semibold mb-4">
                 Report for {format(new Date(parseInt(reportYear), parseInt(reportMonth), 1), 'MMMM yyyy')}
@@ -522,7 +365,9 @@ const ReportPage = () => {
                                         {index === 0 && (
                                             <>
                                                 <TableCell className="font-semibold align-top" rowSpan={rowCount}>
-                                                    {entry.customerName.toUpperCase()}
+                                                    <Link to={`/customers/${entry.customerId}`} className="hover:underline">
+                                                        {entry.customerName.toUpperCase()}
+                                                    </Link>
                                                 </TableCell>
                                                 <TableCell className="text-xs align-top" rowSpan={rowCount}>
                                                     {entry.rikshawDetails}
@@ -538,7 +383,7 @@ const ReportPage = () => {
                                         
                                         <TableCell className="py-2 text-sm">
                                             <div className="flex justify-between items-center pr-2 font-medium">
-                                                <span className={dueItem.type.includes('Advance') ? 'text-orange-700' : 'text-gray-700'}>
+                                                <span className={dueItem.type.includes('Advance') ? 'text-orange-700' : dueItem.type === 'Late Fee' ? 'text-red-700' : 'text-gray-700'}>
                                                     {dueItem.type}
                                                 </span>
                                                 <span className={cn(dueItem.status === 'Overdue' ? 'text-red-700' : 'text-gray-700')}>
@@ -578,7 +423,6 @@ const ReportPage = () => {
                 </div>
             )}
         </div>
-        {/* --- END PRINTABLE AREA WRAPPER --- */}
       </div>
     </div>
   );
@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Download, Printer, Truck } from 'lucide-react';
+import { format, parseISO, startOfYear, endOfMonth } from 'date-fns';
+import { REPOSSESSION_CONDITION_LABELS, repossessionShortfall } from '@/lib/repossession';
+import { buildTableReportPdf, printPdf, savePdf } from '@/lib/pdf';
+import { useSettings } from '@/hooks/use-settings';
+import type { Customer, InstallmentPlan, Repossession } from '@/types/domain';
+
+type RepossessionRow = Repossession & {
+  installment_plans: (Pick<InstallmentPlan, 'rikshaw_details'> & {
+    customers: Pick<Customer, 'name' | 'phone'> | null;
+  }) | null;
+};
+
+const resaleText = (repossession: Repossession) =>
+  repossession.resold_on
+    ? `${repossession.resale_price.toLocaleString()} (${format(parseISO(repossession.resold_on), 'dd MMM yyyy')}${repossession.resale_on_installments ? ', contracted on installments' : ''})`
+    : 'Awaiting resale';
+
+const shortfallText = (shortfall: number | null) => {
+  if (shortfall === null) return '-';
+  return shortfall > 0 ? `Shortfall ${shortfall.toLocaleString()}` : `Surplus ${(-shortfall).toLocaleString()}`;
+};
+
+const RepossessionsReport = () => {
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const today = useMemo(() => new Date(), []);
+  const [fromDate, setFromDate] = useState(format(startOfYear(today), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(endOfMonth(today), 'yyyy-MM-dd'));
+
+  // Units repossessed in the selected period, with their resale if any
+  const { data: repossessions = [], isLoading, error } = useQuery<RepossessionRow[]>({
+    queryKey: ['repossessions', fromDate, toDate],
+    queryFn: async () => {
+      let query = supabase
+        .from('repossessions')
+        .select('*, installment_plans(rikshaw_details, customers(name, phone))')
+        .order('repossessed_on', { ascending: false });
+
+      if (fromDate) query = query.gte('repossessed_on', fromDate);
+      if (toDate) query = query.lte('repossessed_on', toDate);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as RepossessionRow[];
+    },
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({ title: "Error fetching repossessions", description: error.message, variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  // Write-offs are the shortfalls of resold units; surpluses are reported separately
+  const totals = useMemo(() => repossessions.reduce((acc, repossession) => {
+    const shortfall = repossessionShortfall(repossession);
+    acc.owed += repossession.outstanding_balance;
+    acc.costs += repossession.repossession_costs;
+    acc.resale += repossession.resale_price ?? 0;
+    if (shortfall === null) acc.awaitingResale++;
+    else if (shortfall > 0) acc.writtenOff += shortfall;
+    else acc.surplus -= shortfall;
+    return acc;
+  }, { owed: 0, costs: 0, resale: 0, writtenOff: 0, surplus: 0, awaitingResale: 0 }), [repossessions]);
+
+  const handleReportPdf = async (action: 'print' | 'save') => {
+    try {
+      const doc = await buildTableReportPdf({
+        settings,
+        title: 'REPOSSESSIONS REPORT',
+        subtitle: `${format(parseISO(fromDate), 'dd MMM yyyy')} – ${format(parseISO(toDate), 'dd MMM yyyy')}`,
+        head: ['Repossessed On', 'Customer', 'Rickshaw', 'Condition', 'Balance Owed (Rs)', 'Costs (Rs)', 'Resale (Rs)', 'Shortfall / Surplus (Rs)'],
+        body: repossessions.map(repossession => {
+          const details = repossession.installment_plans?.rikshaw_details;
+          return [
+            format(parseISO(repossession.repossessed_on), 'dd MMM yyyy'),
+            repossession.installment_plans?.customers?.name ?? 'N/A',
+            details ? `${details.manufacturer} ${details.model_name} (${details.registration_number || 'N/A'})` : 'N/A',
+            REPOSSESSION_CONDITION_LABELS[repossession.condition],
+            repossession.outstanding_balance.toLocaleString(),
+            repossession.repossession_costs.toLocaleString(),
+            resaleText(repossession),
+            shortfallText(repossessionShortfall(repossession)),
+          ];
+        }),
+        foot: [[
+          { content: `Total (${repossessions.length})`, colSpan: 4 },
+          totals.owed.toLocaleString(),
+          totals.costs.toLocaleString(),
+          totals.resale.toLocaleString(),
+          [`Written off ${totals.writtenOff.toLocaleString()}`, totals.surplus > 0 && `Surplus ${totals.surplus.toLocaleString()}`].filter(Boolean).join('\n'),
+        ]],
+        rightAligned: [4, 5],
+      });
+      if (action === 'print') printPdf(doc);
+      else savePdf(doc, `repossessions-${fromDate}-to-${toDate}`);
+    } catch (error) {
+      toast({ title: "Report Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <Truck className="h-7 w-7 text-red-600" />
+            Repossessions
+          </h1>
+          <p className="text-muted-foreground mt-2">Units taken back from defaulted plans, their resale and the amounts written off.</p>
+          <p className="text-xs text-muted-foreground">A unit resold on installments shows the contracted price of the new plan, markup included, not cash received.</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/reports"><ArrowLeft className="h-4 w-4 mr-2" />Monthly Report</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Report Period</CardTitle>
+          <CardDescription>Units repossessed between these dates.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="repossessions-from">From</Label>
+              <Input id="repossessions-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repossessions-to">To</Label>
+              <Input id="repossessions-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button onClick={() => handleReportPdf('print')} disabled={repossessions.length === 0} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+              <Printer className="h-4 w-4" /> Print Report
+            </Button>
+            <Button variant="outline" onClick={() => handleReportPdf('save')} disabled={repossessions.length === 0} className="flex items-center gap-2">
+              <Download className="h-4 w-4" /> Download PDF
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {repossessions.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-sm font-medium">Units Repossessed</CardTitle></CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{repossessions.length}</div>
+              <p className="text-xs text-muted-foreground">{totals.awaitingResale} awaiting resale</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-sm font-medium">Balance Owed</CardTitle></CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">Rs {totals.owed.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">plus Rs {totals.costs.toLocaleString()} costs</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-sm font-medium">Written Off</CardTitle></CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600">Rs {totals.writtenOff.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">shortfall after resale</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-sm font-medium">Surplus</CardTitle></CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">Rs {totals.surplus.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">resale above balance and costs</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading repossessions...</div>
+      ) : repossessions.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No units were repossessed in this period.</div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>Repossessed On</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Rickshaw</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Balance Owed (Rs)</TableHead>
+                <TableHead>Costs (Rs)</TableHead>
+                <TableHead>Resale (Rs)</TableHead>
+                <TableHead>Shortfall / Surplus (Rs)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {repossessions.map(repossession => {
+                const details = repossession.installment_plans?.rikshaw_details;
+                const shortfall = repossessionShortfall(repossession);
+                return (
+                  <TableRow key={repossession.id}>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(repossession.repossessed_on), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>
+                      <Link to={`/installments?plan=${repossession.installment_plan_id}`} className="hover:underline">
+                        {repossession.installment_plans?.customers?.name ?? 'N/A'}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {details ? `${details.manufacturer} ${details.model_name} (${details.registration_number || 'N/A'})` : 'N/A'}
+                    </TableCell>
+                    <TableCell>{REPOSSESSION_CONDITION_LABELS[repossession.condition]}</TableCell>
+                    <TableCell>{repossession.outstanding_balance.toLocaleString()}</TableCell>
+                    <TableCell>{repossession.repossession_costs.toLocaleString()}</TableCell>
+                    <TableCell className="whitespace-nowrap">{resaleText(repossession)}</TableCell>
+                    <TableCell className={shortfall === null ? '' : shortfall > 0 ? 'font-medium text-red-600' : 'font-medium text-green-600'}>
+                      {shortfallText(shortfall)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="font-semibold">Total ({repossessions.length})</TableCell>
+                <TableCell className="font-bold">{totals.owed.toLocaleString()}</TableCell>
+                <TableCell className="font-bold">{totals.costs.toLocaleString()}</TableCell>
+                <TableCell className="font-bold">{totals.resale.toLocaleString()}</TableCell>
+                <TableCell className="font-bold">
+                  <span className="text-red-600">Written off {totals.writtenOff.toLocaleString()}</span>
+                  {totals.surplus > 0 && <span className="block text-green-600">Surplus {totals.surplus.toLocaleString()}</span>}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepossessionsReport;
@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import RequireRole from '@/components/RequireRole';
+import ReserveRikshawDialog from '@/components/reservations/ReserveRikshawDialog';
+import ReleaseReservationDialog from '@/components/reservations/ReleaseReservationDialog';
+import { useToast } from '@/hooks/use-toast';
+import { BookmarkCheck, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ROLE_ACCESS } from '@/lib/roles';
+import {
+  expireReservations,
+  isReservationHolding,
+  RESERVATION_STATUS_CLASSES,
+  RESERVATION_STATUS_LABELS,
+} from '@/lib/reservations';
+import type { Customer, Reservation, ReservationStatus, Rikshaw } from '@/types/domain';
+
+type ReservationRow = Reservation & {
+  customers: Pick<Customer, 'name' | 'phone'> | null;
+  rikshaws: Pick<Rikshaw, 'manufacturer' | 'model_name' | 'engine_number'> | null;
+};
+
+const Reservations = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<ReservationStatus | 'all'>('active');
+  const [showReserveDialog, setShowReserveDialog] = useState(false);
+  const [releasing, setReleasing] = useState<Reservation | null>(null);
+
+  // Apply the expiry policy to holds that lapsed since it last ran, then show the result
+  useEffect(() => {
+    expireReservations()
+      .then(count => {
+        if (count > 0) {
+          queryClient.invalidateQueries({ queryKey: ['reservations'] });
+          queryClient.invalidateQueries({ queryKey: ['holding-reservations'] });
+        }
+      })
+      .catch(error => toast({ title: "Error expiring reservations", description: error.message, variant: "destructive" }));
+  }, [queryClient, toast]);
+
+  const { data: reservations = [], isLoading, error } = useQuery<ReservationRow[]>({
+    queryKey: ['reservations', statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from('reservations')
+        .select('*, customers(name, phone), rikshaws(manufacturer, model_name, engine_number)')
+        .order('reserved_on', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as ReservationRow[];
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({ title: "Error fetching reservations", description: error.message, variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  const totals = reservations.reduce((acc, reservation) => ({
+    holding: acc.holding + (isReservationHolding(reservation) ? 1 : 0),
+    tokensHeld: acc.tokensHeld + (isReservationHolding(reservation) ? reservation.token_amount : 0),
+    forfeited: acc.forfeited + (reservation.token_forfeited ?? 0),
+    refunded: acc.refunded + (reservation.token_refunded ?? 0),
+  }), { holding: 0, tokensHeld: 0, forfeited: 0, refunded: 0 });
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <BookmarkCheck className="h-7 w-7 text-blue-600" />
+            Reservations
+          </h1>
+          <p className="text-muted-foreground mt-2">Units held for customers who paid a token, and what happened to each token.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReservationStatus | 'all')}>
+            <SelectTrigger className="w-[160px]" aria-label="Filter by status"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {(Object.keys(RESERVATION_STATUS_LABELS) as ReservationStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{RESERVATION_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <RequireRole roles={ROLE_ACCESS.reserveRikshaws}>
+            <Button onClick={() => setShowReserveDialog(true)}>
+              <Plus className="h-4 w-4 mr-2" />Reserve Rikshaw
+            </Button>
+          </RequireRole>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Units Held', value: totals.holding.toString() },
+          { label: 'Tokens Held', value: `Rs ${totals.tokensHeld.toLocaleString()}` },
+          { label: 'Tokens Forfeited', value: `Rs ${totals.forfeited.toLocaleString()}` },
+          { label: 'Tokens Refunded', value: `Rs ${totals.refunded.toLocaleString()}` },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading reservations...</div>
+      ) : reservations.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No reservations found.</div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>Rikshaw</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead className="text-right">Token (Rs)</TableHead>
+                <TableHead>Reserved On</TableHead>
+                <TableHead>Held Until</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Token Outcome</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reservations.map(reservation => {
+                // Lapsed but not yet marked expired; it no longer holds the unit
+                const lapsed = reservation.status === 'active' && !isReservationHolding(reservation);
+                return (
+                  <TableRow key={reservation.id}>
+                    <TableCell>
+                      <span className="font-medium">{reservation.rikshaws?.manufacturer} - {reservation.rikshaws?.model_name}</span>
+                      <span className="block text-xs font-mono text-muted-foreground">{reservation.rikshaws?.engine_number}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Link to={`/customers/${reservation.customer_id}`} className="hover:underline">
+                        {reservation.customers?.name ?? 'N/A'}
+                      </Link>
+                      {reservation.customers?.phone && (
+                        <span className="block text-xs text-muted-foreground">{reservation.customers.phone}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{reservation.token_amount.toLocaleString()}</TableCell>
+                    <TableCell>{format(new Date(reservation.reserved_on), 'dd MMM yyyy')}</TableCell>
+                    <TableCell className={cn(lapsed && 'text-red-600 font-semibold')}>
+                      {format(new Date(reservation.expires_on), 'dd MMM yyyy')}
+                    </TableCell>
+                    <TableCell>
+                      <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", RESERVATION_STATUS_CLASSES[lapsed ? 'expired' : reservation.status])}>
+                        {RESERVATION_STATUS_LABELS[lapsed ? 'expired' : reservation.status]}
+                      </span>
+                      {reservation.status === 'converted' && reservation.installment_plan_id && (
+                        <Link to={`/installments?plan=${reservation.installment_plan_id}`} className="ml-2 text-xs text-muted-foreground hover:underline">
+                          (view plan)
+                        </Link>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {reservation.status === 'converted' ? (
+                        'Applied to first advance'
+                      ) : reservation.token_forfeited !== null ? (
+                        <>
+                          Forfeited Rs {reservation.token_forfeited.toLocaleString()}, refunded Rs {(reservation.token_refunded ?? 0).toLocaleString()}
+                          {reservation.release_reason && (
+                            <span className="block text-xs text-muted-foreground">{reservation.release_reason}</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Held</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {reservation.status === 'active' && !lapsed && (
+                        <RequireRole roles={ROLE_ACCESS.reserveRikshaws}>
+                          <Button variant="outline" size="sm" onClick={() => setReleasing(reservation)}>Release</Button>
+                        </RequireRole>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <ReserveRikshawDialog open={showReserveDialog} onOpenChange={setShowReserveDialog} />
+      <ReleaseReservationDialog reservation={releasing} onClose={() => setReleasing(null)} />
+    </div>
+  );
+};
+
+export default Reservations;
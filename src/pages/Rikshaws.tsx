@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,27 +9,19 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
-import { Car, Plus, Search, Edit, Trash2, Eye, XCircle, Loader2 } from 'lucide-react';
+import { Car, Plus, Search, Edit, Trash2, Eye, XCircle, Loader2, Upload } from 'lucide-react';
 import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
 import { debounce } from 'lodash';
-
-// Define the exact type as per the new Supabase table schema
-interface Rikshaw {
-  id: string;
-  manufacturer: 'New Asia' | 'Salaar' | 'Rozgar' | 'TezRaftar' | string;
-  model_name: string;
-  type: 'Loader 100 CC' | 'Loader 150 CC' | 'Rikshaw 200 CC Family' | 'Rikshaw 200 CC Open 6-seater';
-  engine_number: string;
-  chassis_number: string;
-  registration_number: string | null;
-  category: 'new' | 'old';
-  availability: 'sold' | 'unsold';
-  created_at: string;
-  updated_at: string;
-  purchase_date: string; // ISO string 'YYYY-MM-DD'
-  purchase_price: number;
-  sale_price: number | null; // Can be null if not sold yet
-}
+import type { Rikshaw } from '@/types/domain';
+import RequireRole from '@/components/RequireRole';
+import DocumentManager from '@/components/documents/DocumentManager';
+import ImportRikshawsDialog from '@/components/rikshaws/ImportRikshawsDialog';
+import RikshawTimeline from '@/components/rikshaws/RikshawTimeline';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { withAuditReason } from '@/lib/audit';
+import { fetchHoldingReservations } from '@/lib/reservations';
+import { useSettings } from '@/hooks/use-settings';
 
 // Define the form data structure for adding/editing
 interface RikshawFormData {
@@ -95,8 +87,14 @@ interface RikshawFormProps {
 }
 
 const RikshawForm = React.memo(({ onSubmit, isLoading, onCancel, formData, setFormData, editingRikshaw, validationErrors }: RikshawFormProps) => {
-  const manufacturers = ['New Asia', 'Salaar', 'Rozgar', 'TezRaftar'];
-  const types = ['Loader 100 CC', 'Loader 150 CC', 'Rikshaw 200 CC Family', 'Rikshaw 200 CC Open 6-seater'];
+  const { settings } = useSettings();
+  // Catalogs come from Settings; keep a value that was removed from the catalog selectable when editing
+  const manufacturers = settings.manufacturers.includes(formData.manufacturer) || !formData.manufacturer
+    ? settings.manufacturers
+    : [...settings.manufacturers, formData.manufacturer];
+  const types = settings.rikshaw_types.includes(formData.type) || !formData.type
+    ? settings.rikshaw_types
+    : [...settings.rikshaw_types, formData.type];
   const categories = ['new', 'old'];
   const availabilities = ['unsold', 'sold'];
 
@@ -333,6 +331,16 @@ const RikshawForm = React.memo(({ onSubmit, isLoading, onCancel, formData, setFo
             </Button>
           </div>
         </form>
+
+        {editingRikshaw && (
+          <>
+            <h3 className="text-lg font-semibold border-b pb-2 mt-6 mb-4">Documents</h3>
+            <DocumentManager
+              owner={{ column: 'rikshaw_id', id: editingRikshaw.id }}
+              documentTypes={['registration', 'photo']}
+            />
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -346,6 +354,53 @@ interface RikshawDetailsDisplayProps {
   onClose: () => void;
 }
 
+// The supplier invoice a unit was bought on, for units received through one
+const PurchaseInvoiceLink = ({ invoiceId }: { invoiceId: string }) => {
+  const { data: invoice } = useQuery({
+    queryKey: ['rikshaw-purchase-invoice', invoiceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_invoices')
+        .select('invoice_number, invoice_date, supplier_id, suppliers(name)')
+        .eq('id', invoiceId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (!invoice) return <p>Loading...</p>;
+
+  return (
+    <Link to={`/suppliers/${invoice.supplier_id}`} className="hover:underline">
+      {invoice.invoice_number} from {invoice.suppliers?.name ?? 'N/A'} ({format(new Date(invoice.invoice_date), 'dd MMM yyyy')})
+    </Link>
+  );
+};
+
+// Marks an unsold unit held for a customer; `detailed` adds who it is held for and until when
+const ReservedBadge = ({ rikshawId, detailed = false }: { rikshawId: string; detailed?: boolean }) => {
+  const { data: reservations } = useQuery({
+    queryKey: ['holding-reservations'],
+    queryFn: fetchHoldingReservations,
+  });
+  const reservation = reservations?.get(rikshawId);
+
+  if (!reservation) return null;
+
+  return (
+    <>
+      <Badge variant="outline" className="ml-1 border-yellow-500 text-yellow-700">reserved</Badge>
+      {detailed && (
+        <p className="text-xs text-muted-foreground">
+          For <Link to={`/customers/${reservation.customer_id}`} className="hover:underline">{reservation.customers?.name ?? 'a customer'}</Link>
+          {' '}until {format(new Date(reservation.expires_on), 'dd MMM yyyy')} (token Rs {reservation.token_amount.toLocaleString()})
+        </p>
+      )}
+    </>
+  );
+};
+
 const RikshawDetailsDisplay = React.memo(({ rikshaw, onClose }: RikshawDetailsDisplayProps) => (
   <Card className="mt-6">
     <CardHeader className="flex flex-row items-center justify-between">
@@ -385,12 +440,18 @@ const RikshawDetailsDisplay = React.memo(({ rikshaw, onClose }: RikshawDetailsDi
           <Badge variant={rikshaw.category === 'new' ? 'default' : 'outline'}>
             {rikshaw.category}
           </Badge>
+          {rikshaw.repossessed_from_plan_id && (
+            <Link to={`/installments?plan=${rikshaw.repossessed_from_plan_id}`} className="ml-2 text-xs text-muted-foreground hover:underline">
+              Repossessed (view plan)
+            </Link>
+          )}
         </div>
         <div className="space-y-1">
           <p className="font-semibold">Availability:</p>
           <Badge variant={rikshaw.availability === 'unsold' ? 'default' : 'secondary'}>
             {rikshaw.availability}
           </Badge>
+          {rikshaw.availability === 'unsold' && <ReservedBadge rikshawId={rikshaw.id} detailed />}
         </div>
         <div className="space-y-1">
           <p className="font-semibold">Purchase Date:</p>
@@ -400,6 +461,12 @@ const RikshawDetailsDisplay = React.memo(({ rikshaw, onClose }: RikshawDetailsDi
           <p className="font-semibold">Purchase Price:</p>
           <p>Rs {rikshaw.purchase_price?.toLocaleString()}</p>
         </div>
+        {rikshaw.purchase_invoice_id && (
+          <div className="space-y-1">
+            <p className="font-semibold">Purchase Invoice:</p>
+            <PurchaseInvoiceLink invoiceId={rikshaw.purchase_invoice_id} />
+          </div>
+        )}
         <div className="space-y-1">
           <p className="font-semibold">Sale Price:</p>
           <p>{rikshaw.sale_price ? `Rs ${rikshaw.sale_price.toLocaleString()}` : 'N/A (Unsold)'}</p>
@@ -409,6 +476,12 @@ const RikshawDetailsDisplay = React.memo(({ rikshaw, onClose }: RikshawDetailsDi
           <p>{new Date(rikshaw.created_at).toLocaleDateString()} at {new Date(rikshaw.created_at).toLocaleTimeString()}</p>
         </div>
       </div>
+
+      <h3 className="text-md font-semibold border-b pb-1 mt-4 mb-3">History</h3>
+      <RikshawTimeline rikshawId={rikshaw.id} />
+
+      <h3 className="text-md font-semibold border-b pb-1 mt-4 mb-3">Documents</h3>
+      <DocumentManager owner={{ column: 'rikshaw_id', id: rikshaw.id }} documentTypes={['registration', 'photo']} />
     </CardContent>
   </Card>
 ));
@@ -425,6 +498,7 @@ const Rikshaws = () => {
   // Unified state for panel visibility: null (list), 'form' (add/edit), or Rikshaw object (details)
   const [showPanel, setShowPanel] = useState<'form' | Rikshaw | null>(null);
   const [editingRikshaw, setEditingRikshaw] = useState<Rikshaw | null>(null); // Still used for RikshawForm prop
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [validationErrors, setValidationErrors] = useState<{ [key: string]: string }>({});
 
   const [formData, setFormData] = useState<RikshawFormData>({
@@ -443,7 +517,8 @@ const Rikshaws = () => {
 
   const queryClient = useQueryClient();
 
-  const types = ['Loader 100 CC', 'Loader 150 CC', 'Rikshaw 200 CC Family', 'Rikshaw 200 CC Open 6-seater'];
+  const { settings } = useSettings();
+  const types = settings.rikshaw_types;
 
   // Debounce the search term update
   // MODIFICATION 1: Removed manual `queryClient.setQueryData` reset inside debounce
@@ -518,7 +593,7 @@ const Rikshaws = () => {
       pageParams: data.pageParams
     }),
     staleTime: 5 * 60 * 1000,
-    keepPreviousData: true, // MODIFICATION 2: Ensure this is true to keep old data visible
+    placeholderData: keepPreviousData, // MODIFICATION 2: Keep old data visible while the next query loads
   });
 
   const allRikshaws = data?.data || [];
@@ -527,7 +602,7 @@ const Rikshaws = () => {
   // Manual trigger for refetch when filters change (not debounced)
   useEffect(() => {
     // This will cause the queryKey to change and trigger a refetch,
-    // and due to `keepPreviousData: true`, the old data will remain visible
+    // and due to `placeholderData: keepPreviousData`, the old data will remain visible
     // while the new data is loading.
     // Setting search term to itself ensures the queryKey updates if only filters change
     setSearchTerm(prev => prev); // This might seem redundant but ensures queryKey changes for filters
@@ -700,11 +775,14 @@ const Rikshaws = () => {
   });
 
   const deleteRikshawMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const { error } = await supabase
-        .from('rikshaws')
-        .delete()
-        .eq('id', id);
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const { error } = await withAuditReason(
+        supabase
+          .from('rikshaws')
+          .delete()
+          .eq('id', id),
+        reason
+      );
 
       if (error) throw error;
     },
@@ -792,9 +870,14 @@ const Rikshaws = () => {
   }, []);
 
   const handleDelete = useCallback((id: string) => {
-    if (window.confirm('Are you sure you want to delete this rikshaw? This action cannot be undone.')) {
-      deleteRikshawMutation.mutate(id);
+    // The reason is stored with the deletion in the audit log
+    const reason = window.prompt('Are you sure you want to delete this rikshaw? This action cannot be undone.\n\nReason for deletion:');
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast({ title: "Error", description: "A reason is required to delete a rikshaw.", variant: "destructive" });
+      return;
     }
+    deleteRikshawMutation.mutate({ id, reason: reason.trim() });
   }, [deleteRikshawMutation, showPanel]);
 
   const handleViewDetails = useCallback((rikshaw: Rikshaw) => {
@@ -844,10 +927,18 @@ const Rikshaws = () => {
 
           {/* Show Add Rikshaw button only when the main list is visible */}
           {showPanel === null && (
-            <Button onClick={handleAddClick} aria-label="Add new rikshaw">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Rikshaw
-            </Button>
+            <RequireRole roles={ROLE_ACCESS.manageRikshaws}>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+                <Button onClick={handleAddClick} aria-label="Add new rikshaw">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Rikshaw
+                </Button>
+              </div>
+            </RequireRole>
           )}
         </div>
 
@@ -972,6 +1063,7 @@ const Rikshaws = () => {
                             <Badge variant={getAvailabilityBadgeVariant(rikshaw.availability)}>
                               {rikshaw.availability}
                             </Badge>
+                            {rikshaw.availability === 'unsold' && <ReservedBadge rikshawId={rikshaw.id} />}
                           </TableCell>
                           <TableCell className="text-right">
                             <div className="flex items-center justify-end gap-2">
@@ -983,24 +1075,28 @@ const Rikshaws = () => {
                               >
                                 <Eye className="h-4 w-4" />
                               </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleEdit(rikshaw)}
-                                aria-label={`Edit ${rikshaw.manufacturer} ${rikshaw.model_name}`}
-                              >
-                                <Edit className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleDelete(rikshaw.id)}
-                                disabled={deleteRikshawMutation.isPending}
-                                aria-label={`Delete ${rikshaw.manufacturer} ${rikshaw.model_name}`}
-                                className="text-destructive hover:text-destructive"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              <RequireRole roles={ROLE_ACCESS.manageRikshaws}>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEdit(rikshaw)}
+                                  aria-label={`Edit ${rikshaw.manufacturer} ${rikshaw.model_name}`}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </RequireRole>
+                              <RequireRole roles={ROLE_ACCESS.deleteRikshaws}>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(rikshaw.id)}
+                                  disabled={deleteRikshawMutation.isPending}
+                                  aria-label={`Delete ${rikshaw.manufacturer} ${rikshaw.model_name}`}
+                                  className="text-destructive hover:text-destructive"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </RequireRole>
                             </div>
                           </TableCell>
                         </TableRow>
@@ -1043,6 +1139,8 @@ const Rikshaws = () => {
             </CardContent>
           </Card>
         )}
+
+        <ImportRikshawsDialog open={showImportDialog} onOpenChange={setShowImportDialog} />
       </div>
     </ErrorBoundary>
   );
@@ -12,40 +12,17 @@ import { useToast } from '@/hooks/use-toast';
 import { Car, Calendar, DollarSign, Check, ChevronDown, ChevronUp, Plus, X, Search, DollarSign as DollarSignIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils'; // Assuming cn is a utility for Tailwind class merging
-
-// Define interfaces for Customer, Rikshaw, and AdvancePayment
-interface Customer {
-  id: string;
-  name: string;
-  address: string;
-  cnic: string;
-  phone: string;
-  guarantor_name: string;
-  guarantor_cnic: string;
-  guarantor_phone: string;
-  guarantor_address: string;
-  bank_name: string;
-  cheque_number: string;
-}
-
-interface Rikshaw {
-  id: string;
-  manufacturer: string;
-  model_name: string;
-  engine_number: string;
-  chassis_number: string;
-  registration_number: string | null;
-  type: string;
-}
-
-interface AdvancePayment {
-  amount: number;
-  date: string;
-}
+import { RikshawUnavailableError, sellRikshaw } from '@/lib/sales';
+import { fetchHoldingReservations } from '@/lib/reservations';
+import { useSettings } from '@/hooks/use-settings';
+import GuarantorPicker from '@/components/guarantors/GuarantorPicker';
+import AgreementActions from '@/components/installments/AgreementActions';
+import type { AdvancePayment, Customer, Guarantor, Rikshaw } from '@/types/domain';
 
 const SellRickshaw = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { settings } = useSettings();
   
   // State for sale data, including the new showroom_commission field
   const [saleData, setSaleData] = useState({
@@ -54,13 +31,21 @@ const SellRickshaw = () => {
     total_price: 0,
     total_advance_collected: 0,
     monthly_installment: 0,
-    duration_months: 12, // Default duration
+    duration_months: settings.default_duration_months, // Default duration from Settings
     agreement_date: new Date().toISOString().split('T')[0],
     showroom_commission: 0, 
   });
   
+  // Settings may arrive after the first render; apply the default duration to an untouched form
+  useEffect(() => {
+    setSaleData(prev => (prev.customer_id || prev.rikshaw_id ? prev : { ...prev, duration_months: settings.default_duration_months }));
+  }, [settings.default_duration_months]);
+  
   // State for commission payment status
   const [isCommissionPaid, setIsCommissionPaid] = useState(false); // NEW STATE
+
+  // Guarantors to link to the plan (empty: the guarantor on the customer record is used)
+  const [selectedGuarantors, setSelectedGuarantors] = useState<Guarantor[]>([]);
   
   // State for individual advance payments
   const [advancePayments, setAdvancePayments] = useState<AdvancePayment[]>([
@@ -123,16 +108,29 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
 
     const { data, error } = await query;
     if (error) throw error;
-    return data;
+    return data as Rikshaw[];
   }
 });
 
 
+  // Units held for a customer; only that customer's sale may pick them
+  const { data: holdingReservations = new Map() } = useQuery({
+    queryKey: ['holding-reservations'],
+    queryFn: fetchHoldingReservations,
+  });
+
+  const selectableRikshaws = rikshaws.filter(r => {
+    const reservation = holdingReservations.get(r.id);
+    return !reservation || reservation.customer_id === saleData.customer_id;
+  });
+
   // Find the selected customer from the fetched data
   const selectedCustomer = customers.find(c => c.id === saleData.customer_id);
   
   // Find the selected rickshaw from the fetched data
   const selectedRikshaw = rikshaws.find(r => r.id === saleData.rikshaw_id);
+  // The customer's own reservation of the selected unit; its token is part of the first advance
+  const selectedReservation = saleData.rikshaw_id ? holdingReservations.get(saleData.rikshaw_id) : undefined;
 
   // Handler for changing individual advance payment details (amount or date)
   const handleAdvancePaymentChange = (index: number, field: keyof AdvancePayment, value: any) => {
@@ -143,7 +141,7 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
 
   // Handler for adding a new advance payment field
   const addAdvancePayment = () => {
-    if (advancePayments.length < 6) { // Limit to a maximum of 4 advance payments
+    if (advancePayments.length < settings.max_advance_installments) { // Limit configured in Settings
       setAdvancePayments([
         ...advancePayments,
         { amount: 0, date: new Date().toISOString().split('T')[0] } // Initialize with current date
@@ -170,50 +168,20 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
         throw new Error("Invalid customer or rickshaw selection");
       }
 
-      // Insert the new installment plan into the 'installment_plans' table
-      const { data: plan, error: planError } = await supabase
-        .from('installment_plans')
-        .insert([{
-          customer_id: saleData.customer_id,
-          rikshaw_id: saleData.rikshaw_id,
-          total_price: saleData.total_price,
-          advance_paid: saleData.total_advance_collected, // Store total_advance_collected as advance_paid in DB
-          advance_payments: advancePayments, // Store individual advance payments
-          monthly_installment: saleData.monthly_installment,
-          duration_months: saleData.duration_months,
-          agreement_date: saleData.agreement_date, // Store agreement date
-          showroom_commission: saleData.showroom_commission, // STORE COMMISSION
-          is_commission_paid: isCommissionPaid, // STORE NEW COMMISSION PAID STATUS
-          // Use the guarantor's details from the customer object
-          guarantor_name: selectedCustomer.guarantor_name,
-          guarantor_cnic: selectedCustomer.guarantor_cnic, 
-          guarantor_phone: selectedCustomer.guarantor_phone,
-          guarantor_address: selectedCustomer.guarantor_address,
-          bank_name: selectedCustomer.bank_name,
-          cheque_number: selectedCustomer.cheque_number,
-          rikshaw_details: { // Store rickshaw details for historical record
-            manufacturer: selectedRikshaw.manufacturer,
-            model_name: selectedRikshaw.model_name,
-            engine_number: selectedRikshaw.engine_number,
-            chassis_number: selectedRikshaw.chassis_number,
-            registration_number: selectedRikshaw.registration_number,
-            type: selectedRikshaw.type
-          }
-        }])
-        .select() // Select the newly inserted row
-        .single(); // Expect a single row back
-
-      if (planError) throw planError; // Handle insertion error
-
-      // Update the availability of the sold rickshaw to 'sold' AND set the sale_price
-      const { error: rikshawError } = await supabase
-        .from('rikshaws')
-        .update({
-          availability: 'sold',
-          sale_price: saleData.total_price // Set sale_price from total_price of the installment plan
-        })
-        .eq('id', saleData.rikshaw_id); // Match by rickshaw ID
-      if (rikshawError) throw rikshawError; // Handle update error
+      // Create the plan and mark the rickshaw sold in one transaction (locks the unit server-side,
+      // so two salesmen cannot sell the same rickshaw)
+      const plan = await sellRikshaw({
+        customerId: saleData.customer_id,
+        rikshawId: saleData.rikshaw_id,
+        totalPrice: saleData.total_price,
+        advancePayments, // First entry is the advance collected now
+        monthlyInstallment: saleData.monthly_installment,
+        durationMonths: saleData.duration_months,
+        agreementDate: saleData.agreement_date,
+        showroomCommission: saleData.showroom_commission,
+        isCommissionPaid,
+        guarantorIds: selectedGuarantors.map(guarantor => guarantor.id),
+      });
 
       // Return details for the success state and receipt generation
       return {
@@ -228,6 +196,9 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
       queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
       queryClient.invalidateQueries({ queryKey: ['available-rikshaws'] });
       queryClient.invalidateQueries({ queryKey: ['rikshaws'] }); // Invalidate general rikshaws query to update sale_price in table view
+      queryClient.invalidateQueries({ queryKey: ['guarantor-exposure'] });
+      queryClient.invalidateQueries({ queryKey: ['holding-reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
       setCreatedSaleDetails(saleDetails); // Store sale details
       toast({
         title: "Sale Completed!",
@@ -235,6 +206,20 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
       });
     },
     onError: (error: any) => {
+      if (error instanceof RikshawUnavailableError) {
+        // Someone else sold or reserved this unit first: drop the stale selection and refresh the list
+        queryClient.invalidateQueries({ queryKey: ['available-rikshaws'] });
+        queryClient.invalidateQueries({ queryKey: ['holding-reservations'] });
+        setSaleData(prev => ({ ...prev, rikshaw_id: '' }));
+        setSelectedRikshawDisplayName('');
+        setShowPreview(false);
+        toast({
+          title: "Rickshaw no longer available",
+          description: `${error.message}. Please select another one.`,
+          variant: "destructive"
+        });
+        return;
+      }
       // Display error toast
       toast({
         title: "Error",
@@ -253,11 +238,12 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
       total_price: 0,
       total_advance_collected: 0, 
       monthly_installment: 0,
-      duration_months: 12,
+      duration_months: settings.default_duration_months,
       agreement_date: new Date().toISOString().split('T')[0],
       showroom_commission: 0,
     });
     setIsCommissionPaid(false); // RESET NEW FIELD
+    setSelectedGuarantors([]);
     setAdvancePayments([
       { amount: 0, date: new Date().toISOString().split('T')[0] }
     ]);
@@ -286,6 +272,11 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
       return;
     }
 
+    if (selectedReservation && advancePayments[0].amount < selectedReservation.token_amount) {
+      toast({ title: "Error", description: `The first advance cannot be less than the token of Rs ${selectedReservation.token_amount.toLocaleString()} already paid.`, variant: "destructive" });
+      return;
+    }
+
     if (saleData.total_advance_collected > saleData.total_price) {
       toast({ title: "Error", description: "Total Advance Collected cannot exceed total price", variant: "destructive" });
       return;
@@ -323,6 +314,26 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
     setSaleData(prev => ({ ...prev, customer_id: customer.id }));
     setSelectedCustomerName(`${customer.name} (${customer.cnic})`);
     setCustomerSearchTerm(''); // Clear search term to hide suggestions
+
+    // A unit reserved for someone else cannot be sold to this customer
+    const reservation = saleData.rikshaw_id ? holdingReservations.get(saleData.rikshaw_id) : undefined;
+    if (reservation && reservation.customer_id !== customer.id) {
+      setSaleData(prev => ({ ...prev, rikshaw_id: '' }));
+      setSelectedRikshawDisplayName('');
+    }
+
+    // Preselect the guarantor on the customer record when it is already a known guarantor
+    setSelectedGuarantors([]);
+    if (customer.guarantor_cnic?.trim()) {
+      supabase
+        .from('guarantors')
+        .select('*')
+        .eq('cnic', customer.guarantor_cnic.trim())
+        .maybeSingle()
+        .then(({ data }) => {
+          if (data) setSelectedGuarantors([data as Guarantor]);
+        });
+    }
   };
 
   // Handle rikshaw selection from search suggestions
@@ -330,6 +341,14 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
     setSaleData(prev => ({ ...prev, rikshaw_id: rikshaw.id }));
     setSelectedRikshawDisplayName(`${rikshaw.manufacturer} - ${rikshaw.model_name} (ENG: ${rikshaw.engine_number})`);
     setRikshawSearchTerm(''); // Clear search term to hide suggestions
+
+    // The token paid to reserve the unit is collected already: start the first advance from it
+    const reservation = holdingReservations.get(rikshaw.id);
+    if (reservation) {
+      setAdvancePayments(prev => prev.map((payment, index) => (
+        index === 0 ? { ...payment, amount: Math.max(payment.amount, reservation.token_amount) } : payment
+      )));
+    }
   };
 
 
@@ -434,6 +453,7 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
             </div>
             
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              {createdSaleDetails.plan?.id && <AgreementActions planId={createdSaleDetails.plan.id} />}
               <Button 
                 variant="default"
                 onClick={startNewSale}
@@ -481,8 +501,16 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
               <div className="border border-gray-200 p-4 rounded-lg bg-white shadow-sm">
                 <h3 className="text-lg font-semibold mb-3 text-blue-700">Guarantor & Bank Details</h3>
                 <div className="space-y-2 text-sm text-gray-700">
-                  <p><strong>Guarantor Name:</strong> {selectedCustomer?.guarantor_name}</p>
-                  <p><strong>Guarantor CNIC:</strong> {selectedCustomer?.guarantor_cnic}</p>
+                  {selectedGuarantors.length > 0 ? (
+                    selectedGuarantors.map(guarantor => (
+                      <p key={guarantor.id}><strong>Guarantor:</strong> {guarantor.name} ({guarantor.cnic})</p>
+                    ))
+                  ) : (
+                    <>
+                      <p><strong>Guarantor Name:</strong> {selectedCustomer?.guarantor_name}</p>
+                      <p><strong>Guarantor CNIC:</strong> {selectedCustomer?.guarantor_cnic}</p>
+                    </>
+                  )}
                   <p><strong>Bank Name:</strong> {selectedCustomer?.bank_name}</p>
                   <p><strong>Cheque Number:</strong> {selectedCustomer?.cheque_number}</p>
                 </div>
@@ -646,9 +674,9 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
                   }}
                   className="pl-4 pr-4 py-2 rounded-lg border-2 border-gray-300 focus:border-blue-500 transition duration-150"
                 />
-                {rikshawSearchTerm && rikshaws.length > 0 && (
+                {rikshawSearchTerm && selectableRikshaws.length > 0 && (
                   <div className="absolute z-20 w-full bg-white border border-gray-200 rounded-lg shadow-xl max-h-60 overflow-y-auto mt-1">
-                    {rikshaws.map(rikshaw => (
+                    {selectableRikshaws.map(rikshaw => (
                       <div
                         key={rikshaw.id}
                         className="p-3 cursor-pointer hover:bg-blue-50 transition duration-150 border-b last:border-b-0"
@@ -659,13 +687,16 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
                           <span className="text-xs text-gray-500">
                             ENG: {rikshaw.engine_number} | CHS: {rikshaw.chassis_number} | REG: {rikshaw.registration_number || 'N/A'}
                           </span>
+                          {holdingReservations.has(rikshaw.id) && (
+                            <span className="text-xs font-medium text-yellow-700">Reserved for this customer</span>
+                          )}
                         </div>
                       </div>
                     ))}
                   </div>
                 )}
                 {/* Simplified loading/no results feedback */}
-                {rikshawSearchTerm && !loadingRikshaws && rikshaws.length === 0 && (
+                {rikshawSearchTerm && !loadingRikshaws && selectableRikshaws.length === 0 && (
                   <div className="absolute z-20 w-full bg-white border border-gray-200 rounded-lg shadow-xl mt-1 p-3 text-red-500 font-medium">
                     No unsold rickshaws found matching your search.
                   </div>
@@ -690,11 +721,26 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
                     <p><span className="font-semibold">Model:</span> {selectedRikshaw.manufacturer} - {selectedRikshaw.model_name}</p>
                     <p><span className="font-semibold">Engine No:</span> {selectedRikshaw.engine_number}</p>
                     <p><span className="font-semibold">Chassis No:</span> {selectedRikshaw.chassis_number}</p>
+                    {selectedReservation && (
+                      <p className="text-yellow-800">
+                        Reserved for this customer: token of Rs {selectedReservation.token_amount.toLocaleString()} already paid,
+                        counted in the first advance.
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
             )}
 
+            {/* Guarantors */}
+            {saleData.customer_id && (
+              <GuarantorPicker
+                value={selectedGuarantors}
+                onChange={setSelectedGuarantors}
+                newExposure={Math.max(0, remainingBalance)}
+              />
+            )}
+
             {/* Price and Agreement Date */}
             <div className="space-y-4 pt-4 border-t border-gray-200">
               <h3 className="text-xl font-bold text-gray-900 mb-4">Sale Terms</h3>
@@ -773,7 +819,7 @@ const { data: rikshaws = [], isLoading: loadingRikshaws } = useQuery<Rikshaw[]>(
             <div className="space-y-4 pt-4 border-t border-gray-200">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">Advance Due Schedule</h3>
-                {advancePayments.length < 6 && (
+                {advancePayments.length < settings.max_advance_installments && (
                   <Button 
                     size="sm" 
                     variant="outline"
@@ -0,0 +1,567 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { SETTINGS_QUERY_KEY, useSettings } from '@/hooks/use-settings';
+import LateFeePolicyFields from '@/components/installments/LateFeePolicyFields';
+import { DEFAULT_LATE_FEE_POLICY, describeLateFeePolicy, LATE_FEE_POLICY_SETTING, LateFeePolicy } from '@/lib/lateFees';
+import { BRANDING_BUCKET, BUSINESS_SETTINGS_KEY, BusinessSettings, DEFAULT_BUSINESS_SETTINGS } from '@/lib/settings';
+import { AGREEMENT_PLACEHOLDERS, AGREEMENT_TEMPLATE_KEY, AgreementTemplate, DEFAULT_AGREEMENT_TEMPLATE } from '@/lib/agreement';
+import { DEFAULT_SETTLEMENT_POLICY, SETTLEMENT_POLICY_KEY, SettlementPolicy } from '@/lib/settlement';
+import { DEFAULT_RESERVATION_POLICY, RESERVATION_POLICY_KEY, ReservationPolicy } from '@/lib/reservations';
+import { ImageUp, Loader2, Plus, RotateCcw, Save, Settings as SettingsIcon, Trash2, X } from 'lucide-react';
+
+// --- Catalog editor (manufacturers, rikshaw types) ---
+interface CatalogEditorProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+}
+
+const CatalogEditor = ({ id, label, placeholder, items, onChange }: CatalogEditorProps) => {
+  const [newItem, setNewItem] = useState('');
+
+  const addItem = () => {
+    const value = newItem.trim();
+    if (!value || items.some(item => item.toLowerCase() === value.toLowerCase())) return;
+    onChange([...items, value]);
+    setNewItem('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex flex-wrap gap-2">
+        {items.map(item => (
+          <Badge key={item} variant="secondary" className="flex items-center gap-1 py-1">
+            {item}
+            <button
+              type="button"
+              aria-label={`Remove ${item}`}
+              onClick={() => onChange(items.filter(i => i !== item))}
+              disabled={items.length === 1} // at least one entry is needed for the forms
+              className="rounded-full hover:text-destructive disabled:opacity-40"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          placeholder={placeholder}
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" onClick={addItem}>
+          <Plus className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const Settings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { settings, lateFeePolicy: savedLateFeePolicy, agreementTemplate: savedAgreementTemplate, settlementPolicy: savedSettlementPolicy, reservationPolicy: savedReservationPolicy, isLoading } = useSettings();
+  const [formData, setFormData] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [lateFeePolicy, setLateFeePolicy] = useState<LateFeePolicy>(DEFAULT_LATE_FEE_POLICY);
+  const [agreementTemplate, setAgreementTemplate] = useState<AgreementTemplate>(DEFAULT_AGREEMENT_TEMPLATE);
+  const [settlementPolicy, setSettlementPolicy] = useState<SettlementPolicy>(DEFAULT_SETTLEMENT_POLICY);
+  const [reservationPolicy, setReservationPolicy] = useState<ReservationPolicy>(DEFAULT_RESERVATION_POLICY);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+
+  useEffect(() => {
+    setFormData(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    if (savedLateFeePolicy) setLateFeePolicy(savedLateFeePolicy);
+  }, [savedLateFeePolicy]);
+
+  useEffect(() => {
+    setAgreementTemplate(savedAgreementTemplate);
+  }, [savedAgreementTemplate]);
+
+  useEffect(() => {
+    setSettlementPolicy(savedSettlementPolicy);
+  }, [savedSettlementPolicy]);
+
+  useEffect(() => {
+    setReservationPolicy(savedReservationPolicy);
+  }, [savedReservationPolicy]);
+
+  const update = (changes: Partial<BusinessSettings>) => setFormData(prev => ({ ...prev, ...changes }));
+
+  const saveSettingMutation = useMutation({
+    mutationFn: async ({ key, value }: { key: string; value: BusinessSettings | LateFeePolicy | AgreementTemplate | SettlementPolicy | ReservationPolicy; label: string }) => {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({ key, value });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { label }) => {
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      toast({ title: "Settings Saved", description: `${label} updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSaveBusinessSettings = () => {
+    if (!formData.business_name.trim()) {
+      toast({ title: "Error", description: "Business name is required.", variant: "destructive" });
+      return;
+    }
+    if (formData.default_duration_months <= 0 || formData.max_advance_installments <= 0) {
+      toast({ title: "Error", description: "Duration and advance instalments must be greater than 0.", variant: "destructive" });
+      return;
+    }
+    saveSettingMutation.mutate({
+      key: BUSINESS_SETTINGS_KEY,
+      value: { ...formData, business_name: formData.business_name.trim() },
+      label: 'Showroom settings',
+    });
+  };
+
+  const updateClause = (index: number, text: string) =>
+    setAgreementTemplate(prev => ({ ...prev, clauses: prev.clauses.map((clause, i) => (i === index ? text : clause)) }));
+
+  const handleSaveAgreementTemplate = () => {
+    const clauses = agreementTemplate.clauses.map(clause => clause.trim()).filter(Boolean);
+    if (!agreementTemplate.title.trim() || clauses.length === 0) {
+      toast({ title: "Error", description: "The agreement needs a title and at least one clause.", variant: "destructive" });
+      return;
+    }
+    saveSettingMutation.mutate({
+      key: AGREEMENT_TEMPLATE_KEY,
+      value: { ...agreementTemplate, title: agreementTemplate.title.trim(), clauses },
+      label: 'Agreement template',
+    });
+  };
+
+  const handleLogoUpload = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast({ title: "Error", description: "Please choose an image file.", variant: "destructive" });
+      return;
+    }
+    setIsUploadingLogo(true);
+    try {
+      // A new name per upload, so receipts and browsers never show a cached old logo
+      const path = `logo-${Date.now()}.${file.name.split('.').pop() || 'png'}`;
+      const { error } = await supabase.storage.from(BRANDING_BUCKET).upload(path, file, { upsert: true });
+      if (error) throw error;
+
+      const { data } = supabase.storage.from(BRANDING_BUCKET).getPublicUrl(path);
+      update({ logo_url: data.publicUrl });
+      toast({ title: "Logo Uploaded", description: "Save the showroom settings to use the new logo." });
+    } catch (error) {
+      toast({ title: "Error uploading logo", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const savingBusiness = saveSettingMutation.isPending && saveSettingMutation.variables?.key === BUSINESS_SETTINGS_KEY;
+  const savingLateFees = saveSettingMutation.isPending && saveSettingMutation.variables?.key === LATE_FEE_POLICY_SETTING;
+  const savingAgreement = saveSettingMutation.isPending && saveSettingMutation.variables?.key === AGREEMENT_TEMPLATE_KEY;
+  const savingSettlement = saveSettingMutation.isPending && saveSettingMutation.variables?.key === SETTLEMENT_POLICY_KEY;
+  const savingReservation = saveSettingMutation.isPending && saveSettingMutation.variables?.key === RESERVATION_POLICY_KEY;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <SettingsIcon className="h-7 w-7" />
+          Settings
+        </h1>
+        <p className="text-muted-foreground">Showroom profile, receipt branding and business rules.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Showroom Profile</CardTitle>
+          <CardDescription>Shown in the sidebar and printed on receipts and plan statements.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="business-name">Business Name *</Label>
+              <Input id="business-name" value={formData.business_name} onChange={(e) => update({ business_name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-phone">Phone</Label>
+              <Input id="business-phone" value={formData.phone} onChange={(e) => update({ phone: e.target.value })} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="business-address">Address</Label>
+              <Input id="business-address" value={formData.address} onChange={(e) => update({ address: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-ntn">NTN</Label>
+              <Input id="business-ntn" placeholder="National Tax Number" value={formData.ntn} onChange={(e) => update({ ntn: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-logo">Logo</Label>
+              <div className="flex items-center gap-3">
+                {formData.logo_url ? (
+                  <img src={formData.logo_url} alt="Business logo" className="h-12 w-12 rounded border object-contain" />
+                ) : (
+                  <div className="flex h-12 w-12 items-center justify-center rounded border text-muted-foreground">
+                    <ImageUp className="h-5 w-5" />
+                  </div>
+                )}
+                <Input
+                  id="business-logo"
+                  type="file"
+                  accept="image/*"
+                  disabled={isUploadingLogo}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleLogoUpload(file);
+                    e.target.value = '';
+                  }}
+                />
+                {isUploadingLogo && <Loader2 className="h-4 w-4 animate-spin" />}
+                {formData.logo_url && !isUploadingLogo && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => update({ logo_url: null })} aria-label="Remove logo">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-footer">Receipt Footer</Label>
+            <Textarea
+              id="receipt-footer"
+              rows={2}
+              value={formData.receipt_footer}
+              onChange={(e) => update({ receipt_footer: e.target.value })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Business Rules</CardTitle>
+          <CardDescription>Defaults and limits used when selling a rikshaw on installments.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="default-duration">Default Plan Duration (Months)</Label>
+              <Input
+                id="default-duration"
+                type="number"
+                min={1}
+                value={formData.default_duration_months || ''}
+                onChange={(e) => update({ default_duration_months: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-advance">Maximum Advance Instalments</Label>
+              <Input
+                id="max-advance"
+                type="number"
+                min={1}
+                value={formData.max_advance_installments || ''}
+                onChange={(e) => update({ max_advance_installments: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="guarantor-limit">Guarantor Exposure Limit (Rs)</Label>
+              <Input
+                id="guarantor-limit"
+                type="number"
+                min={0}
+                value={formData.guarantor_exposure_limit}
+                onChange={(e) => update({ guarantor_exposure_limit: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+              <p className="text-xs text-muted-foreground">The sale form warns when a guarantor would back more than this. 0 turns the warning off.</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Catalogs</CardTitle>
+          <CardDescription>Choices offered when adding or editing a rikshaw.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <CatalogEditor
+            id="catalog-manufacturers"
+            label="Manufacturers"
+            placeholder="Add a manufacturer"
+            items={formData.manufacturers}
+            onChange={(manufacturers) => update({ manufacturers })}
+          />
+          <CatalogEditor
+            id="catalog-types"
+            label="Rikshaw Types"
+            placeholder="Add a type, e.g. Loader 150 CC"
+            items={formData.rikshaw_types}
+            onChange={(rikshaw_types) => update({ rikshaw_types })}
+          />
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSaveBusinessSettings} disabled={savingBusiness || isUploadingLogo}>
+          {savingBusiness ? (
+            <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</>
+          ) : (
+            <><Save className="mr-2 h-4 w-4" /> Save Showroom Settings</>
+          )}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Late Fees</CardTitle>
+          <CardDescription>
+            Charged on monthly installments paid after the grace period. Plans can override this policy
+            from their detail view. Currently: {describeLateFeePolicy(savedLateFeePolicy)}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <LateFeePolicyFields idPrefix="global-late-fee" value={lateFeePolicy} onChange={setLateFeePolicy} />
+          <p className="text-sm text-muted-foreground">Preview: {describeLateFeePolicy(lateFeePolicy)}</p>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveSettingMutation.mutate({ key: LATE_FEE_POLICY_SETTING, value: lateFeePolicy, label: 'Late fee policy' })}
+              disabled={savingLateFees}
+            >
+              {savingLateFees ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</>
+              ) : (
+                <><Save className="mr-2 h-4 w-4" /> Save Late Fees</>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Early Settlement</CardTitle>
+          <CardDescription>
+            Rebate offered when a customer pays a plan off early, as a share of the markup on installments
+            not yet due, and how long a settlement quotation stays valid.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlement-rebate">Rebate (% of Unearned Markup)</Label>
+              <Input
+                id="settlement-rebate"
+                type="number"
+                min={0}
+                max={100}
+                value={settlementPolicy.rebate_percent}
+                onChange={(e) => setSettlementPolicy(prev => ({ ...prev, rebate_percent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-max-rebate">Maximum Rebate (Rs)</Label>
+              <Input
+                id="settlement-max-rebate"
+                type="number"
+                min={0}
+                value={settlementPolicy.max_rebate}
+                onChange={(e) => setSettlementPolicy(prev => ({ ...prev, max_rebate: Math.max(0, parseFloat(e.target.value) || 0) }))}
+              />
+              <p className="text-xs text-muted-foreground">0 means no cap.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-valid-days">Quotation Valid For (Days)</Label>
+              <Input
+                id="settlement-valid-days"
+                type="number"
+                min={0}
+                value={settlementPolicy.valid_days}
+                onChange={(e) => setSettlementPolicy(prev => ({ ...prev, valid_days: Math.max(0, parseInt(e.target.value) || 0) }))}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveSettingMutation.mutate({ key: SETTLEMENT_POLICY_KEY, value: settlementPolicy, label: 'Settlement policy' })}
+              disabled={savingSettlement}
+            >
+              {savingSettlement ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</>
+              ) : (
+                <><Save className="mr-2 h-4 w-4" /> Save Settlement Policy</>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reservations</CardTitle>
+          <CardDescription>
+            How long a unit is held for a customer who paid a token, and how much of the token the showroom
+            keeps when the hold expires without a sale. The rest is refunded.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reservation-hold-days">Hold For (Days)</Label>
+              <Input
+                id="reservation-hold-days"
+                type="number"
+                min={1}
+                value={reservationPolicy.hold_days}
+                onChange={(e) => setReservationPolicy(prev => ({ ...prev, hold_days: Math.max(1, parseInt(e.target.value) || 1) }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservation-forfeit">Token Forfeited on Expiry (%)</Label>
+              <Input
+                id="reservation-forfeit"
+                type="number"
+                min={0}
+                max={100}
+                value={reservationPolicy.forfeit_percent}
+                onChange={(e) => setReservationPolicy(prev => ({ ...prev, forfeit_percent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) }))}
+              />
+              <p className="text-xs text-muted-foreground">100 keeps the whole token, 0 refunds it in full.</p>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveSettingMutation.mutate({ key: RESERVATION_POLICY_KEY, value: reservationPolicy, label: 'Reservation policy' })}
+              disabled={savingReservation}
+            >
+              {savingReservation ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</>
+              ) : (
+                <><Save className="mr-2 h-4 w-4" /> Save Reservation Policy</>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sale Agreement</CardTitle>
+          <CardDescription>
+            Clauses of the hire-purchase agreement printed after a sale and from the plan details. Placeholders in
+            double braces are filled from the plan when printing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-1">
+            {Object.entries(AGREEMENT_PLACEHOLDERS).map(([key, label]) => (
+              <Badge key={key} variant="outline" className="font-mono text-xs" title={label}>{`{{${key}}}`}</Badge>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="agreement_title">Title</Label>
+              <Input
+                id="agreement_title"
+                value={agreementTemplate.title}
+                onChange={(e) => setAgreementTemplate(prev => ({ ...prev, title: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agreement_witnesses">Witness Signatures</Label>
+              <Input
+                id="agreement_witnesses"
+                type="number"
+                min={0}
+                max={4}
+                value={agreementTemplate.witnesses}
+                onChange={(e) => setAgreementTemplate(prev => ({ ...prev, witnesses: Math.min(4, Math.max(0, parseInt(e.target.value) || 0)) }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="agreement_intro">Opening Paragraph</Label>
+            <Textarea
+              id="agreement_intro"
+              rows={3}
+              value={agreementTemplate.intro}
+              onChange={(e) => setAgreementTemplate(prev => ({ ...prev, intro: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Clauses</Label>
+            {agreementTemplate.clauses.map((clause, index) => (
+              <div key={index} className="flex gap-2 items-start">
+                <span className="pt-2 text-sm font-semibold w-6 text-right">{index + 1}.</span>
+                <Textarea rows={2} value={clause} onChange={(e) => updateClause(index, e.target.value)} />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove clause ${index + 1}`}
+                  onClick={() => setAgreementTemplate(prev => ({ ...prev, clauses: prev.clauses.filter((_, i) => i !== index) }))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setAgreementTemplate(prev => ({ ...prev, clauses: [...prev.clauses, ''] }))}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Clause
+            </Button>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setAgreementTemplate(DEFAULT_AGREEMENT_TEMPLATE)}>
+              <RotateCcw className="mr-2 h-4 w-4" /> Restore Default
+            </Button>
+            <Button onClick={handleSaveAgreementTemplate} disabled={savingAgreement}>
+              {savingAgreement ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</>
+              ) : (
+                <><Save className="mr-2 h-4 w-4" /> Save Agreement</>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Settings;
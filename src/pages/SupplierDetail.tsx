@@ -0,0 +1,458 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import RequireRole from '@/components/RequireRole';
+import ReceiveInvoiceDialog from '@/components/suppliers/ReceiveInvoiceDialog';
+import SupplierFormDialog from '@/components/suppliers/SupplierFormDialog';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, ChevronDown, ChevronRight, Factory, FileInput, Loader2, Pencil, Trash2, Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ROLE_ACCESS } from '@/lib/roles';
+import {
+  computeSupplierBalance,
+  PURCHASE_INVOICE_STATUS_LABELS,
+  SUPPLIER_PAYMENT_METHOD_LABELS,
+} from '@/lib/suppliers';
+import type { PurchaseInvoice, Rikshaw, Supplier, SupplierPayment, SupplierPaymentMethod } from '@/types/domain';
+
+type InvoiceRow = PurchaseInvoice & {
+  rikshaws: Pick<Rikshaw, 'id' | 'manufacturer' | 'model_name' | 'engine_number' | 'chassis_number' | 'availability' | 'purchase_price'>[];
+};
+
+interface SupplierLedger {
+  invoices: InvoiceRow[];
+  payments: SupplierPayment[];
+}
+
+const displayDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+const INVOICE_STATUS_CLASSES = {
+  paid: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  unpaid: 'bg-gray-100 text-gray-800',
+};
+
+const EMPTY_PAYMENT = { paymentDate: '', amount: 0, method: 'cash' as SupplierPaymentMethod, reference: '', notes: '' };
+
+const SupplierDetail = () => {
+  const { id: supplierId } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showInvoiceDialog, setShowInvoiceDialog] = useState(false);
+  const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+  const [payment, setPayment] = useState(EMPTY_PAYMENT);
+  const [expandedInvoiceId, setExpandedInvoiceId] = useState<string | null>(null);
+
+  const { data: supplier, isLoading: loadingSupplier, error: supplierError } = useQuery<Supplier>({
+    queryKey: ['supplier', supplierId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('suppliers').select('*').eq('id', supplierId).single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!supplierId,
+  });
+
+  const { data: ledger, isLoading: loadingLedger, error: ledgerError } = useQuery<SupplierLedger>({
+    queryKey: ['supplier-ledger', supplierId],
+    queryFn: async () => {
+      const [invoices, payments] = await Promise.all([
+        supabase
+          .from('purchase_invoices')
+          .select('*, rikshaws(id, manufacturer, model_name, engine_number, chassis_number, availability, purchase_price)')
+          .eq('supplier_id', supplierId),
+        supabase
+          .from('supplier_payments')
+          .select('*')
+          .eq('supplier_id', supplierId)
+          .order('payment_date', { ascending: false }),
+      ]);
+      if (invoices.error) throw invoices.error;
+      if (payments.error) throw payments.error;
+      return {
+        invoices: invoices.data as InvoiceRow[],
+        payments: payments.data as SupplierPayment[],
+      };
+    },
+    enabled: !!supplierId,
+  });
+
+  useEffect(() => {
+    const error = supplierError || ledgerError;
+    if (error) {
+      toast({ title: "Error fetching supplier", description: error.message, variant: "destructive" });
+    }
+  }, [supplierError, ledgerError, toast]);
+
+  const balance = useMemo(
+    () => computeSupplierBalance(ledger?.invoices ?? [], ledger?.payments ?? [], format(new Date(), 'yyyy-MM-dd')),
+    [ledger]
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['supplier-ledger', supplierId] });
+    queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+  };
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('supplier_payments').insert({
+        supplier_id: supplierId,
+        payment_date: payment.paymentDate,
+        amount: payment.amount,
+        method: payment.method,
+        reference: payment.reference.trim() || null,
+        notes: payment.notes.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setShowPaymentDialog(false);
+      toast({ title: "Payment Recorded" });
+    },
+    onError: (error) => {
+      toast({ title: "Error recording payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const { error } = await supabase.from('supplier_payments').delete().eq('id', paymentId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Error deleting payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openPaymentDialog = () => {
+    setPayment({ ...EMPTY_PAYMENT, paymentDate: format(new Date(), 'yyyy-MM-dd') });
+    setShowPaymentDialog(true);
+  };
+
+  const handleRecordPayment = () => {
+    if (!payment.paymentDate) {
+      toast({ title: "Error", description: "Please choose the payment date.", variant: "destructive" });
+      return;
+    }
+    if (payment.amount <= 0) {
+      toast({ title: "Error", description: "Please enter the amount paid.", variant: "destructive" });
+      return;
+    }
+    paymentMutation.mutate();
+  };
+
+  if (loadingSupplier || loadingLedger) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!supplier) {
+    return (
+      <div className="max-w-7xl mx-auto p-4 space-y-4">
+        <p className="text-muted-foreground">Supplier not found.</p>
+        <Button variant="outline" asChild>
+          <Link to="/suppliers"><ArrowLeft className="h-4 w-4 mr-2" />Suppliers</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const payments = ledger?.payments ?? [];
+  const invoices = [...balance.invoices].reverse(); // newest first
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <Factory className="h-7 w-7 text-blue-600" />
+            {supplier.name}
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            {supplier.phone || 'No phone'} · {supplier.address || 'No address'}{supplier.ntn && ` · NTN ${supplier.ntn}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <RequireRole roles={ROLE_ACCESS.manageSuppliers}>
+            <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+              <Pencil className="h-4 w-4 mr-2" />Edit
+            </Button>
+            <Button variant="outline" onClick={openPaymentDialog}>
+              <Wallet className="h-4 w-4 mr-2" />Record Payment
+            </Button>
+            <Button onClick={() => setShowInvoiceDialog(true)}>
+              <FileInput className="h-4 w-4 mr-2" />Receive Invoice
+            </Button>
+          </RequireRole>
+          <Button variant="outline" asChild>
+            <Link to="/suppliers"><ArrowLeft className="h-4 w-4 mr-2" />Suppliers</Link>
+          </Button>
+        </div>
+      </div>
+
+      {supplier.notes && <p className="text-sm text-muted-foreground">{supplier.notes}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Invoiced', value: `Rs ${balance.invoiced.toLocaleString()}` },
+          { label: 'Paid', value: `Rs ${balance.paid.toLocaleString()}` },
+          { label: balance.balance < 0 ? 'Advance Paid' : 'Balance Owed', value: `Rs ${Math.abs(balance.balance).toLocaleString()}` },
+          { label: 'Overdue', value: `Rs ${balance.overdue.toLocaleString()}` },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Purchase Invoices</CardTitle>
+          <p className="text-sm text-muted-foreground">Payments are applied to the oldest invoices first.</p>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-muted-foreground">No invoices received from this supplier yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Invoice No.</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Units</TableHead>
+                    <TableHead className="text-right">Total (Rs)</TableHead>
+                    <TableHead className="text-right">Remaining (Rs)</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoices.map(({ invoice, remaining, status, isOverdue }) => {
+                    const expanded = expandedInvoiceId === invoice.id;
+                    return (
+                      <React.Fragment key={invoice.id}>
+                        <TableRow>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setExpandedInvoiceId(expanded ? null : invoice.id)}
+                              aria-label={expanded ? 'Hide units' : 'Show units'}
+                            >
+                              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </Button>
+                          </TableCell>
+                          <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                          <TableCell className="whitespace-nowrap">{displayDate(invoice.invoice_date)}</TableCell>
+                          <TableCell className={cn('whitespace-nowrap', isOverdue && 'text-red-600 font-semibold')}>
+                            {invoice.due_date ? displayDate(invoice.due_date) : '-'}
+                          </TableCell>
+                          <TableCell>{invoice.rikshaws?.length ?? 0}</TableCell>
+                          <TableCell className="text-right">{invoice.total_amount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{remaining.toLocaleString()}</TableCell>
+                          <TableCell>
+                            <span className={cn("px-2 py-1 rounded-full text-xs font-medium", INVOICE_STATUS_CLASSES[status])}>
+                              {isOverdue ? 'Overdue' : PURCHASE_INVOICE_STATUS_LABELS[status]}
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                        {expanded && (
+                          <TableRow className="bg-muted/40">
+                            <TableCell />
+                            <TableCell colSpan={7}>
+                              <ul className="space-y-1 text-xs">
+                                {(invoice.rikshaws ?? []).map(rikshaw => (
+                                  <li key={rikshaw.id}>
+                                    {rikshaw.manufacturer} {rikshaw.model_name} · Engine {rikshaw.engine_number} · Chassis {rikshaw.chassis_number}
+                                    {' · '}Rs {(rikshaw.purchase_price ?? 0).toLocaleString()} · {rikshaw.availability === 'sold' ? 'Sold' : 'In stock'}
+                                  </li>
+                                ))}
+                                {invoice.other_charges > 0 && <li>Other charges · Rs {invoice.other_charges.toLocaleString()}</li>}
+                                {invoice.notes && <li className="text-muted-foreground">{invoice.notes}</li>}
+                              </ul>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={5} className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-bold">{balance.invoiced.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-bold">
+                      {balance.invoices.reduce((sum, entry) => sum + entry.remaining, 0).toLocaleString()}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Payments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {payments.length === 0 ? (
+            <p className="text-muted-foreground">No payments made to this supplier yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead>Recorded By</TableHead>
+                    <TableHead className="text-right">Amount (Rs)</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payments.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{displayDate(entry.payment_date)}</TableCell>
+                      <TableCell>{SUPPLIER_PAYMENT_METHOD_LABELS[entry.method]}</TableCell>
+                      <TableCell>{entry.reference || '-'}</TableCell>
+                      <TableCell className="max-w-xs truncate">{entry.notes || '-'}</TableCell>
+                      <TableCell className="text-xs">{entry.created_by_email || '-'}</TableCell>
+                      <TableCell className="text-right">{entry.amount.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <RequireRole roles={ROLE_ACCESS.deleteSupplierPayments}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deletePaymentMutation.mutate(entry.id)}
+                            disabled={deletePaymentMutation.isPending}
+                            aria-label="Delete payment"
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </RequireRole>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={5} className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-bold">{balance.paid.toLocaleString()}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SupplierFormDialog open={showEditDialog} onOpenChange={setShowEditDialog} supplier={supplier} />
+      <ReceiveInvoiceDialog open={showInvoiceDialog} onOpenChange={setShowInvoiceDialog} supplier={supplier} />
+
+      <Dialog open={showPaymentDialog} onOpenChange={setShowPaymentDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Payment to {supplier.name}</DialogTitle>
+            <DialogDescription>
+              Balance owed: Rs {Math.max(0, balance.balance).toLocaleString()}. The payment is applied to the oldest open invoices.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-payment-date">Date</Label>
+                <Input
+                  id="supplier-payment-date"
+                  type="date"
+                  value={payment.paymentDate}
+                  onChange={(e) => setPayment(prev => ({ ...prev, paymentDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-payment-amount">Amount (Rs) *</Label>
+                <Input
+                  id="supplier-payment-amount"
+                  type="number"
+                  min={0}
+                  value={payment.amount || ''}
+                  onChange={(e) => setPayment(prev => ({ ...prev, amount: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-payment-method">Method</Label>
+                <Select
+                  value={payment.method}
+                  onValueChange={(value) => setPayment(prev => ({ ...prev, method: value as SupplierPaymentMethod }))}
+                >
+                  <SelectTrigger id="supplier-payment-method"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SUPPLIER_PAYMENT_METHOD_LABELS) as SupplierPaymentMethod[]).map(method => (
+                      <SelectItem key={method} value={method}>{SUPPLIER_PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-payment-reference">Reference</Label>
+                <Input
+                  id="supplier-payment-reference"
+                  placeholder="Cheque / transfer no."
+                  value={payment.reference}
+                  onChange={(e) => setPayment(prev => ({ ...prev, reference: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-payment-notes">Notes</Label>
+              <Textarea
+                id="supplier-payment-notes"
+                value={payment.notes}
+                onChange={(e) => setPayment(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPaymentDialog(false)}>Cancel</Button>
+            <Button onClick={handleRecordPayment} disabled={paymentMutation.isPending}>
+              {paymentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SupplierDetail;
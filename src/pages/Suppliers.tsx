@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import RequireRole from '@/components/RequireRole';
+import SupplierFormDialog from '@/components/suppliers/SupplierFormDialog';
+import { useToast } from '@/hooks/use-toast';
+import { Eye, Factory, Plus, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ROLE_ACCESS } from '@/lib/roles';
+import { computeSupplierBalance } from '@/lib/suppliers';
+import type { PurchaseInvoice, Supplier, SupplierPayment } from '@/types/domain';
+
+type SupplierRow = Supplier & {
+  purchase_invoices: PurchaseInvoice[];
+  supplier_payments: Pick<SupplierPayment, 'amount'>[];
+};
+
+const Suppliers = () => {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showAddDialog, setShowAddDialog] = useState(false);
+
+  const { data: suppliers = [], isLoading, error } = useQuery<SupplierRow[]>({
+    queryKey: ['suppliers', searchTerm],
+    queryFn: async () => {
+      let query = supabase
+        .from('suppliers')
+        .select('*, purchase_invoices(*), supplier_payments(amount)')
+        .order('name');
+
+      if (searchTerm.trim()) {
+        query = query.or(`name.ilike.%${searchTerm.trim()}%,phone.ilike.%${searchTerm.trim()}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as SupplierRow[];
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({ title: "Error fetching suppliers", description: error.message, variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  const rows = useMemo(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return suppliers.map(supplier => ({
+      supplier,
+      balance: computeSupplierBalance(supplier.purchase_invoices ?? [], supplier.supplier_payments ?? [], today),
+    }));
+  }, [suppliers]);
+
+  const totals = rows.reduce((acc, { balance }) => ({
+    invoiced: acc.invoiced + balance.invoiced,
+    paid: acc.paid + balance.paid,
+    balance: acc.balance + balance.balance,
+    overdue: acc.overdue + balance.overdue,
+  }), { invoiced: 0, paid: 0, balance: 0, overdue: 0 });
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <Factory className="h-7 w-7 text-blue-600" />
+            Suppliers
+          </h1>
+          <p className="text-muted-foreground mt-2">Where stock is bought from, and what is still owed to each supplier.</p>
+        </div>
+        <RequireRole roles={ROLE_ACCESS.manageSuppliers}>
+          <Button onClick={() => setShowAddDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />Add Supplier
+          </Button>
+        </RequireRole>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Suppliers', value: suppliers.length.toString() },
+          { label: 'Invoiced', value: `Rs ${totals.invoiced.toLocaleString()}` },
+          { label: 'Payables', value: `Rs ${totals.balance.toLocaleString()}` },
+          { label: 'Overdue', value: `Rs ${totals.overdue.toLocaleString()}` },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Search</CardTitle>
+          <CardDescription>Find a supplier by name or phone.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="e.g. Sazgar"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading suppliers...</div>
+      ) : suppliers.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          {searchTerm ? 'No suppliers found matching your search.' : 'No suppliers recorded yet.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>Name</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Invoices</TableHead>
+                <TableHead className="text-right">Invoiced (Rs)</TableHead>
+                <TableHead className="text-right">Paid (Rs)</TableHead>
+                <TableHead className="text-right">Balance (Rs)</TableHead>
+                <TableHead className="text-right">Overdue (Rs)</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ supplier, balance }) => (
+                <TableRow key={supplier.id}>
+                  <TableCell className="font-medium">
+                    <Link to={`/suppliers/${supplier.id}`} className="hover:underline">{supplier.name}</Link>
+                  </TableCell>
+                  <TableCell>{supplier.phone || 'N/A'}</TableCell>
+                  <TableCell>{balance.invoices.length}</TableCell>
+                  <TableCell className="text-right">{balance.invoiced.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{balance.paid.toLocaleString()}</TableCell>
+                  <TableCell className="text-right font-semibold">{balance.balance.toLocaleString()}</TableCell>
+                  <TableCell className={cn('text-right', balance.overdue > 0 && 'text-red-600 font-semibold')}>
+                    {balance.overdue.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={`/suppliers/${supplier.id}`} aria-label={`View ${supplier.name}`}>
+                        <Eye className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={3} className="font-semibold">Total</TableCell>
+                <TableCell className="text-right font-bold">{totals.invoiced.toLocaleString()}</TableCell>
+                <TableCell className="text-right font-bold">{totals.paid.toLocaleString()}</TableCell>
+                <TableCell className="text-right font-bold">{totals.balance.toLocaleString()}</TableCell>
+                <TableCell className="text-right font-bold text-red-600">{totals.overdue.toLocaleString()}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+
+      <SupplierFormDialog open={showAddDialog} onOpenChange={setShowAddDialog} />
+    </div>
+  );
+};
+
+export default Suppliers;
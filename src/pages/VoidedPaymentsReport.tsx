@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Ban, Download, Printer } from 'lucide-react';
+import { format, parseISO, startOfMonth, endOfMonth } from 'date-fns';
+import { PAYMENT_TYPE_LABELS } from '@/lib/payments';
+import { buildTableReportPdf, printPdf, savePdf } from '@/lib/pdf';
+import { useSettings } from '@/hooks/use-settings';
+import type { Customer, InstallmentPlan, InstallmentPayment } from '@/types/domain';
+
+type VoidedPayment = InstallmentPayment & {
+  installment_plans: (Pick<InstallmentPlan, 'rikshaw_details'> & {
+    customers: Pick<Customer, 'name' | 'phone'> | null;
+  }) | null;
+};
+
+// "Monthly Installment #3"; the installment number only for monthly payments
+const paymentTypeLabel = (payment: InstallmentPayment) => {
+  const label = PAYMENT_TYPE_LABELS[payment.payment_type] ?? payment.payment_type;
+  return payment.payment_type === 'monthly' && payment.installment_number ? `${label} #${payment.installment_number}` : label;
+};
+
+const VoidedPaymentsReport = () => {
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const today = useMemo(() => new Date(), []);
+  const [fromDate, setFromDate] = useState(format(startOfMonth(today), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(endOfMonth(today), 'yyyy-MM-dd'));
+
+  // Payments voided in the selected period (by void date, not payment date)
+  const { data: voidedPayments = [], isLoading, error } = useQuery<VoidedPayment[]>({
+    queryKey: ['voided-payments', fromDate, toDate],
+    queryFn: async () => {
+      let query = supabase
+        .from('installment_payments')
+        .select('*, installment_plans(rikshaw_details, customers(name, phone))')
+        .not('voided_at', 'is', null)
+        .order('voided_at', { ascending: false });
+
+      if (fromDate) query = query.gte('voided_at', parseISO(fromDate).toISOString());
+      if (toDate) {
+        const end = parseISO(toDate);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('voided_at', end.toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as VoidedPayment[];
+    },
+  });
+
+  useEffect(() => {
+    if (error) {
+      toast({ title: "Error fetching voided payments", description: error.message, variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  const totalVoided = useMemo(
+    () => voidedPayments.reduce((sum, payment) => sum + payment.amount_paid, 0),
+    [voidedPayments]
+  );
+
+  const handleReportPdf = async (action: 'print' | 'save') => {
+    try {
+      const doc = await buildTableReportPdf({
+        settings,
+        title: 'VOIDED PAYMENTS REPORT',
+        subtitle: `${format(parseISO(fromDate), 'dd MMM yyyy')} – ${format(parseISO(toDate), 'dd MMM yyyy')}`,
+        head: ['Voided On', 'Customer', 'Rickshaw', 'Payment Date', 'Type', 'Amount (Rs)', 'Received By', 'Voided By', 'Reason'],
+        body: voidedPayments.map(payment => {
+          const details = payment.installment_plans?.rikshaw_details;
+          return [
+            format(parseISO(payment.voided_at), 'dd MMM yyyy'),
+            payment.installment_plans?.customers?.name ?? 'N/A',
+            details ? `${details.manufacturer} ${details.model_name} (${details.registration_number || 'N/A'})` : 'N/A',
+            format(parseISO(payment.payment_date), 'dd MMM yyyy'),
+            paymentTypeLabel(payment),
+            payment.amount_paid.toLocaleString(),
+            payment.received_by,
+            payment.voided_by_email || 'N/A',
+            payment.void_reason ?? '',
+          ];
+        }),
+        foot: [[
+          { content: `Total voided (${voidedPayments.length})`, colSpan: 5 },
+          totalVoided.toLocaleString(),
+          { content: '', colSpan: 3 },
+        ]],
+        rightAligned: [5],
+      });
+      if (action === 'print') printPdf(doc);
+      else savePdf(doc, `voided-payments-${fromDate}-to-${toDate}`);
+    } catch (error) {
+      toast({ title: "Report Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+            <Ban className="h-7 w-7 text-red-600" />
+            Voided Payments
+          </h1>
+          <p className="text-muted-foreground mt-2">Payments that were voided, who voided them and why.</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/reports"><ArrowLeft className="h-4 w-4 mr-2" />Monthly Report</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Report Period</CardTitle>
+          <CardDescription>Payments voided between these dates.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="voided-from">From</Label>
+              <Input id="voided-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voided-to">To</Label>
+              <Input id="voided-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button onClick={() => handleReportPdf('print')} disabled={voidedPayments.length === 0} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+              <Printer className="h-4 w-4" /> Print Report
+            </Button>
+            <Button variant="outline" onClick={() => handleReportPdf('save')} disabled={voidedPayments.length === 0} className="flex items-center gap-2">
+              <Download className="h-4 w-4" /> Download PDF
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading voided payments...</div>
+      ) : voidedPayments.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No payments were voided in this period.</div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>Voided On</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Rickshaw</TableHead>
+                <TableHead>Payment Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Amount (Rs)</TableHead>
+                <TableHead>Received By</TableHead>
+                <TableHead>Voided By</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {voidedPayments.map(payment => {
+                const details = payment.installment_plans?.rikshaw_details;
+                return (
+                  <TableRow key={payment.id}>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(payment.voided_at), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>{payment.installment_plans?.customers?.name ?? 'N/A'}</TableCell>
+                    <TableCell className="text-xs">
+                      {details ? `${details.manufacturer} ${details.model_name} (${details.registration_number || 'N/A'})` : 'N/A'}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(payment.payment_date), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>{paymentTypeLabel(payment)}</TableCell>
+                    <TableCell className="font-medium">Rs {payment.amount_paid.toLocaleString()}</TableCell>
+                    <TableCell>{payment.received_by}</TableCell>
+                    <TableCell>{payment.voided_by_email || 'N/A'}</TableCell>
+                    <TableCell className="max-w-xs">{payment.void_reason}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5} className="font-semibold">Total voided ({voidedPayments.length})</TableCell>
+                <TableCell className="font-bold text-red-600">Rs {totalVoided.toLocaleString()}</TableCell>
+                <TableCell colSpan={3} />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoidedPaymentsReport;
@@ -0,0 +1,155 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { LateFeePolicy } from '@/lib/lateFees';
+
+// Shared domain types for the app. Everything here is derived from the generated
+// `Database` type, so renaming or dropping a column breaks compilation instead of
+// failing at runtime. JSON columns and text columns with CHECK constraints are
+// narrowed to the shapes the app actually stores.
+//
+// JSON shapes are declared with `type` (not `interface`) so they stay assignable to `Json`
+// for inserts/updates without casts.
+
+export type RikshawAvailability = 'sold' | 'unsold';
+export type RikshawCategory = 'new' | 'old';
+// penalty: late fee received; penalty_waiver: late fee written off by an admin/manager (remarks hold the reason)
+export type PaymentType = 'monthly' | 'advance_adjustment' | 'commission' | 'discount' | 'penalty' | 'penalty_waiver';
+// What a file in the documents bucket is (documents.document_type)
+export type DocumentType = 'cnic_front' | 'cnic_back' | 'agreement' | 'cheque' | 'registration' | 'photo';
+// security: kept against default and returned when the plan completes; post_dated: dated for deposit
+export type ChequeKind = 'security' | 'post_dated';
+export type ChequeStatus = 'held' | 'deposited' | 'cleared' | 'bounced' | 'returned';
+// An open quotation past its valid_until date is shown as expired; the status itself stays 'open'
+export type SettlementQuotationStatus = 'open' | 'accepted' | 'cancelled';
+// State of a repossessed unit when it came back
+export type RepossessionCondition = 'good' | 'fair' | 'poor' | 'damaged';
+export type SupplierPaymentMethod = 'cash' | 'bank_transfer' | 'cheque';
+// What happened to a unit (rikshaw_events.event_type)
+export type RikshawEventType = 'purchased' | 'in_stock' | 'reserved' | 'sold' | 'repossessed' | 'resold' | 'transferred' | 'scrapped';
+// An active reservation past its expires_on no longer holds the unit, even before expire_reservations() marks it expired
+export type ReservationStatus = 'active' | 'converted' | 'expired' | 'cancelled';
+// Excise registration of a sold unit (registrations.status), in the order it progresses
+export type RegistrationStatus = 'not_applied' | 'applied' | 'received' | 'plate_issued';
+export type RegistrationFeePaidBy = 'customer' | 'showroom';
+// Where the original registration book is held
+export type RegistrationBookLocation = 'excise_office' | 'showroom_safe' | 'customer';
+
+// One agreed advance chunk in installment_plans.advance_payments
+export type AdvancePayment = {
+  amount: number;
+  date: string; // 'yyyy-MM-dd'
+};
+
+// A closed repayment schedule in installment_plans.schedule_history, written by reschedule_plan.
+// The schedule in force is the plan's own monthly_installment / duration_months / schedule_start_date.
+export type ScheduleVersion = {
+  version: number;
+  start_date: string; // 'yyyy-MM-dd'; the first installment falls due a month later
+  monthly_installment: number;
+  duration_months: number;
+  closed_on: string; // 'yyyy-MM-dd'
+  carried_balance: number; // outstanding amount moved into the next version
+  reason: string;
+  closed_by_email: string | null;
+};
+
+// Snapshot of the unit stored on the plan at sale time (installment_plans.rikshaw_details)
+export type RikshawDetails = {
+  manufacturer: string;
+  model_name: string;
+  engine_number: string;
+  chassis_number: string;
+  registration_number: string | null;
+  type: string;
+};
+
+export type Customer = Tables<'customers'>;
+
+export type CustomerNote = Tables<'customer_notes'>;
+
+export type Guarantor = Tables<'guarantors'>;
+
+export type PlanCheque = Omit<Tables<'plan_cheques'>, 'kind' | 'status'> & {
+  kind: ChequeKind;
+  status: ChequeStatus;
+};
+
+export type SettlementQuotation = Omit<Tables<'settlement_quotations'>, 'status'> & {
+  status: SettlementQuotationStatus;
+};
+
+// resale_price/resold_on are filled in by the database when the unit is sold again. On a resale on
+// installments (resale_on_installments) resale_price is the new plan's contracted total, markup included.
+export type Repossession = Omit<Tables<'repossessions'>, 'condition'> & {
+  condition: RepossessionCondition;
+};
+
+export type Supplier = Tables<'suppliers'>;
+
+// total_amount is the sum of the invoice's rikshaw prices plus other_charges, fixed at receipt
+export type PurchaseInvoice = Tables<'purchase_invoices'>;
+
+export type SupplierPayment = Omit<Tables<'supplier_payments'>, 'method'> & {
+  method: SupplierPaymentMethod;
+};
+
+// A stored file; exactly one of customer_id / installment_plan_id / rikshaw_id is set
+export type DocumentRecord = Omit<Tables<'documents'>, 'document_type'> & {
+  document_type: DocumentType;
+};
+
+export type Rikshaw = Omit<Tables<'rikshaws'>, 'availability' | 'category'> & {
+  availability: RikshawAvailability;
+  category: RikshawCategory;
+};
+
+// Purchased/sold/resold/repossessed/in_stock events are written by a trigger on rikshaws
+export type RikshawEvent = Omit<Tables<'rikshaw_events'>, 'event_type'> & {
+  event_type: RikshawEventType;
+};
+
+export type Reservation = Omit<Tables<'reservations'>, 'status'> & {
+  status: ReservationStatus;
+};
+
+// One per installment plan, created with the sale
+export type Registration = Omit<Tables<'registrations'>, 'status' | 'fee_paid_by' | 'book_location'> & {
+  status: RegistrationStatus;
+  fee_paid_by: RegistrationFeePaidBy | null;
+  book_location: RegistrationBookLocation | null;
+};
+
+// Voided payments keep their row (voided_at/voided_by_email/void_reason set) and get a reversing
+// entry with the negated amount whose reversal_of points back at them. receipt_number
+// ('YYYY-NNNNNN') is assigned by the database and shared by all rows of one bulk payment;
+// waivers and reversals have none. schedule_version is the plan's schedule version in force
+// when the payment was recorded (set by the database).
+export type InstallmentPayment = Omit<Tables<'installment_payments'>, 'payment_type'> & {
+  payment_type: PaymentType;
+};
+
+// Plan row with its JSON columns typed. `customers`/`rikshaws` are present when the
+// query embeds them (e.g. `.select('*, customers(name, phone)')`); pages only read the
+// columns they select. A null `late_fee_policy` means the global late fee policy applies.
+export type InstallmentPlan = Omit<Tables<'installment_plans'>, 'advance_payments' | 'rikshaw_details' | 'late_fee_policy' | 'schedule_history'> & {
+  advance_payments: AdvancePayment[];
+  rikshaw_details: RikshawDetails | null;
+  late_fee_policy: LateFeePolicy | null;
+  schedule_history: ScheduleVersion[];
+  customers?: Customer;
+  rikshaws?: Rikshaw;
+};
+
+export type Profile = Tables<'profiles'>;
+
+export type ReceiptReprint = Tables<'receipt_reprints'>;
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+export type AuditedTable = 'installment_payments' | 'installment_plans' | 'rikshaws' | 'customers' | 'plan_cheques' | 'settlement_quotations' | 'repossessions' | 'purchase_invoices' | 'supplier_payments' | 'reservations' | 'registrations';
+
+// Row images are stored as JSON snapshots of the audited table
+export type AuditLogEntry = Omit<Tables<'audit_log'>, 'action' | 'table_name' | 'old_data' | 'new_data'> & {
+  action: AuditAction;
+  table_name: AuditedTable;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+};
@@ -4,19 +4,25 @@
 
 -- 1) Drop UNIQUE constraint/index on `installment_plans.customer_id` if present
 --    This prevents limiting a customer to a single installment plan.
-ALTER TABLE public.installment_plans
+ALTER TABLE IF EXISTS public.installment_plans
   DROP CONSTRAINT IF EXISTS installment_plans_customer_id_key;
 
 DROP INDEX IF EXISTS public.installment_plans_customer_id_key;
 
 -- Ensure a non-unique index exists for query performance
-CREATE INDEX IF NOT EXISTS idx_installment_plans_customer_id
-  ON public.installment_plans (customer_id);
+-- (on a fresh database 20251121110000_initial_schema.sql creates the table and this index)
+DO $$
+BEGIN
+  IF to_regclass('public.installment_plans') IS NOT NULL THEN
+    CREATE INDEX IF NOT EXISTS idx_installment_plans_customer_id
+      ON public.installment_plans (customer_id);
+  END IF;
+END $$;
 
 -- 2) Drop UNIQUE constraint/index on `rikshaws.customer_id` if present
 --    Some schemas attach a customer directly to a rikshaw. If this was set to unique,
 --    it would prevent multiple rikshaws per customer.
-ALTER TABLE public.rikshaws
+ALTER TABLE IF EXISTS public.rikshaws
   DROP CONSTRAINT IF EXISTS rikshaws_customer_id_key;
 
 DROP INDEX IF EXISTS public.rikshaws_customer_id_key;
@@ -0,0 +1,228 @@
+-- Baseline schema for the showroom app.
+-- Every statement is idempotent so this can run on a fresh database (supabase db reset)
+-- as well as be recorded against the existing project without touching live data.
+-- It is timestamped after the migrations already applied to the project, so on a fresh
+-- database 20250622091156_rls_policies.sql and 20251121103000_remove_unique_customer_sales_constraints.sql
+-- find no tables and skip; the read policies and the customer index they add are set up here instead.
+-- Column shapes for databases created before this file are reconciled in
+-- 20261019100000_align_schema_with_app.sql.
+
+-- Shared trigger function to keep updated_at current
+CREATE OR REPLACE FUNCTION public.handle_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+-- 1) Profiles (one row per auth user)
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  full_name text,
+  role text NOT NULL DEFAULT 'user',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create a profile automatically when someone signs up (Auth.tsx passes full_name as metadata)
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'full_name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- 2) Customers
+CREATE TABLE IF NOT EXISTS public.customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  cnic text NOT NULL UNIQUE,
+  phone text NOT NULL,
+  address text NOT NULL,
+  guarantor_name text,
+  guarantor_cnic text,
+  guarantor_phone text,
+  guarantor_address text,
+  bank_name text,
+  cheque_number text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 3) Rikshaws (inventory)
+CREATE TABLE IF NOT EXISTS public.rikshaws (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer text NOT NULL,
+  model_name text NOT NULL,
+  type text NOT NULL,
+  engine_number text NOT NULL UNIQUE,
+  chassis_number text NOT NULL UNIQUE,
+  registration_number text UNIQUE,
+  category text NOT NULL DEFAULT 'new' CHECK (category IN ('new', 'old')),
+  availability text NOT NULL DEFAULT 'unsold' CHECK (availability IN ('sold', 'unsold')),
+  purchase_date date NOT NULL DEFAULT CURRENT_DATE,
+  purchase_price numeric NOT NULL CHECK (purchase_price > 0),
+  sale_price numeric,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 4) Installment plans (one per sale)
+--    advance_payments holds the agreed advance chunks: [{ "amount": 75000, "date": "2025-01-01" }, ...]
+--    The first chunk is collected at sale time (advance_paid); the rest arrive as advance_adjustment payments.
+--    rikshaw_details and the guarantor/bank columns are snapshots taken at sale time.
+CREATE TABLE IF NOT EXISTS public.installment_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.customers (id),
+  rikshaw_id uuid NOT NULL REFERENCES public.rikshaws (id),
+  total_price numeric NOT NULL CHECK (total_price > 0),
+  advance_paid numeric NOT NULL DEFAULT 0,
+  advance_payments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  monthly_installment numeric NOT NULL DEFAULT 0,
+  duration_months integer NOT NULL CHECK (duration_months > 0),
+  agreement_date date NOT NULL DEFAULT CURRENT_DATE,
+  showroom_commission numeric NOT NULL DEFAULT 0,
+  is_commission_paid boolean NOT NULL DEFAULT false,
+  total_paid_monthly_installments numeric NOT NULL DEFAULT 0,
+  guarantor_name text,
+  guarantor_cnic text,
+  guarantor_phone text,
+  guarantor_address text,
+  bank_name text,
+  cheque_number text,
+  rikshaw_details jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 5) Installment payments (every amount received against a plan)
+CREATE TABLE IF NOT EXISTS public.installment_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  installment_plan_id uuid NOT NULL REFERENCES public.installment_plans (id) ON DELETE CASCADE,
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  amount_paid numeric NOT NULL CHECK (amount_paid > 0),
+  received_by text NOT NULL,
+  payment_type text NOT NULL CHECK (payment_type IN ('monthly', 'advance_adjustment', 'commission', 'discount')),
+  installment_number integer,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 6) Legacy per-installment rows. The app derives its schedule from installment_payments;
+--    this table and generate_installments are kept for existing data and the RLS migration.
+CREATE TABLE IF NOT EXISTS public.installments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES public.installment_plans (id) ON DELETE CASCADE,
+  installment_number integer NOT NULL,
+  amount numeric NOT NULL,
+  due_date date NOT NULL,
+  paid_date date,
+  status text NOT NULL DEFAULT 'pending',
+  payment_method text,
+  collector_name text,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.generate_installments(plan_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  p public.installment_plans%ROWTYPE;
+  i integer;
+BEGIN
+  SELECT * INTO p FROM public.installment_plans WHERE id = generate_installments.plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment plan % not found', generate_installments.plan_id;
+  END IF;
+
+  FOR i IN 1..p.duration_months LOOP
+    INSERT INTO public.installments (plan_id, installment_number, amount, due_date)
+    VALUES (p.id, i, p.monthly_installment, (p.agreement_date + make_interval(months => i))::date);
+  END LOOP;
+END;
+$$;
+
+-- updated_at triggers
+DROP TRIGGER IF EXISTS set_updated_at ON public.profiles;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.customers;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.rikshaws;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.rikshaws
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.installment_plans;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.installment_plans
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.installments;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.installments
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Indexes for the common lookups
+CREATE INDEX IF NOT EXISTS idx_installment_plans_rikshaw_id
+  ON public.installment_plans (rikshaw_id);
+
+CREATE INDEX IF NOT EXISTS idx_installment_payments_plan_id
+  ON public.installment_payments (installment_plan_id);
+
+CREATE INDEX IF NOT EXISTS idx_rikshaws_availability
+  ON public.rikshaws (availability);
+
+CREATE INDEX IF NOT EXISTS idx_installment_plans_customer_id
+  ON public.installment_plans (customer_id);
+
+-- Read access for signed-in users (write policies are set per role in 20261019103000_role_based_access.sql)
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rikshaws ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.installment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.installments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view all customers" ON public.customers;
+CREATE POLICY "Authenticated users can view all customers"
+  ON public.customers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view all rikshaws" ON public.rikshaws;
+CREATE POLICY "Authenticated users can view all rikshaws"
+  ON public.rikshaws
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view all installment plans" ON public.installment_plans;
+CREATE POLICY "Authenticated users can view all installment plans"
+  ON public.installment_plans
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view all installments" ON public.installments;
+CREATE POLICY "Authenticated users can view all installments"
+  ON public.installments
+  FOR SELECT
+  TO authenticated
+  USING (true);
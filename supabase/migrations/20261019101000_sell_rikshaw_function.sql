@@ -0,0 +1,140 @@
+-- Atomic sale: create the installment plan and mark the rikshaw sold in one transaction.
+--
+-- The rikshaw row is locked (SELECT ... FOR UPDATE), so two concurrent sales of the same unit
+-- are serialised: the second caller waits, then sees availability = 'sold' and fails with
+-- SQLSTATE 'RK001' (rikshaw_unavailable), which the client maps to a typed error.
+--
+-- The guarantor/bank and rikshaw_details snapshots are taken from the locked rows here rather
+-- than trusted from the client.
+
+CREATE OR REPLACE FUNCTION public.sell_rikshaw(
+  p_customer_id uuid,
+  p_rikshaw_id uuid,
+  p_total_price numeric,
+  p_advance_payments jsonb,
+  p_monthly_installment numeric,
+  p_duration_months integer,
+  p_agreement_date date,
+  p_showroom_commission numeric DEFAULT 0,
+  p_is_commission_paid boolean DEFAULT false
+)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_rikshaw public.rikshaws%ROWTYPE;
+  v_customer public.customers%ROWTYPE;
+  v_first_advance numeric;
+  v_plan public.installment_plans%ROWTYPE;
+BEGIN
+  -- 1) Lock the unit and make sure it is still available
+  SELECT * INTO v_rikshaw
+  FROM public.rikshaws
+  WHERE id = p_rikshaw_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rikshaw % not found', p_rikshaw_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_rikshaw.availability <> 'unsold' THEN
+    RAISE EXCEPTION 'Rikshaw % has already been sold', v_rikshaw.engine_number
+      USING ERRCODE = 'RK001',
+            DETAIL = format('rikshaw_id=%s availability=%s', v_rikshaw.id, v_rikshaw.availability);
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM public.customers
+  WHERE id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- 2) Validate the plan terms (mirrors the checks in SellRickshaw.tsx)
+  IF jsonb_typeof(p_advance_payments) <> 'array' OR jsonb_array_length(p_advance_payments) = 0 THEN
+    RAISE EXCEPTION 'At least one advance payment is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Only the first advance chunk is collected at sale time; later chunks arrive as advance_adjustment payments
+  v_first_advance := COALESCE((p_advance_payments -> 0 ->> 'amount')::numeric, 0);
+
+  IF v_first_advance <= 0 THEN
+    RAISE EXCEPTION 'The first advance payment must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_first_advance > p_total_price THEN
+    RAISE EXCEPTION 'Advance collected cannot exceed the total price'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_showroom_commission, 0) < 0 THEN
+    RAISE EXCEPTION 'Showroom commission cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- 3) Create the plan
+  INSERT INTO public.installment_plans (
+    customer_id,
+    rikshaw_id,
+    total_price,
+    advance_paid,
+    advance_payments,
+    monthly_installment,
+    duration_months,
+    agreement_date,
+    showroom_commission,
+    is_commission_paid,
+    guarantor_name,
+    guarantor_cnic,
+    guarantor_phone,
+    guarantor_address,
+    bank_name,
+    cheque_number,
+    rikshaw_details
+  )
+  VALUES (
+    p_customer_id,
+    p_rikshaw_id,
+    p_total_price,
+    v_first_advance,
+    p_advance_payments,
+    p_monthly_installment,
+    p_duration_months,
+    COALESCE(p_agreement_date, CURRENT_DATE),
+    COALESCE(p_showroom_commission, 0),
+    COALESCE(p_is_commission_paid, false),
+    v_customer.guarantor_name,
+    v_customer.guarantor_cnic,
+    v_customer.guarantor_phone,
+    v_customer.guarantor_address,
+    v_customer.bank_name,
+    v_customer.cheque_number,
+    jsonb_build_object(
+      'manufacturer', v_rikshaw.manufacturer,
+      'model_name', v_rikshaw.model_name,
+      'engine_number', v_rikshaw.engine_number,
+      'chassis_number', v_rikshaw.chassis_number,
+      'registration_number', v_rikshaw.registration_number,
+      'type', v_rikshaw.type
+    )
+  )
+  RETURNING * INTO v_plan;
+
+  -- 4) Mark the unit sold
+  UPDATE public.rikshaws
+  SET availability = 'sold',
+      sale_price = p_total_price
+  WHERE id = p_rikshaw_id;
+
+  RETURN v_plan;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean) TO authenticated;
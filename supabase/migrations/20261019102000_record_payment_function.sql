@@ -0,0 +1,201 @@
+-- Server-side payment recording.
+--
+-- record_payment replaces the browser-side allocation in Installments.tsx. It locks the plan row,
+-- so concurrent recordings against the same plan are serialised, allocates the amount and inserts
+-- every resulting row in one transaction. It returns the inserted rows for the receipt.
+--
+-- Allocation rules match src/lib/installmentLedger.ts:
+--   * monthly: pooled waterfall over the schedule (earliest unpaid installment first). Each installment
+--     expects monthly_installment, capped by what is left of (total - collected advance - discounts);
+--     the last installment absorbs the remainder. Whatever is left after the schedule goes to the
+--     pending agreed advance as an advance_adjustment row.
+--   * advance_adjustment / discount / commission: recorded as a single row.
+--
+-- total_paid_monthly_installments is kept in sync by a trigger, so edits and deletes of payment rows
+-- keep the aggregate correct as well.
+
+-- 1) Aggregate maintenance
+CREATE OR REPLACE FUNCTION public.refresh_plan_payment_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan_id uuid;
+BEGIN
+  FOREACH v_plan_id IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.installment_plan_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.installment_plan_id END
+  ] LOOP
+    CONTINUE WHEN v_plan_id IS NULL;
+
+    UPDATE public.installment_plans p
+    SET total_paid_monthly_installments = COALESCE((
+      SELECT SUM(ip.amount_paid)
+      FROM public.installment_payments ip
+      WHERE ip.installment_plan_id = v_plan_id
+        AND ip.payment_type = 'monthly'
+    ), 0)
+    WHERE p.id = v_plan_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_plan_payment_totals ON public.installment_payments;
+CREATE TRIGGER refresh_plan_payment_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.installment_payments
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_plan_payment_totals();
+
+-- Bring existing aggregates in line with the payment rows
+UPDATE public.installment_plans p
+SET total_paid_monthly_installments = COALESCE((
+  SELECT SUM(ip.amount_paid)
+  FROM public.installment_payments ip
+  WHERE ip.installment_plan_id = p.id
+    AND ip.payment_type = 'monthly'
+), 0);
+
+-- 2) record_payment
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_plan_id uuid,
+  p_amount numeric,
+  p_payment_type text,
+  p_received_by text,
+  p_payment_date date DEFAULT CURRENT_DATE
+)
+RETURNS SETOF public.installment_payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_total_agreed_advance numeric;
+  v_collected_advance numeric;
+  v_remaining_advance numeric;
+  v_total_discount numeric;
+  v_monthly_paid_pool numeric;
+  v_target_left numeric;
+  v_expected numeric;
+  v_already_paid numeric;
+  v_due numeric;
+  v_pay_now numeric;
+  v_left numeric := p_amount;
+  i integer;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount paid must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_type NOT IN ('monthly', 'advance_adjustment', 'commission', 'discount') THEN
+    RAISE EXCEPTION 'Unknown payment type %', p_payment_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(btrim(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Received by is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialise all recordings against this plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = p_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment plan % not found', p_plan_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Non-monthly payments are stored as-is
+  IF p_payment_type <> 'monthly' THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), p_amount, btrim(p_received_by), p_payment_type)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    IF p_payment_type = 'commission' THEN
+      UPDATE public.installment_plans SET is_commission_paid = true WHERE id = p_plan_id;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  -- Current position of the plan (see computeInstallmentLedger)
+  SELECT COALESCE(SUM((chunk ->> 'amount')::numeric), 0)
+  INTO v_total_agreed_advance
+  FROM jsonb_array_elements(COALESCE(v_plan.advance_payments, '[]'::jsonb)) AS chunk;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'advance_adjustment'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'discount'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly'), 0)
+  INTO v_collected_advance, v_total_discount, v_monthly_paid_pool
+  FROM public.installment_payments
+  WHERE installment_plan_id = p_plan_id;
+
+  v_remaining_advance := GREATEST(0, v_total_agreed_advance - v_collected_advance);
+  v_target_left := GREATEST(0, v_plan.total_price - v_collected_advance - v_total_discount);
+
+  -- Monthly waterfall: skip what earlier payments already cover, then fill the earliest dues
+  FOR i IN 1..v_plan.duration_months LOOP
+    EXIT WHEN v_left <= 0;
+
+    IF i = v_plan.duration_months THEN
+      v_expected := GREATEST(0, round(v_target_left));
+    ELSE
+      v_expected := round(LEAST(v_plan.monthly_installment, GREATEST(0, v_target_left)));
+    END IF;
+    v_target_left := v_target_left - v_expected;
+
+    v_already_paid := LEAST(v_expected, v_monthly_paid_pool);
+    v_monthly_paid_pool := v_monthly_paid_pool - v_already_paid;
+
+    v_due := v_expected - v_already_paid;
+    CONTINUE WHEN v_due <= 0;
+
+    v_pay_now := LEAST(v_left, v_due);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, installment_number)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'monthly', i)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+  END LOOP;
+
+  -- Leftover goes to the pending agreed advance
+  IF v_left > 0 AND v_remaining_advance > 0 THEN
+    v_pay_now := LEAST(v_left, v_remaining_advance);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'advance_adjustment')
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+  END IF;
+
+  -- Nothing left to apply it to: refuse rather than silently dropping money
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding balance by Rs %', v_left
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment(uuid, numeric, text, text, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_payment(uuid, numeric, text, text, date) TO authenticated;
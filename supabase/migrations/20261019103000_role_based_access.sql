@@ -0,0 +1,231 @@
+-- Role-based access control.
+--
+-- Roles (profiles.role):
+--   admin    full access, the only role that can delete rikshaws/customers and change roles
+--   manager  day-to-day operations: sales, inventory, customers, plan terms, payment corrections
+--   cashier  read access plus recording payments (no edits/deletes of payments, no plan changes)
+--   viewer   read-only
+--
+-- The same matrix is mirrored in src/lib/roles.ts for the UI; the policies here are what actually
+-- enforces it.
+
+-- 1) Profiles: constrain the role column
+-- Accounts that existed before roles were introduced had full access; keep it that way so nobody
+-- is locked out. New sign-ups start as viewers until an admin promotes them.
+INSERT INTO public.profiles (id, full_name, role)
+SELECT u.id, u.raw_user_meta_data ->> 'full_name', 'admin'
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE public.profiles
+SET role = 'admin'
+WHERE role NOT IN ('admin', 'manager', 'cashier', 'viewer');
+
+ALTER TABLE public.profiles
+  ALTER COLUMN role SET DEFAULT 'viewer';
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_role_check;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('admin', 'manager', 'cashier', 'viewer'));
+
+-- 2) Role helpers used by the policies
+-- SECURITY DEFINER so policies on profiles itself do not recurse.
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(VARIADIC roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.current_app_role() = ANY (roles), false);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_app_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_role(text[]) TO authenticated;
+
+-- Only admins may change a role (the own-profile update policy would otherwise allow self-promotion)
+CREATE OR REPLACE FUNCTION public.guard_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_profile_role ON public.profiles;
+CREATE TRIGGER guard_profile_role
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_role();
+
+-- 3) Profiles policies
+DROP POLICY IF EXISTS "Users can view their own profile" ON public.profiles;
+CREATE POLICY "Users can view their own profile"
+  ON public.profiles
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR public.has_role('admin'));
+
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
+CREATE POLICY "Users can update their own profile"
+  ON public.profiles
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid() OR public.has_role('admin'));
+
+-- 4) Customers: everyone reads, admin/manager write, admin deletes
+DROP POLICY IF EXISTS "Authenticated users can create customers" ON public.customers;
+DROP POLICY IF EXISTS "Authenticated users can update customers" ON public.customers;
+DROP POLICY IF EXISTS "Authenticated users can delete customers" ON public.customers;
+
+CREATE POLICY "Managers can create customers"
+  ON public.customers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+CREATE POLICY "Managers can update customers"
+  ON public.customers
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+CREATE POLICY "Admins can delete customers"
+  ON public.customers
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin'));
+
+-- 5) Rikshaws: everyone reads, admin/manager write (sales flip availability), admin deletes
+DROP POLICY IF EXISTS "Authenticated users can create rikshaws" ON public.rikshaws;
+DROP POLICY IF EXISTS "Authenticated users can update rikshaws" ON public.rikshaws;
+DROP POLICY IF EXISTS "Authenticated users can delete rikshaws" ON public.rikshaws;
+
+CREATE POLICY "Managers can create rikshaws"
+  ON public.rikshaws
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+CREATE POLICY "Managers can update rikshaws"
+  ON public.rikshaws
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+CREATE POLICY "Admins can delete rikshaws"
+  ON public.rikshaws
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin'));
+
+-- 6) Installment plans: everyone reads, admin/manager create (sell) and change terms/prices
+DROP POLICY IF EXISTS "Authenticated users can create installment plans" ON public.installment_plans;
+DROP POLICY IF EXISTS "Authenticated users can update installment plans" ON public.installment_plans;
+
+CREATE POLICY "Managers can create installment plans"
+  ON public.installment_plans
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+CREATE POLICY "Managers can update installment plans"
+  ON public.installment_plans
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+-- Legacy installments table follows the plan rules
+DROP POLICY IF EXISTS "Authenticated users can create installments" ON public.installments;
+DROP POLICY IF EXISTS "Authenticated users can update installments" ON public.installments;
+
+CREATE POLICY "Managers can create installments"
+  ON public.installments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+CREATE POLICY "Managers can update installments"
+  ON public.installments
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+-- 7) Payments: cashiers record, only admin/manager correct or remove
+DROP POLICY IF EXISTS "Authenticated users can create installment payments" ON public.installment_payments;
+DROP POLICY IF EXISTS "Authenticated users can update installment payments" ON public.installment_payments;
+DROP POLICY IF EXISTS "Authenticated users can delete installment payments" ON public.installment_payments;
+
+CREATE POLICY "Cashiers can record installment payments"
+  ON public.installment_payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager', 'cashier'));
+
+CREATE POLICY "Managers can update installment payments"
+  ON public.installment_payments
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+CREATE POLICY "Managers can delete installment payments"
+  ON public.installment_payments
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+-- 8) Plan aggregates are derived data: maintain them regardless of the caller's plan permissions,
+--    so a cashier recording a payment still updates total_paid_monthly_installments and the
+--    commission flag even though cashiers cannot update plans directly.
+CREATE OR REPLACE FUNCTION public.refresh_plan_payment_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan_id uuid;
+BEGIN
+  FOREACH v_plan_id IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.installment_plan_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.installment_plan_id END
+  ] LOOP
+    CONTINUE WHEN v_plan_id IS NULL;
+
+    UPDATE public.installment_plans p
+    SET total_paid_monthly_installments = COALESCE((
+      SELECT SUM(ip.amount_paid)
+      FROM public.installment_payments ip
+      WHERE ip.installment_plan_id = v_plan_id
+        AND ip.payment_type = 'monthly'
+    ), 0)
+    WHERE p.id = v_plan_id;
+  END LOOP;
+
+  IF TG_OP = 'INSERT' AND NEW.payment_type = 'commission' THEN
+    UPDATE public.installment_plans
+    SET is_commission_paid = true
+    WHERE id = NEW.installment_plan_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
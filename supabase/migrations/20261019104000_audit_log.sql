@@ -0,0 +1,139 @@
+-- Append-only audit trail for financial and inventory records.
+--
+-- Every INSERT/UPDATE/DELETE on installment_payments, installment_plans, rikshaws and customers
+-- writes one row to audit_log with the acting user, old/new row images and the reason given in
+-- the UI. The reason travels with the request in the `x-audit-reason` header (base64 of UTF-8,
+-- see src/lib/audit.ts); database functions that change rows themselves can instead set the
+-- transaction-local setting `app.audit_reason`.
+--
+-- audit_log is readable by admins and managers and cannot be changed or removed by anyone.
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id bigserial PRIMARY KEY,
+  table_name text NOT NULL,
+  record_id uuid,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id uuid,
+  actor_email text,
+  reason text,
+  old_data jsonb,
+  new_data jsonb,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_at ON public.audit_log (changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_record ON public.audit_log (table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON public.audit_log (actor_id);
+
+-- 1) Reason for the current change
+CREATE OR REPLACE FUNCTION public.current_audit_reason()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_reason text := NULLIF(current_setting('app.audit_reason', true), '');
+  v_header text;
+BEGIN
+  IF v_reason IS NOT NULL THEN
+    RETURN v_reason;
+  END IF;
+
+  v_header := NULLIF(current_setting('request.headers', true), '')::json ->> 'x-audit-reason';
+  IF v_header IS NULL OR v_header = '' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN convert_from(decode(v_header, 'base64'), 'UTF8');
+EXCEPTION
+  -- A malformed header must never block the underlying change
+  WHEN others THEN
+    RETURN v_header;
+END;
+$$;
+
+-- 2) Generic row trigger
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+BEGIN
+  -- Skip no-op updates (only updated_at touched)
+  IF TG_OP = 'UPDATE' AND (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, actor_id, actor_email, reason, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new ->> 'id', v_old ->> 'id')::uuid,
+    TG_OP,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    public.current_audit_reason(),
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_installment_payments ON public.installment_payments;
+CREATE TRIGGER audit_installment_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.installment_payments
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_installment_plans ON public.installment_plans;
+CREATE TRIGGER audit_installment_plans
+  AFTER INSERT OR UPDATE OR DELETE ON public.installment_plans
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_rikshaws ON public.rikshaws;
+CREATE TRIGGER audit_rikshaws
+  AFTER INSERT OR UPDATE OR DELETE ON public.rikshaws
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_customers ON public.customers;
+CREATE TRIGGER audit_customers
+  AFTER INSERT OR UPDATE OR DELETE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+-- 3) Immutability: no updates or deletes, even for the table owner
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_immutable ON public.audit_log;
+CREATE TRIGGER audit_log_immutable
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON public.audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- 4) Access: read-only for admins and managers; rows are only ever written by the trigger
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can view the audit log" ON public.audit_log;
+CREATE POLICY "Managers can view the audit log"
+  ON public.audit_log
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
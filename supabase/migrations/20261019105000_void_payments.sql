@@ -0,0 +1,159 @@
+-- Payment voiding.
+--
+-- Printed receipts must stay traceable, so payment rows are no longer deleted. Instead
+-- void_payment marks a payment voided (who, when, why) and inserts a reversing entry: a row of the
+-- same type and installment with the negated amount, pointing back at the original through
+-- reversal_of. Both rows stay visible in the payment history.
+--
+-- The app's ledger (src/lib/installmentLedger.ts) ignores voided rows and reversals. Server-side
+-- SUM()s (refresh_plan_payment_totals, record_payment) include both, where they cancel out, so those
+-- functions need no changes.
+
+-- 1) Columns
+ALTER TABLE public.installment_payments
+  ADD COLUMN IF NOT EXISTS voided_at timestamptz,
+  ADD COLUMN IF NOT EXISTS voided_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS voided_by_email text,
+  ADD COLUMN IF NOT EXISTS void_reason text,
+  ADD COLUMN IF NOT EXISTS reversal_of uuid REFERENCES public.installment_payments(id);
+
+-- A payment can be reversed only once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_installment_payments_reversal_of
+  ON public.installment_payments (reversal_of)
+  WHERE reversal_of IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_installment_payments_voided_at
+  ON public.installment_payments (voided_at)
+  WHERE voided_at IS NOT NULL;
+
+-- Reversing entries carry the negated amount
+ALTER TABLE public.installment_payments DROP CONSTRAINT IF EXISTS installment_payments_amount_paid_check;
+ALTER TABLE public.installment_payments
+  ADD CONSTRAINT installment_payments_amount_paid_check
+  CHECK (amount_paid > 0 OR (reversal_of IS NOT NULL AND amount_paid < 0));
+
+-- 2) Voided payments and reversals are final; voiding only happens through void_payment
+CREATE OR REPLACE FUNCTION public.guard_voided_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.voided_at IS NOT NULL OR OLD.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Voided payments and reversals cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (NEW.voided_at, NEW.voided_by, NEW.voided_by_email, NEW.void_reason, NEW.reversal_of)
+       IS DISTINCT FROM (OLD.voided_at, OLD.voided_by, OLD.voided_by_email, OLD.void_reason, OLD.reversal_of)
+     AND COALESCE(current_setting('app.voiding_payment', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Use void_payment to void a payment'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_voided_payments ON public.installment_payments;
+CREATE TRIGGER guard_voided_payments
+  BEFORE UPDATE ON public.installment_payments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_voided_payments();
+
+-- 3) No more hard deletes from the app
+DROP POLICY IF EXISTS "Managers can delete installment payments" ON public.installment_payments;
+
+-- 4) void_payment: returns the reversing entry
+CREATE OR REPLACE FUNCTION public.void_payment(
+  p_payment_id uuid,
+  p_reason text
+)
+RETURNS public.installment_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.installment_payments%ROWTYPE;
+  v_reversal public.installment_payments%ROWTYPE;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can void payments'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a payment'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.installment_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_payment.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'A reversing entry cannot be voided'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_payment.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This payment was already voided'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialise with record_payment on the same plan
+  PERFORM 1 FROM public.installment_plans WHERE id = v_payment.installment_plan_id FOR UPDATE;
+
+  -- The reason also lands on both audit_log rows
+  PERFORM set_config('app.audit_reason', btrim(p_reason), true);
+  PERFORM set_config('app.voiding_payment', 'on', true);
+
+  UPDATE public.installment_payments
+  SET voided_at = now(),
+      voided_by = auth.uid(),
+      voided_by_email = auth.jwt() ->> 'email',
+      void_reason = btrim(p_reason)
+  WHERE id = p_payment_id;
+
+  INSERT INTO public.installment_payments (
+    installment_plan_id, payment_date, amount_paid, received_by, payment_type, installment_number, reversal_of
+  )
+  VALUES (
+    v_payment.installment_plan_id,
+    CURRENT_DATE,
+    -v_payment.amount_paid,
+    COALESCE(auth.jwt() ->> 'email', v_payment.received_by),
+    v_payment.payment_type,
+    v_payment.installment_number,
+    v_payment.id
+  )
+  RETURNING * INTO v_reversal;
+
+  PERFORM set_config('app.voiding_payment', '', true);
+
+  -- The insert trigger flags commission as paid; recompute it from the remaining valid rows
+  IF v_payment.payment_type = 'commission' THEN
+    UPDATE public.installment_plans p
+    SET is_commission_paid = EXISTS (
+      SELECT 1
+      FROM public.installment_payments ip
+      WHERE ip.installment_plan_id = p.id
+        AND ip.payment_type = 'commission'
+        AND ip.voided_at IS NULL
+        AND ip.reversal_of IS NULL
+    )
+    WHERE p.id = v_payment.installment_plan_id;
+  END IF;
+
+  RETURN v_reversal;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.void_payment(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.void_payment(uuid, text) TO authenticated;
@@ -0,0 +1,226 @@
+-- Late-payment penalties.
+--
+-- Late fees are computed in the app from the schedule and the actual payment dates
+-- (src/lib/installmentLedger.ts, src/lib/lateFees.ts). The database stores:
+--   * the global policy in app_settings under 'late_fee_policy' and an optional per-plan override
+--     in installment_plans.late_fee_policy (null = use the global policy);
+--   * late fees received as `penalty` payments and write-offs as `penalty_waiver` entries. Waivers
+--     need an admin or manager and a reason, kept in installment_payments.remarks.
+--
+-- Policy shape: { "grace_days": 5, "penalty_type": "flat" | "percentage", "penalty_value": 500,
+--                 "per_day_amount": 50, "cap": 2000 | null }
+
+-- 1) Application-wide settings (key/value)
+CREATE TABLE IF NOT EXISTS public.app_settings (
+  key text PRIMARY KEY,
+  value jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id) DEFAULT auth.uid()
+);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.app_settings;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view settings" ON public.app_settings;
+CREATE POLICY "Authenticated users can view settings"
+  ON public.app_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage settings" ON public.app_settings;
+CREATE POLICY "Admins can manage settings"
+  ON public.app_settings
+  FOR ALL
+  TO authenticated
+  USING (public.has_role('admin'))
+  WITH CHECK (public.has_role('admin'));
+
+-- 2) Per-plan policy and payment columns
+ALTER TABLE public.installment_plans
+  ADD COLUMN IF NOT EXISTS late_fee_policy jsonb;
+
+ALTER TABLE public.installment_payments
+  ADD COLUMN IF NOT EXISTS remarks text;
+
+ALTER TABLE public.installment_payments DROP CONSTRAINT IF EXISTS installment_payments_payment_type_check;
+ALTER TABLE public.installment_payments
+  ADD CONSTRAINT installment_payments_payment_type_check
+  CHECK (payment_type IN ('monthly', 'advance_adjustment', 'commission', 'discount', 'penalty', 'penalty_waiver'));
+
+ALTER TABLE public.installment_payments DROP CONSTRAINT IF EXISTS installment_payments_waiver_remarks_check;
+ALTER TABLE public.installment_payments
+  ADD CONSTRAINT installment_payments_waiver_remarks_check
+  CHECK (payment_type <> 'penalty_waiver' OR COALESCE(btrim(remarks), '') <> '');
+
+-- 3) Cashiers record late fees but cannot waive them
+DROP POLICY IF EXISTS "Cashiers can record installment payments" ON public.installment_payments;
+CREATE POLICY "Cashiers can record installment payments"
+  ON public.installment_payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_role('admin', 'manager', 'cashier')
+    AND (payment_type <> 'penalty_waiver' OR public.has_role('admin', 'manager'))
+  );
+
+-- 4) record_payment accepts penalty payments and waivers (with their reason in p_remarks)
+DROP FUNCTION IF EXISTS public.record_payment(uuid, numeric, text, text, date);
+
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_plan_id uuid,
+  p_amount numeric,
+  p_payment_type text,
+  p_received_by text,
+  p_payment_date date DEFAULT CURRENT_DATE,
+  p_remarks text DEFAULT NULL
+)
+RETURNS SETOF public.installment_payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_total_agreed_advance numeric;
+  v_collected_advance numeric;
+  v_remaining_advance numeric;
+  v_total_discount numeric;
+  v_monthly_paid_pool numeric;
+  v_target_left numeric;
+  v_expected numeric;
+  v_already_paid numeric;
+  v_due numeric;
+  v_pay_now numeric;
+  v_left numeric := p_amount;
+  i integer;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount paid must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_type NOT IN ('monthly', 'advance_adjustment', 'commission', 'discount', 'penalty', 'penalty_waiver') THEN
+    RAISE EXCEPTION 'Unknown payment type %', p_payment_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_type = 'penalty_waiver' THEN
+    IF NOT public.has_role('admin', 'manager') THEN
+      RAISE EXCEPTION 'Only admins and managers can waive late fees'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF COALESCE(btrim(p_remarks), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to waive a late fee'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF COALESCE(btrim(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Received by is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialise all recordings against this plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = p_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment plan % not found', p_plan_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Non-monthly payments are stored as-is
+  IF p_payment_type <> 'monthly' THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), p_amount, btrim(p_received_by), p_payment_type, NULLIF(btrim(p_remarks), ''))
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    IF p_payment_type = 'commission' THEN
+      UPDATE public.installment_plans SET is_commission_paid = true WHERE id = p_plan_id;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  -- Current position of the plan (see computeInstallmentLedger)
+  SELECT COALESCE(SUM((chunk ->> 'amount')::numeric), 0)
+  INTO v_total_agreed_advance
+  FROM jsonb_array_elements(COALESCE(v_plan.advance_payments, '[]'::jsonb)) AS chunk;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'advance_adjustment'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'discount'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly'), 0)
+  INTO v_collected_advance, v_total_discount, v_monthly_paid_pool
+  FROM public.installment_payments
+  WHERE installment_plan_id = p_plan_id;
+
+  v_remaining_advance := GREATEST(0, v_total_agreed_advance - v_collected_advance);
+  v_target_left := GREATEST(0, v_plan.total_price - v_collected_advance - v_total_discount);
+
+  -- Monthly waterfall: skip what earlier payments already cover, then fill the earliest dues
+  FOR i IN 1..v_plan.duration_months LOOP
+    EXIT WHEN v_left <= 0;
+
+    IF i = v_plan.duration_months THEN
+      v_expected := GREATEST(0, round(v_target_left));
+    ELSE
+      v_expected := round(LEAST(v_plan.monthly_installment, GREATEST(0, v_target_left)));
+    END IF;
+    v_target_left := v_target_left - v_expected;
+
+    v_already_paid := LEAST(v_expected, v_monthly_paid_pool);
+    v_monthly_paid_pool := v_monthly_paid_pool - v_already_paid;
+
+    v_due := v_expected - v_already_paid;
+    CONTINUE WHEN v_due <= 0;
+
+    v_pay_now := LEAST(v_left, v_due);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, installment_number)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'monthly', i)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+  END LOOP;
+
+  -- Leftover goes to the pending agreed advance
+  IF v_left > 0 AND v_remaining_advance > 0 THEN
+    v_pay_now := LEAST(v_left, v_remaining_advance);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'advance_adjustment')
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+  END IF;
+
+  -- Nothing left to apply it to: refuse rather than silently dropping money
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding balance by Rs %', v_left
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment(uuid, numeric, text, text, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_payment(uuid, numeric, text, text, date, text) TO authenticated;
@@ -0,0 +1,56 @@
+-- Showroom settings.
+--
+-- Business profile, receipt branding, plan defaults and the manufacturer/type catalogs are stored
+-- as one JSON document in app_settings under 'business_settings' (see src/lib/settings.ts for the
+-- shape and defaults). The logo lives in the public `branding` storage bucket.
+
+-- 1) Seed the defaults the app used to hard-code, so existing installs keep their branding
+INSERT INTO public.app_settings (key, value)
+VALUES (
+  'business_settings',
+  jsonb_build_object(
+    'business_name', 'Al-Hamd Traders',
+    'address', 'Railway Road Chowk Shamah, Sargodha',
+    'phone', '0300-1234567',
+    'logo_url', NULL,
+    'ntn', '',
+    'receipt_footer', 'Thank You!',
+    'default_duration_months', 12,
+    'max_advance_installments', 6,
+    'manufacturers', jsonb_build_array('New Asia', 'Salaar', 'Rozgar', 'TezRaftar'),
+    'rikshaw_types', jsonb_build_array('Loader 100 CC', 'Loader 150 CC', 'Rikshaw 200 CC Family', 'Rikshaw 200 CC Open 6-seater')
+  )
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- 2) Logo storage: anyone can read (receipts open in a new window), only admins upload
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('branding', 'branding', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Anyone can view branding files" ON storage.objects;
+CREATE POLICY "Anyone can view branding files"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'branding');
+
+DROP POLICY IF EXISTS "Admins can upload branding files" ON storage.objects;
+CREATE POLICY "Admins can upload branding files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'branding' AND public.has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins can update branding files" ON storage.objects;
+CREATE POLICY "Admins can update branding files"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'branding' AND public.has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins can delete branding files" ON storage.objects;
+CREATE POLICY "Admins can delete branding files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'branding' AND public.has_role('admin'));
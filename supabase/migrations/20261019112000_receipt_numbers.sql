@@ -0,0 +1,181 @@
+-- Sequential receipt numbers and reprint tracking.
+--
+-- Every payment that hands the customer money-received paperwork gets a receipt number of the
+-- form YYYY-NNNNNN, gap-free within the year it was issued. Numbers come from receipt_sequences,
+-- whose row is locked and bumped inside the inserting transaction: a rolled-back payment rolls its
+-- number back too, so no number is ever skipped.
+--
+-- All rows written for one plan in one transaction share a number, so the rows a bulk monthly
+-- payment is split into by record_payment print as a single receipt. Late fee waivers (nothing
+-- was received) and void reversals get no number; a voided payment keeps its number.
+--
+-- Reprints go through log_receipt_reprint, which records who reprinted which receipt and when;
+-- the app marks those copies "DUPLICATE".
+
+-- 1) Columns and counters
+ALTER TABLE public.installment_payments
+  ADD COLUMN IF NOT EXISTS receipt_year integer,
+  ADD COLUMN IF NOT EXISTS receipt_seq integer,
+  ADD COLUMN IF NOT EXISTS receipt_number text;
+
+CREATE INDEX IF NOT EXISTS idx_installment_payments_receipt_number
+  ON public.installment_payments (receipt_number)
+  WHERE receipt_number IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.receipt_sequences (
+  year integer PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+-- Only touched by the SECURITY DEFINER functions below
+ALTER TABLE public.receipt_sequences ENABLE ROW LEVEL SECURITY;
+
+-- 2) Backfill: rows created by the same call (same plan, same transaction timestamp) share a number
+WITH receipts AS (
+  SELECT
+    installment_plan_id,
+    created_at,
+    EXTRACT(YEAR FROM created_at)::integer AS year,
+    ROW_NUMBER() OVER (
+      PARTITION BY EXTRACT(YEAR FROM created_at)
+      ORDER BY created_at, installment_plan_id
+    )::integer AS seq
+  FROM public.installment_payments
+  WHERE receipt_number IS NULL
+    AND reversal_of IS NULL
+    AND payment_type <> 'penalty_waiver'
+  GROUP BY installment_plan_id, created_at
+)
+UPDATE public.installment_payments p
+SET receipt_year = r.year,
+    receipt_seq = r.seq,
+    receipt_number = r.year || '-' || lpad(r.seq::text, 6, '0')
+FROM receipts r
+WHERE p.installment_plan_id = r.installment_plan_id
+  AND p.created_at = r.created_at
+  AND p.reversal_of IS NULL
+  AND p.payment_type <> 'penalty_waiver';
+
+INSERT INTO public.receipt_sequences (year, last_number)
+SELECT receipt_year, MAX(receipt_seq)
+FROM public.installment_payments
+WHERE receipt_year IS NOT NULL
+GROUP BY receipt_year
+ON CONFLICT (year) DO UPDATE SET last_number = GREATEST(receipt_sequences.last_number, EXCLUDED.last_number);
+
+-- 3) Assign on insert; numbers never change afterwards
+CREATE OR REPLACE FUNCTION public.assign_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year integer := EXTRACT(YEAR FROM CURRENT_DATE)::integer;
+  v_seq integer;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.receipt_year := OLD.receipt_year;
+    NEW.receipt_seq := OLD.receipt_seq;
+    NEW.receipt_number := OLD.receipt_number;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reversal_of IS NOT NULL OR NEW.payment_type = 'penalty_waiver' THEN
+    NEW.receipt_year := NULL;
+    NEW.receipt_seq := NULL;
+    NEW.receipt_number := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Another row for this plan in this transaction already drew a number: share it
+  IF current_setting('app.receipt_plan_id', true) = NEW.installment_plan_id::text
+     AND COALESCE(current_setting('app.receipt_number', true), '') <> '' THEN
+    NEW.receipt_year := split_part(current_setting('app.receipt_number', true), '-', 1)::integer;
+    NEW.receipt_seq := split_part(current_setting('app.receipt_number', true), '-', 2)::integer;
+    NEW.receipt_number := current_setting('app.receipt_number', true);
+    RETURN NEW;
+  END IF;
+
+  -- The row lock on the year's counter serialises concurrent cashiers
+  INSERT INTO public.receipt_sequences AS s (year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = s.last_number + 1
+  RETURNING last_number INTO v_seq;
+
+  NEW.receipt_year := v_year;
+  NEW.receipt_seq := v_seq;
+  NEW.receipt_number := v_year || '-' || lpad(v_seq::text, 6, '0');
+
+  PERFORM set_config('app.receipt_plan_id', NEW.installment_plan_id::text, true);
+  PERFORM set_config('app.receipt_number', NEW.receipt_number, true);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_receipt_number ON public.installment_payments;
+CREATE TRIGGER assign_receipt_number
+  BEFORE INSERT OR UPDATE ON public.installment_payments
+  FOR EACH ROW EXECUTE FUNCTION public.assign_receipt_number();
+
+-- 4) Reprint log
+CREATE TABLE IF NOT EXISTS public.receipt_reprints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number text NOT NULL,
+  installment_plan_id uuid NOT NULL REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  reprinted_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  reprinted_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  reprinted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_reprints_plan
+  ON public.receipt_reprints (installment_plan_id, reprinted_at DESC);
+
+ALTER TABLE public.receipt_reprints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view receipt reprints" ON public.receipt_reprints;
+CREATE POLICY "Authenticated users can view receipt reprints"
+  ON public.receipt_reprints
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Written only by log_receipt_reprint, so entries cannot be forged or removed from the app
+
+-- 5) log_receipt_reprint: returns the log entry
+CREATE OR REPLACE FUNCTION public.log_receipt_reprint(p_receipt_number text)
+RETURNS public.receipt_reprints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan_id uuid;
+  v_reprint public.receipt_reprints%ROWTYPE;
+BEGIN
+  IF NOT public.has_role('admin', 'manager', 'cashier') THEN
+    RAISE EXCEPTION 'Only staff who record payments can reprint receipts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT installment_plan_id INTO v_plan_id
+  FROM public.installment_payments
+  WHERE receipt_number = p_receipt_number
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt % not found', p_receipt_number
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.receipt_reprints (receipt_number, installment_plan_id)
+  VALUES (p_receipt_number, v_plan_id)
+  RETURNING * INTO v_reprint;
+
+  RETURN v_reprint;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_receipt_reprint(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.log_receipt_reprint(text) TO authenticated;
@@ -0,0 +1,39 @@
+-- Customer notes, shown on the customer profile page (/customers/:id).
+--
+-- Free-text, timestamped remarks about a customer (visits, promises to pay, phone calls).
+-- Anyone who records payments can add a note; only admins and managers can remove one.
+
+CREATE TABLE IF NOT EXISTS public.customer_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  note text NOT NULL CHECK (btrim(note) <> ''),
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_notes_customer
+  ON public.customer_notes (customer_id, created_at DESC);
+
+ALTER TABLE public.customer_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view customer notes" ON public.customer_notes;
+CREATE POLICY "Authenticated users can view customer notes"
+  ON public.customer_notes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Staff can add customer notes" ON public.customer_notes;
+CREATE POLICY "Staff can add customer notes"
+  ON public.customer_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager', 'cashier') AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Managers can delete customer notes" ON public.customer_notes;
+CREATE POLICY "Managers can delete customer notes"
+  ON public.customer_notes
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
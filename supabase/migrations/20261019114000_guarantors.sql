@@ -0,0 +1,267 @@
+-- Guarantors as their own records, linked to plans (many per plan).
+--
+-- Until now the guarantor was free text on customers, copied onto each plan at sale time, so the
+-- same person backing several plans could not be recognised. guarantors holds one row per person
+-- (unique CNIC) and plan_guarantors links them to the plans they back. The guarantor_* columns on
+-- customers and installment_plans stay as the data entered at the time.
+--
+-- Exposure (what a guarantor's plans still owe, and how much of it is overdue) is computed in the
+-- app from the plan ledgers (src/lib/guarantors.ts); the sale form warns above the limit set in
+-- Settings.
+
+-- 1) Tables
+CREATE TABLE IF NOT EXISTS public.guarantors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  cnic text NOT NULL UNIQUE CHECK (btrim(cnic) <> ''),
+  phone text,
+  address text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.guarantors;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.guarantors
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.plan_guarantors (
+  plan_id uuid NOT NULL REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  guarantor_id uuid NOT NULL REFERENCES public.guarantors(id) ON DELETE RESTRICT,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (plan_id, guarantor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_guarantors_guarantor
+  ON public.plan_guarantors (guarantor_id);
+
+-- 2) Backfill from the plan snapshots; the most recent plan wins for name/phone/address
+INSERT INTO public.guarantors (name, cnic, phone, address)
+SELECT DISTINCT ON (btrim(guarantor_cnic))
+  COALESCE(NULLIF(btrim(guarantor_name), ''), 'Unknown'),
+  btrim(guarantor_cnic),
+  guarantor_phone,
+  guarantor_address
+FROM public.installment_plans
+WHERE COALESCE(btrim(guarantor_cnic), '') <> ''
+ORDER BY btrim(guarantor_cnic), created_at DESC
+ON CONFLICT (cnic) DO NOTHING;
+
+INSERT INTO public.plan_guarantors (plan_id, guarantor_id)
+SELECT p.id, g.id
+FROM public.installment_plans p
+JOIN public.guarantors g ON g.cnic = btrim(p.guarantor_cnic)
+ON CONFLICT DO NOTHING;
+
+-- 3) RLS: everyone reads; whoever manages customers maintains guarantors, whoever sells or
+--    edits plans links them
+ALTER TABLE public.guarantors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.plan_guarantors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view guarantors" ON public.guarantors;
+CREATE POLICY "Authenticated users can view guarantors"
+  ON public.guarantors
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Managers can create guarantors" ON public.guarantors;
+CREATE POLICY "Managers can create guarantors"
+  ON public.guarantors
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update guarantors" ON public.guarantors;
+CREATE POLICY "Managers can update guarantors"
+  ON public.guarantors
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'))
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can view plan guarantors" ON public.plan_guarantors;
+CREATE POLICY "Authenticated users can view plan guarantors"
+  ON public.plan_guarantors
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Managers can link plan guarantors" ON public.plan_guarantors;
+CREATE POLICY "Managers can link plan guarantors"
+  ON public.plan_guarantors
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can unlink plan guarantors" ON public.plan_guarantors;
+CREATE POLICY "Managers can unlink plan guarantors"
+  ON public.plan_guarantors
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+-- 4) sell_rikshaw links the guarantors chosen on the sale form
+DROP FUNCTION IF EXISTS public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean);
+
+CREATE OR REPLACE FUNCTION public.sell_rikshaw(
+  p_customer_id uuid,
+  p_rikshaw_id uuid,
+  p_total_price numeric,
+  p_advance_payments jsonb,
+  p_monthly_installment numeric,
+  p_duration_months integer,
+  p_agreement_date date,
+  p_showroom_commission numeric DEFAULT 0,
+  p_is_commission_paid boolean DEFAULT false,
+  p_guarantor_ids uuid[] DEFAULT NULL
+)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_rikshaw public.rikshaws%ROWTYPE;
+  v_customer public.customers%ROWTYPE;
+  v_first_advance numeric;
+  v_plan public.installment_plans%ROWTYPE;
+  v_guarantor_id uuid;
+BEGIN
+  -- 1) Lock the unit and make sure it is still available
+  SELECT * INTO v_rikshaw
+  FROM public.rikshaws
+  WHERE id = p_rikshaw_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rikshaw % not found', p_rikshaw_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_rikshaw.availability <> 'unsold' THEN
+    RAISE EXCEPTION 'Rikshaw % has already been sold', v_rikshaw.engine_number
+      USING ERRCODE = 'RK001',
+            DETAIL = format('rikshaw_id=%s availability=%s', v_rikshaw.id, v_rikshaw.availability);
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM public.customers
+  WHERE id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- 2) Validate the plan terms (mirrors the checks in SellRickshaw.tsx)
+  IF jsonb_typeof(p_advance_payments) <> 'array' OR jsonb_array_length(p_advance_payments) = 0 THEN
+    RAISE EXCEPTION 'At least one advance payment is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Only the first advance chunk is collected at sale time; later chunks arrive as advance_adjustment payments
+  v_first_advance := COALESCE((p_advance_payments -> 0 ->> 'amount')::numeric, 0);
+
+  IF v_first_advance <= 0 THEN
+    RAISE EXCEPTION 'The first advance payment must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_first_advance > p_total_price THEN
+    RAISE EXCEPTION 'Advance collected cannot exceed the total price'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_showroom_commission, 0) < 0 THEN
+    RAISE EXCEPTION 'Showroom commission cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- 3) Create the plan
+  INSERT INTO public.installment_plans (
+    customer_id,
+    rikshaw_id,
+    total_price,
+    advance_paid,
+    advance_payments,
+    monthly_installment,
+    duration_months,
+    agreement_date,
+    showroom_commission,
+    is_commission_paid,
+    guarantor_name,
+    guarantor_cnic,
+    guarantor_phone,
+    guarantor_address,
+    bank_name,
+    cheque_number,
+    rikshaw_details
+  )
+  VALUES (
+    p_customer_id,
+    p_rikshaw_id,
+    p_total_price,
+    v_first_advance,
+    p_advance_payments,
+    p_monthly_installment,
+    p_duration_months,
+    COALESCE(p_agreement_date, CURRENT_DATE),
+    COALESCE(p_showroom_commission, 0),
+    COALESCE(p_is_commission_paid, false),
+    v_customer.guarantor_name,
+    v_customer.guarantor_cnic,
+    v_customer.guarantor_phone,
+    v_customer.guarantor_address,
+    v_customer.bank_name,
+    v_customer.cheque_number,
+    jsonb_build_object(
+      'manufacturer', v_rikshaw.manufacturer,
+      'model_name', v_rikshaw.model_name,
+      'engine_number', v_rikshaw.engine_number,
+      'chassis_number', v_rikshaw.chassis_number,
+      'registration_number', v_rikshaw.registration_number,
+      'type', v_rikshaw.type
+    )
+  )
+  RETURNING * INTO v_plan;
+
+  -- 4) Link the guarantors. Without an explicit choice, the guarantor on the customer record
+  --    (if any) is looked up by CNIC, created if new, and linked.
+  IF COALESCE(array_length(p_guarantor_ids, 1), 0) > 0 THEN
+    INSERT INTO public.plan_guarantors (plan_id, guarantor_id)
+    SELECT v_plan.id, g.id
+    FROM public.guarantors g
+    WHERE g.id = ANY (p_guarantor_ids)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'None of the selected guarantors exist'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSIF COALESCE(btrim(v_customer.guarantor_cnic), '') <> '' THEN
+    INSERT INTO public.guarantors (name, cnic, phone, address)
+    VALUES (
+      COALESCE(NULLIF(btrim(v_customer.guarantor_name), ''), 'Unknown'),
+      btrim(v_customer.guarantor_cnic),
+      v_customer.guarantor_phone,
+      v_customer.guarantor_address
+    )
+    ON CONFLICT (cnic) DO UPDATE SET cnic = EXCLUDED.cnic
+    RETURNING id INTO v_guarantor_id;
+
+    INSERT INTO public.plan_guarantors (plan_id, guarantor_id)
+    VALUES (v_plan.id, v_guarantor_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  -- 5) Mark the unit sold
+  UPDATE public.rikshaws
+  SET availability = 'sold',
+      sale_price = p_total_price
+  WHERE id = p_rikshaw_id;
+
+  RETURN v_plan;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean, uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean, uuid[]) TO authenticated;
@@ -0,0 +1,78 @@
+-- Document attachments: CNIC copies, signed agreements, cheque photos, registration book scans
+-- and photos, attached to a customer, an installment plan or a rikshaw.
+--
+-- Files live in the private `documents` storage bucket under `<owner>/<owner id>/<file>`;
+-- this table holds one row per file with its type and owner. The app reads files through
+-- short-lived signed URLs, so nothing is reachable without a session.
+
+-- 1) Bucket: private, images and PDFs up to 10 MB
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('documents', 'documents', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Authenticated users can view documents" ON storage.objects;
+CREATE POLICY "Authenticated users can view documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'documents');
+
+DROP POLICY IF EXISTS "Staff can upload documents" ON storage.objects;
+CREATE POLICY "Staff can upload documents"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'documents' AND public.has_role('admin', 'manager', 'cashier'));
+
+DROP POLICY IF EXISTS "Managers can delete documents" ON storage.objects;
+CREATE POLICY "Managers can delete documents"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'documents' AND public.has_role('admin', 'manager'));
+
+-- 2) Document records. Exactly one owner column is set. Deleting the owner deletes its records;
+--    the files stay in the bucket.
+CREATE TABLE IF NOT EXISTS public.documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid REFERENCES public.customers(id) ON DELETE CASCADE,
+  installment_plan_id uuid REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  rikshaw_id uuid REFERENCES public.rikshaws(id) ON DELETE CASCADE,
+  document_type text NOT NULL
+    CHECK (document_type IN ('cnic_front', 'cnic_back', 'agreement', 'cheque', 'registration', 'photo')),
+  file_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  mime_type text,
+  size_bytes bigint,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT documents_single_owner CHECK (num_nonnulls(customer_id, installment_plan_id, rikshaw_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_documents_customer ON public.documents (customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_plan ON public.documents (installment_plan_id) WHERE installment_plan_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_rikshaw ON public.documents (rikshaw_id) WHERE rikshaw_id IS NOT NULL;
+
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view document records" ON public.documents;
+CREATE POLICY "Authenticated users can view document records"
+  ON public.documents
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Staff can add document records" ON public.documents;
+CREATE POLICY "Staff can add document records"
+  ON public.documents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager', 'cashier') AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Managers can delete document records" ON public.documents;
+CREATE POLICY "Managers can delete document records"
+  ON public.documents
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
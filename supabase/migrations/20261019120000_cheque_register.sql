@@ -0,0 +1,219 @@
+-- Cheque register: the security and post-dated cheques held against each installment plan.
+--
+-- Statuses: held -> deposited -> cleared, or deposited -> bounced; any cheque still with us can be
+-- returned to the customer. A bounce goes through bounce_cheque(), which records the bank charges
+-- on the cheque, adds them to installment_plans.bounce_charges and flags the plan. Bounce charges
+-- are owed like late fees: the ledger adds them to the penalty total and `penalty` payments or
+-- waivers settle them.
+--
+-- Security cheques still held are returned automatically once the plan is fully paid.
+
+-- 1) Register
+CREATE TABLE IF NOT EXISTS public.plan_cheques (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  installment_plan_id uuid NOT NULL REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'post_dated' CHECK (kind IN ('security', 'post_dated')),
+  bank_name text NOT NULL CHECK (btrim(bank_name) <> ''),
+  cheque_number text NOT NULL CHECK (btrim(cheque_number) <> ''),
+  amount numeric CHECK (amount IS NULL OR amount > 0), -- security cheques are often left blank
+  cheque_date date, -- the date written on the cheque; blank security cheques have none
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'deposited', 'cleared', 'bounced', 'returned')),
+  deposited_on date,
+  cleared_on date,
+  bounced_on date,
+  bounce_charges numeric NOT NULL DEFAULT 0 CHECK (bounce_charges >= 0),
+  bounce_reason text,
+  returned_on date,
+  remarks text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT plan_cheques_post_dated_date CHECK (kind <> 'post_dated' OR (cheque_date IS NOT NULL AND amount IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_cheques_plan ON public.plan_cheques (installment_plan_id);
+CREATE INDEX IF NOT EXISTS idx_plan_cheques_held_date ON public.plan_cheques (cheque_date) WHERE status = 'held';
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.plan_cheques;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.plan_cheques
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_plan_cheques ON public.plan_cheques;
+CREATE TRIGGER audit_plan_cheques
+  AFTER INSERT OR UPDATE OR DELETE ON public.plan_cheques
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.plan_cheques ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view cheques" ON public.plan_cheques;
+CREATE POLICY "Authenticated users can view cheques"
+  ON public.plan_cheques
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Managers can add cheques" ON public.plan_cheques;
+CREATE POLICY "Managers can add cheques"
+  ON public.plan_cheques
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+-- Bounces go through bounce_cheque() so the plan is charged and flagged in the same transaction
+DROP POLICY IF EXISTS "Managers can update cheques" ON public.plan_cheques;
+CREATE POLICY "Managers can update cheques"
+  ON public.plan_cheques
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'))
+  WITH CHECK (public.has_role('admin', 'manager') AND status <> 'bounced');
+
+DROP POLICY IF EXISTS "Managers can delete held cheques" ON public.plan_cheques;
+CREATE POLICY "Managers can delete held cheques"
+  ON public.plan_cheques
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin', 'manager') AND status = 'held');
+
+-- 2) Plan flag and bounce charges
+ALTER TABLE public.installment_plans
+  ADD COLUMN IF NOT EXISTS bounce_charges numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cheque_bounced_at timestamptz; -- set on bounce, cleared by a manager
+
+-- 3) The single cheque copied from the customer at sale time becomes a held security cheque
+INSERT INTO public.plan_cheques (installment_plan_id, kind, bank_name, cheque_number, created_by, created_at)
+SELECT p.id, 'security', btrim(p.bank_name), btrim(p.cheque_number), NULL, p.created_at
+FROM public.installment_plans p
+WHERE COALESCE(btrim(p.cheque_number), '') <> ''
+  AND COALESCE(btrim(p.bank_name), '') <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM public.plan_cheques c
+    WHERE c.installment_plan_id = p.id AND c.cheque_number = btrim(p.cheque_number)
+  );
+
+CREATE OR REPLACE FUNCTION public.register_sale_cheque()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(btrim(NEW.cheque_number), '') <> '' AND COALESCE(btrim(NEW.bank_name), '') <> '' THEN
+    INSERT INTO public.plan_cheques (installment_plan_id, kind, bank_name, cheque_number)
+    VALUES (NEW.id, 'security', btrim(NEW.bank_name), btrim(NEW.cheque_number));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS register_sale_cheque ON public.installment_plans;
+CREATE TRIGGER register_sale_cheque
+  AFTER INSERT ON public.installment_plans
+  FOR EACH ROW EXECUTE FUNCTION public.register_sale_cheque();
+
+-- 4) Bounce
+CREATE OR REPLACE FUNCTION public.bounce_cheque(
+  p_cheque_id uuid,
+  p_charges numeric DEFAULT 0,
+  p_reason text DEFAULT NULL,
+  p_bounced_on date DEFAULT CURRENT_DATE
+)
+RETURNS public.plan_cheques
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cheque public.plan_cheques%ROWTYPE;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can record a bounced cheque'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(p_charges, 0) < 0 THEN
+    RAISE EXCEPTION 'Bounce charges cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_cheque
+  FROM public.plan_cheques
+  WHERE id = p_cheque_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cheque % not found', p_cheque_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_cheque.status NOT IN ('held', 'deposited') THEN
+    RAISE EXCEPTION 'Only held or deposited cheques can bounce (this one is %)', v_cheque.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.plan_cheques
+  SET status = 'bounced',
+      bounced_on = COALESCE(p_bounced_on, CURRENT_DATE),
+      deposited_on = COALESCE(deposited_on, p_bounced_on, CURRENT_DATE),
+      bounce_charges = COALESCE(p_charges, 0),
+      bounce_reason = NULLIF(btrim(p_reason), '')
+  WHERE id = p_cheque_id
+  RETURNING * INTO v_cheque;
+
+  UPDATE public.installment_plans
+  SET bounce_charges = bounce_charges + COALESCE(p_charges, 0),
+      cheque_bounced_at = now()
+  WHERE id = v_cheque.installment_plan_id;
+
+  RETURN v_cheque;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.bounce_cheque(uuid, numeric, text, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.bounce_cheque(uuid, numeric, text, date) TO authenticated;
+
+-- 5) Return held security cheques once the customer has paid the full price
+--    (same position as computeInstallmentLedger: initial advance + advance adjustments + monthly + discounts)
+CREATE OR REPLACE FUNCTION public.return_security_cheques_on_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_paid numeric;
+BEGIN
+  SELECT * INTO v_plan FROM public.installment_plans WHERE id = NEW.installment_plan_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+    + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'monthly', 'discount')), 0)
+  INTO v_paid
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  IF v_plan.total_price - v_paid <= 0 THEN
+    UPDATE public.plan_cheques
+    SET status = 'returned',
+        returned_on = CURRENT_DATE,
+        remarks = concat_ws(E'\n', NULLIF(remarks, ''), 'Returned automatically: plan fully paid')
+    WHERE installment_plan_id = v_plan.id
+      AND kind = 'security'
+      AND status = 'held';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS return_security_cheques ON public.installment_payments;
+CREATE TRIGGER return_security_cheques
+  AFTER INSERT ON public.installment_payments
+  FOR EACH ROW
+  WHEN (NEW.payment_type IN ('advance_adjustment', 'monthly', 'discount') AND NEW.reversal_of IS NULL)
+  EXECUTE FUNCTION public.return_security_cheques_on_completion();
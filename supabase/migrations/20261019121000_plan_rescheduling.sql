@@ -0,0 +1,303 @@
+-- Versioned repayment schedules.
+--
+-- The schedule in force lives on the plan as before (monthly_installment, duration_months) plus
+-- its version number and start date. reschedule_plan() closes it: the closed terms, the date and
+-- the balance carried forward are appended to installment_plans.schedule_history, and the plan
+-- gets the new terms under the next version number. Every payment is tagged with the version in
+-- force when it was recorded, so past installments stay allocated to the schedule they were paid
+-- against (see computeInstallmentLedger).
+
+-- 1) Plan: current version and closed versions
+ALTER TABLE public.installment_plans
+  ADD COLUMN IF NOT EXISTS schedule_version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS schedule_start_date date, -- NULL: the agreement date
+  ADD COLUMN IF NOT EXISTS schedule_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2) Payments: schedule version they were paid against
+ALTER TABLE public.installment_payments
+  ADD COLUMN IF NOT EXISTS schedule_version integer;
+
+UPDATE public.installment_payments p
+SET schedule_version = pl.schedule_version
+FROM public.installment_plans pl
+WHERE pl.id = p.installment_plan_id
+  AND p.schedule_version IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_payment_schedule_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- A reversing entry belongs with the payment it reverses, so the two still cancel out per version
+  IF NEW.schedule_version IS NULL AND NEW.reversal_of IS NOT NULL THEN
+    SELECT schedule_version INTO NEW.schedule_version
+    FROM public.installment_payments
+    WHERE id = NEW.reversal_of;
+  END IF;
+
+  IF NEW.schedule_version IS NULL THEN
+    SELECT schedule_version INTO NEW.schedule_version
+    FROM public.installment_plans
+    WHERE id = NEW.installment_plan_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_payment_schedule_version ON public.installment_payments;
+CREATE TRIGGER set_payment_schedule_version
+  BEFORE INSERT ON public.installment_payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_schedule_version();
+
+-- 3) reschedule_plan: returns the updated plan
+CREATE OR REPLACE FUNCTION public.reschedule_plan(
+  p_plan_id uuid,
+  p_monthly_installment numeric,
+  p_duration_months integer,
+  p_start_date date,
+  p_reason text
+)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_paid numeric;
+  v_balance numeric;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can reschedule a plan'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reschedule a plan'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_monthly_installment, 0) <= 0 OR COALESCE(p_duration_months, 0) <= 0 THEN
+    RAISE EXCEPTION 'Monthly installment and duration must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_start_date IS NULL THEN
+    RAISE EXCEPTION 'A start date is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialises with record_payment and void_payment on the same plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = p_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan % not found', p_plan_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Customer's outstanding principal, as in computeInstallmentLedger (customerDebt)
+  SELECT COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+    + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'monthly', 'discount')), 0)
+  INTO v_paid
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  v_balance := v_plan.total_price - v_paid;
+
+  IF v_balance <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to reschedule: the plan is fully paid'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.audit_reason', btrim(p_reason), true);
+
+  UPDATE public.installment_plans
+  SET schedule_history = schedule_history || jsonb_build_array(jsonb_build_object(
+        'version', v_plan.schedule_version,
+        'start_date', COALESCE(v_plan.schedule_start_date, v_plan.agreement_date::date, v_plan.created_at::date),
+        'monthly_installment', v_plan.monthly_installment,
+        'duration_months', v_plan.duration_months,
+        'closed_on', CURRENT_DATE,
+        'carried_balance', v_balance,
+        'reason', btrim(p_reason),
+        'closed_by_email', auth.jwt() ->> 'email'
+      )),
+      schedule_version = v_plan.schedule_version + 1,
+      schedule_start_date = p_start_date,
+      monthly_installment = p_monthly_installment,
+      duration_months = p_duration_months
+  WHERE id = v_plan.id
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reschedule_plan(uuid, numeric, integer, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reschedule_plan(uuid, numeric, integer, date, text) TO authenticated;
+
+-- 4) record_payment: the monthly waterfall runs over the schedule in force only, as in
+--    computeInstallmentLedger (same as 20261019110000_late_fees.sql otherwise)
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_plan_id uuid,
+  p_amount numeric,
+  p_payment_type text,
+  p_received_by text,
+  p_payment_date date DEFAULT CURRENT_DATE,
+  p_remarks text DEFAULT NULL
+)
+RETURNS SETOF public.installment_payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_total_agreed_advance numeric;
+  v_collected_advance numeric;
+  v_remaining_advance numeric;
+  v_total_discount numeric;
+  v_monthly_paid_pool numeric;
+  v_closed_monthly_paid numeric;
+  v_target_left numeric;
+  v_expected numeric;
+  v_already_paid numeric;
+  v_due numeric;
+  v_pay_now numeric;
+  v_left numeric := p_amount;
+  i integer;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount paid must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_type NOT IN ('monthly', 'advance_adjustment', 'commission', 'discount', 'penalty', 'penalty_waiver') THEN
+    RAISE EXCEPTION 'Unknown payment type %', p_payment_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_type = 'penalty_waiver' THEN
+    IF NOT public.has_role('admin', 'manager') THEN
+      RAISE EXCEPTION 'Only admins and managers can waive late fees'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF COALESCE(btrim(p_remarks), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to waive a late fee'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF COALESCE(btrim(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Received by is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialise all recordings against this plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = p_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment plan % not found', p_plan_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Non-monthly payments are stored as-is
+  IF p_payment_type <> 'monthly' THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), p_amount, btrim(p_received_by), p_payment_type, NULLIF(btrim(p_remarks), ''))
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    IF p_payment_type = 'commission' THEN
+      UPDATE public.installment_plans SET is_commission_paid = true WHERE id = p_plan_id;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  -- Current position of the plan (see computeInstallmentLedger)
+  SELECT COALESCE(SUM((chunk ->> 'amount')::numeric), 0)
+  INTO v_total_agreed_advance
+  FROM jsonb_array_elements(COALESCE(v_plan.advance_payments, '[]'::jsonb)) AS chunk;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'advance_adjustment'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'discount'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly' AND schedule_version IS DISTINCT FROM v_plan.schedule_version), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly' AND schedule_version = v_plan.schedule_version), 0)
+  INTO v_collected_advance, v_total_discount, v_closed_monthly_paid, v_monthly_paid_pool
+  FROM public.installment_payments
+  WHERE installment_plan_id = p_plan_id;
+
+  v_remaining_advance := GREATEST(0, v_total_agreed_advance - v_collected_advance);
+  -- The schedule in force covers what the closed versions did not collect
+  v_target_left := GREATEST(0, v_plan.total_price - v_collected_advance - v_total_discount - v_closed_monthly_paid);
+
+  -- Monthly waterfall over the schedule in force: skip what earlier payments already cover, then fill the earliest dues
+  FOR i IN 1..v_plan.duration_months LOOP
+    EXIT WHEN v_left <= 0;
+
+    IF i = v_plan.duration_months THEN
+      v_expected := GREATEST(0, round(v_target_left));
+    ELSE
+      v_expected := round(LEAST(v_plan.monthly_installment, GREATEST(0, v_target_left)));
+    END IF;
+    v_target_left := v_target_left - v_expected;
+
+    v_already_paid := LEAST(v_expected, v_monthly_paid_pool);
+    v_monthly_paid_pool := v_monthly_paid_pool - v_already_paid;
+
+    v_due := v_expected - v_already_paid;
+    CONTINUE WHEN v_due <= 0;
+
+    v_pay_now := LEAST(v_left, v_due);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, installment_number)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'monthly', i)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+  END LOOP;
+
+  -- Leftover goes to the pending agreed advance
+  IF v_left > 0 AND v_remaining_advance > 0 THEN
+    v_pay_now := LEAST(v_left, v_remaining_advance);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'advance_adjustment')
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+  END IF;
+
+  -- Nothing left to apply it to: refuse rather than silently dropping money
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding balance by Rs %', v_left
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment(uuid, numeric, text, text, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_payment(uuid, numeric, text, text, date, text) TO authenticated;
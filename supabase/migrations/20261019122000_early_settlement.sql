@@ -0,0 +1,246 @@
+-- Early settlement quotations and payoff.
+--
+-- The app works out the payoff of a plan as of a chosen date (computeSettlementQuote: outstanding
+-- balance + unpaid late fees and commission - rebate on the unearned markup) and stores it as a
+-- quotation valid until `valid_until`. accept_settlement() posts the whole quotation in one
+-- transaction, dated the settlement date and under a single receipt number: late fees, commission,
+-- the balance less the rebate, and the rebate itself as a `discount`. The plan is then marked
+-- settled.
+
+-- 1) Quotations
+CREATE TABLE IF NOT EXISTS public.settlement_quotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  installment_plan_id uuid NOT NULL REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  settlement_date date NOT NULL,
+  valid_until date NOT NULL,
+  outstanding_balance numeric NOT NULL CHECK (outstanding_balance > 0),
+  penalty_due numeric NOT NULL DEFAULT 0 CHECK (penalty_due >= 0),
+  commission_due numeric NOT NULL DEFAULT 0 CHECK (commission_due >= 0),
+  not_yet_due numeric NOT NULL DEFAULT 0 CHECK (not_yet_due >= 0),
+  markup numeric NOT NULL DEFAULT 0 CHECK (markup >= 0),
+  unearned_markup numeric NOT NULL DEFAULT 0 CHECK (unearned_markup >= 0),
+  rebate_percent numeric NOT NULL DEFAULT 0 CHECK (rebate_percent BETWEEN 0 AND 100),
+  rebate_amount numeric NOT NULL DEFAULT 0 CHECK (rebate_amount >= 0),
+  payoff_amount numeric NOT NULL CHECK (payoff_amount >= 0),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'cancelled')),
+  accepted_at timestamptz,
+  accepted_by_email text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT settlement_quotations_validity CHECK (valid_until >= settlement_date),
+  CONSTRAINT settlement_quotations_rebate CHECK (rebate_amount <= outstanding_balance),
+  CONSTRAINT settlement_quotations_payoff CHECK (
+    payoff_amount = outstanding_balance + penalty_due + commission_due - rebate_amount
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_quotations_plan
+  ON public.settlement_quotations (installment_plan_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.settlement_quotations;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.settlement_quotations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_settlement_quotations ON public.settlement_quotations;
+CREATE TRIGGER audit_settlement_quotations
+  AFTER INSERT OR UPDATE OR DELETE ON public.settlement_quotations
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.settlement_quotations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view settlement quotations" ON public.settlement_quotations;
+CREATE POLICY "Authenticated users can view settlement quotations"
+  ON public.settlement_quotations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Staff can issue settlement quotations" ON public.settlement_quotations;
+CREATE POLICY "Staff can issue settlement quotations"
+  ON public.settlement_quotations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager', 'cashier') AND status = 'open');
+
+-- Acceptance goes through accept_settlement(); the only direct change is cancelling an open quotation
+DROP POLICY IF EXISTS "Managers can cancel settlement quotations" ON public.settlement_quotations;
+CREATE POLICY "Managers can cancel settlement quotations"
+  ON public.settlement_quotations
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager') AND status = 'open')
+  WITH CHECK (public.has_role('admin', 'manager') AND status = 'cancelled');
+
+-- 2) Plan: settlement marker
+ALTER TABLE public.installment_plans
+  ADD COLUMN IF NOT EXISTS settled_on date,
+  ADD COLUMN IF NOT EXISTS settlement_quotation_id uuid REFERENCES public.settlement_quotations(id) ON DELETE SET NULL;
+
+-- 3) accept_settlement: returns the payment rows (one receipt)
+CREATE OR REPLACE FUNCTION public.accept_settlement(
+  p_quotation_id uuid,
+  p_received_by text
+)
+RETURNS SETOF public.installment_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.settlement_quotations%ROWTYPE;
+  v_plan public.installment_plans%ROWTYPE;
+  v_total_agreed_advance numeric;
+  v_collected_advance numeric;
+  v_paid numeric;
+  v_principal numeric;
+  v_advance_part numeric;
+  v_remarks text;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can accept a settlement'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Received by is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_quote
+  FROM public.settlement_quotations
+  WHERE id = p_quotation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_quote.status <> 'open' THEN
+    RAISE EXCEPTION 'This quotation is already %', v_quote.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF CURRENT_DATE > v_quote.valid_until THEN
+    RAISE EXCEPTION 'This quotation expired on %', to_char(v_quote.valid_until, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Payments are dated the settlement date, which must not lie in the future
+  IF CURRENT_DATE < v_quote.settlement_date THEN
+    RAISE EXCEPTION 'This quotation is payable from %', to_char(v_quote.settlement_date, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialises with record_payment, void_payment and reschedule_plan on the same plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = v_quote.installment_plan_id
+  FOR UPDATE;
+
+  IF v_plan.settled_on IS NOT NULL THEN
+    RAISE EXCEPTION 'This plan was already settled on %', to_char(v_plan.settled_on, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Same position as computeInstallmentLedger (customerDebt); the quotation must still match it
+  SELECT COALESCE(SUM((chunk ->> 'amount')::numeric), 0)
+  INTO v_total_agreed_advance
+  FROM jsonb_array_elements(COALESCE(v_plan.advance_payments, '[]'::jsonb)) AS chunk;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'advance_adjustment'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('monthly', 'discount')), 0)
+  INTO v_collected_advance, v_paid
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  IF abs(v_plan.total_price - v_collected_advance - v_paid - v_quote.outstanding_balance) >= 1 THEN
+    RAISE EXCEPTION 'Payments on this plan changed after the quotation was issued; issue a new quotation'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_remarks := 'Early settlement ' || upper(left(v_quote.id::text, 8));
+  PERFORM set_config('app.audit_reason', v_remarks, true);
+
+  IF v_quote.penalty_due > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_quote.penalty_due, btrim(p_received_by), 'penalty', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  IF v_quote.commission_due > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_quote.commission_due, btrim(p_received_by), 'commission', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  -- The balance less the rebate: pending agreed advance first, the rest against the monthly schedule
+  v_principal := v_quote.outstanding_balance - v_quote.rebate_amount;
+  v_advance_part := LEAST(v_principal, GREATEST(0, v_total_agreed_advance - v_collected_advance));
+
+  IF v_advance_part > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_advance_part, btrim(p_received_by), 'advance_adjustment', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  IF v_principal - v_advance_part > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_principal - v_advance_part, btrim(p_received_by), 'monthly', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  IF v_quote.rebate_amount > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_quote.rebate_amount, btrim(p_received_by), 'discount', v_remarks || ' rebate')
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  UPDATE public.settlement_quotations
+  SET status = 'accepted',
+      accepted_at = now(),
+      accepted_by_email = auth.jwt() ->> 'email'
+  WHERE id = v_quote.id;
+
+  -- Other open quotations of the plan can no longer be accepted
+  UPDATE public.settlement_quotations
+  SET status = 'cancelled'
+  WHERE installment_plan_id = v_plan.id
+    AND status = 'open';
+
+  UPDATE public.installment_plans
+  SET settled_on = v_quote.settlement_date,
+      settlement_quotation_id = v_quote.id,
+      is_commission_paid = is_commission_paid OR v_quote.commission_due > 0
+  WHERE id = v_plan.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.accept_settlement(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.accept_settlement(uuid, text) TO authenticated;
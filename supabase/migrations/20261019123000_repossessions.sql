@@ -0,0 +1,204 @@
+-- Default and repossession.
+--
+-- A manager marks a plan as defaulted (installment_plans.defaulted_on / default_reason); the ledger
+-- then reports it as 'Defaulted' instead of 'Overdue' and it drops out of the monthly dues report.
+-- repossess_plan() records the repossession of a defaulted plan's unit with the balance still owed
+-- at that point, and returns the unit to stock as an unsold `old` rikshaw linked back to the plan
+-- (rikshaws.repossessed_from_plan_id). When the unit is sold again its sale price is copied onto
+-- the repossession, which gives the shortfall (written off) or surplus:
+--   outstanding_balance + repossession_costs - resale_price.
+
+-- 1) Plan: default marker
+ALTER TABLE public.installment_plans
+  ADD COLUMN IF NOT EXISTS defaulted_on date,
+  ADD COLUMN IF NOT EXISTS default_reason text;
+
+-- 2) Rikshaw: the plan a repossessed unit came back from
+ALTER TABLE public.rikshaws
+  ADD COLUMN IF NOT EXISTS repossessed_from_plan_id uuid REFERENCES public.installment_plans(id) ON DELETE SET NULL;
+
+-- 3) Repossessions, one per plan
+CREATE TABLE IF NOT EXISTS public.repossessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  installment_plan_id uuid NOT NULL UNIQUE REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  rikshaw_id uuid NOT NULL REFERENCES public.rikshaws(id),
+  repossessed_on date NOT NULL,
+  condition text NOT NULL CHECK (condition IN ('good', 'fair', 'poor', 'damaged')),
+  condition_notes text,
+  repossession_costs numeric NOT NULL DEFAULT 0 CHECK (repossession_costs >= 0), -- recovery, transport, repairs
+  outstanding_balance numeric NOT NULL CHECK (outstanding_balance >= 0), -- price still unpaid when repossessed
+  penalty_outstanding numeric NOT NULL DEFAULT 0 CHECK (penalty_outstanding >= 0), -- late fees still unpaid, for reference
+  resale_price numeric CHECK (resale_price IS NULL OR resale_price >= 0), -- set when the unit is sold again
+  resold_on date,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT repossessions_resale CHECK ((resale_price IS NULL) = (resold_on IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_repossessions_rikshaw ON public.repossessions (rikshaw_id);
+CREATE INDEX IF NOT EXISTS idx_repossessions_repossessed_on ON public.repossessions (repossessed_on DESC);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.repossessions;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.repossessions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_repossessions ON public.repossessions;
+CREATE TRIGGER audit_repossessions
+  AFTER INSERT OR UPDATE OR DELETE ON public.repossessions
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.repossessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view repossessions" ON public.repossessions;
+CREATE POLICY "Authenticated users can view repossessions"
+  ON public.repossessions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Repossessions are created by repossess_plan(); managers may correct the condition and costs
+DROP POLICY IF EXISTS "Managers can update repossessions" ON public.repossessions;
+CREATE POLICY "Managers can update repossessions"
+  ON public.repossessions
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'))
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+-- 4) repossess_plan
+CREATE OR REPLACE FUNCTION public.repossess_plan(
+  p_plan_id uuid,
+  p_repossessed_on date,
+  p_condition text,
+  p_condition_notes text DEFAULT NULL,
+  p_costs numeric DEFAULT 0,
+  p_penalty_outstanding numeric DEFAULT 0
+)
+RETURNS public.repossessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_rikshaw public.rikshaws%ROWTYPE;
+  v_paid numeric;
+  v_repossession public.repossessions%ROWTYPE;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can record a repossession'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_repossessed_on IS NULL OR p_repossessed_on > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Repossession date cannot be in the future'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_costs, 0) < 0 OR COALESCE(p_penalty_outstanding, 0) < 0 THEN
+    RAISE EXCEPTION 'Costs cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialises with record_payment, void_payment and accept_settlement on the same plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = p_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment plan % not found', p_plan_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_plan.defaulted_on IS NULL THEN
+    RAISE EXCEPTION 'Mark the plan as defaulted before repossessing the unit'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.repossessions WHERE installment_plan_id = v_plan.id) THEN
+    RAISE EXCEPTION 'The unit of this plan was already repossessed'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  SELECT * INTO v_rikshaw
+  FROM public.rikshaws
+  WHERE id = v_plan.rikshaw_id
+  FOR UPDATE;
+
+  IF v_rikshaw.availability <> 'sold' THEN
+    RAISE EXCEPTION 'The rikshaw of this plan is already back in stock'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Same position as computeInstallmentLedger (customerDebt)
+  SELECT COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+    + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'monthly', 'discount')), 0)
+  INTO v_paid
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  INSERT INTO public.repossessions (
+    installment_plan_id,
+    rikshaw_id,
+    repossessed_on,
+    condition,
+    condition_notes,
+    repossession_costs,
+    outstanding_balance,
+    penalty_outstanding
+  )
+  VALUES (
+    v_plan.id,
+    v_rikshaw.id,
+    p_repossessed_on,
+    p_condition,
+    NULLIF(btrim(p_condition_notes), ''),
+    COALESCE(p_costs, 0),
+    GREATEST(0, v_plan.total_price - v_paid),
+    COALESCE(p_penalty_outstanding, 0)
+  )
+  RETURNING * INTO v_repossession;
+
+  -- Back in stock as a used unit
+  UPDATE public.rikshaws
+  SET availability = 'unsold',
+      category = 'old',
+      sale_price = NULL,
+      repossessed_from_plan_id = v_plan.id
+  WHERE id = v_rikshaw.id;
+
+  RETURN v_repossession;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.repossess_plan(uuid, date, text, text, numeric, numeric) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.repossess_plan(uuid, date, text, text, numeric, numeric) TO authenticated;
+
+-- 5) Resale: selling a repossessed unit again (sell_rikshaw or the Rikshaws page) closes its repossession
+CREATE OR REPLACE FUNCTION public.record_repossession_resale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.availability = 'sold' AND OLD.availability <> 'sold' THEN
+    UPDATE public.repossessions
+    SET resale_price = COALESCE(NEW.sale_price, 0),
+        resold_on = CURRENT_DATE
+    WHERE rikshaw_id = NEW.id
+      AND resold_on IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_repossession_resale ON public.rikshaws;
+CREATE TRIGGER record_repossession_resale
+  AFTER UPDATE OF availability ON public.rikshaws
+  FOR EACH ROW EXECUTE FUNCTION public.record_repossession_resale();
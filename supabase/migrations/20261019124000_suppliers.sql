@@ -0,0 +1,271 @@
+-- Suppliers, purchase invoices and supplier payments.
+--
+-- Stock is bought in batches on credit. receive_purchase_invoice() records a supplier's invoice and
+-- creates one unsold rikshaw per line in the same transaction; each rikshaw keeps a link to its
+-- invoice (rikshaws.purchase_invoice_id) and its line price as purchase_price. The invoice total is
+-- the line prices plus other charges (freight, registration paid by the supplier, ...).
+--
+-- Payments are recorded per supplier, not per invoice. What is owed to a supplier is the sum of
+-- its invoices less its payments; computeSupplierBalance (src/lib/suppliers.ts) settles invoices
+-- oldest first to show which are still open.
+
+-- 1) Suppliers
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  phone text,
+  address text,
+  ntn text, -- National Tax Number
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.suppliers;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view suppliers" ON public.suppliers;
+CREATE POLICY "Authenticated users can view suppliers"
+  ON public.suppliers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Managers can add suppliers" ON public.suppliers;
+CREATE POLICY "Managers can add suppliers"
+  ON public.suppliers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update suppliers" ON public.suppliers;
+CREATE POLICY "Managers can update suppliers"
+  ON public.suppliers
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+-- 2) Purchase invoices (created by receive_purchase_invoice only)
+CREATE TABLE IF NOT EXISTS public.purchase_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  invoice_number text NOT NULL CHECK (btrim(invoice_number) <> ''), -- the supplier's number
+  invoice_date date NOT NULL,
+  due_date date,
+  other_charges numeric NOT NULL DEFAULT 0 CHECK (other_charges >= 0),
+  total_amount numeric NOT NULL CHECK (total_amount >= 0), -- line prices + other charges
+  notes text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT purchase_invoices_number_unique UNIQUE (supplier_id, invoice_number),
+  CONSTRAINT purchase_invoices_due_date CHECK (due_date IS NULL OR due_date >= invoice_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_invoices_supplier ON public.purchase_invoices (supplier_id, invoice_date);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.purchase_invoices;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.purchase_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_purchase_invoices ON public.purchase_invoices;
+CREATE TRIGGER audit_purchase_invoices
+  AFTER INSERT OR UPDATE OR DELETE ON public.purchase_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.purchase_invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view purchase invoices" ON public.purchase_invoices;
+CREATE POLICY "Authenticated users can view purchase invoices"
+  ON public.purchase_invoices
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Amounts are fixed at receipt; only the due date and notes can be corrected
+DROP POLICY IF EXISTS "Managers can update purchase invoices" ON public.purchase_invoices;
+CREATE POLICY "Managers can update purchase invoices"
+  ON public.purchase_invoices
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'));
+
+-- 3) Rikshaw: the invoice it was bought on (null for units entered one at a time)
+ALTER TABLE public.rikshaws
+  ADD COLUMN IF NOT EXISTS purchase_invoice_id uuid REFERENCES public.purchase_invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rikshaws_purchase_invoice ON public.rikshaws (purchase_invoice_id);
+
+-- 4) Supplier payments
+CREATE TABLE IF NOT EXISTS public.supplier_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  payment_date date NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  method text NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'bank_transfer', 'cheque')),
+  reference text, -- cheque or transfer number
+  notes text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier ON public.supplier_payments (supplier_id, payment_date);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.supplier_payments;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.supplier_payments
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_supplier_payments ON public.supplier_payments;
+CREATE TRIGGER audit_supplier_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.supplier_payments
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.supplier_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view supplier payments" ON public.supplier_payments;
+CREATE POLICY "Authenticated users can view supplier payments"
+  ON public.supplier_payments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Managers can record supplier payments" ON public.supplier_payments;
+CREATE POLICY "Managers can record supplier payments"
+  ON public.supplier_payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+DROP POLICY IF EXISTS "Admins can delete supplier payments" ON public.supplier_payments;
+CREATE POLICY "Admins can delete supplier payments"
+  ON public.supplier_payments
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role('admin'));
+
+-- 5) receive_purchase_invoice
+--    p_lines: [{ manufacturer, model_name, type, engine_number, chassis_number,
+--                registration_number?, category?, purchase_price }, ...]
+CREATE OR REPLACE FUNCTION public.receive_purchase_invoice(
+  p_supplier_id uuid,
+  p_invoice_number text,
+  p_invoice_date date,
+  p_lines jsonb,
+  p_due_date date DEFAULT NULL,
+  p_other_charges numeric DEFAULT 0,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.purchase_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.purchase_invoices%ROWTYPE;
+  v_line jsonb;
+  v_duplicates text;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can receive purchase invoices'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.suppliers WHERE id = p_supplier_id) THEN
+    RAISE EXCEPTION 'Supplier % not found', p_supplier_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one rikshaw'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    IF COALESCE(btrim(v_line ->> 'manufacturer'), '') = ''
+      OR COALESCE(btrim(v_line ->> 'model_name'), '') = ''
+      OR COALESCE(btrim(v_line ->> 'type'), '') = ''
+      OR COALESCE(btrim(v_line ->> 'engine_number'), '') = ''
+      OR COALESCE(btrim(v_line ->> 'chassis_number'), '') = '' THEN
+      RAISE EXCEPTION 'Every rikshaw needs a manufacturer, model, type, engine number and chassis number'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF COALESCE((v_line ->> 'purchase_price')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Rikshaw % has no purchase price', v_line ->> 'engine_number'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  -- Name the units already in stock instead of failing on the unique constraint
+  SELECT string_agg(DISTINCT r.engine_number, ', ')
+  INTO v_duplicates
+  FROM jsonb_array_elements(p_lines) AS line
+  JOIN public.rikshaws r
+    ON r.engine_number = btrim(line ->> 'engine_number')
+    OR r.chassis_number = btrim(line ->> 'chassis_number');
+
+  IF v_duplicates IS NOT NULL THEN
+    RAISE EXCEPTION 'Already in stock (engine no): %', v_duplicates
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.purchase_invoices (
+    supplier_id,
+    invoice_number,
+    invoice_date,
+    due_date,
+    other_charges,
+    total_amount,
+    notes
+  )
+  VALUES (
+    p_supplier_id,
+    btrim(p_invoice_number),
+    p_invoice_date,
+    p_due_date,
+    COALESCE(p_other_charges, 0),
+    COALESCE(p_other_charges, 0)
+      + (SELECT SUM((line ->> 'purchase_price')::numeric) FROM jsonb_array_elements(p_lines) AS line),
+    NULLIF(btrim(p_notes), '')
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO public.rikshaws (
+    manufacturer,
+    model_name,
+    type,
+    engine_number,
+    chassis_number,
+    registration_number,
+    category,
+    availability,
+    purchase_date,
+    purchase_price,
+    purchase_invoice_id
+  )
+  SELECT
+    btrim(line ->> 'manufacturer'),
+    btrim(line ->> 'model_name'),
+    btrim(line ->> 'type'),
+    btrim(line ->> 'engine_number'),
+    btrim(line ->> 'chassis_number'),
+    NULLIF(btrim(line ->> 'registration_number'), ''),
+    CASE WHEN line ->> 'category' = 'old' THEN 'old' ELSE 'new' END,
+    'unsold',
+    p_invoice_date,
+    (line ->> 'purchase_price')::numeric,
+    v_invoice.id
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  RETURN v_invoice;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.receive_purchase_invoice(uuid, text, date, jsonb, date, numeric, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_invoice(uuid, text, date, jsonb, date, numeric, text) TO authenticated;
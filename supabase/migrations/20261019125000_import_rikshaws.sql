@@ -0,0 +1,97 @@
+-- Bulk inventory import.
+--
+-- The Rikshaws page reads a CSV/XLSX, validates every row and shows a dry-run report
+-- (src/lib/inventoryImport.ts); the valid rows are then sent here and inserted in one transaction.
+-- The checks are repeated so that a unit added by someone else since the dry run fails the whole
+-- import instead of half of it.
+--
+-- p_rows: [{ manufacturer, model_name, type, engine_number, chassis_number, registration_number?,
+--            category, purchase_date, purchase_price }, ...]
+CREATE OR REPLACE FUNCTION public.import_rikshaws(p_rows jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_duplicates text;
+  v_count integer;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can import rikshaws'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'There are no rikshaws to import'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    IF COALESCE(btrim(v_row ->> 'manufacturer'), '') = ''
+      OR COALESCE(btrim(v_row ->> 'model_name'), '') = ''
+      OR COALESCE(btrim(v_row ->> 'type'), '') = ''
+      OR COALESCE(btrim(v_row ->> 'engine_number'), '') = ''
+      OR COALESCE(btrim(v_row ->> 'chassis_number'), '') = ''
+      OR (v_row ->> 'purchase_date') IS NULL THEN
+      RAISE EXCEPTION 'Every rikshaw needs a manufacturer, model, type, engine number, chassis number and purchase date'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF COALESCE(v_row ->> 'category', '') NOT IN ('new', 'old') THEN
+      RAISE EXCEPTION 'Rikshaw % has an invalid category', v_row ->> 'engine_number'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF COALESCE((v_row ->> 'purchase_price')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Rikshaw % has no purchase price', v_row ->> 'engine_number'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  -- Name the units already in stock instead of failing on the unique constraints
+  SELECT string_agg(DISTINCT r.engine_number, ', ')
+  INTO v_duplicates
+  FROM jsonb_array_elements(p_rows) AS line
+  JOIN public.rikshaws r
+    ON r.engine_number = btrim(line ->> 'engine_number')
+    OR r.chassis_number = btrim(line ->> 'chassis_number')
+    OR r.registration_number = NULLIF(btrim(line ->> 'registration_number'), '');
+
+  IF v_duplicates IS NOT NULL THEN
+    RAISE EXCEPTION 'Already in stock (engine no): %', v_duplicates
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.rikshaws (
+    manufacturer,
+    model_name,
+    type,
+    engine_number,
+    chassis_number,
+    registration_number,
+    category,
+    availability,
+    purchase_date,
+    purchase_price
+  )
+  SELECT
+    btrim(line ->> 'manufacturer'),
+    btrim(line ->> 'model_name'),
+    btrim(line ->> 'type'),
+    btrim(line ->> 'engine_number'),
+    btrim(line ->> 'chassis_number'),
+    NULLIF(btrim(line ->> 'registration_number'), ''),
+    line ->> 'category',
+    'unsold',
+    (line ->> 'purchase_date')::date,
+    (line ->> 'purchase_price')::numeric
+  FROM jsonb_array_elements(p_rows) AS line;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.import_rikshaws(jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.import_rikshaws(jsonb) TO authenticated;
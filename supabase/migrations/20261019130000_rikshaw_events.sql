@@ -0,0 +1,154 @@
+-- Rikshaw lifecycle events.
+--
+-- rikshaws only knows whether a unit is sold and whether it is new or old. rikshaw_events keeps
+-- what happened to it and when:
+--   purchased    the unit was added to stock (form, import or purchase invoice)
+--   in_stock     back in stock after a sale was undone
+--   reserved     held for a customer
+--   sold         sold, with its plan if sold on installments
+--   repossessed  taken back from a defaulted plan (repossess_plan)
+--   resold       a repossessed unit sold again
+--   transferred  ownership or registration transferred
+--   scrapped     written off
+-- The trigger on rikshaws writes purchased, sold, resold, repossessed and in_stock; the other
+-- events are recorded by the features that cause them or entered by a manager.
+
+-- 1) Events
+CREATE TABLE IF NOT EXISTS public.rikshaw_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rikshaw_id uuid NOT NULL REFERENCES public.rikshaws(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'purchased', 'in_stock', 'reserved', 'sold', 'repossessed', 'resold', 'transferred', 'scrapped'
+  )),
+  event_date date NOT NULL DEFAULT CURRENT_DATE,
+  installment_plan_id uuid REFERENCES public.installment_plans(id) ON DELETE SET NULL,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rikshaw_events_rikshaw ON public.rikshaw_events (rikshaw_id, event_date, created_at);
+
+ALTER TABLE public.rikshaw_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view rikshaw events" ON public.rikshaw_events;
+CREATE POLICY "Authenticated users can view rikshaw events"
+  ON public.rikshaw_events
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Events are a history: managers may add them, nobody edits or deletes them
+DROP POLICY IF EXISTS "Managers can record rikshaw events" ON public.rikshaw_events;
+CREATE POLICY "Managers can record rikshaw events"
+  ON public.rikshaw_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+-- 2) Automatic events from inventory and sale changes
+CREATE OR REPLACE FUNCTION public.write_rikshaw_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, notes)
+    VALUES (
+      NEW.id,
+      'purchased',
+      NEW.purchase_date,
+      (SELECT 'Invoice ' || i.invoice_number || ' from ' || s.name
+       FROM public.purchase_invoices i
+       JOIN public.suppliers s ON s.id = i.supplier_id
+       WHERE i.id = NEW.purchase_invoice_id)
+    );
+    RETURN NULL;
+  END IF;
+
+  IF NEW.availability = 'sold' AND OLD.availability <> 'sold' THEN
+    -- sell_rikshaw creates the plan before marking the unit sold, in the same transaction
+    SELECT * INTO v_plan
+    FROM public.installment_plans
+    WHERE rikshaw_id = NEW.id
+      AND created_at = now();
+
+    INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, installment_plan_id, customer_id, notes)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.repossessed_from_plan_id IS NOT NULL THEN 'resold' ELSE 'sold' END,
+      COALESCE(v_plan.agreement_date, CURRENT_DATE),
+      v_plan.id,
+      v_plan.customer_id,
+      CASE WHEN NEW.sale_price IS NOT NULL THEN 'Sale price Rs ' || NEW.sale_price END
+    );
+  ELSIF NEW.availability = 'unsold' AND OLD.availability = 'sold' THEN
+    IF NEW.repossessed_from_plan_id IS DISTINCT FROM OLD.repossessed_from_plan_id THEN
+      INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, installment_plan_id, customer_id, notes)
+      SELECT NEW.id, 'repossessed', COALESCE(r.repossessed_on, CURRENT_DATE), p.id, p.customer_id, 'Condition: ' || r.condition
+      FROM public.installment_plans p
+      LEFT JOIN public.repossessions r ON r.installment_plan_id = p.id
+      WHERE p.id = NEW.repossessed_from_plan_id;
+    ELSE
+      INSERT INTO public.rikshaw_events (rikshaw_id, event_type)
+      VALUES (NEW.id, 'in_stock');
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS write_rikshaw_event ON public.rikshaws;
+CREATE TRIGGER write_rikshaw_event
+  AFTER INSERT OR UPDATE OF availability ON public.rikshaws
+  FOR EACH ROW EXECUTE FUNCTION public.write_rikshaw_event();
+
+-- 3) Backfill units that have no history yet from what is already recorded
+INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, created_by, created_by_email, created_at)
+SELECT r.id, 'purchased', r.purchase_date, NULL, NULL, r.created_at
+FROM public.rikshaws r
+WHERE NOT EXISTS (SELECT 1 FROM public.rikshaw_events e WHERE e.rikshaw_id = r.id);
+
+INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, installment_plan_id, customer_id, created_by, created_by_email, created_at)
+SELECT
+  p.rikshaw_id,
+  CASE WHEN EXISTS (
+    SELECT 1 FROM public.repossessions earlier
+    WHERE earlier.rikshaw_id = p.rikshaw_id AND earlier.repossessed_on <= COALESCE(p.agreement_date, p.created_at::date)
+      AND earlier.installment_plan_id <> p.id
+  ) THEN 'resold' ELSE 'sold' END,
+  COALESCE(p.agreement_date, p.created_at::date),
+  p.id,
+  p.customer_id,
+  NULL,
+  NULL,
+  p.created_at
+FROM public.installment_plans p
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.rikshaw_events e
+  WHERE e.rikshaw_id = p.rikshaw_id AND e.event_type <> 'purchased'
+);
+
+-- Units marked sold on the Rikshaws page without a plan
+INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, created_by, created_by_email, created_at)
+SELECT r.id, 'sold', r.updated_at::date, NULL, NULL, r.updated_at
+FROM public.rikshaws r
+WHERE r.availability = 'sold'
+  AND NOT EXISTS (SELECT 1 FROM public.installment_plans p WHERE p.rikshaw_id = r.id)
+  AND NOT EXISTS (SELECT 1 FROM public.rikshaw_events e WHERE e.rikshaw_id = r.id AND e.event_type = 'sold');
+
+INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, installment_plan_id, customer_id, notes, created_by, created_by_email, created_at)
+SELECT r.rikshaw_id, 'repossessed', r.repossessed_on, r.installment_plan_id, p.customer_id, 'Condition: ' || r.condition, NULL, NULL, r.created_at
+FROM public.repossessions r
+JOIN public.installment_plans p ON p.id = r.installment_plan_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.rikshaw_events e
+  WHERE e.rikshaw_id = r.rikshaw_id AND e.event_type = 'repossessed' AND e.installment_plan_id = r.installment_plan_id
+);
@@ -0,0 +1,460 @@
+-- Unit reservations.
+--
+-- A customer pays token money to hold a specific unsold rikshaw until a date. While the hold is
+-- active (status 'active' and expires_on not passed) sell_rikshaw only sells the unit to that
+-- customer; the sale converts the reservation and the token counts towards the first advance.
+-- A hold that is released or expires returns the unit to stock, with the token split into the
+-- part forfeited and the part refunded. On expiry the split follows forfeit_percent in the
+-- reservation policy (app_settings 'reservation_policy', edited in Settings); expire_reservations()
+-- applies it, daily through pg_cron where available and whenever the Reservations page opens.
+-- A passed expiry date never blocks a sale, whether or not it has been applied yet.
+
+-- 1) Reservations
+CREATE TABLE IF NOT EXISTS public.reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rikshaw_id uuid NOT NULL REFERENCES public.rikshaws(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id),
+  token_amount numeric NOT NULL CHECK (token_amount > 0),
+  reserved_on date NOT NULL DEFAULT CURRENT_DATE,
+  expires_on date NOT NULL, -- last day of the hold
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'converted', 'expired', 'cancelled')),
+  installment_plan_id uuid REFERENCES public.installment_plans(id) ON DELETE SET NULL, -- set when converted
+  released_on date, -- converted, expired or cancelled on
+  token_forfeited numeric CHECK (token_forfeited IS NULL OR token_forfeited >= 0),
+  token_refunded numeric CHECK (token_refunded IS NULL OR token_refunded >= 0),
+  release_reason text,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT reservations_expiry CHECK (expires_on >= reserved_on)
+);
+
+-- At most one hold per unit
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reservations_active_rikshaw ON public.reservations (rikshaw_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_reservations_customer ON public.reservations (customer_id);
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.reservations;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_reservations ON public.reservations;
+CREATE TRIGGER audit_reservations
+  AFTER INSERT OR UPDATE OR DELETE ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view reservations" ON public.reservations;
+CREATE POLICY "Authenticated users can view reservations"
+  ON public.reservations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Reservations change only through the functions below; managers may correct the notes
+DROP POLICY IF EXISTS "Managers can update reservations" ON public.reservations;
+CREATE POLICY "Managers can update reservations"
+  ON public.reservations
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'))
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+-- 2) expire_reservations: applies the policy to holds past their expiry date
+CREATE OR REPLACE FUNCTION public.expire_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_forfeit_percent numeric;
+  v_count integer;
+BEGIN
+  SELECT LEAST(100, GREATEST(0, COALESCE((value ->> 'forfeit_percent')::numeric, 100)))
+  INTO v_forfeit_percent
+  FROM public.app_settings
+  WHERE key = 'reservation_policy';
+
+  v_forfeit_percent := COALESCE(v_forfeit_percent, 100);
+
+  WITH expired AS (
+    UPDATE public.reservations
+    SET status = 'expired',
+        released_on = expires_on + 1,
+        token_forfeited = round(token_amount * v_forfeit_percent / 100),
+        token_refunded = token_amount - round(token_amount * v_forfeit_percent / 100),
+        release_reason = 'Expired'
+    WHERE status = 'active'
+      AND expires_on < CURRENT_DATE
+    RETURNING *
+  )
+  INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, customer_id, notes)
+  SELECT rikshaw_id, 'in_stock', released_on, customer_id, 'Reservation expired'
+  FROM expired;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.expire_reservations() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_reservations() TO authenticated;
+
+-- 3) reserve_rikshaw
+CREATE OR REPLACE FUNCTION public.reserve_rikshaw(
+  p_rikshaw_id uuid,
+  p_customer_id uuid,
+  p_token_amount numeric,
+  p_expires_on date,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rikshaw public.rikshaws%ROWTYPE;
+  v_existing public.reservations%ROWTYPE;
+  v_reservation public.reservations%ROWTYPE;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can reserve rikshaws'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(p_token_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'The token amount must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_expires_on IS NULL OR p_expires_on < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The reservation must expire today or later'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Serialises with sell_rikshaw and other reservations of the same unit
+  SELECT * INTO v_rikshaw
+  FROM public.rikshaws
+  WHERE id = p_rikshaw_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rikshaw % not found', p_rikshaw_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_rikshaw.availability <> 'unsold' THEN
+    RAISE EXCEPTION 'Rikshaw % has already been sold', v_rikshaw.engine_number
+      USING ERRCODE = 'RK001';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM public.reservations
+  WHERE rikshaw_id = p_rikshaw_id
+    AND status = 'active';
+
+  IF FOUND THEN
+    IF v_existing.expires_on >= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Rikshaw % is already reserved until %', v_rikshaw.engine_number, to_char(v_existing.expires_on, 'DD Mon YYYY')
+        USING ERRCODE = 'RK002';
+    END IF;
+    PERFORM public.expire_reservations();
+  END IF;
+
+  INSERT INTO public.reservations (rikshaw_id, customer_id, token_amount, expires_on, notes)
+  VALUES (p_rikshaw_id, p_customer_id, p_token_amount, p_expires_on, NULLIF(btrim(p_notes), ''))
+  RETURNING * INTO v_reservation;
+
+  INSERT INTO public.rikshaw_events (rikshaw_id, event_type, customer_id, notes)
+  VALUES (
+    p_rikshaw_id,
+    'reserved',
+    p_customer_id,
+    'Token Rs ' || p_token_amount || ', held until ' || to_char(p_expires_on, 'DD Mon YYYY')
+  );
+
+  RETURN v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_rikshaw(uuid, uuid, numeric, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_rikshaw(uuid, uuid, numeric, date, text) TO authenticated;
+
+-- 4) release_reservation: ends a hold early; p_forfeit_percent of the token is kept
+CREATE OR REPLACE FUNCTION public.release_reservation(
+  p_reservation_id uuid,
+  p_forfeit_percent numeric,
+  p_reason text
+)
+RETURNS public.reservations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_forfeited numeric;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can release reservations'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_forfeit_percent IS NULL OR p_forfeit_percent < 0 OR p_forfeit_percent > 100 THEN
+    RAISE EXCEPTION 'The forfeited share must be between 0 and 100 percent'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to release a reservation'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_reservation
+  FROM public.reservations
+  WHERE id = p_reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation % not found', p_reservation_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_reservation.status <> 'active' THEN
+    RAISE EXCEPTION 'This reservation is already %', v_reservation.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_forfeited := round(v_reservation.token_amount * p_forfeit_percent / 100);
+
+  UPDATE public.reservations
+  SET status = 'cancelled',
+      released_on = CURRENT_DATE,
+      token_forfeited = v_forfeited,
+      token_refunded = token_amount - v_forfeited,
+      release_reason = btrim(p_reason)
+  WHERE id = p_reservation_id
+  RETURNING * INTO v_reservation;
+
+  INSERT INTO public.rikshaw_events (rikshaw_id, event_type, customer_id, notes)
+  VALUES (v_reservation.rikshaw_id, 'in_stock', v_reservation.customer_id, 'Reservation released: ' || v_reservation.release_reason);
+
+  RETURN v_reservation;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.release_reservation(uuid, numeric, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_reservation(uuid, numeric, text) TO authenticated;
+
+-- 5) sell_rikshaw: respects holds and converts the buyer's own reservation
+CREATE OR REPLACE FUNCTION public.sell_rikshaw(
+  p_customer_id uuid,
+  p_rikshaw_id uuid,
+  p_total_price numeric,
+  p_advance_payments jsonb,
+  p_monthly_installment numeric,
+  p_duration_months integer,
+  p_agreement_date date,
+  p_showroom_commission numeric DEFAULT 0,
+  p_is_commission_paid boolean DEFAULT false,
+  p_guarantor_ids uuid[] DEFAULT NULL
+)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_rikshaw public.rikshaws%ROWTYPE;
+  v_customer public.customers%ROWTYPE;
+  v_reservation public.reservations%ROWTYPE;
+  v_first_advance numeric;
+  v_plan public.installment_plans%ROWTYPE;
+  v_guarantor_id uuid;
+BEGIN
+  -- 1) Lock the unit and make sure it is still available
+  SELECT * INTO v_rikshaw
+  FROM public.rikshaws
+  WHERE id = p_rikshaw_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rikshaw % not found', p_rikshaw_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_rikshaw.availability <> 'unsold' THEN
+    RAISE EXCEPTION 'Rikshaw % has already been sold', v_rikshaw.engine_number
+      USING ERRCODE = 'RK001',
+            DETAIL = format('rikshaw_id=%s availability=%s', v_rikshaw.id, v_rikshaw.availability);
+  END IF;
+
+  -- A hold that has not expired reserves the unit for its customer
+  SELECT * INTO v_reservation
+  FROM public.reservations
+  WHERE rikshaw_id = p_rikshaw_id
+    AND status = 'active'
+    AND expires_on >= CURRENT_DATE;
+
+  IF FOUND AND v_reservation.customer_id <> p_customer_id THEN
+    RAISE EXCEPTION 'Rikshaw % is reserved for another customer until %', v_rikshaw.engine_number, to_char(v_reservation.expires_on, 'DD Mon YYYY')
+      USING ERRCODE = 'RK002',
+            DETAIL = format('rikshaw_id=%s reservation_id=%s', v_rikshaw.id, v_reservation.id);
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM public.customers
+  WHERE id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- 2) Validate the plan terms (mirrors the checks in SellRickshaw.tsx)
+  IF jsonb_typeof(p_advance_payments) <> 'array' OR jsonb_array_length(p_advance_payments) = 0 THEN
+    RAISE EXCEPTION 'At least one advance payment is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Only the first advance chunk is collected at sale time; later chunks arrive as advance_adjustment payments
+  v_first_advance := COALESCE((p_advance_payments -> 0 ->> 'amount')::numeric, 0);
+
+  IF v_first_advance <= 0 THEN
+    RAISE EXCEPTION 'The first advance payment must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_first_advance > p_total_price THEN
+    RAISE EXCEPTION 'Advance collected cannot exceed the total price'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- The token already paid is part of the first advance
+  IF v_reservation.id IS NOT NULL AND v_first_advance < v_reservation.token_amount THEN
+    RAISE EXCEPTION 'The first advance cannot be less than the token of Rs % already paid', v_reservation.token_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_showroom_commission, 0) < 0 THEN
+    RAISE EXCEPTION 'Showroom commission cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- 3) Create the plan
+  INSERT INTO public.installment_plans (
+    customer_id,
+    rikshaw_id,
+    total_price,
+    advance_paid,
+    advance_payments,
+    monthly_installment,
+    duration_months,
+    agreement_date,
+    showroom_commission,
+    is_commission_paid,
+    guarantor_name,
+    guarantor_cnic,
+    guarantor_phone,
+    guarantor_address,
+    bank_name,
+    cheque_number,
+    rikshaw_details
+  )
+  VALUES (
+    p_customer_id,
+    p_rikshaw_id,
+    p_total_price,
+    v_first_advance,
+    p_advance_payments,
+    p_monthly_installment,
+    p_duration_months,
+    COALESCE(p_agreement_date, CURRENT_DATE),
+    COALESCE(p_showroom_commission, 0),
+    COALESCE(p_is_commission_paid, false),
+    v_customer.guarantor_name,
+    v_customer.guarantor_cnic,
+    v_customer.guarantor_phone,
+    v_customer.guarantor_address,
+    v_customer.bank_name,
+    v_customer.cheque_number,
+    jsonb_build_object(
+      'manufacturer', v_rikshaw.manufacturer,
+      'model_name', v_rikshaw.model_name,
+      'engine_number', v_rikshaw.engine_number,
+      'chassis_number', v_rikshaw.chassis_number,
+      'registration_number', v_rikshaw.registration_number,
+      'type', v_rikshaw.type
+    )
+  )
+  RETURNING * INTO v_plan;
+
+  -- 4) Link the guarantors. Without an explicit choice, the guarantor on the customer record
+  --    (if any) is looked up by CNIC, created if new, and linked.
+  IF COALESCE(array_length(p_guarantor_ids, 1), 0) > 0 THEN
+    INSERT INTO public.plan_guarantors (plan_id, guarantor_id)
+    SELECT v_plan.id, g.id
+    FROM public.guarantors g
+    WHERE g.id = ANY (p_guarantor_ids)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'None of the selected guarantors exist'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSIF COALESCE(btrim(v_customer.guarantor_cnic), '') <> '' THEN
+    INSERT INTO public.guarantors (name, cnic, phone, address)
+    VALUES (
+      COALESCE(NULLIF(btrim(v_customer.guarantor_name), ''), 'Unknown'),
+      btrim(v_customer.guarantor_cnic),
+      v_customer.guarantor_phone,
+      v_customer.guarantor_address
+    )
+    ON CONFLICT (cnic) DO UPDATE SET cnic = EXCLUDED.cnic
+    RETURNING id INTO v_guarantor_id;
+
+    INSERT INTO public.plan_guarantors (plan_id, guarantor_id)
+    VALUES (v_plan.id, v_guarantor_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  -- 5) Convert the buyer's reservation; the token is now part of the advance
+  IF v_reservation.id IS NOT NULL THEN
+    UPDATE public.reservations
+    SET status = 'converted',
+        installment_plan_id = v_plan.id,
+        released_on = CURRENT_DATE,
+        token_forfeited = 0,
+        token_refunded = 0
+    WHERE id = v_reservation.id;
+  END IF;
+
+  -- 6) Mark the unit sold
+  UPDATE public.rikshaws
+  SET availability = 'sold',
+      sale_price = p_total_price
+  WHERE id = p_rikshaw_id;
+
+  RETURN v_plan;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean, uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean, uuid[]) TO authenticated;
+
+-- 6) Daily expiry where pg_cron is installed
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-reservations', '5 0 * * *', 'SELECT public.expire_reservations()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,161 @@
+-- Registration and ownership transfer.
+--
+-- Every sale starts an excise registration file for the buyer, kept in `registrations` (one row
+-- per installment plan):
+--   not_applied   nothing filed yet
+--   applied       file submitted to the excise office
+--   received      registration book received back
+--   plate_issued  number plate issued; the registration number is copied to the rikshaw
+-- The row also records the registration fee and who bore it, where the original registration book
+-- is held (the showroom safe until the plan completes) and the NOC (no objection certificate) the
+-- showroom issues on completion, which lets the customer transfer the vehicle into their name.
+-- Issuing the NOC numbers it (NOC-YYYY-NNNN) and logs a 'transferred' rikshaw event.
+
+-- 1) Registrations
+CREATE TABLE IF NOT EXISTS public.registrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  installment_plan_id uuid NOT NULL UNIQUE REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  rikshaw_id uuid NOT NULL REFERENCES public.rikshaws(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'not_applied' CHECK (status IN ('not_applied', 'applied', 'received', 'plate_issued')),
+  applied_on date,
+  received_on date,
+  plate_issued_on date,
+  registration_number text,
+  fee_amount numeric NOT NULL DEFAULT 0 CHECK (fee_amount >= 0),
+  fee_paid_by text CHECK (fee_paid_by IN ('customer', 'showroom')),
+  fee_paid_on date,
+  book_location text CHECK (book_location IN ('excise_office', 'showroom_safe', 'customer')), -- original registration book
+  noc_number text UNIQUE,
+  noc_issued_on date,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT registrations_plate_number CHECK (status <> 'plate_issued' OR registration_number IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_registrations_status ON public.registrations (status);
+CREATE INDEX IF NOT EXISTS idx_registrations_rikshaw ON public.registrations (rikshaw_id);
+
+CREATE SEQUENCE IF NOT EXISTS public.noc_number_seq;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.registrations;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS audit_registrations ON public.registrations;
+CREATE TRIGGER audit_registrations
+  AFTER INSERT OR UPDATE OR DELETE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.registrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view registrations" ON public.registrations;
+CREATE POLICY "Authenticated users can view registrations"
+  ON public.registrations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Rows are created with the sale; managers keep them up to date
+DROP POLICY IF EXISTS "Managers can update registrations" ON public.registrations;
+CREATE POLICY "Managers can update registrations"
+  ON public.registrations
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role('admin', 'manager'))
+  WITH CHECK (public.has_role('admin', 'manager'));
+
+-- 2) A registration file for every new sale
+CREATE OR REPLACE FUNCTION public.create_registration()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.registrations (installment_plan_id, rikshaw_id, registration_number, book_location)
+  SELECT NEW.id, NEW.rikshaw_id, r.registration_number, 'showroom_safe'
+  FROM public.rikshaws r
+  WHERE r.id = NEW.rikshaw_id
+    AND r.registration_number IS NOT NULL; -- a used unit: the book is with the showroom
+
+  IF NOT FOUND THEN
+    INSERT INTO public.registrations (installment_plan_id, rikshaw_id)
+    VALUES (NEW.id, NEW.rikshaw_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_registration ON public.installment_plans;
+CREATE TRIGGER create_registration
+  AFTER INSERT ON public.installment_plans
+  FOR EACH ROW EXECUTE FUNCTION public.create_registration();
+
+-- 3) NOC numbering
+CREATE OR REPLACE FUNCTION public.number_noc()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.noc_issued_on IS NOT NULL AND NEW.noc_number IS NULL THEN
+    NEW.noc_number := 'NOC-' || to_char(NEW.noc_issued_on, 'YYYY') || '-' || lpad(nextval('public.noc_number_seq')::text, 4, '0');
+  ELSIF NEW.noc_issued_on IS NULL THEN
+    NEW.noc_number := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS number_noc ON public.registrations;
+CREATE TRIGGER number_noc
+  BEFORE UPDATE OF noc_issued_on ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.number_noc();
+
+-- 4) Plate number onto the rikshaw, NOC into the unit's history
+CREATE OR REPLACE FUNCTION public.sync_registration()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.registration_number IS NOT NULL
+     AND NEW.registration_number IS DISTINCT FROM OLD.registration_number THEN
+    UPDATE public.rikshaws
+    SET registration_number = NEW.registration_number
+    WHERE id = NEW.rikshaw_id;
+  END IF;
+
+  IF NEW.noc_number IS NOT NULL AND OLD.noc_number IS NULL THEN
+    INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, installment_plan_id, customer_id, notes)
+    SELECT NEW.rikshaw_id, 'transferred', NEW.noc_issued_on, p.id, p.customer_id, 'NOC ' || NEW.noc_number || ' issued for transfer to the customer'
+    FROM public.installment_plans p
+    WHERE p.id = NEW.installment_plan_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_registration ON public.registrations;
+CREATE TRIGGER sync_registration
+  AFTER UPDATE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_registration();
+
+-- 5) Backfill: units that already carry a registration number were registered before tracking began
+INSERT INTO public.registrations (installment_plan_id, rikshaw_id, status, registration_number, created_by, created_by_email)
+SELECT
+  p.id,
+  p.rikshaw_id,
+  CASE WHEN r.registration_number IS NOT NULL THEN 'plate_issued' ELSE 'not_applied' END,
+  r.registration_number,
+  NULL,
+  NULL
+FROM public.installment_plans p
+JOIN public.rikshaws r ON r.id = p.rikshaw_id
+WHERE NOT EXISTS (SELECT 1 FROM public.registrations g WHERE g.installment_plan_id = p.id);
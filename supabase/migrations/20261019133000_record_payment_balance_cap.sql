@@ -0,0 +1,181 @@
+-- record_payment never collects more than the customer still owes on the price. The monthly
+-- target already covers any agreed advance not yet collected, so the leftover of a monthly payment
+-- only goes to the pending advance up to the outstanding principal, and a direct advance adjustment
+-- cannot exceed it either. Same as 20261019121000_plan_rescheduling.sql otherwise.
+
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_plan_id uuid,
+  p_amount numeric,
+  p_payment_type text,
+  p_received_by text,
+  p_payment_date date DEFAULT CURRENT_DATE,
+  p_remarks text DEFAULT NULL
+)
+RETURNS SETOF public.installment_payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_total_agreed_advance numeric;
+  v_collected_advance numeric;
+  v_remaining_advance numeric;
+  v_total_discount numeric;
+  v_monthly_paid_pool numeric;
+  v_closed_monthly_paid numeric;
+  v_target_left numeric;
+  v_outstanding numeric;
+  v_expected numeric;
+  v_already_paid numeric;
+  v_due numeric;
+  v_pay_now numeric;
+  v_left numeric := p_amount;
+  i integer;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount paid must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_type NOT IN ('monthly', 'advance_adjustment', 'commission', 'discount', 'penalty', 'penalty_waiver') THEN
+    RAISE EXCEPTION 'Unknown payment type %', p_payment_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_type = 'penalty_waiver' THEN
+    IF NOT public.has_role('admin', 'manager') THEN
+      RAISE EXCEPTION 'Only admins and managers can waive late fees'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF COALESCE(btrim(p_remarks), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to waive a late fee'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF COALESCE(btrim(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Received by is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialise all recordings against this plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = p_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment plan % not found', p_plan_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- An advance adjustment is part of the price too: never more than the customer still owes
+  IF p_payment_type = 'advance_adjustment' THEN
+    SELECT v_plan.total_price
+      - COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      - COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'monthly', 'discount')), 0)
+    INTO v_outstanding
+    FROM public.installment_payments
+    WHERE installment_plan_id = p_plan_id;
+
+    IF p_amount > v_outstanding THEN
+      RAISE EXCEPTION 'Payment exceeds the outstanding balance by Rs %', p_amount - GREATEST(0, v_outstanding)
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Other non-monthly payments are stored as-is
+  IF p_payment_type <> 'monthly' THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), p_amount, btrim(p_received_by), p_payment_type, NULLIF(btrim(p_remarks), ''))
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    IF p_payment_type = 'commission' THEN
+      UPDATE public.installment_plans SET is_commission_paid = true WHERE id = p_plan_id;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  -- Current position of the plan (see computeInstallmentLedger)
+  SELECT COALESCE(SUM((chunk ->> 'amount')::numeric), 0)
+  INTO v_total_agreed_advance
+  FROM jsonb_array_elements(COALESCE(v_plan.advance_payments, '[]'::jsonb)) AS chunk;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'advance_adjustment'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'discount'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly' AND schedule_version IS DISTINCT FROM v_plan.schedule_version), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly' AND schedule_version = v_plan.schedule_version), 0)
+  INTO v_collected_advance, v_total_discount, v_closed_monthly_paid, v_monthly_paid_pool
+  FROM public.installment_payments
+  WHERE installment_plan_id = p_plan_id;
+
+  v_remaining_advance := GREATEST(0, v_total_agreed_advance - v_collected_advance);
+  -- The schedule in force covers what the closed versions did not collect
+  v_target_left := GREATEST(0, v_plan.total_price - v_collected_advance - v_total_discount - v_closed_monthly_paid);
+  -- Customer's outstanding principal before this payment (customerDebt in computeInstallmentLedger)
+  v_outstanding := GREATEST(0, v_target_left - v_monthly_paid_pool);
+
+  -- Monthly waterfall over the schedule in force: skip what earlier payments already cover, then fill the earliest dues
+  FOR i IN 1..v_plan.duration_months LOOP
+    EXIT WHEN v_left <= 0;
+
+    IF i = v_plan.duration_months THEN
+      v_expected := GREATEST(0, round(v_target_left));
+    ELSE
+      v_expected := round(LEAST(v_plan.monthly_installment, GREATEST(0, v_target_left)));
+    END IF;
+    v_target_left := v_target_left - v_expected;
+
+    v_already_paid := LEAST(v_expected, v_monthly_paid_pool);
+    v_monthly_paid_pool := v_monthly_paid_pool - v_already_paid;
+
+    v_due := v_expected - v_already_paid;
+    CONTINUE WHEN v_due <= 0;
+
+    v_pay_now := LEAST(v_left, v_due);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, installment_number)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'monthly', i)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+    v_outstanding := v_outstanding - v_pay_now;
+  END LOOP;
+
+  -- Leftover goes to the pending agreed advance, up to what the customer still owes
+  IF v_left > 0 AND v_remaining_advance > 0 AND v_outstanding > 0 THEN
+    v_pay_now := LEAST(v_left, v_remaining_advance, v_outstanding);
+
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type)
+        VALUES (p_plan_id, COALESCE(p_payment_date, CURRENT_DATE), v_pay_now, btrim(p_received_by), 'advance_adjustment')
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+
+    v_left := v_left - v_pay_now;
+  END IF;
+
+  -- Nothing left to apply it to: refuse rather than silently dropping money
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding balance by Rs %', v_left
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payment(uuid, numeric, text, text, date, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_payment(uuid, numeric, text, text, date, text) TO authenticated;
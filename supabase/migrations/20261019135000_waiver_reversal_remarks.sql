@@ -0,0 +1,7 @@
+-- Late fee waivers need their reason in remarks, but the reversing entry void_payment inserts for
+-- a voided waiver has none: its reason is the void_reason on the original row. Exempt reversing
+-- entries so waivers can be voided.
+ALTER TABLE public.installment_payments DROP CONSTRAINT IF EXISTS installment_payments_waiver_remarks_check;
+ALTER TABLE public.installment_payments
+  ADD CONSTRAINT installment_payments_waiver_remarks_check
+  CHECK (payment_type <> 'penalty_waiver' OR reversal_of IS NOT NULL OR COALESCE(btrim(remarks), '') <> '');
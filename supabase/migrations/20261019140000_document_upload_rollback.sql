@@ -0,0 +1,13 @@
+-- uploadDocument removes the uploaded file again when its document record cannot be written, but
+-- only admins and managers could delete from the documents bucket, so a failed cashier upload left
+-- an orphaned file. Uploaders may now delete their own files that no document record points to.
+DROP POLICY IF EXISTS "Uploaders can delete their unrecorded documents" ON storage.objects;
+CREATE POLICY "Uploaders can delete their unrecorded documents"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'documents'
+    AND owner = auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM public.documents d WHERE d.file_path = storage.objects.name)
+  );
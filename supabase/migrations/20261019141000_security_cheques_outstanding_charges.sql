@@ -0,0 +1,212 @@
+-- Security cheques are returned only once nothing at all is owed on the plan: the full price, and
+-- the late fees and bounced-cheque charges, paid or waived. Until now they went back as soon as the
+-- price was paid, while bounce charges or late fees could still be outstanding.
+--
+-- Late fees are not stored; the app derives them in computeInstallmentLedger. plan_late_fees_charged()
+-- follows the same rules so the database can tell when they are settled.
+
+-- 1) Late fees charged on a plan, as the penalty lines of computeInstallmentLedger
+CREATE OR REPLACE FUNCTION public.plan_late_fees_charged(p_plan_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_policy jsonb;
+  v_grace integer;
+  v_percentage boolean;
+  v_value numeric;
+  v_per_day numeric;
+  v_cap numeric;
+  v_monthly_target numeric;
+  v_paid_in_closed numeric := 0;
+  v_version record;
+  v_version_paid numeric;
+  v_target_left numeric;
+  v_expected numeric;
+  v_expected_so_far numeric;
+  v_due date;
+  v_settled date;
+  v_days integer;
+  v_fee numeric;
+  v_total numeric := 0;
+  i integer;
+BEGIN
+  SELECT * INTO v_plan FROM public.installment_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- The plan's own policy, else the global one (see parseLateFeePolicy)
+  v_policy := CASE
+    WHEN jsonb_typeof(v_plan.late_fee_policy) = 'object' THEN v_plan.late_fee_policy
+    ELSE (SELECT value FROM public.app_settings WHERE key = 'late_fee_policy')
+  END;
+  IF jsonb_typeof(v_policy) IS DISTINCT FROM 'object' THEN
+    RETURN 0;
+  END IF;
+
+  v_grace := CASE WHEN jsonb_typeof(v_policy -> 'grace_days') = 'number' THEN GREATEST(0, floor((v_policy ->> 'grace_days')::numeric)) ELSE 0 END;
+  v_percentage := v_policy ->> 'penalty_type' = 'percentage';
+  v_value := CASE WHEN jsonb_typeof(v_policy -> 'penalty_value') = 'number' THEN GREATEST(0, (v_policy ->> 'penalty_value')::numeric) ELSE 0 END;
+  v_per_day := CASE WHEN jsonb_typeof(v_policy -> 'per_day_amount') = 'number' THEN GREATEST(0, (v_policy ->> 'per_day_amount')::numeric) ELSE 0 END;
+  v_cap := CASE WHEN jsonb_typeof(v_policy -> 'cap') = 'number' AND (v_policy ->> 'cap')::numeric > 0 THEN (v_policy ->> 'cap')::numeric END;
+
+  IF v_value <= 0 AND v_per_day <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- What the monthly schedules must cover: the price less collected advance and discounts
+  SELECT GREATEST(0, v_plan.total_price
+    - COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+    - COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'discount')), 0))
+  INTO v_monthly_target
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  -- Closed versions oldest first, then the schedule in force
+  FOR v_version IN
+    SELECT
+      (h ->> 'version')::integer AS version,
+      (h ->> 'start_date')::date AS start_date,
+      (h ->> 'monthly_installment')::numeric AS monthly_installment,
+      (h ->> 'duration_months')::integer AS duration_months,
+      (h ->> 'closed_on')::date AS closed_on,
+      (h ->> 'carried_balance')::numeric AS carried_balance
+    FROM jsonb_array_elements(COALESCE(v_plan.schedule_history, '[]'::jsonb)) AS h
+    UNION ALL
+    SELECT
+      v_plan.schedule_version,
+      COALESCE(v_plan.schedule_start_date, v_plan.agreement_date::date, v_plan.created_at::date),
+      v_plan.monthly_installment,
+      v_plan.duration_months,
+      NULL::date,
+      NULL::numeric
+    ORDER BY 1
+  LOOP
+    SELECT COALESCE(SUM(amount_paid), 0)
+    INTO v_version_paid
+    FROM public.installment_payments
+    WHERE installment_plan_id = v_plan.id
+      AND payment_type = 'monthly'
+      AND voided_at IS NULL
+      AND reversal_of IS NULL
+      AND COALESCE(schedule_version, v_plan.schedule_version) = v_version.version;
+
+    v_target_left := CASE
+      WHEN v_version.closed_on IS NOT NULL THEN v_version_paid + v_version.carried_balance
+      ELSE GREATEST(0, v_monthly_target - v_paid_in_closed)
+    END;
+    v_expected_so_far := 0;
+
+    FOR i IN 1..v_version.duration_months LOOP
+      IF i = v_version.duration_months THEN
+        v_expected := GREATEST(0, round(v_target_left));
+      ELSE
+        v_expected := round(LEAST(v_version.monthly_installment, GREATEST(0, v_target_left)));
+      END IF;
+      v_target_left := v_target_left - v_expected;
+      v_expected_so_far := v_expected_so_far + v_expected;
+
+      CONTINUE WHEN v_expected <= 0;
+
+      -- Settled on the date of the monthly payment that completed it in the waterfall; an unpaid
+      -- installment accrues until its version was closed, or until today
+      v_due := (v_version.start_date + make_interval(months => i))::date;
+      SELECT payment_date INTO v_settled
+      FROM (
+        SELECT payment_date,
+               SUM(amount_paid) OVER (ORDER BY payment_date, created_at ROWS UNBOUNDED PRECEDING) AS paid_so_far
+        FROM public.installment_payments
+        WHERE installment_plan_id = v_plan.id
+          AND payment_type = 'monthly'
+          AND voided_at IS NULL
+          AND reversal_of IS NULL
+          AND COALESCE(schedule_version, v_plan.schedule_version) = v_version.version
+      ) replay
+      WHERE paid_so_far >= v_expected_so_far
+      ORDER BY paid_so_far
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        v_settled := COALESCE(v_version.closed_on, CURRENT_DATE);
+      END IF;
+
+      -- calculateLateFee
+      v_days := v_settled - v_due;
+      CONTINUE WHEN v_days <= v_grace;
+
+      v_fee := round(CASE WHEN v_percentage THEN v_expected * v_value / 100 ELSE v_value END + v_per_day * (v_days - v_grace));
+      v_total := v_total + CASE WHEN v_cap IS NOT NULL THEN LEAST(v_fee, v_cap) ELSE v_fee END;
+    END LOOP;
+
+    IF v_version.closed_on IS NOT NULL THEN
+      v_paid_in_closed := v_paid_in_closed + v_version_paid;
+    END IF;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.plan_late_fees_charged(uuid) FROM PUBLIC;
+
+-- 2) Return held security cheques once the price and every late fee and bounce charge are settled
+CREATE OR REPLACE FUNCTION public.return_security_cheques_on_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_paid numeric;
+  v_penalty_settled numeric;
+BEGIN
+  SELECT * INTO v_plan FROM public.installment_plans WHERE id = NEW.installment_plan_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'monthly', 'discount')), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('penalty', 'penalty_waiver')), 0)
+  INTO v_paid, v_penalty_settled
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  IF v_plan.total_price - v_paid > 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Late fees and bounce charges still owed (outstandingPenalty in computeInstallmentLedger)
+  IF public.plan_late_fees_charged(v_plan.id) + COALESCE(v_plan.bounce_charges, 0) - v_penalty_settled > 0 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.plan_cheques
+  SET status = 'returned',
+      returned_on = CURRENT_DATE,
+      remarks = concat_ws(E'\n', NULLIF(remarks, ''), 'Returned automatically: plan fully paid')
+  WHERE installment_plan_id = v_plan.id
+    AND kind = 'security'
+    AND status = 'held';
+
+  RETURN NULL;
+END;
+$$;
+
+-- Settling the last late fee or bounce charge can complete the plan too
+DROP TRIGGER IF EXISTS return_security_cheques ON public.installment_payments;
+CREATE TRIGGER return_security_cheques
+  AFTER INSERT ON public.installment_payments
+  FOR EACH ROW
+  WHEN (NEW.payment_type IN ('advance_adjustment', 'monthly', 'discount', 'penalty', 'penalty_waiver') AND NEW.reversal_of IS NULL)
+  EXECUTE FUNCTION public.return_security_cheques_on_completion();
@@ -0,0 +1,36 @@
+-- A recorded payment's money fields can no longer be edited in place. Changing the amount, type,
+-- installment or date bypassed record_payment's balance cap and made printed receipts disagree
+-- with the ledger; a wrong payment is voided and recorded again instead. Only who received it
+-- and the remarks can still be corrected.
+--
+-- Same as guard_voided_payments in 20261019105000_void_payments.sql otherwise.
+
+CREATE OR REPLACE FUNCTION public.guard_voided_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.voided_at IS NOT NULL OR OLD.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Voided payments and reversals cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (NEW.voided_at, NEW.voided_by, NEW.voided_by_email, NEW.void_reason, NEW.reversal_of)
+       IS DISTINCT FROM (OLD.voided_at, OLD.voided_by, OLD.voided_by_email, OLD.void_reason, OLD.reversal_of)
+     AND COALESCE(current_setting('app.voiding_payment', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Use void_payment to void a payment'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (NEW.installment_plan_id, NEW.amount_paid, NEW.payment_type, NEW.installment_number, NEW.payment_date,
+      NEW.schedule_version, NEW.receipt_number, NEW.receipt_year, NEW.receipt_seq)
+       IS DISTINCT FROM (OLD.installment_plan_id, OLD.amount_paid, OLD.payment_type, OLD.installment_number, OLD.payment_date,
+      OLD.schedule_version, OLD.receipt_number, OLD.receipt_year, OLD.receipt_seq) THEN
+    RAISE EXCEPTION 'A recorded payment cannot be changed; void it and record it again'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,454 @@
+-- Early settlement figures are checked on the server. A quotation is computed in the app
+-- (computeSettlementQuote), and accept_settlement() only compared its outstanding balance with the
+-- plan: late fees, commission and the rebate were taken as sent, and cashiers can issue quotations.
+--
+-- plan_late_fees_charged() takes the date late fees accrue to, so accept_settlement() can check the
+-- quoted late fees as of the settlement date. plan_settlement_rebate() applies the settlement_policy
+-- setting the same way as computeSettlementQuote; quotations with a larger rebate are refused when
+-- issued and when accepted.
+
+-- 1) Late fees charged on a plan as of a date (default today). Same as in
+--    20261019141000_security_cheques_outstanding_charges.sql otherwise.
+DROP FUNCTION IF EXISTS public.plan_late_fees_charged(uuid);
+
+CREATE OR REPLACE FUNCTION public.plan_late_fees_charged(p_plan_id uuid, p_as_of date DEFAULT CURRENT_DATE)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_policy jsonb;
+  v_grace integer;
+  v_percentage boolean;
+  v_value numeric;
+  v_per_day numeric;
+  v_cap numeric;
+  v_monthly_target numeric;
+  v_paid_in_closed numeric := 0;
+  v_version record;
+  v_version_paid numeric;
+  v_target_left numeric;
+  v_expected numeric;
+  v_expected_so_far numeric;
+  v_due date;
+  v_settled date;
+  v_days integer;
+  v_fee numeric;
+  v_total numeric := 0;
+  i integer;
+BEGIN
+  SELECT * INTO v_plan FROM public.installment_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- The plan's own policy, else the global one (see parseLateFeePolicy)
+  v_policy := CASE
+    WHEN jsonb_typeof(v_plan.late_fee_policy) = 'object' THEN v_plan.late_fee_policy
+    ELSE (SELECT value FROM public.app_settings WHERE key = 'late_fee_policy')
+  END;
+  IF jsonb_typeof(v_policy) IS DISTINCT FROM 'object' THEN
+    RETURN 0;
+  END IF;
+
+  v_grace := CASE WHEN jsonb_typeof(v_policy -> 'grace_days') = 'number' THEN GREATEST(0, floor((v_policy ->> 'grace_days')::numeric)) ELSE 0 END;
+  v_percentage := v_policy ->> 'penalty_type' = 'percentage';
+  v_value := CASE WHEN jsonb_typeof(v_policy -> 'penalty_value') = 'number' THEN GREATEST(0, (v_policy ->> 'penalty_value')::numeric) ELSE 0 END;
+  v_per_day := CASE WHEN jsonb_typeof(v_policy -> 'per_day_amount') = 'number' THEN GREATEST(0, (v_policy ->> 'per_day_amount')::numeric) ELSE 0 END;
+  v_cap := CASE WHEN jsonb_typeof(v_policy -> 'cap') = 'number' AND (v_policy ->> 'cap')::numeric > 0 THEN (v_policy ->> 'cap')::numeric END;
+
+  IF v_value <= 0 AND v_per_day <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- What the monthly schedules must cover: the price less collected advance and discounts
+  SELECT GREATEST(0, v_plan.total_price
+    - COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+    - COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'discount')), 0))
+  INTO v_monthly_target
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  -- Closed versions oldest first, then the schedule in force
+  FOR v_version IN
+    SELECT
+      (h ->> 'version')::integer AS version,
+      (h ->> 'start_date')::date AS start_date,
+      (h ->> 'monthly_installment')::numeric AS monthly_installment,
+      (h ->> 'duration_months')::integer AS duration_months,
+      (h ->> 'closed_on')::date AS closed_on,
+      (h ->> 'carried_balance')::numeric AS carried_balance
+    FROM jsonb_array_elements(COALESCE(v_plan.schedule_history, '[]'::jsonb)) AS h
+    UNION ALL
+    SELECT
+      v_plan.schedule_version,
+      COALESCE(v_plan.schedule_start_date, v_plan.agreement_date::date, v_plan.created_at::date),
+      v_plan.monthly_installment,
+      v_plan.duration_months,
+      NULL::date,
+      NULL::numeric
+    ORDER BY 1
+  LOOP
+    SELECT COALESCE(SUM(amount_paid), 0)
+    INTO v_version_paid
+    FROM public.installment_payments
+    WHERE installment_plan_id = v_plan.id
+      AND payment_type = 'monthly'
+      AND voided_at IS NULL
+      AND reversal_of IS NULL
+      AND COALESCE(schedule_version, v_plan.schedule_version) = v_version.version;
+
+    v_target_left := CASE
+      WHEN v_version.closed_on IS NOT NULL THEN v_version_paid + v_version.carried_balance
+      ELSE GREATEST(0, v_monthly_target - v_paid_in_closed)
+    END;
+    v_expected_so_far := 0;
+
+    FOR i IN 1..v_version.duration_months LOOP
+      IF i = v_version.duration_months THEN
+        v_expected := GREATEST(0, round(v_target_left));
+      ELSE
+        v_expected := round(LEAST(v_version.monthly_installment, GREATEST(0, v_target_left)));
+      END IF;
+      v_target_left := v_target_left - v_expected;
+      v_expected_so_far := v_expected_so_far + v_expected;
+
+      CONTINUE WHEN v_expected <= 0;
+
+      -- Settled on the date of the monthly payment that completed it in the waterfall; an unpaid
+      -- installment accrues until its version was closed, or until p_as_of
+      v_due := (v_version.start_date + make_interval(months => i))::date;
+      SELECT payment_date INTO v_settled
+      FROM (
+        SELECT payment_date,
+               SUM(amount_paid) OVER (ORDER BY payment_date, created_at ROWS UNBOUNDED PRECEDING) AS paid_so_far
+        FROM public.installment_payments
+        WHERE installment_plan_id = v_plan.id
+          AND payment_type = 'monthly'
+          AND voided_at IS NULL
+          AND reversal_of IS NULL
+          AND COALESCE(schedule_version, v_plan.schedule_version) = v_version.version
+      ) replay
+      WHERE paid_so_far >= v_expected_so_far
+      ORDER BY paid_so_far
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        v_settled := COALESCE(v_version.closed_on, p_as_of);
+      END IF;
+
+      -- calculateLateFee
+      v_days := v_settled - v_due;
+      CONTINUE WHEN v_days <= v_grace;
+
+      v_fee := round(CASE WHEN v_percentage THEN v_expected * v_value / 100 ELSE v_value END + v_per_day * (v_days - v_grace));
+      v_total := v_total + CASE WHEN v_cap IS NOT NULL THEN LEAST(v_fee, v_cap) ELSE v_fee END;
+    END LOOP;
+
+    IF v_version.closed_on IS NOT NULL THEN
+      v_paid_in_closed := v_paid_in_closed + v_version_paid;
+    END IF;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.plan_late_fees_charged(uuid, date) FROM PUBLIC;
+
+-- 2) Largest rebate the settlement policy allows on a plan settled on p_settlement_date: rebate_percent
+--    of the unearned markup (the markup's share of the installments not yet due), capped at
+--    max_rebate and at the outstanding balance. No rebate without a known purchase price.
+CREATE OR REPLACE FUNCTION public.plan_settlement_rebate(p_plan_id uuid, p_settlement_date date)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_policy jsonb;
+  v_percent numeric;
+  v_max numeric;
+  v_purchase_price numeric;
+  v_collected_advance numeric;
+  v_paid numeric;
+  v_discount numeric;
+  v_current_paid numeric;
+  v_target_left numeric;
+  v_expected numeric;
+  v_not_yet_due numeric := 0;
+  v_unearned numeric;
+  v_rebate numeric;
+  v_start date;
+  i integer;
+BEGIN
+  SELECT * INTO v_plan FROM public.installment_plans WHERE id = p_plan_id;
+  IF NOT FOUND OR v_plan.total_price <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- parseSettlementPolicy
+  SELECT value INTO v_policy FROM public.app_settings WHERE key = 'settlement_policy';
+  v_percent := CASE WHEN jsonb_typeof(v_policy -> 'rebate_percent') = 'number' THEN LEAST(100, GREATEST(0, (v_policy ->> 'rebate_percent')::numeric)) ELSE 0 END;
+  v_max := CASE WHEN jsonb_typeof(v_policy -> 'max_rebate') = 'number' THEN GREATEST(0, (v_policy ->> 'max_rebate')::numeric) ELSE 0 END;
+
+  SELECT purchase_price INTO v_purchase_price FROM public.rikshaws WHERE id = v_plan.rikshaw_id;
+  IF v_percent <= 0 OR COALESCE(v_purchase_price, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'advance_adjustment'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'discount'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'monthly'
+      AND COALESCE(schedule_version, v_plan.schedule_version) = v_plan.schedule_version), 0)
+  INTO v_collected_advance, v_paid, v_discount, v_current_paid
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  -- Installments of the schedule in force falling due after the settlement date, less what the
+  -- waterfall already covered (closed versions have nothing left to fall due)
+  v_target_left := GREATEST(0, v_plan.total_price - v_collected_advance - v_discount - (v_paid - v_current_paid));
+  v_start := COALESCE(v_plan.schedule_start_date, v_plan.agreement_date::date, v_plan.created_at::date);
+
+  FOR i IN 1..v_plan.duration_months LOOP
+    IF i = v_plan.duration_months THEN
+      v_expected := GREATEST(0, round(v_target_left));
+    ELSE
+      v_expected := round(LEAST(v_plan.monthly_installment, GREATEST(0, v_target_left)));
+    END IF;
+    v_target_left := v_target_left - v_expected;
+
+    IF (v_start + make_interval(months => i))::date > p_settlement_date THEN
+      v_not_yet_due := v_not_yet_due + v_expected - LEAST(v_expected, v_current_paid);
+    END IF;
+    v_current_paid := GREATEST(0, v_current_paid - v_expected);
+  END LOOP;
+
+  v_unearned := round(GREATEST(0, v_plan.total_price - v_purchase_price) * v_not_yet_due / v_plan.total_price);
+  v_rebate := round(v_unearned * v_percent / 100);
+  IF v_max > 0 THEN
+    v_rebate := LEAST(v_rebate, v_max);
+  END IF;
+
+  RETURN LEAST(v_rebate, floor(GREATEST(0, v_plan.total_price - v_collected_advance - v_paid - v_discount)));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.plan_settlement_rebate(uuid, date) FROM PUBLIC;
+
+-- 3) Quotations cannot be issued with a larger rebate than the policy allows
+CREATE OR REPLACE FUNCTION public.check_settlement_quotation_rebate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.rebate_amount - public.plan_settlement_rebate(NEW.installment_plan_id, NEW.settlement_date) >= 1 THEN
+    RAISE EXCEPTION 'The rebate is more than the settlement policy allows'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_settlement_quotation_rebate ON public.settlement_quotations;
+CREATE TRIGGER check_settlement_quotation_rebate
+  BEFORE INSERT ON public.settlement_quotations
+  FOR EACH ROW EXECUTE FUNCTION public.check_settlement_quotation_rebate();
+
+-- 4) accept_settlement also checks the quoted late fees, commission and rebate. Same as in
+--    20261019122000_early_settlement.sql otherwise.
+CREATE OR REPLACE FUNCTION public.accept_settlement(
+  p_quotation_id uuid,
+  p_received_by text
+)
+RETURNS SETOF public.installment_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.settlement_quotations%ROWTYPE;
+  v_plan public.installment_plans%ROWTYPE;
+  v_total_agreed_advance numeric;
+  v_collected_advance numeric;
+  v_paid numeric;
+  v_principal numeric;
+  v_advance_part numeric;
+  v_penalty_settled numeric;
+  v_commission_paid numeric;
+  v_remarks text;
+BEGIN
+  IF NOT public.has_role('admin', 'manager') THEN
+    RAISE EXCEPTION 'Only admins and managers can accept a settlement'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Received by is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_quote
+  FROM public.settlement_quotations
+  WHERE id = p_quotation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_quote.status <> 'open' THEN
+    RAISE EXCEPTION 'This quotation is already %', v_quote.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF CURRENT_DATE > v_quote.valid_until THEN
+    RAISE EXCEPTION 'This quotation expired on %', to_char(v_quote.valid_until, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Payments are dated the settlement date, which must not lie in the future
+  IF CURRENT_DATE < v_quote.settlement_date THEN
+    RAISE EXCEPTION 'This quotation is payable from %', to_char(v_quote.settlement_date, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialises with record_payment, void_payment and reschedule_plan on the same plan
+  SELECT * INTO v_plan
+  FROM public.installment_plans
+  WHERE id = v_quote.installment_plan_id
+  FOR UPDATE;
+
+  IF v_plan.settled_on IS NOT NULL THEN
+    RAISE EXCEPTION 'This plan was already settled on %', to_char(v_plan.settled_on, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Same position as computeInstallmentLedger (customerDebt); the quotation must still match it
+  SELECT COALESCE(SUM((chunk ->> 'amount')::numeric), 0)
+  INTO v_total_agreed_advance
+  FROM jsonb_array_elements(COALESCE(v_plan.advance_payments, '[]'::jsonb)) AS chunk;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'advance_adjustment'), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('monthly', 'discount')), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('penalty', 'penalty_waiver')), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type = 'commission'), 0)
+  INTO v_collected_advance, v_paid, v_penalty_settled, v_commission_paid
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  IF abs(v_plan.total_price - v_collected_advance - v_paid - v_quote.outstanding_balance) >= 1 THEN
+    RAISE EXCEPTION 'Payments on this plan changed after the quotation was issued; issue a new quotation'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Late fees accrued to the settlement date and bounce charges (outstandingPenalty), and commission
+  IF abs(GREATEST(0, public.plan_late_fees_charged(v_plan.id, v_quote.settlement_date)
+           + COALESCE(v_plan.bounce_charges, 0) - v_penalty_settled) - v_quote.penalty_due) >= 1
+     OR abs(GREATEST(0, COALESCE(v_plan.showroom_commission, 0) - v_commission_paid) - v_quote.commission_due) >= 1 THEN
+    RAISE EXCEPTION 'Late fees or commission on this plan changed after the quotation was issued; issue a new quotation'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_quote.rebate_amount - public.plan_settlement_rebate(v_plan.id, v_quote.settlement_date) >= 1 THEN
+    RAISE EXCEPTION 'The rebate on this quotation is more than the settlement policy allows; issue a new quotation'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_remarks := 'Early settlement ' || upper(left(v_quote.id::text, 8));
+  PERFORM set_config('app.audit_reason', v_remarks, true);
+
+  IF v_quote.penalty_due > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_quote.penalty_due, btrim(p_received_by), 'penalty', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  IF v_quote.commission_due > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_quote.commission_due, btrim(p_received_by), 'commission', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  -- The balance less the rebate: pending agreed advance first, the rest against the monthly schedule
+  v_principal := v_quote.outstanding_balance - v_quote.rebate_amount;
+  v_advance_part := LEAST(v_principal, GREATEST(0, v_total_agreed_advance - v_collected_advance));
+
+  IF v_advance_part > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_advance_part, btrim(p_received_by), 'advance_adjustment', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  IF v_principal - v_advance_part > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_principal - v_advance_part, btrim(p_received_by), 'monthly', v_remarks)
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  IF v_quote.rebate_amount > 0 THEN
+    RETURN QUERY
+      WITH inserted AS (
+        INSERT INTO public.installment_payments (installment_plan_id, payment_date, amount_paid, received_by, payment_type, remarks)
+        VALUES (v_plan.id, v_quote.settlement_date, v_quote.rebate_amount, btrim(p_received_by), 'discount', v_remarks || ' rebate')
+        RETURNING *
+      )
+      SELECT * FROM inserted;
+  END IF;
+
+  UPDATE public.settlement_quotations
+  SET status = 'accepted',
+      accepted_at = now(),
+      accepted_by_email = auth.jwt() ->> 'email'
+  WHERE id = v_quote.id;
+
+  -- Other open quotations of the plan can no longer be accepted
+  UPDATE public.settlement_quotations
+  SET status = 'cancelled'
+  WHERE installment_plan_id = v_plan.id
+    AND status = 'open';
+
+  UPDATE public.installment_plans
+  SET settled_on = v_quote.settlement_date,
+      settlement_quotation_id = v_quote.id,
+      is_commission_paid = is_commission_paid OR v_quote.commission_due > 0
+  WHERE id = v_plan.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.accept_settlement(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.accept_settlement(uuid, text) TO authenticated;
@@ -0,0 +1,50 @@
+-- A repossessed unit resold on installments records the new plan's total price as its resale price:
+-- the price contracted with the buyer, markup included, not cash received. The shortfall or surplus
+-- of such a resale is measured against that contracted price. resale_on_installments tells these
+-- resales apart from cash sales so the reports can label the figure.
+--
+-- record_repossession_resale() is the same as in 20261019123000_repossessions.sql otherwise.
+
+ALTER TABLE public.repossessions
+  ADD COLUMN IF NOT EXISTS resale_on_installments boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.repossessions.resale_price IS
+  'Sale price when the unit was sold again; for a resale on installments the contracted total price of the new plan';
+
+CREATE OR REPLACE FUNCTION public.record_repossession_resale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.availability = 'sold' AND OLD.availability <> 'sold' THEN
+    -- sell_rikshaw creates the buyer's plan before marking the unit sold
+    UPDATE public.repossessions r
+    SET resale_price = COALESCE(NEW.sale_price, 0),
+        resold_on = CURRENT_DATE,
+        resale_on_installments = EXISTS (
+          SELECT 1
+          FROM public.installment_plans p
+          WHERE p.rikshaw_id = NEW.id
+            AND p.id <> r.installment_plan_id
+            AND p.created_at > r.created_at
+        )
+    WHERE r.rikshaw_id = NEW.id
+      AND r.resold_on IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Resales recorded so far
+UPDATE public.repossessions r
+SET resale_on_installments = true
+WHERE r.resold_on IS NOT NULL
+  AND EXISTS (
+    SELECT 1
+    FROM public.installment_plans p
+    WHERE p.rikshaw_id = r.rikshaw_id
+      AND p.id <> r.installment_plan_id
+      AND p.created_at > r.created_at
+  );
@@ -0,0 +1,250 @@
+-- A lapsed hold is now closed before a sale. sell_rikshaw ignored holds past their expiry date but
+-- left them 'active', so once the unit was sold a later expire_reservations() released it back to
+-- stock (an 'in_stock' event for a sold unit) and split the token as if the hold had run out
+-- unsold. sell_rikshaw now applies expire_reservations() first, and expire_reservations() leaves
+-- sold units alone.
+--
+-- Same as expire_reservations and sell_rikshaw in 20261019131000_reservations.sql otherwise.
+
+-- expire_reservations: applies the policy to holds past their expiry date on units still in stock
+CREATE OR REPLACE FUNCTION public.expire_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_forfeit_percent numeric;
+  v_count integer;
+BEGIN
+  SELECT LEAST(100, GREATEST(0, COALESCE((value ->> 'forfeit_percent')::numeric, 100)))
+  INTO v_forfeit_percent
+  FROM public.app_settings
+  WHERE key = 'reservation_policy';
+
+  v_forfeit_percent := COALESCE(v_forfeit_percent, 100);
+
+  WITH expired AS (
+    UPDATE public.reservations
+    SET status = 'expired',
+        released_on = expires_on + 1,
+        token_forfeited = round(token_amount * v_forfeit_percent / 100),
+        token_refunded = token_amount - round(token_amount * v_forfeit_percent / 100),
+        release_reason = 'Expired'
+    WHERE status = 'active'
+      AND expires_on < CURRENT_DATE
+      AND NOT EXISTS (
+        SELECT 1 FROM public.rikshaws r
+        WHERE r.id = reservations.rikshaw_id
+          AND r.availability = 'sold'
+      )
+    RETURNING *
+  )
+  INSERT INTO public.rikshaw_events (rikshaw_id, event_type, event_date, customer_id, notes)
+  SELECT rikshaw_id, 'in_stock', released_on, customer_id, 'Reservation expired'
+  FROM expired;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.expire_reservations() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_reservations() TO authenticated;
+-- sell_rikshaw: respects holds and converts the buyer's own reservation
+CREATE OR REPLACE FUNCTION public.sell_rikshaw(
+  p_customer_id uuid,
+  p_rikshaw_id uuid,
+  p_total_price numeric,
+  p_advance_payments jsonb,
+  p_monthly_installment numeric,
+  p_duration_months integer,
+  p_agreement_date date,
+  p_showroom_commission numeric DEFAULT 0,
+  p_is_commission_paid boolean DEFAULT false,
+  p_guarantor_ids uuid[] DEFAULT NULL
+)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_rikshaw public.rikshaws%ROWTYPE;
+  v_customer public.customers%ROWTYPE;
+  v_reservation public.reservations%ROWTYPE;
+  v_first_advance numeric;
+  v_plan public.installment_plans%ROWTYPE;
+  v_guarantor_id uuid;
+BEGIN
+  -- Close lapsed holds first so none is left active on the unit once it is sold
+  PERFORM public.expire_reservations();
+
+  -- 1) Lock the unit and make sure it is still available
+  SELECT * INTO v_rikshaw
+  FROM public.rikshaws
+  WHERE id = p_rikshaw_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rikshaw % not found', p_rikshaw_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_rikshaw.availability <> 'unsold' THEN
+    RAISE EXCEPTION 'Rikshaw % has already been sold', v_rikshaw.engine_number
+      USING ERRCODE = 'RK001',
+            DETAIL = format('rikshaw_id=%s availability=%s', v_rikshaw.id, v_rikshaw.availability);
+  END IF;
+
+  -- A hold that has not expired reserves the unit for its customer
+  SELECT * INTO v_reservation
+  FROM public.reservations
+  WHERE rikshaw_id = p_rikshaw_id
+    AND status = 'active'
+    AND expires_on >= CURRENT_DATE;
+
+  IF FOUND AND v_reservation.customer_id <> p_customer_id THEN
+    RAISE EXCEPTION 'Rikshaw % is reserved for another customer until %', v_rikshaw.engine_number, to_char(v_reservation.expires_on, 'DD Mon YYYY')
+      USING ERRCODE = 'RK002',
+            DETAIL = format('rikshaw_id=%s reservation_id=%s', v_rikshaw.id, v_reservation.id);
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM public.customers
+  WHERE id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- 2) Validate the plan terms (mirrors the checks in SellRickshaw.tsx)
+  IF jsonb_typeof(p_advance_payments) <> 'array' OR jsonb_array_length(p_advance_payments) = 0 THEN
+    RAISE EXCEPTION 'At least one advance payment is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Only the first advance chunk is collected at sale time; later chunks arrive as advance_adjustment payments
+  v_first_advance := COALESCE((p_advance_payments -> 0 ->> 'amount')::numeric, 0);
+
+  IF v_first_advance <= 0 THEN
+    RAISE EXCEPTION 'The first advance payment must be greater than 0'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_first_advance > p_total_price THEN
+    RAISE EXCEPTION 'Advance collected cannot exceed the total price'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- The token already paid is part of the first advance
+  IF v_reservation.id IS NOT NULL AND v_first_advance < v_reservation.token_amount THEN
+    RAISE EXCEPTION 'The first advance cannot be less than the token of Rs % already paid', v_reservation.token_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(p_showroom_commission, 0) < 0 THEN
+    RAISE EXCEPTION 'Showroom commission cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- 3) Create the plan
+  INSERT INTO public.installment_plans (
+    customer_id,
+    rikshaw_id,
+    total_price,
+    advance_paid,
+    advance_payments,
+    monthly_installment,
+    duration_months,
+    agreement_date,
+    showroom_commission,
+    is_commission_paid,
+    guarantor_name,
+    guarantor_cnic,
+    guarantor_phone,
+    guarantor_address,
+    bank_name,
+    cheque_number,
+    rikshaw_details
+  )
+  VALUES (
+    p_customer_id,
+    p_rikshaw_id,
+    p_total_price,
+    v_first_advance,
+    p_advance_payments,
+    p_monthly_installment,
+    p_duration_months,
+    COALESCE(p_agreement_date, CURRENT_DATE),
+    COALESCE(p_showroom_commission, 0),
+    COALESCE(p_is_commission_paid, false),
+    v_customer.guarantor_name,
+    v_customer.guarantor_cnic,
+    v_customer.guarantor_phone,
+    v_customer.guarantor_address,
+    v_customer.bank_name,
+    v_customer.cheque_number,
+    jsonb_build_object(
+      'manufacturer', v_rikshaw.manufacturer,
+      'model_name', v_rikshaw.model_name,
+      'engine_number', v_rikshaw.engine_number,
+      'chassis_number', v_rikshaw.chassis_number,
+      'registration_number', v_rikshaw.registration_number,
+      'type', v_rikshaw.type
+    )
+  )
+  RETURNING * INTO v_plan;
+
+  -- 4) Link the guarantors. Without an explicit choice, the guarantor on the customer record
+  --    (if any) is looked up by CNIC, created if new, and linked.
+  IF COALESCE(array_length(p_guarantor_ids, 1), 0) > 0 THEN
+    INSERT INTO public.plan_guarantors (plan_id, guarantor_id)
+    SELECT v_plan.id, g.id
+    FROM public.guarantors g
+    WHERE g.id = ANY (p_guarantor_ids)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'None of the selected guarantors exist'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSIF COALESCE(btrim(v_customer.guarantor_cnic), '') <> '' THEN
+    INSERT INTO public.guarantors (name, cnic, phone, address)
+    VALUES (
+      COALESCE(NULLIF(btrim(v_customer.guarantor_name), ''), 'Unknown'),
+      btrim(v_customer.guarantor_cnic),
+      v_customer.guarantor_phone,
+      v_customer.guarantor_address
+    )
+    ON CONFLICT (cnic) DO UPDATE SET cnic = EXCLUDED.cnic
+    RETURNING id INTO v_guarantor_id;
+
+    INSERT INTO public.plan_guarantors (plan_id, guarantor_id)
+    VALUES (v_plan.id, v_guarantor_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  -- 5) Convert the buyer's reservation; the token is now part of the advance
+  IF v_reservation.id IS NOT NULL THEN
+    UPDATE public.reservations
+    SET status = 'converted',
+        installment_plan_id = v_plan.id,
+        released_on = CURRENT_DATE,
+        token_forfeited = 0,
+        token_refunded = 0
+    WHERE id = v_reservation.id;
+  END IF;
+
+  -- 6) Mark the unit sold
+  UPDATE public.rikshaws
+  SET availability = 'sold',
+      sale_price = p_total_price
+  WHERE id = p_rikshaw_id;
+
+  RETURN v_plan;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean, uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sell_rikshaw(uuid, uuid, numeric, jsonb, numeric, integer, date, numeric, boolean, uuid[]) TO authenticated;
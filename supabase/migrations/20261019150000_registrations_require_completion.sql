@@ -0,0 +1,97 @@
+-- The NOC and the registration book are released only on a completed plan. The app checked this
+-- before issuing the NOC, but a direct update of registrations could set noc_issued_on or hand
+-- the book to the customer while the plan still owed money. number_noc() now refuses both unless
+-- the plan is fully paid: the price, and every late fee and bounce charge.
+--
+-- plan_fully_paid() is the completion test of return_security_cheques_on_completion(), which now
+-- uses it. Both trigger functions are the same as in 20261019132000_registrations.sql and
+-- 20261019141000_security_cheques_outstanding_charges.sql otherwise.
+
+-- 1) Completion: price paid (first advance, later advances, monthly and discounts) and late fees
+--    and bounce charges settled (outstandingPenalty in computeInstallmentLedger)
+CREATE OR REPLACE FUNCTION public.plan_fully_paid(p_plan_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans%ROWTYPE;
+  v_paid numeric;
+  v_penalty_settled numeric;
+BEGIN
+  SELECT * INTO v_plan FROM public.installment_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT
+    COALESCE((v_plan.advance_payments -> 0 ->> 'amount')::numeric, 0)
+      + COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('advance_adjustment', 'monthly', 'discount')), 0),
+    COALESCE(SUM(amount_paid) FILTER (WHERE payment_type IN ('penalty', 'penalty_waiver')), 0)
+  INTO v_paid, v_penalty_settled
+  FROM public.installment_payments
+  WHERE installment_plan_id = v_plan.id
+    AND voided_at IS NULL
+    AND reversal_of IS NULL;
+
+  RETURN v_plan.total_price - v_paid <= 0
+    AND public.plan_late_fees_charged(v_plan.id) + COALESCE(v_plan.bounce_charges, 0) - v_penalty_settled <= 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.plan_fully_paid(uuid) FROM PUBLIC;
+
+-- 2) NOC numbering, only once the plan is completed
+CREATE OR REPLACE FUNCTION public.number_noc()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF ((NEW.noc_issued_on IS NOT NULL AND OLD.noc_issued_on IS NULL)
+      OR (NEW.book_location = 'customer' AND OLD.book_location IS DISTINCT FROM 'customer'))
+     AND NOT public.plan_fully_paid(NEW.installment_plan_id) THEN
+    RAISE EXCEPTION 'The NOC and registration book are released only once the plan is fully paid, late fees included'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.noc_issued_on IS NOT NULL AND NEW.noc_number IS NULL THEN
+    NEW.noc_number := 'NOC-' || to_char(NEW.noc_issued_on, 'YYYY') || '-' || lpad(nextval('public.noc_number_seq')::text, 4, '0');
+  ELSIF NEW.noc_issued_on IS NULL THEN
+    NEW.noc_number := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS number_noc ON public.registrations;
+CREATE TRIGGER number_noc
+  BEFORE UPDATE OF noc_issued_on, book_location ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.number_noc();
+
+-- 3) Return held security cheques once the plan is completed
+CREATE OR REPLACE FUNCTION public.return_security_cheques_on_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.plan_fully_paid(NEW.installment_plan_id) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.plan_cheques
+  SET status = 'returned',
+      returned_on = CURRENT_DATE,
+      remarks = concat_ws(E'\n', NULLIF(remarks, ''), 'Returned automatically: plan fully paid')
+  WHERE installment_plan_id = NEW.installment_plan_id
+    AND kind = 'security'
+    AND status = 'held';
+
+  RETURN NULL;
+END;
+$$;